@@ -0,0 +1,21 @@
+import { NextResponse } from 'next/server';
+import { checkHealth } from '@/lib/health';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+export async function GET() {
+    try {
+        const report = await checkHealth();
+        return NextResponse.json(
+            { success: report.status !== 'down', ...report },
+            { status: report.status === 'down' ? 503 : 200, headers: { 'Cache-Control': 'no-store' } }
+        );
+    } catch (error) {
+        console.error('Error checking health:', error);
+        return NextResponse.json(
+            { error: 'Internal Server Error' },
+            { status: 500 }
+        );
+    }
+}
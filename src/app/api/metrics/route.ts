@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server';
+import { collectPrometheusMetrics, PROMETHEUS_CONTENT_TYPE } from '@/lib/prometheus';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+export async function GET() {
+    try {
+        const body = await collectPrometheusMetrics();
+        return new NextResponse(body, {
+            headers: {
+                'Content-Type': PROMETHEUS_CONTENT_TYPE,
+                'Cache-Control': 'no-store',
+            },
+        });
+    } catch (error) {
+        console.error('Error collecting Prometheus metrics:', error);
+        return NextResponse.json(
+            { error: 'Internal Server Error' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,18 @@
+import { NextResponse } from 'next/server';
+import { getBatch } from '@/lib/run-batches';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function GET(_: Request, context: RouteContext) {
+    try {
+        const { id } = await context.params;
+        const batch = await getBatch(id);
+        if (!batch) {
+            return NextResponse.json({ error: 'Batch nenalezen' }, { status: 404 });
+        }
+        return NextResponse.json({ batch });
+    } catch (error) {
+        console.error('Error loading pipeline batch:', error);
+        return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+    }
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { CreateBatchSchema, createBatch, listBatches, selectBatchSources } from '@/lib/run-batches';
+
+export async function GET(request: NextRequest) {
+    try {
+        const limit = Math.min(Math.max(parseInt(request.nextUrl.searchParams.get('limit') || '20', 10) || 20, 1), 100);
+        return NextResponse.json({ batches: await listBatches(limit) });
+    } catch (error) {
+        console.error('Error listing pipeline batches:', error);
+        return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+    }
+}
+
+export async function POST(request: Request) {
+    try {
+        const body = await request.json().catch(() => ({}));
+        const parsed = CreateBatchSchema.safeParse(body);
+        if (!parsed.success) {
+            return NextResponse.json({ error: 'Invalid input', details: parsed.error.format() }, { status: 400 });
+        }
+
+        // Preview: which sources the filter would run, without creating anything.
+        if (parsed.data.dry_run) {
+            const selection = await selectBatchSources(parsed.data.filter);
+            return NextResponse.json({ dry_run: true, ...selection });
+        }
+
+        const created = await createBatch(parsed.data);
+        if (!created) {
+            return NextResponse.json({ error: 'Filtru neodpovídá žádný aktivní zdroj bez rozpracovaného runu.' }, { status: 400 });
+        }
+
+        return NextResponse.json({ batch: created.batch, busy: created.selection.busy });
+    } catch (error) {
+        console.error('Error creating pipeline batch:', error);
+        return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+    }
+}
@@ -7,7 +7,7 @@ const RequestSchema = z.object({
     job_ids: z.array(z.string().min(1)).min(1).max(1000),
 });
 
-type StatusValue = 'pending' | 'processing' | 'completed' | 'failed' | 'unknown';
+type StatusValue = 'pending' | 'processing' | 'retrying' | 'completed' | 'failed' | 'canceled' | 'unknown';
 
 function normalizeStatus(value: string | undefined): StatusValue {
     const normalized = value?.trim().toLowerCase();
@@ -15,8 +15,10 @@ function normalizeStatus(value: string | undefined): StatusValue {
     if (
         normalized === 'pending'
         || normalized === 'processing'
+        || normalized === 'retrying'
         || normalized === 'completed'
         || normalized === 'failed'
+        || normalized === 'canceled'
     ) {
         return normalized;
     }
@@ -59,6 +61,7 @@ export async function POST(request: Request) {
                         min_text_chars: '',
                         ocr_addon: '',
                         manual: false,
+                        cancel_requested: false,
                     };
                 }
 
@@ -82,6 +85,7 @@ export async function POST(request: Request) {
                     min_text_chars: data.min_text_chars || '',
                     ocr_addon: data.ocr_addon || '',
                     manual: fromRedisBool(data.manual),
+                    cancel_requested: fromRedisBool(data.cancel_requested),
                 };
             }),
         );
@@ -89,8 +93,10 @@ export async function POST(request: Request) {
         const totals = {
             pending: 0,
             processing: 0,
+            retrying: 0,
             completed: 0,
             failed: 0,
+            canceled: 0,
             unknown: 0,
         };
 
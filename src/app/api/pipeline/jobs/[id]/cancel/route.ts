@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server';
+import { cancelJob } from '@/lib/job-cancel';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function POST(_: Request, context: RouteContext) {
+    try {
+        const { id } = await context.params;
+        const result = await cancelJob(id);
+
+        if (result.outcome === 'not_found') {
+            return NextResponse.json({ error: 'Job nenalezen' }, { status: 404 });
+        }
+        if (result.outcome === 'already_finished') {
+            return NextResponse.json({ error: 'Job je již dokončen a nelze ho zrušit.' }, { status: 409 });
+        }
+
+        return NextResponse.json({ success: true, ...result });
+    } catch (error) {
+        console.error('Error canceling pipeline job:', error);
+        return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+    }
+}
@@ -0,0 +1,49 @@
+import { NextResponse } from 'next/server';
+import { supabase } from '@/lib/supabase';
+import { cancelRunJobs } from '@/lib/job-cancel';
+
+type RouteContext = { params: Promise<{ id: string }> };
+const CANCELABLE_RUN_STATUSES = new Set(['pending', 'running']);
+
+export async function POST(_: Request, context: RouteContext) {
+    try {
+        const { id } = await context.params;
+
+        const { data: runData, error: runError } = await supabase
+            .from('ingestion_runs')
+            .select('id, status')
+            .eq('id', id)
+            .maybeSingle();
+
+        if (runError) {
+            return NextResponse.json({ error: runError.message }, { status: 500 });
+        }
+        if (!runData?.id) {
+            return NextResponse.json({ error: 'Run nenalezen' }, { status: 404 });
+        }
+
+        const runStatus = String(runData.status || '').toLowerCase();
+        if (!CANCELABLE_RUN_STATUSES.has(runStatus)) {
+            return NextResponse.json(
+                { error: 'Zrušit lze pouze nedokončené běhy (pending/running).' },
+                { status: 400 },
+            );
+        }
+
+        const now = new Date();
+        const { error: updateError } = await supabase
+            .from('ingestion_runs')
+            .update({ status: 'canceled', finished_at: now.toISOString(), updated_at: now.toISOString() })
+            .eq('id', id);
+
+        if (updateError) {
+            return NextResponse.json({ error: updateError.message }, { status: 500 });
+        }
+
+        const result = await cancelRunJobs(id, now);
+        return NextResponse.json({ success: true, ...result });
+    } catch (error) {
+        console.error('Error canceling pipeline run:', error);
+        return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+    }
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { buildRunReport, formatRunReportCsv, RUN_REPORT_FORMATS } from '@/lib/run-report';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+const ExportRunSchema = z.object({
+    format: z.enum(RUN_REPORT_FORMATS).default('json'),
+});
+
+export async function GET(request: NextRequest, context: RouteContext) {
+    try {
+        const { id } = await context.params;
+        const parsed = ExportRunSchema.safeParse({ format: request.nextUrl.searchParams.get('format') || undefined });
+        if (!parsed.success) {
+            return NextResponse.json(
+                { error: 'Invalid input', details: parsed.error.format() },
+                { status: 400 },
+            );
+        }
+
+        const report = await buildRunReport(id);
+        if (!report) {
+            return NextResponse.json({ error: 'Run nenalezen' }, { status: 404 });
+        }
+
+        const { format } = parsed.data;
+        const body = format === 'csv' ? formatRunReportCsv(report) : JSON.stringify(report, null, 2);
+        return new NextResponse(body, {
+            headers: {
+                'Content-Type': format === 'csv' ? 'text/csv; charset=utf-8' : 'application/json; charset=utf-8',
+                'Content-Disposition': `attachment; filename="run-${report.run.id}-report.${format}"`,
+                'Cache-Control': 'no-store',
+            },
+        });
+    } catch (error) {
+        console.error('Error exporting pipeline run:', error);
+        return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+    }
+}
@@ -0,0 +1,15 @@
+import { NextResponse } from 'next/server';
+import { listRunJobs } from '@/lib/run-orchestrator';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function GET(_: Request, context: RouteContext) {
+    try {
+        const { id } = await context.params;
+        const jobs = await listRunJobs(id);
+        return NextResponse.json({ jobs });
+    } catch (error) {
+        console.error('Error listing pipeline run jobs:', error);
+        return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+    }
+}
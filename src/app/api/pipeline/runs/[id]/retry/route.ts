@@ -0,0 +1,50 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { supabase } from '@/lib/supabase';
+import { RETRY_STAGES, retryFailedRunItems } from '@/lib/run-retry';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+const RetryRunSchema = z.object({
+    stage: z.enum(RETRY_STAGES),
+});
+
+export async function POST(request: Request, context: RouteContext) {
+    try {
+        const { id } = await context.params;
+        const body = await request.json().catch(() => ({}));
+        const parsed = RetryRunSchema.safeParse(body);
+        if (!parsed.success) {
+            return NextResponse.json({ error: 'Invalid input', details: parsed.error.format() }, { status: 400 });
+        }
+
+        const { data: runData, error: runError } = await supabase
+            .from('ingestion_runs')
+            .select('id, source_id, status')
+            .eq('id', id)
+            .maybeSingle();
+
+        if (runError) {
+            return NextResponse.json({ error: runError.message }, { status: 500 });
+        }
+        if (!runData?.id) {
+            return NextResponse.json({ error: 'Run nenalezen' }, { status: 404 });
+        }
+        if (String(runData.status || '').toLowerCase() === 'canceled') {
+            return NextResponse.json({ error: 'Zrušený run nelze opakovat.' }, { status: 400 });
+        }
+
+        const result = await retryFailedRunItems(
+            { id: String(runData.id), source_id: runData.source_id ? String(runData.source_id) : null },
+            parsed.data.stage,
+        );
+        if (result.items === 0) {
+            return NextResponse.json({ error: 'Run nemá v této fázi žádné selhané položky.' }, { status: 400 });
+        }
+
+        return NextResponse.json({ success: true, ...result });
+    } catch (error) {
+        console.error('Error retrying pipeline run items:', error);
+        return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+    }
+}
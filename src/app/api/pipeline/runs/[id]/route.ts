@@ -1,6 +1,7 @@
 import { NextResponse } from 'next/server';
 import { z } from 'zod';
 import { supabase } from '@/lib/supabase';
+import { cancelRunJobs } from '@/lib/job-cancel';
 
 type RouteContext = { params: Promise<{ id: string }> };
 const DELETABLE_RUN_STATUSES = new Set(['pending', 'running']);
@@ -172,6 +173,7 @@ export async function PATCH(request: Request, context: RouteContext) {
             }
             if (parsed.data.active_stage !== undefined) compatRun.active_stage = parsed.data.active_stage;
             if (parsed.data.error_message !== undefined) compatRun.error_message = parsed.data.error_message;
+            if (parsed.data.status === 'canceled') await cancelRunJobs(id);
             return NextResponse.json({ run: compatRun });
         }
 
@@ -179,6 +181,8 @@ export async function PATCH(request: Request, context: RouteContext) {
         if (!run.source_id) {
             run.source_id = await resolveSourceIdFromSourceUrl(toStringOrNull(run.source_url_id));
         }
+        // Marking a run canceled also pulls its queued jobs, so workers do not keep processing it.
+        if (parsed.data.status === 'canceled') await cancelRunJobs(id);
         return NextResponse.json({ run });
     } catch (error) {
         console.error('Error patching pipeline run:', error);
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { compareRuns, fetchDiffRuns, findPreviousRun } from '@/lib/run-diff';
+
+const CompareRunsSchema = z.object({
+    head: z.string().min(1, 'head is required'),
+    // Defaults to the previous run of the same source.
+    base: z.string().min(1).optional(),
+});
+
+export async function GET(request: NextRequest) {
+    try {
+        const sp = request.nextUrl.searchParams;
+        const parsed = CompareRunsSchema.safeParse({
+            head: sp.get('head') ?? undefined,
+            base: sp.get('base') || undefined,
+        });
+        if (!parsed.success) {
+            return NextResponse.json(
+                { error: 'Invalid input', details: parsed.error.format() },
+                { status: 400 },
+            );
+        }
+
+        const { head: headId, base: baseId } = parsed.data;
+        if (baseId === headId) {
+            return NextResponse.json({ error: 'Run nelze porovnat sám se sebou.' }, { status: 400 });
+        }
+
+        const runs = await fetchDiffRuns(baseId ? [baseId, headId] : [headId]);
+        const head = runs.find((run) => run.id === headId);
+        if (!head) {
+            return NextResponse.json({ error: 'Run nenalezen' }, { status: 404 });
+        }
+
+        const base = baseId ? runs.find((run) => run.id === baseId) ?? null : await findPreviousRun(head);
+        if (!base) {
+            return NextResponse.json(
+                { error: baseId ? 'Run nenalezen' : 'Pro tento source neexistuje předchozí run.' },
+                { status: 404 },
+            );
+        }
+        if (base.source_id !== head.source_id) {
+            return NextResponse.json({ error: 'Porovnat lze jen runy stejného source.' }, { status: 400 });
+        }
+
+        const diff = await compareRuns(base.id, head.id);
+        return NextResponse.json({ base, head, ...diff });
+    } catch (error) {
+        console.error('Error comparing pipeline runs:', error);
+        return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+    }
+}
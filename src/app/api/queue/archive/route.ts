@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabase } from '@/lib/supabase';
+
+// PostgREST `or` filters are comma/paren separated; strip them from free-text search.
+function sanitizeSearch(value: string): string {
+    return value.replace(/[,()*%]/g, ' ').trim();
+}
+
+export async function GET(request: NextRequest) {
+    try {
+        const sp = request.nextUrl.searchParams;
+        const search = sanitizeSearch(sp.get('q') || '');
+        const status = sp.get('status') || '';
+        const task = sp.get('task') || '';
+        const runId = sp.get('run_id') || '';
+        const sourceId = sp.get('source_id') || '';
+        const limit = Math.min(Math.max(parseInt(sp.get('limit') || '50', 10) || 50, 1), 200);
+        const offset = Math.max(parseInt(sp.get('offset') || '0', 10) || 0, 0);
+
+        let query = supabase
+            .from('queue_jobs_archive')
+            .select(
+                'id, job_id, task, status, run_id, source_id, source_url_id, document_id, worker, manual, attempts, max_attempts, error_message, error_history, created_at, started_at, completed_at, duration_ms, archived_at',
+                { count: 'exact' },
+            )
+            .order('completed_at', { ascending: false, nullsFirst: false })
+            .range(offset, offset + limit - 1);
+
+        if (status) query = query.eq('status', status);
+        if (task) query = query.eq('task', task);
+        if (runId) query = query.eq('run_id', runId);
+        if (sourceId) query = query.eq('source_id', sourceId);
+        if (search) {
+            query = query.or(`job_id.eq.${search},error_message.ilike.%${search}%,worker.ilike.%${search}%`);
+        }
+
+        const { data, error, count } = await query;
+        if (error) {
+            return NextResponse.json({ error: error.message }, { status: 500 });
+        }
+
+        return NextResponse.json({ jobs: data || [], total: count || 0 });
+    } catch (error) {
+        console.error('Error listing archived jobs:', error);
+        return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+    }
+}
@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { QUEUE_CONTROL_SCOPES, setQueueControl } from '@/lib/queue-control';
+
+const RequestSchema = z.object({
+    scope: z.enum(QUEUE_CONTROL_SCOPES),
+    action: z.enum(['pause', 'drain', 'resume']),
+});
+
+export async function POST(request: Request) {
+    try {
+        const body = await request.json();
+        const parsed = RequestSchema.safeParse(body);
+
+        if (!parsed.success) {
+            return NextResponse.json(
+                { error: 'Invalid input', details: parsed.error.format() },
+                { status: 400 },
+            );
+        }
+
+        const { scope, action } = parsed.data;
+        const mode = action === 'pause' ? 'paused' : action === 'drain' ? 'draining' : null;
+        await setQueueControl(scope, mode);
+
+        return NextResponse.json({ success: true, scope, mode: mode ?? 'running' });
+    } catch (error) {
+        console.error('Error updating queue control:', error);
+        return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+    }
+}
@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requeueDeadLetters } from '@/lib/dead-letter';
+
+const RequestSchema = z.union([
+    z.object({ job_ids: z.array(z.string().min(1)).min(1).max(1000) }),
+    z.object({ all: z.literal(true) }),
+]);
+
+export async function POST(request: Request) {
+    try {
+        const body = await request.json();
+        const parsed = RequestSchema.safeParse(body);
+
+        if (!parsed.success) {
+            return NextResponse.json(
+                { error: 'Invalid input', details: parsed.error.format() },
+                { status: 400 },
+            );
+        }
+
+        const targets = 'all' in parsed.data ? 'all' : parsed.data.job_ids;
+        const requeued = await requeueDeadLetters(targets);
+
+        return NextResponse.json({ success: true, requeued });
+    } catch (error) {
+        console.error('Error requeuing dead-letter jobs:', error);
+        return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+    }
+}
@@ -0,0 +1,18 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { listDeadLetters } from '@/lib/dead-letter';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+    try {
+        const sp = request.nextUrl.searchParams;
+        const limit = Math.min(Math.max(parseInt(sp.get('limit') || '100', 10) || 100, 1), 500);
+        const offset = Math.max(parseInt(sp.get('offset') || '0', 10) || 0, 0);
+
+        const { total, entries } = await listDeadLetters(offset, limit);
+        return NextResponse.json({ success: true, total, entries });
+    } catch (error) {
+        console.error('Error listing dead-letter queue:', error);
+        return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+    }
+}
@@ -0,0 +1,103 @@
+import { redis } from '@/lib/redis';
+import { getReconcileMaxJobs, syncDirtyJobs } from '@/lib/job-index';
+import {
+    getLatestJobEventId,
+    JOB_EVENTS_KEY,
+    matchesJobEventFilter,
+    parseJobEvent,
+    parseJobEventFilter,
+} from '@/lib/job-events';
+
+const BLOCK_MS = 1000; // Also how often worker status writes (jobs:dirty) are turned into events
+const HEARTBEAT_MS = 15000;
+const BATCH_SIZE = 200;
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+/**
+ * SSE relay of the `job_events` stream, filtered by `job_id`, `run_id`, `source_id` and `task`.
+ * Resumes after `Last-Event-ID` (header, or `last_event_id` query for the first connect).
+ */
+export async function GET(request: Request) {
+    const encoder = new TextEncoder();
+    const signal = request.signal;
+    const url = new URL(request.url);
+    const filter = parseJobEventFilter(url.searchParams);
+    const resumeId = request.headers.get('last-event-id') || url.searchParams.get('last_event_id');
+
+    // XREAD BLOCK holds the connection, so each subscriber reads on its own one.
+    const reader = redis.duplicate();
+
+    const stream = new ReadableStream({
+        async start(controller) {
+            let closed = false;
+            let lastHeartbeat = Date.now();
+
+            const cleanup = () => {
+                if (closed) return;
+                closed = true;
+                clearTimeout(timeoutId);
+                reader.disconnect();
+                try {
+                    controller.close();
+                } catch {
+                    // Already closed, ignore
+                }
+            };
+
+            signal?.addEventListener('abort', cleanup);
+            const timeoutId = setTimeout(cleanup, 5 * 60 * 1000);
+
+            const write = (chunk: string) => {
+                if (closed) return;
+                try {
+                    controller.enqueue(encoder.encode(chunk));
+                } catch {
+                    cleanup();
+                }
+            };
+
+            try {
+                let lastId = resumeId || (await getLatestJobEventId());
+                write(': connected\n\n');
+
+                while (!closed) {
+                    await syncDirtyJobs(getReconcileMaxJobs());
+                    const response = await reader.xread('COUNT', BATCH_SIZE, 'BLOCK', BLOCK_MS, 'STREAMS', JOB_EVENTS_KEY, lastId);
+                    if (closed) break;
+
+                    for (const [, entries] of response ?? []) {
+                        for (const [id, fields] of entries) {
+                            lastId = id;
+                            const event = parseJobEvent(id, fields);
+                            if (!event || !matchesJobEventFilter(event, filter)) continue;
+                            write(`id: ${id}\ndata: ${JSON.stringify(event)}\n\n`);
+                            lastHeartbeat = Date.now();
+                        }
+                    }
+
+                    if (Date.now() - lastHeartbeat >= HEARTBEAT_MS) {
+                        write(': ping\n\n');
+                        lastHeartbeat = Date.now();
+                    }
+                }
+            } catch (err) {
+                if (!closed) {
+                    console.error('Job events stream error:', err);
+                    write(`data: ${JSON.stringify({ success: false, error: 'Failed to read job events' })}\n\n`);
+                }
+            } finally {
+                cleanup();
+            }
+        },
+    });
+
+    return new Response(stream, {
+        headers: {
+            'Content-Type': 'text/event-stream',
+            'Cache-Control': 'no-store, no-cache, must-revalidate',
+            Connection: 'keep-alive',
+        },
+    });
+}
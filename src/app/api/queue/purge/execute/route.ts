@@ -0,0 +1,54 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { executeQueuePurge } from '@/lib/queue-purge';
+import { consumeQueuePurgePreview } from '@/lib/queue-purge-preview-store';
+
+const PURGE_CONFIRMATION = 'PURGE JOBS';
+
+const RequestSchema = z.object({
+    preview_token: z.string().min(1),
+    confirmation: z.string().optional(),
+});
+
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: Request) {
+    try {
+        const body = await request.json();
+        const parsed = RequestSchema.safeParse(body);
+
+        if (!parsed.success) {
+            return NextResponse.json({ error: 'Invalid input', details: parsed.error.format() }, { status: 400 });
+        }
+
+        if (parsed.data.confirmation !== PURGE_CONFIRMATION) {
+            return NextResponse.json({ error: 'Confirmation string mismatch' }, { status: 400 });
+        }
+
+        const preview = consumeQueuePurgePreview(parsed.data.preview_token);
+        if (!preview) {
+            return NextResponse.json({ error: 'Preview token is missing, expired, or already used' }, { status: 400 });
+        }
+
+        const result = await executeQueuePurge(preview.jobIds);
+
+        console.info('queue purge execute', {
+            filter: preview.filter,
+            previewed: preview.jobIds.length,
+            ...result,
+        });
+
+        return NextResponse.json({
+            success: true,
+            filter: preview.filter,
+            previewed: preview.jobIds.length,
+            ...result,
+        });
+    } catch (error) {
+        console.error('queue purge execute failed', error);
+        return NextResponse.json(
+            { error: error instanceof Error ? error.message : 'Failed to execute purge' },
+            { status: 500 },
+        );
+    }
+}
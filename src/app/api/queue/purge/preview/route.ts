@@ -0,0 +1,53 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { resolveQueuePurge } from '@/lib/queue-purge';
+import { createQueuePurgePreview } from '@/lib/queue-purge-preview-store';
+
+const RequestSchema = z.object({
+    statuses: z.array(z.enum(['pending', 'retrying', 'completed', 'failed', 'canceled'])).optional(),
+    task: z.string().min(1).optional(),
+    source_id: z.string().min(1).optional(),
+    run_id: z.string().min(1).optional(),
+    older_than_hours: z.number().positive().max(24 * 365).optional(),
+});
+
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: Request) {
+    try {
+        const body = await request.json();
+        const parsed = RequestSchema.safeParse(body);
+
+        if (!parsed.success) {
+            return NextResponse.json({ error: 'Invalid input', details: parsed.error.format() }, { status: 400 });
+        }
+
+        const filter = parsed.data;
+        const hasFilter = (filter.statuses?.length ?? 0) > 0
+            || Boolean(filter.task || filter.source_id || filter.run_id || filter.older_than_hours);
+        if (!hasFilter) {
+            return NextResponse.json(
+                { error: 'At least one filter is required; use the full flush to clear everything' },
+                { status: 400 },
+            );
+        }
+
+        const { jobIds, summary } = await resolveQueuePurge(filter);
+        const { token, preview } = createQueuePurgePreview(filter, jobIds, summary);
+
+        return NextResponse.json({
+            success: true,
+            preview_token: token,
+            filter,
+            created_at: preview.createdAt,
+            expires_at: preview.expiresAt,
+            summary,
+        });
+    } catch (error) {
+        console.error('queue purge preview failed', error);
+        return NextResponse.json(
+            { error: error instanceof Error ? error.message : 'Failed to create purge preview' },
+            { status: 500 },
+        );
+    }
+}
@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getReaperConfig, listReaperLog, listWorkerHeartbeats } from '@/lib/job-reaper';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+    try {
+        const sp = request.nextUrl.searchParams;
+        const limit = Math.min(Math.max(parseInt(sp.get('limit') || '50', 10) || 50, 1), 200);
+
+        const [{ total, entries }, heartbeats] = await Promise.all([
+            listReaperLog(limit),
+            listWorkerHeartbeats(),
+        ]);
+        return NextResponse.json({ success: true, total, entries, heartbeats, config: getReaperConfig() });
+    } catch (error) {
+        console.error('Error listing reaper log:', error);
+        return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+    }
+}
@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server';
+import { rebuildJobIndex } from '@/lib/job-index';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+/**
+ * Rebuild the job indexes from the `job:*` hashes, e.g. after jobs were written
+ * by a worker that does not flag its status changes in `jobs:dirty`.
+ */
+export async function POST() {
+    try {
+        const result = await rebuildJobIndex();
+        if (!result.rebuilt) {
+            return NextResponse.json({ error: 'Reindex already running' }, { status: 409 });
+        }
+        return NextResponse.json({ success: true, ...result });
+    } catch (error) {
+        console.error('Error rebuilding job index:', error);
+        return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+    }
+}
@@ -0,0 +1,49 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { deleteSchedule, setSchedulePaused } from '@/lib/job-schedules';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+const PatchScheduleSchema = z.object({
+    paused: z.boolean(),
+});
+
+export async function PATCH(request: Request, context: RouteContext) {
+    try {
+        const { id } = await context.params;
+        const body = await request.json();
+        const parsed = PatchScheduleSchema.safeParse(body);
+
+        if (!parsed.success) {
+            return NextResponse.json(
+                { error: 'Invalid input', details: parsed.error.format() },
+                { status: 400 },
+            );
+        }
+
+        const schedule = await setSchedulePaused(id, parsed.data.paused);
+        if (!schedule) {
+            return NextResponse.json({ error: 'Schedule not found' }, { status: 404 });
+        }
+
+        return NextResponse.json({ success: true, schedule });
+    } catch (error) {
+        console.error('Error updating schedule:', error);
+        return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+    }
+}
+
+export async function DELETE(_: Request, context: RouteContext) {
+    try {
+        const { id } = await context.params;
+        const deleted = await deleteSchedule(id);
+        if (!deleted) {
+            return NextResponse.json({ error: 'Schedule not found' }, { status: 404 });
+        }
+
+        return NextResponse.json({ success: true, id });
+    } catch (error) {
+        console.error('Error deleting schedule:', error);
+        return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+    }
+}
@@ -0,0 +1,48 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { isValidCronExpression } from '@/lib/cron';
+import { createSchedule, listSchedules } from '@/lib/job-schedules';
+import { EnqueueJobSchema, validateEnqueueJob } from '@/lib/job-enqueue';
+
+const CreateScheduleSchema = EnqueueJobSchema.omit({ idempotency_key: true }).extend({
+    name: z.string().optional(),
+    cron: z.string().min(1, 'cron is required').refine(isValidCronExpression, 'Invalid cron expression'),
+});
+
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+    try {
+        const schedules = await listSchedules();
+        return NextResponse.json({ success: true, schedules });
+    } catch (error) {
+        console.error('Error listing schedules:', error);
+        return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+    }
+}
+
+export async function POST(request: Request) {
+    try {
+        const body = await request.json();
+        const parsed = CreateScheduleSchema.safeParse(body);
+
+        if (!parsed.success) {
+            return NextResponse.json(
+                { error: 'Invalid input', details: parsed.error.format() },
+                { status: 400 },
+            );
+        }
+
+        const taskError = validateEnqueueJob(parsed.data);
+        if (taskError) {
+            return NextResponse.json({ error: taskError }, { status: 400 });
+        }
+
+        const { cron, name, ...job } = parsed.data;
+        const schedule = await createSchedule({ cron, name, job });
+        return NextResponse.json({ success: true, schedule });
+    } catch (error) {
+        console.error('Error creating schedule:', error);
+        return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+    }
+}
@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server';
+import { runSchedulerTick } from '@/lib/scheduler-loop';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+/**
+ * Run one scheduler pass on demand, for deployments that drive
+ * the scheduler from an external cron instead of the in-process loop.
+ */
+export async function POST() {
+    try {
+        const results = await runSchedulerTick();
+        return NextResponse.json({ success: true, results });
+    } catch (error) {
+        console.error('Error running scheduler tick:', error);
+        return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+    }
+}
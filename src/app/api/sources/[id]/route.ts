@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { supabase } from '@/lib/supabase';
 import { findSourceDuplicate } from '@/lib/duplicate-precheck';
 import { validateSourcePayload } from '@/lib/source-config';
+import { publishSavedSourceRateLimits } from '@/lib/source-rate-limits';
 
 export async function GET(
     _request: NextRequest,
@@ -74,6 +75,7 @@ export async function PUT(
                 obec_id: payload.obec_id,
                 okres_id: payload.okres_id,
                 kraj_id: payload.kraj_id,
+                ...(payload.rate_limits !== undefined ? { rate_limits: payload.rate_limits } : {}),
                 workflow_data: body.workflow_data ?? null,
                 updated_at: now,
             })
@@ -89,6 +91,8 @@ export async function PUT(
             return NextResponse.json({ error: error.message }, { status: 500 });
         }
 
+        await publishSavedSourceRateLimits(data);
+
         return NextResponse.json({ source: data });
     } catch (error) {
         console.error('API error:', error);
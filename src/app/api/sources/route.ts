@@ -2,6 +2,7 @@ import { NextResponse } from 'next/server';
 import { supabase } from '@/lib/supabase';
 import { findSourceDuplicate } from '@/lib/duplicate-precheck';
 import { validateSourcePayload } from '@/lib/source-config';
+import { publishSavedSourceRateLimits } from '@/lib/source-rate-limits';
 
 function isDuplicateConstraintError(error: { code?: string; message?: string } | null): boolean {
     if (!error) return false;
@@ -91,6 +92,7 @@ export async function POST(request: Request) {
                     obec_id: payload.obec_id,
                     okres_id: payload.okres_id,
                     kraj_id: payload.kraj_id,
+                    ...(payload.rate_limits !== undefined ? { rate_limits: payload.rate_limits } : {}),
                     workflow_data: body.workflow_data ?? null,
                     updated_at: now,
                 },
@@ -109,6 +111,8 @@ export async function POST(request: Request) {
             );
         }
 
+        await publishSavedSourceRateLimits(source);
+
         await ensureSeedSourceUrl({
             sourceId: source.id,
             baseUrl: payload.base_url,
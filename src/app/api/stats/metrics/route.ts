@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getQueueMetrics, METRICS_RANGES } from '@/lib/queue-metrics';
+
+const MetricsQuerySchema = z.object({
+    range: z.enum(METRICS_RANGES).optional().default('hour'),
+    task: z.string().trim().min(1).optional(),
+});
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: Request) {
+    try {
+        const searchParams = new URL(request.url).searchParams;
+        const parsed = MetricsQuerySchema.safeParse({
+            range: searchParams.get('range') || undefined,
+            task: searchParams.get('task') || undefined,
+        });
+
+        if (!parsed.success) {
+            return NextResponse.json(
+                { error: 'Invalid query', details: parsed.error.format() },
+                { status: 400 }
+            );
+        }
+
+        const metrics = await getQueueMetrics(parsed.data.range, parsed.data.task ?? null);
+        return NextResponse.json({ success: true, ...metrics });
+    } catch (error) {
+        console.error('Error fetching queue metrics:', error);
+        return NextResponse.json(
+            { error: 'Internal Server Error' },
+            { status: 500 }
+        );
+    }
+}
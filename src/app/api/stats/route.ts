@@ -1,9 +1,9 @@
 import { NextResponse } from 'next/server';
-import { fetchQueueStats } from '@/lib/queue-stats';
+import { fetchQueueStats, parseJobListQuery } from '@/lib/queue-stats';
 
-export async function GET() {
+export async function GET(request: Request) {
     try {
-        const data = await fetchQueueStats();
+        const data = await fetchQueueStats(parseJobListQuery(new URL(request.url).searchParams));
         return NextResponse.json(data);
     } catch (error) {
         console.error('Error fetching stats:', error);
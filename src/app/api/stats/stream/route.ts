@@ -1,4 +1,4 @@
-import { fetchQueueStats } from '@/lib/queue-stats';
+import { fetchQueueStats, parseJobListQuery } from '@/lib/queue-stats';
 
 const INTERVAL_MS = 2000; // Send stats every 2 seconds
 
@@ -8,6 +8,7 @@ export const runtime = 'nodejs';
 export async function GET(request: Request) {
     const encoder = new TextEncoder();
     const signal = request.signal;
+    const query = parseJobListQuery(new URL(request.url).searchParams);
 
     const stream = new ReadableStream({
         async start(controller) {
@@ -17,7 +18,7 @@ export async function GET(request: Request) {
             const send = async () => {
                 if (closed) return;
                 try {
-                    const data = await fetchQueueStats();
+                    const data = await fetchQueueStats(query);
                     if (closed) return;
                     controller.enqueue(
                         encoder.encode(`data: ${JSON.stringify(data)}\n\n`)
@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server';
+import { retryJob } from '@/lib/dead-letter';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function POST(_: Request, context: RouteContext) {
+    try {
+        const { id } = await context.params;
+        const outcome = await retryJob(id);
+
+        if (outcome === 'not_found') {
+            return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+        }
+        if (outcome === 'not_finished') {
+            return NextResponse.json({ error: 'Only failed or canceled jobs can be retried' }, { status: 409 });
+        }
+
+        return NextResponse.json({ success: true, id, outcome });
+    } catch (error) {
+        console.error('Error retrying job:', error);
+        return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+    }
+}
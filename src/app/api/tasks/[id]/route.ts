@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server';
+import { getJobDetail } from '@/lib/job-detail';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function GET(_: Request, context: RouteContext) {
+    try {
+        const { id } = await context.params;
+        const detail = await getJobDetail(id);
+
+        if (!detail) {
+            return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+        }
+
+        return NextResponse.json({ success: true, ...detail });
+    } catch (error) {
+        console.error('Error fetching job detail:', error);
+        return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+    }
+}
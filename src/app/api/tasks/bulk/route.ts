@@ -0,0 +1,98 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { enqueueJobs, EnqueueJobSchema } from '@/lib/job-enqueue';
+import {
+    BULK_FORMATS,
+    BULK_MAX_ROWS,
+    buildBulkRows,
+    checkBulkTargets,
+    parseBulkRecords,
+} from '@/lib/bulk-enqueue';
+
+const BulkTaskSchema = z.object({
+    format: z.enum(BULK_FORMATS),
+    content: z.string().min(1).max(2_000_000),
+    defaults: EnqueueJobSchema.pick({ task: true, max_attempts: true, lang: true, psm: true, oem: true }),
+    // Preview only: validate every row without enqueueing anything
+    dry_run: z.boolean().optional().default(false),
+    idempotency_key: z.string().min(1).max(200).optional(),
+});
+
+export async function POST(request: Request) {
+    try {
+        const body = await request.json();
+        const parsed = BulkTaskSchema.safeParse(body);
+
+        if (!parsed.success) {
+            return NextResponse.json(
+                { error: 'Invalid input', details: parsed.error.format() },
+                { status: 400 }
+            );
+        }
+
+        const { format, content, defaults, dry_run, idempotency_key } = parsed.data;
+        const { records, error } = parseBulkRecords(content, format);
+        if (error) {
+            return NextResponse.json({ error }, { status: 400 });
+        }
+        if (records.length === 0) {
+            return NextResponse.json({ error: 'File has no rows' }, { status: 400 });
+        }
+        if (records.length > BULK_MAX_ROWS) {
+            return NextResponse.json(
+                { error: `File has ${records.length} rows, the limit is ${BULK_MAX_ROWS}` },
+                { status: 400 }
+            );
+        }
+
+        const rows = buildBulkRows(records, defaults);
+        await checkBulkTargets(rows);
+
+        const validRows = rows.filter((row) => row.errors.length === 0);
+        const summary = {
+            total: rows.length,
+            valid: validRows.length,
+            invalid: rows.length - validRows.length,
+            rows: rows.map((row) => ({
+                row: row.row,
+                task: row.job.task ?? null,
+                source_id: row.job.source_id ?? null,
+                source_url_id: row.job.source_url_id ?? null,
+                document_id: row.job.document_id ?? null,
+                errors: row.errors,
+            })),
+        };
+
+        if (dry_run) {
+            return NextResponse.json({ success: true, dry_run: true, ...summary });
+        }
+        if (validRows.length === 0) {
+            return NextResponse.json({ error: 'No valid rows to enqueue', ...summary }, { status: 400 });
+        }
+
+        // Keys follow the file row, so a retried upload maps onto the same jobs
+        const jobs = await enqueueJobs(
+            validRows.map((row) => ({
+                ...row.job,
+                idempotency_key: idempotency_key ? `${idempotency_key}:${row.row}` : undefined,
+            })),
+            { bulk: true },
+        );
+        const deduplicated = jobs.filter((job) => job.deduplicated).length;
+
+        return NextResponse.json({
+            success: true,
+            dry_run: false,
+            ...summary,
+            queued: jobs.length - deduplicated,
+            deduplicated,
+            job_ids: jobs.map((job) => job.id),
+        });
+    } catch (error) {
+        console.error('Error enqueueing bulk tasks:', error);
+        return NextResponse.json(
+            { error: 'Internal Server Error' },
+            { status: 500 }
+        );
+    }
+}
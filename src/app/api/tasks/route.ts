@@ -1,24 +1,20 @@
 import { NextResponse } from 'next/server';
 import { redis } from '@/lib/redis';
 import { z } from 'zod';
-import { toRedisBool } from '@/lib/redis-bool';
-
-const TaskSchema = z.object({
-    document_id: z.string().optional(),
-    source_id: z.string().optional(),
-    source_url_id: z.string().optional(),
-    task: z.string().min(1, 'Task type is required'),
-    max_attempts: z.number().int().default(3),
-    cron_time: z.string().optional(),
+import { isValidCronExpression } from '@/lib/cron';
+import { createSchedule } from '@/lib/job-schedules';
+import { DEAD_LETTER_KEY, DELAYED_QUEUE_KEY } from '@/lib/dead-letter';
+import { resetJobIndex } from '@/lib/job-index';
+import { clearIdempotencyKeys } from '@/lib/job-idempotency';
+import { EnqueueJobSchema, enqueueJobs, validateEnqueueJob } from '@/lib/job-enqueue';
+import { lanePopOrder } from '@/lib/queue-lanes';
+
+const TaskSchema = EnqueueJobSchema.extend({
+    cron_time: z.string().optional().refine(
+        (value) => !value || isValidCronExpression(value),
+        'Invalid cron expression',
+    ),
     count: z.number().int().min(1).max(1000).optional().default(1),
-    manual: z.boolean().optional().default(false),
-    // Scrapy-specific
-    method: z.string().optional(),
-    source_url: z.string().optional(),
-    // OCR-specific
-    ocr_language: z.string().optional(),
-    ocr_psm: z.number().int().min(0).max(13).optional(),
-    ocr_oem: z.number().int().min(0).max(3).optional(),
 });
 
 export async function POST(request: Request) {
@@ -33,120 +29,49 @@ export async function POST(request: Request) {
             );
         }
 
-        const {
-            document_id, source_id, source_url_id, task, max_attempts, cron_time, count,
-            method, source_url, ocr_language, ocr_psm, ocr_oem, manual,
-        } = result.data;
+        const { cron_time, count, idempotency_key, ...job } = result.data;
 
-        // Validate connection string availability
-        if (!process.env.REDIS_URL) {
-            // fallback is localhost in lib/redis but good to check connectivity if needed
+        const taskError = validateEnqueueJob(job);
+        if (taskError) {
+            return NextResponse.json({ error: taskError }, { status: 400 });
         }
 
-        // Generate new IDs
-        const startId = await redis.incrby('job_id_counter', count);
-        const firstId = startId - count + 1;
-
-        const now = new Date().toISOString();
-        const queueName = 'queue'; // Default queue name
+        // A cron_time turns the request into a recurring schedule instead of a one-off job
+        if (cron_time) {
+            if (count > 1) {
+                return NextResponse.json(
+                    { error: 'Bulk jobs cannot be scheduled' },
+                    { status: 400 }
+                );
+            }
 
-        // Use pipeline for atomic-like batch insertion
-        const pipeline = redis.pipeline();
+            const schedule = await createSchedule({ cron: cron_time, job });
 
-        const createdJobs: Array<{
-            id: number;
-            document_id: string;
-            source_id: string;
-            source_url_id: string;
-            status: string;
-            attempts: number;
-            max_attempts: number;
-            error_message: string;
-            created_at: string;
-            started_at: string;
-            completed_at: string;
-            worker: string;
-            task: string;
-            cron_time: string;
-            method: string;
-            source_url: string;
-            ocr_language: string;
-            ocr_psm: number | string;
-            ocr_oem: number | string;
-            manual: boolean;
-        }> = [];
-
-        for (let i = 0; i < count; i++) {
-            const id = firstId + i;
-            const jobData = {
-                id,
-                document_id: document_id || '',
-                source_id: source_id || '',
-                source_url_id: source_url_id || '',
-                status: 'pending',
-                attempts: 0,
-                max_attempts: max_attempts,
-                error_message: '',
-                created_at: now,
-                started_at: '',
-                completed_at: '',
-                worker: '',
-                task: task,
-                cron_time: cron_time || '',
-                method: method || '',
-                source_url: source_url || '',
-                ocr_language: ocr_language || '',
-                ocr_psm: ocr_psm ?? '',
-                ocr_oem: ocr_oem ?? '',
-                manual: toRedisBool(manual ?? false),
-            };
-
-            // Store hash
-            pipeline.hset(`job:${id}`, jobData);
-            // Add to queue
-            pipeline.rpush(queueName, id);
-
-            if (count === 1) {
-                createdJobs.push({
-                    id,
-                    document_id: document_id || '',
-                    source_id: source_id || '',
-                    source_url_id: source_url_id || '',
-                    status: 'pending',
-                    attempts: 0,
-                    max_attempts,
-                    error_message: '',
-                    created_at: now,
-                    started_at: '',
-                    completed_at: '',
-                    worker: '',
-                    task,
-                    cron_time: cron_time || '',
-                    method: method || '',
-                    source_url: source_url || '',
-                    ocr_language: ocr_language || '',
-                    ocr_psm: ocr_psm ?? '',
-                    ocr_oem: ocr_oem ?? '',
-                    manual: manual ?? false,
-                });
-            } else if (i === 0 || i === count - 1) {
-                // For large batches, strictly return first and last for verification to save bandwidth if needed, 
-                // but user wants to "test", so knowing it succeeded is enough. 
-                // Let's return the first job as a sample if batch.
-            }
+            return NextResponse.json({ success: true, schedule });
         }
 
-        await pipeline.exec();
+        // Bulk copies get their own key per index, so a retried request maps onto the same jobs
+        const jobs = await enqueueJobs(
+            Array.from({ length: count }, (_, i) => ({
+                ...job,
+                idempotency_key: idempotency_key && count > 1 ? `${idempotency_key}:${i}` : idempotency_key,
+            })),
+            { bulk: count > 1 },
+        );
+        const deduplicated = jobs.filter((created) => created.deduplicated).length;
 
         if (count === 1) {
-            return NextResponse.json({ success: true, job: createdJobs[0] });
+            return NextResponse.json({ success: true, job: jobs[0], deduplicated: deduplicated > 0 });
         }
 
         return NextResponse.json({
             success: true,
-            message: `Successfully queued ${count} tasks`,
-            first_job_id: firstId,
-            last_job_id: startId
+            message: deduplicated > 0
+                ? `Queued ${count - deduplicated} tasks, ${deduplicated} already existed`
+                : `Successfully queued ${count} tasks`,
+            first_job_id: jobs[0].id,
+            last_job_id: jobs[count - 1].id,
+            deduplicated,
         });
 
     } catch (error) {
@@ -160,8 +85,6 @@ export async function POST(request: Request) {
 
 export async function DELETE() {
     try {
-        const queueName = 'queue';
-
         // Get all job keys using SCAN to avoid blocking
         let cursor = '0';
         const jobKeys: string[] = [];
@@ -179,13 +102,19 @@ export async function DELETE() {
             pipeline.del(key);
         }
 
-        // Clear the queue list
-        pipeline.del(queueName);
+        // Clear every queue lane, pending retries and the dead-letter queue
+        for (const key of lanePopOrder()) {
+            pipeline.del(key);
+        }
+        pipeline.del(DELAYED_QUEUE_KEY);
+        pipeline.del(DEAD_LETTER_KEY);
 
         // Reset the job ID counter
         pipeline.set('job_id_counter', 0);
 
         await pipeline.exec();
+        await resetJobIndex();
+        await clearIdempotencyKeys();
 
         return NextResponse.json({
             success: true,
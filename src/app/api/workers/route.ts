@@ -0,0 +1,14 @@
+import { NextResponse } from 'next/server';
+import { listWorkers } from '@/lib/worker-registry';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+export async function GET() {
+    try {
+        return NextResponse.json(await listWorkers());
+    } catch (error) {
+        console.error('Error listing workers:', error);
+        return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+    }
+}
@@ -0,0 +1,9 @@
+import { JobArchive } from '@/components/archive/job-archive';
+
+export default function ArchivePage() {
+    return (
+        <main className="px-4 py-5 sm:px-6">
+            <JobArchive />
+        </main>
+    );
+}
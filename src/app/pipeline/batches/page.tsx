@@ -0,0 +1,9 @@
+import { BatchRuns } from '@/components/pipeline/batch-runs';
+
+export default function PipelineBatchesPage() {
+    return (
+        <main className="px-4 py-5 sm:px-6">
+            <BatchRuns />
+        </main>
+    );
+}
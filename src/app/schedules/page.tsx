@@ -0,0 +1,9 @@
+import { ScheduleList } from '@/components/schedules/schedule-list';
+
+export default function SchedulesPage() {
+    return (
+        <main className="px-4 py-5 sm:px-6">
+            <ScheduleList />
+        </main>
+    );
+}
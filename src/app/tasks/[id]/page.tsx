@@ -0,0 +1,10 @@
+import { JobDetail } from '@/components/job-detail/job-detail';
+
+export default async function JobDetailPage({ params }: { params: Promise<{ id: string }> }) {
+    const { id } = await params;
+    return (
+        <main className="px-4 py-5 sm:px-6">
+            <JobDetail id={id} />
+        </main>
+    );
+}
@@ -0,0 +1,301 @@
+'use client';
+
+import * as React from 'react';
+import Link from 'next/link';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ChevronDown, Loader2, RefreshCw, Search, XCircle } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface ArchivedJob {
+    id: number;
+    job_id: string;
+    task: string;
+    status: string;
+    run_id: string | null;
+    source_id: string | null;
+    source_url_id: string | null;
+    document_id: string | null;
+    worker: string | null;
+    manual: boolean;
+    attempts: number;
+    max_attempts: number | null;
+    error_message: string | null;
+    error_history: Array<{ attempt: number; error_message: string; failed_at: string; worker: string }> | null;
+    created_at: string | null;
+    started_at: string | null;
+    completed_at: string | null;
+    duration_ms: number | null;
+    archived_at: string;
+}
+
+const PAGE_SIZE = 50;
+const STATUS_OPTIONS = ['completed', 'failed', 'canceled'];
+const TASK_OPTIONS = ['discover', 'download', 'ocr'];
+
+function formatTime(value: string | null): string {
+    if (!value) return '—';
+    const d = new Date(value);
+    return isNaN(d.getTime()) ? '—' : d.toLocaleString();
+}
+
+function formatDuration(ms: number | null): string {
+    if (ms === null || ms === undefined) return '—';
+    if (ms < 1000) return `${ms} ms`;
+    if (ms < 60000) return `${(ms / 1000).toFixed(1)} s`;
+    return `${(ms / 60000).toFixed(1)} min`;
+}
+
+function statusDot(status: string): string {
+    switch (status) {
+        case 'completed': return 'bg-green-500';
+        case 'failed': return 'bg-red-500';
+        case 'canceled': return 'bg-zinc-400';
+        default: return 'bg-muted-foreground';
+    }
+}
+
+function describeTarget(job: ArchivedJob): string {
+    if (job.document_id) return `document #${job.document_id}`;
+    if (job.source_url_id) return `source URL #${job.source_url_id}`;
+    if (job.source_id) return `source #${job.source_id}`;
+    return '—';
+}
+
+export function JobArchive() {
+    const [jobs, setJobs] = React.useState<ArchivedJob[]>([]);
+    const [total, setTotal] = React.useState(0);
+    const [loading, setLoading] = React.useState(true);
+    const [error, setError] = React.useState<string | null>(null);
+    const [searchInput, setSearchInput] = React.useState('');
+    const [search, setSearch] = React.useState('');
+    const [status, setStatus] = React.useState('');
+    const [task, setTask] = React.useState('');
+    const [runId, setRunId] = React.useState('');
+    const [offset, setOffset] = React.useState(0);
+    const [expandedId, setExpandedId] = React.useState<number | null>(null);
+
+    const fetchArchive = React.useCallback(async () => {
+        try {
+            setLoading(true);
+            setError(null);
+            const params = new URLSearchParams({ offset: String(offset), limit: String(PAGE_SIZE) });
+            if (search) params.set('q', search);
+            if (status) params.set('status', status);
+            if (task) params.set('task', task);
+            if (runId) params.set('run_id', runId);
+
+            const response = await fetch(`/api/queue/archive?${params.toString()}`);
+            const data = await response.json().catch(() => ({}));
+            if (!response.ok) throw new Error(data.error || 'Failed to fetch archived jobs');
+            setJobs(data.jobs ?? []);
+            setTotal(data.total ?? 0);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'An error occurred');
+        } finally {
+            setLoading(false);
+        }
+    }, [offset, search, status, task, runId]);
+
+    React.useEffect(() => {
+        fetchArchive();
+    }, [fetchArchive]);
+
+    const applyFilter = (apply: () => void) => {
+        apply();
+        setOffset(0);
+    };
+
+    const handleSearchSubmit = (event: React.FormEvent) => {
+        event.preventDefault();
+        applyFilter(() => setSearch(searchInput.trim()));
+    };
+
+    return (
+        <div className="w-full max-w-6xl mx-auto space-y-6">
+            <div className="flex flex-wrap items-center justify-between gap-4">
+                <div>
+                    <h1 className="text-2xl font-bold tracking-tight">Job archive</h1>
+                    <p className="text-sm text-muted-foreground">Finished Redis jobs moved to Supabase by the retention policy</p>
+                </div>
+                <Button onClick={fetchArchive} variant="outline" size="sm" disabled={loading}>
+                    <RefreshCw className={`mr-2 h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+                    Refresh
+                </Button>
+            </div>
+
+            <Card>
+                <CardHeader>
+                    <CardTitle>Archived jobs</CardTitle>
+                    <CardDescription>Search by job ID, worker or error message ({total} total)</CardDescription>
+                    <div className="flex flex-wrap items-center gap-2 pt-2">
+                        <form onSubmit={handleSearchSubmit} className="flex items-center gap-2">
+                            <Input
+                                value={searchInput}
+                                onChange={(event) => setSearchInput(event.target.value)}
+                                placeholder="Job ID, worker, error…"
+                                className="h-8 w-56"
+                            />
+                            <Button type="submit" variant="outline" size="sm">
+                                <Search className="h-4 w-4" />
+                            </Button>
+                        </form>
+                        <Input
+                            value={runId}
+                            onChange={(event) => applyFilter(() => setRunId(event.target.value.trim()))}
+                            placeholder="Run ID"
+                            className="h-8 w-28"
+                        />
+                        <select
+                            value={status}
+                            onChange={(event) => applyFilter(() => setStatus(event.target.value))}
+                            className="h-8 rounded-md border border-input bg-background px-2 text-sm"
+                            aria-label="Filter by status"
+                        >
+                            <option value="">All statuses</option>
+                            {STATUS_OPTIONS.map((value) => <option key={value} value={value}>{value}</option>)}
+                        </select>
+                        <select
+                            value={task}
+                            onChange={(event) => applyFilter(() => setTask(event.target.value))}
+                            className="h-8 rounded-md border border-input bg-background px-2 text-sm"
+                            aria-label="Filter by task"
+                        >
+                            <option value="">All tasks</option>
+                            {TASK_OPTIONS.map((value) => <option key={value} value={value}>{value}</option>)}
+                        </select>
+                    </div>
+                </CardHeader>
+                <CardContent className="p-0">
+                    {error ? (
+                        <div className="flex flex-col items-center justify-center py-12 space-y-4">
+                            <XCircle className="h-12 w-12 text-red-500" />
+                            <p className="text-lg text-muted-foreground">{error}</p>
+                        </div>
+                    ) : (
+                        <div className="overflow-x-auto max-h-[65vh] overflow-y-auto">
+                            <table className="w-full text-sm">
+                                <thead className="sticky top-0 bg-muted/80 backdrop-blur supports-[backdrop-filter]:bg-muted/60 border-b">
+                                    <tr>
+                                        <th className="text-left font-medium p-3">Job</th>
+                                        <th className="text-left font-medium p-3">Task</th>
+                                        <th className="text-left font-medium p-3">Status</th>
+                                        <th className="text-left font-medium p-3">Run</th>
+                                        <th className="text-left font-medium p-3">Target</th>
+                                        <th className="text-left font-medium p-3">Completed</th>
+                                        <th className="text-left font-medium p-3">Duration</th>
+                                        <th className="text-left font-medium p-3">Attempts</th>
+                                        <th className="text-left font-medium p-3">Error</th>
+                                        <th className="p-3 w-8" />
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {loading && jobs.length === 0 ? (
+                                        <tr>
+                                            <td colSpan={10} className="p-6 text-center text-muted-foreground">
+                                                <Loader2 className="inline h-4 w-4 animate-spin" />
+                                            </td>
+                                        </tr>
+                                    ) : jobs.length === 0 ? (
+                                        <tr>
+                                            <td colSpan={10} className="p-6 text-center text-muted-foreground">
+                                                No archived jobs
+                                            </td>
+                                        </tr>
+                                    ) : (
+                                        jobs.map((job) => (
+                                            <React.Fragment key={job.id}>
+                                                <tr className="border-b border-border/50 hover:bg-muted/30">
+                                                    <td className="p-3 font-mono text-xs">
+                                                        <Link href={`/tasks/${job.job_id}`} className="hover:underline">{job.job_id}</Link>
+                                                    </td>
+                                                    <td className="p-3">{job.task}</td>
+                                                    <td className="p-3">
+                                                        <span className="inline-flex items-center gap-1.5 capitalize">
+                                                            <span className={`h-1.5 w-1.5 rounded-full shrink-0 ${statusDot(job.status)}`} />
+                                                            {job.status}
+                                                        </span>
+                                                    </td>
+                                                    <td className="p-3 font-mono text-xs">{job.run_id || '—'}</td>
+                                                    <td className="p-3 text-muted-foreground">{describeTarget(job)}</td>
+                                                    <td className="p-3 text-muted-foreground">{formatTime(job.completed_at)}</td>
+                                                    <td className="p-3 text-muted-foreground">{formatDuration(job.duration_ms)}</td>
+                                                    <td className="p-3 tabular-nums">
+                                                        {job.attempts}{job.max_attempts ? `/${job.max_attempts}` : ''}
+                                                    </td>
+                                                    <td className="p-3 max-w-[220px] truncate text-rose-600 dark:text-rose-400" title={job.error_message ?? ''}>
+                                                        {job.error_message || '—'}
+                                                    </td>
+                                                    <td className="p-3">
+                                                        <button
+                                                            type="button"
+                                                            onClick={() => setExpandedId(expandedId === job.id ? null : job.id)}
+                                                            className="text-muted-foreground hover:text-foreground"
+                                                            title="Details"
+                                                        >
+                                                            <ChevronDown className={cn('h-4 w-4 transition-transform', expandedId === job.id && 'rotate-180')} />
+                                                        </button>
+                                                    </td>
+                                                </tr>
+                                                {expandedId === job.id && (
+                                                    <tr className="border-b border-border/50 bg-muted/20">
+                                                        <td colSpan={10} className="p-3 text-xs space-y-2">
+                                                            <div className="flex flex-wrap gap-x-6 gap-y-1 text-muted-foreground">
+                                                                <span>Created: {formatTime(job.created_at)}</span>
+                                                                <span>Started: {formatTime(job.started_at)}</span>
+                                                                <span>Archived: {formatTime(job.archived_at)}</span>
+                                                                <span>Worker: {job.worker || '—'}</span>
+                                                                <span>Manual: {job.manual ? 'yes' : 'no'}</span>
+                                                            </div>
+                                                            {job.error_history && job.error_history.length > 0 && (
+                                                                <ol className="space-y-1">
+                                                                    {job.error_history.map((attempt, index) => (
+                                                                        <li key={index} className="flex gap-3">
+                                                                            <span className="w-16 shrink-0 font-medium">#{attempt.attempt}</span>
+                                                                            <span className="w-44 shrink-0 text-muted-foreground">{formatTime(attempt.failed_at)}</span>
+                                                                            <span className="text-rose-600 dark:text-rose-400 break-all">{attempt.error_message || '—'}</span>
+                                                                        </li>
+                                                                    ))}
+                                                                </ol>
+                                                            )}
+                                                        </td>
+                                                    </tr>
+                                                )}
+                                            </React.Fragment>
+                                        ))
+                                    )}
+                                </tbody>
+                            </table>
+                        </div>
+                    )}
+                    {total > 0 && (
+                        <div className="flex items-center justify-between gap-3 border-t px-3 py-2 text-xs text-muted-foreground">
+                            <span className="tabular-nums">
+                                {offset + 1}–{Math.min(offset + jobs.length, total)} of {total}
+                            </span>
+                            <div className="flex items-center gap-2">
+                                <Button
+                                    variant="outline"
+                                    size="sm"
+                                    disabled={offset === 0 || loading}
+                                    onClick={() => setOffset((value) => Math.max(0, value - PAGE_SIZE))}
+                                >
+                                    Previous
+                                </Button>
+                                <Button
+                                    variant="outline"
+                                    size="sm"
+                                    disabled={offset + PAGE_SIZE >= total || loading}
+                                    onClick={() => setOffset((value) => value + PAGE_SIZE)}
+                                >
+                                    Next
+                                </Button>
+                            </div>
+                        </div>
+                    )}
+                </CardContent>
+            </Card>
+        </div>
+    );
+}
@@ -9,7 +9,7 @@ export function DashboardOverview() {
 
     React.useEffect(() => {
         let cancelled = false;
-        fetch('/api/stats')
+        fetch('/api/stats?limit=1')
             .then((r) => (r.ok ? r.json() : null))
             .then((data) => {
                 if (!cancelled && data?.success) {
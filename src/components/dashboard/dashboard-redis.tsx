@@ -1,10 +1,17 @@
 'use client';
 
 import * as React from 'react';
+import Link from 'next/link';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { toast } from 'sonner';
 import { RefreshCw, XCircle, Loader2, Trash2 } from 'lucide-react';
+import { DeadLetterPanel } from './dead-letter-panel';
+import { QueuePurgePanel } from './queue-purge-panel';
+import { ReaperPanel } from './reaper-panel';
+import { QueueLanesPanel, type QueueLane } from './queue-lanes-panel';
+import { QueueControlPanel, type QueueControl } from './queue-control-panel';
+import { QueueMetricsPanel } from './queue-metrics-panel';
 
 interface WorkerStats {
     total: number;
@@ -21,6 +28,8 @@ interface Stats {
     processing: number;
     completed: number;
     failed: number;
+    retrying: number;
+    canceled: number;
     avgCompletionTimeMs: number | null;
     byWorker: { [key: string]: WorkerStats };
 }
@@ -43,8 +52,18 @@ interface JobListItem {
 interface StatsResponse {
     success: boolean;
     queueLength: number;
+    lanes: QueueLane[];
+    controls: QueueControl[];
+    delayedLength: number;
+    deadLetterLength: number;
+    reapedTotal: number;
     stats: Stats;
     jobs: JobListItem[];
+    page: {
+        offset: number;
+        limit: number;
+        total: number;
+    };
 }
 
 function formatDuration(ms: number | null): string {
@@ -134,6 +153,8 @@ function WorkerCard({ name, stats }: { name: string; stats: WorkerStats }) {
 
 const STREAM_URL = '/api/stats/stream';
 const POLL_INTERVAL_MS = 30000;
+const JOB_PAGE_SIZE = 50;
+const JOB_STATUS_FILTERS = ['pending', 'processing', 'retrying', 'completed', 'failed', 'canceled'];
 
 export function DashboardRedis() {
     const [stats, setStats] = React.useState<StatsResponse | null>(null);
@@ -142,12 +163,20 @@ export function DashboardRedis() {
     const [error, setError] = React.useState<string | null>(null);
     const [lastUpdated, setLastUpdated] = React.useState<Date | null>(null);
     const [live, setLive] = React.useState(false);
+    const [pageOffset, setPageOffset] = React.useState(0);
+    const [statusFilter, setStatusFilter] = React.useState('');
+
+    const listQuery = React.useMemo(() => {
+        const params = new URLSearchParams({ offset: String(pageOffset), limit: String(JOB_PAGE_SIZE) });
+        if (statusFilter) params.set('status', statusFilter);
+        return params.toString();
+    }, [pageOffset, statusFilter]);
 
     const fetchStats = React.useCallback(async () => {
         try {
             setLoading(true);
             setError(null);
-            const response = await fetch('/api/stats');
+            const response = await fetch(`/api/stats?${listQuery}`);
             if (!response.ok) throw new Error('Failed to fetch stats');
             const data = await response.json();
             setStats(data);
@@ -157,7 +186,7 @@ export function DashboardRedis() {
         } finally {
             setLoading(false);
         }
-    }, []);
+    }, [listQuery]);
 
     React.useEffect(() => {
         let eventSource: EventSource | null = null;
@@ -166,7 +195,7 @@ export function DashboardRedis() {
 
         const connectStream = () => {
             if (typeof EventSource === 'undefined') return;
-            const url = new URL(STREAM_URL, window.location.origin).toString();
+            const url = new URL(`${STREAM_URL}?${listQuery}`, window.location.origin).toString();
             eventSource = new EventSource(url);
             setLive(true);
             setError(null);
@@ -202,7 +231,7 @@ export function DashboardRedis() {
             if (pollInterval) clearInterval(pollInterval);
             eventSource?.close();
         };
-    }, [fetchStats]);
+    }, [fetchStats, listQuery]);
 
     const handleFlushQueue = async () => {
         const confirmed = window.confirm(
@@ -268,6 +297,8 @@ export function DashboardRedis() {
             case 'processing': return 'bg-blue-500 animate-pulse';
             case 'completed': return 'bg-green-500';
             case 'failed': return 'bg-red-500';
+            case 'retrying': return 'bg-orange-500';
+            case 'canceled': return 'bg-zinc-400';
             default: return 'bg-muted-foreground';
         }
     };
@@ -283,6 +314,9 @@ export function DashboardRedis() {
                             <StatusPill label="Processing" value={stats.stats.processing} dotClass="bg-blue-500 animate-pulse" />
                             <StatusPill label="Completed" value={stats.stats.completed} dotClass="bg-green-500" />
                             <StatusPill label="Failed" value={stats.stats.failed} dotClass="bg-red-500" />
+                            <StatusPill label="Retrying" value={stats.stats.retrying ?? 0} dotClass="bg-orange-500" />
+                            <StatusPill label="Canceled" value={stats.stats.canceled ?? 0} dotClass="bg-zinc-400" />
+                            <StatusPill label="Dead-letter" value={stats.deadLetterLength ?? 0} dotClass="bg-rose-800" />
                         </div>
                     )}
                     {live && (
@@ -322,12 +356,36 @@ export function DashboardRedis() {
                 </div>
             ) : stats ? (
                 <>
+                    {stats.controls && <QueueControlPanel controls={stats.controls} onChanged={fetchStats} />}
+
+                    {stats.lanes && <QueueLanesPanel lanes={stats.lanes} />}
+
+                    <QueueMetricsPanel />
+
                     <Card>
                         <CardHeader>
-                            <CardTitle>Queue jobs</CardTitle>
-                            <CardDescription>
-                                Live list of Redis queue items (newest first, max 500)
-                            </CardDescription>
+                            <div className="flex flex-wrap items-center justify-between gap-3">
+                                <div>
+                                    <CardTitle>Queue jobs</CardTitle>
+                                    <CardDescription>
+                                        Live list of Redis queue items (newest first)
+                                    </CardDescription>
+                                </div>
+                                <select
+                                    value={statusFilter}
+                                    onChange={(event) => {
+                                        setStatusFilter(event.target.value);
+                                        setPageOffset(0);
+                                    }}
+                                    className="h-8 rounded-md border border-input bg-background px-2 text-sm"
+                                    aria-label="Filter by status"
+                                >
+                                    <option value="">All statuses</option>
+                                    {JOB_STATUS_FILTERS.map((status) => (
+                                        <option key={status} value={status}>{status}</option>
+                                    ))}
+                                </select>
+                            </div>
                         </CardHeader>
                         <CardContent className="p-0">
                             <div className="overflow-x-auto max-h-[60vh] overflow-y-auto">
@@ -355,7 +413,9 @@ export function DashboardRedis() {
                                         ) : (
                                             stats.jobs.map((job) => (
                                                 <tr key={job.id} className="border-b border-border/50 hover:bg-muted/30">
-                                                    <td className="p-3 font-mono text-xs">{job.id}</td>
+                                                    <td className="p-3 font-mono text-xs">
+                                                        <Link href={`/tasks/${job.id}`} className="hover:underline">{job.id}</Link>
+                                                    </td>
                                                     <td className="p-3">{job.task || '—'}</td>
                                                     <td className="p-3">{job.manual ? 'yes' : 'no'}</td>
                                                     <td className="p-3">
@@ -377,9 +437,40 @@ export function DashboardRedis() {
                                     </tbody>
                                 </table>
                             </div>
+                            {stats.page && stats.page.total > 0 && (
+                                <div className="flex items-center justify-between gap-3 border-t px-3 py-2 text-xs text-muted-foreground">
+                                    <span className="tabular-nums">
+                                        {stats.page.offset + 1}–{Math.min(stats.page.offset + stats.jobs.length, stats.page.total)} of {stats.page.total}
+                                    </span>
+                                    <div className="flex items-center gap-2">
+                                        <Button
+                                            variant="outline"
+                                            size="sm"
+                                            disabled={pageOffset === 0}
+                                            onClick={() => setPageOffset((offset) => Math.max(0, offset - JOB_PAGE_SIZE))}
+                                        >
+                                            Previous
+                                        </Button>
+                                        <Button
+                                            variant="outline"
+                                            size="sm"
+                                            disabled={pageOffset + JOB_PAGE_SIZE >= stats.page.total}
+                                            onClick={() => setPageOffset((offset) => offset + JOB_PAGE_SIZE)}
+                                        >
+                                            Next
+                                        </Button>
+                                    </div>
+                                </div>
+                            )}
                         </CardContent>
                     </Card>
 
+                    <DeadLetterPanel deadLetterLength={stats.deadLetterLength ?? 0} onChanged={fetchStats} />
+
+                    <ReaperPanel reapedTotal={stats.reapedTotal ?? 0} />
+
+                    <QueuePurgePanel onPurged={fetchStats} />
+
                     {Object.keys(stats.stats.byWorker).length > 0 && (
                         <div className="space-y-4 pt-4">
                             <h2 className="text-xl font-semibold">Worker Performance</h2>
@@ -0,0 +1,264 @@
+'use client';
+
+import * as React from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { AlertTriangle, Cpu, ExternalLink, Gauge, Loader2, RefreshCw, XCircle } from 'lucide-react';
+
+interface WorkerEntry {
+    id: string;
+    host: string;
+    version: string;
+    started_at: string;
+    last_heartbeat: string;
+    alive: boolean;
+    completed: number;
+    failed: number;
+    failure_rate: number | null;
+    completed_last_hour: number;
+    completed_last_24h: number;
+    current_job: {
+        id: string;
+        task: string;
+        status: string;
+        started_at: string;
+    } | null;
+    container: {
+        id: string;
+        name: string;
+        state: string;
+        url: string;
+    } | null;
+}
+
+interface WorkersResponse {
+    success: boolean;
+    heartbeat_timeout_ms: number;
+    workers: WorkerEntry[];
+    warnings: string[];
+}
+
+const POLL_INTERVAL_MS = 10000;
+
+function formatTime(value: string): string {
+    if (!value) return '—';
+    const d = new Date(value);
+    return isNaN(d.getTime()) ? '—' : d.toLocaleString();
+}
+
+function formatPercent(value: number | null): string {
+    if (value == null || !Number.isFinite(value)) return '—';
+    return `${(value * 100).toFixed(1)}%`;
+}
+
+export function DashboardWorkers() {
+    const [data, setData] = React.useState<WorkersResponse | null>(null);
+    const [loading, setLoading] = React.useState(true);
+    const [error, setError] = React.useState<string | null>(null);
+
+    const fetchWorkers = React.useCallback(async () => {
+        try {
+            setLoading(true);
+            const response = await fetch('/api/workers', { cache: 'no-store' });
+            const json = await response.json().catch(() => ({}));
+            if (!response.ok) throw new Error(json.error || 'Failed to load workers');
+            setData(json);
+            setError(null);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to load workers');
+        } finally {
+            setLoading(false);
+        }
+    }, []);
+
+    React.useEffect(() => {
+        fetchWorkers();
+        const interval = setInterval(fetchWorkers, POLL_INTERVAL_MS);
+        return () => clearInterval(interval);
+    }, [fetchWorkers]);
+
+    if (error && !data) {
+        return (
+            <Card className="w-full max-w-6xl mx-auto">
+                <CardContent className="flex flex-col items-center justify-center py-12 space-y-4">
+                    <XCircle className="h-12 w-12 text-red-500" />
+                    <p className="text-lg text-muted-foreground">{error}</p>
+                    <Button onClick={fetchWorkers} variant="outline">
+                        <RefreshCw className="mr-2 h-4 w-4" />
+                        Retry
+                    </Button>
+                </CardContent>
+            </Card>
+        );
+    }
+
+    const workers = data?.workers ?? [];
+    const aliveCount = workers.filter((worker) => worker.alive).length;
+    const busyCount = workers.filter((worker) => worker.alive && worker.current_job).length;
+    const completedLastHour = workers.reduce((sum, worker) => sum + worker.completed_last_hour, 0);
+
+    return (
+        <div className="w-full max-w-6xl mx-auto space-y-6">
+            <div className="flex flex-wrap items-center justify-between gap-4">
+                <div className="space-y-1">
+                    <h1 className="text-2xl font-bold tracking-tight">Workers</h1>
+                    <p className="text-sm text-muted-foreground">
+                        Scrapy / OCR workers reporting heartbeats into Redis
+                    </p>
+                </div>
+                <Button onClick={fetchWorkers} variant="outline" size="sm" disabled={loading}>
+                    <RefreshCw className={`mr-2 h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+                    Refresh
+                </Button>
+            </div>
+
+            {data?.warnings.length ? (
+                <Card className="border-yellow-500/40">
+                    <CardHeader className="pb-3">
+                        <CardTitle className="text-sm flex items-center gap-2">
+                            <AlertTriangle className="h-4 w-4 text-yellow-500" />
+                            Warnings
+                        </CardTitle>
+                    </CardHeader>
+                    <CardContent className="pt-0">
+                        <ul className="space-y-1 text-xs text-muted-foreground">
+                            {data.warnings.map((warning, idx) => (
+                                <li key={`${warning}-${idx}`}>{warning}</li>
+                            ))}
+                        </ul>
+                    </CardContent>
+                </Card>
+            ) : null}
+
+            <div className="grid gap-4 md:grid-cols-3">
+                <Card>
+                    <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                        <CardTitle className="text-sm font-medium">Live workers</CardTitle>
+                        <Cpu className="h-4 w-4 text-muted-foreground" />
+                    </CardHeader>
+                    <CardContent>
+                        <div className="text-2xl font-bold tabular-nums">{data ? `${aliveCount}/${workers.length}` : '—'}</div>
+                        <p className="text-xs text-muted-foreground">Live / known</p>
+                    </CardContent>
+                </Card>
+                <Card>
+                    <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                        <CardTitle className="text-sm font-medium">Busy</CardTitle>
+                        <Loader2 className="h-4 w-4 text-muted-foreground" />
+                    </CardHeader>
+                    <CardContent>
+                        <div className="text-2xl font-bold tabular-nums">{data ? busyCount : '—'}</div>
+                        <p className="text-xs text-muted-foreground">Live workers with a current job</p>
+                    </CardContent>
+                </Card>
+                <Card>
+                    <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                        <CardTitle className="text-sm font-medium">Throughput</CardTitle>
+                        <Gauge className="h-4 w-4 text-muted-foreground" />
+                    </CardHeader>
+                    <CardContent>
+                        <div className="text-2xl font-bold tabular-nums">{data ? completedLastHour : '—'}</div>
+                        <p className="text-xs text-muted-foreground">Jobs completed in the last hour</p>
+                    </CardContent>
+                </Card>
+            </div>
+
+            <Card>
+                <CardHeader>
+                    <CardTitle>Worker registry</CardTitle>
+                    <CardDescription>
+                        A worker counts as dead when its last heartbeat is older than{' '}
+                        {data ? Math.round(data.heartbeat_timeout_ms / 1000) : '—'} s
+                    </CardDescription>
+                </CardHeader>
+                <CardContent className="p-0">
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-sm">
+                            <thead className="bg-muted/80 border-b">
+                                <tr>
+                                    <th className="text-left font-medium p-3">Worker</th>
+                                    <th className="text-left font-medium p-3">Host / version</th>
+                                    <th className="text-left font-medium p-3">Last heartbeat</th>
+                                    <th className="text-left font-medium p-3">Current job</th>
+                                    <th className="text-right font-medium p-3">1 h</th>
+                                    <th className="text-right font-medium p-3">24 h</th>
+                                    <th className="text-right font-medium p-3">Failure rate</th>
+                                    <th className="text-left font-medium p-3">Container</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {loading && !data ? (
+                                    <tr>
+                                        <td colSpan={8} className="p-6 text-center text-muted-foreground">
+                                            <Loader2 className="inline h-4 w-4 animate-spin" />
+                                        </td>
+                                    </tr>
+                                ) : workers.length === 0 ? (
+                                    <tr>
+                                        <td colSpan={8} className="p-6 text-center text-muted-foreground">
+                                            No workers have reported a heartbeat yet
+                                        </td>
+                                    </tr>
+                                ) : (
+                                    workers.map((worker) => (
+                                        <tr key={worker.id} className="border-b border-border/50 hover:bg-muted/30">
+                                            <td className="p-3">
+                                                <span className="inline-flex items-center gap-1.5">
+                                                    <span className={`h-1.5 w-1.5 rounded-full shrink-0 ${worker.alive ? 'bg-green-500' : 'bg-red-500'}`} />
+                                                    <span className="font-mono text-xs">{worker.id}</span>
+                                                </span>
+                                                <div className="text-xs text-muted-foreground">{worker.alive ? 'live' : 'dead'}</div>
+                                            </td>
+                                            <td className="p-3 text-xs">
+                                                <div className="font-mono">{worker.host || '—'}</div>
+                                                <div className="text-muted-foreground">{worker.version || '—'}</div>
+                                            </td>
+                                            <td className="p-3 text-muted-foreground">{formatTime(worker.last_heartbeat)}</td>
+                                            <td className="p-3 text-xs">
+                                                {worker.current_job ? (
+                                                    <>
+                                                        <div>
+                                                            <span className="font-mono">#{worker.current_job.id}</span> {worker.current_job.task}
+                                                        </div>
+                                                        <div className="text-muted-foreground">
+                                                            {worker.current_job.status} · {formatTime(worker.current_job.started_at)}
+                                                        </div>
+                                                    </>
+                                                ) : (
+                                                    <span className="text-muted-foreground">idle</span>
+                                                )}
+                                            </td>
+                                            <td className="p-3 text-right tabular-nums">{worker.completed_last_hour}</td>
+                                            <td className="p-3 text-right tabular-nums">{worker.completed_last_24h}</td>
+                                            <td className="p-3 text-right tabular-nums" title={`${worker.completed} completed / ${worker.failed} failed`}>
+                                                {formatPercent(worker.failure_rate)}
+                                            </td>
+                                            <td className="p-3 text-xs">
+                                                {worker.container ? (
+                                                    <a
+                                                        href={worker.container.url}
+                                                        target="_blank"
+                                                        rel="noreferrer"
+                                                        className="inline-flex items-center gap-1 text-primary hover:underline"
+                                                    >
+                                                        {worker.container.name}
+                                                        <ExternalLink className="h-3 w-3" />
+                                                    </a>
+                                                ) : (
+                                                    <span className="text-muted-foreground">—</span>
+                                                )}
+                                                {worker.container && (
+                                                    <div className="text-muted-foreground">{worker.container.state}</div>
+                                                )}
+                                            </td>
+                                        </tr>
+                                    ))
+                                )}
+                            </tbody>
+                        </table>
+                    </div>
+                </CardContent>
+            </Card>
+        </div>
+    );
+}
@@ -0,0 +1,254 @@
+'use client';
+
+import * as React from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { toast } from 'sonner';
+import { ChevronDown, Loader2, RotateCcw, Trash2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface ErrorHistoryEntry {
+    attempt: number;
+    error_message: string;
+    failed_at: string;
+    worker: string;
+}
+
+interface DeadLetterEntry {
+    id: string;
+    task: string;
+    run_id: string;
+    source_id: string;
+    source_url_id: string;
+    document_id: string;
+    attempts: number;
+    max_attempts: number;
+    error_message: string;
+    error_history: ErrorHistoryEntry[];
+    created_at: string;
+    dead_at: string;
+}
+
+interface DeadLetterPanelProps {
+    /** Current DLQ length from the stats stream; a change triggers a refetch. */
+    deadLetterLength: number;
+    onChanged?: () => void;
+}
+
+function formatTime(value: string): string {
+    if (!value) return '—';
+    const d = new Date(value);
+    return isNaN(d.getTime()) ? '—' : d.toLocaleString();
+}
+
+function describeTarget(entry: DeadLetterEntry): string {
+    if (entry.document_id) return `document #${entry.document_id}`;
+    if (entry.source_url_id) return `source URL #${entry.source_url_id}`;
+    if (entry.source_id) return `source #${entry.source_id}`;
+    return '—';
+}
+
+export function DeadLetterPanel({ deadLetterLength, onChanged }: DeadLetterPanelProps) {
+    const [entries, setEntries] = React.useState<DeadLetterEntry[]>([]);
+    const [total, setTotal] = React.useState(0);
+    const [loading, setLoading] = React.useState(false);
+    const [busy, setBusy] = React.useState(false);
+    const [selected, setSelected] = React.useState<Set<string>>(new Set());
+    const [expandedId, setExpandedId] = React.useState<string | null>(null);
+
+    const fetchEntries = React.useCallback(async () => {
+        try {
+            setLoading(true);
+            const response = await fetch('/api/queue/dead-letter?limit=200');
+            const data = await response.json().catch(() => ({}));
+            if (!response.ok) throw new Error(data.error || 'Failed to load dead-letter queue');
+            setEntries(data.entries ?? []);
+            setTotal(data.total ?? 0);
+            setSelected((prev) => new Set([...prev].filter((id) => (data.entries ?? []).some((e: DeadLetterEntry) => e.id === id))));
+        } catch (err) {
+            toast.error(err instanceof Error ? err.message : 'Failed to load dead-letter queue');
+        } finally {
+            setLoading(false);
+        }
+    }, []);
+
+    React.useEffect(() => {
+        fetchEntries();
+    }, [fetchEntries, deadLetterLength]);
+
+    const runAction = async (action: 'requeue' | 'discard', targets: string[] | 'all') => {
+        if (action === 'discard') {
+            const label = targets === 'all' ? 'všechny joby v DLQ' : `${targets.length} job(ů)`;
+            if (!window.confirm(`Opravdu chcete trvale smazat ${label}?`)) return;
+        }
+
+        try {
+            setBusy(true);
+            const response = await fetch(`/api/queue/dead-letter/${action}`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(targets === 'all' ? { all: true } : { job_ids: targets }),
+            });
+            const data = await response.json().catch(() => ({}));
+            if (!response.ok) throw new Error(data.error || `Failed to ${action} jobs`);
+
+            const affected: string[] = action === 'requeue' ? data.requeued ?? [] : data.discarded ?? [];
+            toast.success(action === 'requeue' ? `Requeued ${affected.length} job(s)` : `Discarded ${affected.length} job(s)`);
+            setSelected(new Set());
+            await fetchEntries();
+            onChanged?.();
+        } catch (err) {
+            toast.error(err instanceof Error ? err.message : `Failed to ${action} jobs`);
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const toggleSelected = (id: string) => {
+        setSelected((prev) => {
+            const next = new Set(prev);
+            if (next.has(id)) next.delete(id);
+            else next.add(id);
+            return next;
+        });
+    };
+
+    const allSelected = entries.length > 0 && entries.every((entry) => selected.has(entry.id));
+    const selectedIds = Array.from(selected);
+
+    return (
+        <Card>
+            <CardHeader>
+                <div className="flex flex-wrap items-center justify-between gap-3">
+                    <div>
+                        <CardTitle>Dead-letter queue</CardTitle>
+                        <CardDescription>
+                            Jobs that exhausted max_attempts ({total}). Requeue resets the attempt budget; history is kept.
+                        </CardDescription>
+                    </div>
+                    <div className="flex flex-wrap items-center gap-2">
+                        <Button
+                            variant="outline"
+                            size="sm"
+                            disabled={busy || selectedIds.length === 0}
+                            onClick={() => runAction('requeue', selectedIds)}
+                        >
+                            <RotateCcw className="h-4 w-4" />
+                            Requeue selected
+                        </Button>
+                        <Button variant="outline" size="sm" disabled={busy || total === 0} onClick={() => runAction('requeue', 'all')}>
+                            <RotateCcw className="h-4 w-4" />
+                            Requeue all
+                        </Button>
+                        <Button
+                            variant="destructive"
+                            size="sm"
+                            disabled={busy || selectedIds.length === 0}
+                            onClick={() => runAction('discard', selectedIds)}
+                        >
+                            <Trash2 className="h-4 w-4" />
+                            Discard selected
+                        </Button>
+                        <Button variant="destructive" size="sm" disabled={busy || total === 0} onClick={() => runAction('discard', 'all')}>
+                            <Trash2 className="h-4 w-4" />
+                            Discard all
+                        </Button>
+                    </div>
+                </div>
+            </CardHeader>
+            <CardContent className="p-0">
+                <div className="overflow-x-auto max-h-[50vh] overflow-y-auto">
+                    <table className="w-full text-sm">
+                        <thead className="sticky top-0 bg-muted/80 backdrop-blur supports-[backdrop-filter]:bg-muted/60 border-b">
+                            <tr>
+                                <th className="p-3 w-8">
+                                    <input
+                                        type="checkbox"
+                                        checked={allSelected}
+                                        onChange={() => setSelected(allSelected ? new Set() : new Set(entries.map((entry) => entry.id)))}
+                                        aria-label="Select all"
+                                    />
+                                </th>
+                                <th className="text-left font-medium p-3">ID</th>
+                                <th className="text-left font-medium p-3">Task</th>
+                                <th className="text-left font-medium p-3">Target</th>
+                                <th className="text-left font-medium p-3">Attempts</th>
+                                <th className="text-left font-medium p-3">Dead since</th>
+                                <th className="text-left font-medium p-3">Last error</th>
+                                <th className="p-3 w-8" />
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {loading && entries.length === 0 ? (
+                                <tr>
+                                    <td colSpan={8} className="p-6 text-center text-muted-foreground">
+                                        <Loader2 className="inline h-4 w-4 animate-spin" />
+                                    </td>
+                                </tr>
+                            ) : entries.length === 0 ? (
+                                <tr>
+                                    <td colSpan={8} className="p-6 text-center text-muted-foreground">
+                                        Dead-letter queue is empty
+                                    </td>
+                                </tr>
+                            ) : (
+                                entries.map((entry) => (
+                                    <React.Fragment key={entry.id}>
+                                        <tr className="border-b border-border/50 hover:bg-muted/30">
+                                            <td className="p-3">
+                                                <input
+                                                    type="checkbox"
+                                                    checked={selected.has(entry.id)}
+                                                    onChange={() => toggleSelected(entry.id)}
+                                                    aria-label={`Select job ${entry.id}`}
+                                                />
+                                            </td>
+                                            <td className="p-3 font-mono text-xs">{entry.id}</td>
+                                            <td className="p-3">{entry.task}</td>
+                                            <td className="p-3 text-muted-foreground">{describeTarget(entry)}</td>
+                                            <td className="p-3 tabular-nums">{entry.attempts}/{entry.max_attempts}</td>
+                                            <td className="p-3 text-muted-foreground">{formatTime(entry.dead_at)}</td>
+                                            <td className="p-3 max-w-[240px] truncate text-rose-600 dark:text-rose-400" title={entry.error_message}>
+                                                {entry.error_message || '—'}
+                                            </td>
+                                            <td className="p-3">
+                                                <button
+                                                    type="button"
+                                                    onClick={() => setExpandedId(expandedId === entry.id ? null : entry.id)}
+                                                    className="text-muted-foreground hover:text-foreground"
+                                                    title="Error history"
+                                                >
+                                                    <ChevronDown className={cn('h-4 w-4 transition-transform', expandedId === entry.id && 'rotate-180')} />
+                                                </button>
+                                            </td>
+                                        </tr>
+                                        {expandedId === entry.id && (
+                                            <tr className="border-b border-border/50 bg-muted/20">
+                                                <td colSpan={8} className="p-3">
+                                                    {entry.error_history.length === 0 ? (
+                                                        <p className="text-xs text-muted-foreground">No recorded attempts</p>
+                                                    ) : (
+                                                        <ol className="space-y-1 text-xs">
+                                                            {entry.error_history.map((attempt, index) => (
+                                                                <li key={index} className="flex gap-3">
+                                                                    <span className="w-16 shrink-0 font-medium">#{attempt.attempt}</span>
+                                                                    <span className="w-44 shrink-0 text-muted-foreground">{formatTime(attempt.failed_at)}</span>
+                                                                    <span className="w-32 shrink-0 text-muted-foreground truncate">{attempt.worker || '—'}</span>
+                                                                    <span className="text-rose-600 dark:text-rose-400 break-all">{attempt.error_message || '—'}</span>
+                                                                </li>
+                                                            ))}
+                                                        </ol>
+                                                    )}
+                                                </td>
+                                            </tr>
+                                        )}
+                                    </React.Fragment>
+                                ))
+                            )}
+                        </tbody>
+                    </table>
+                </div>
+            </CardContent>
+        </Card>
+    );
+}
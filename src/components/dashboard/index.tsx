@@ -2,15 +2,17 @@
 
 import * as React from 'react';
 import { cn } from '@/lib/utils';
-import { LayoutDashboard, Database, Server, HardDrive } from 'lucide-react';
+import { LayoutDashboard, Database, Server, HardDrive, Cpu } from 'lucide-react';
 import { DashboardOverview } from './dashboard-overview';
 import { DashboardRedis } from './dashboard-redis';
 import { DashboardDatabase } from './dashboard-database';
 import { DashboardInfra } from './dashboard-infra';
+import { DashboardWorkers } from './dashboard-workers';
 
 const TABS = [
     { value: 'overview', label: 'Overview', icon: LayoutDashboard },
     { value: 'redis', label: 'Redis', icon: Server },
+    { value: 'workers', label: 'Workers', icon: Cpu },
     { value: 'database', label: 'Database', icon: Database },
     { value: 'infra', label: 'Infra', icon: HardDrive },
 ] as const;
@@ -49,6 +51,7 @@ export function Dashboard() {
 
             {activeTab === 'overview' && <DashboardOverview />}
             {activeTab === 'redis' && <DashboardRedis />}
+            {activeTab === 'workers' && <DashboardWorkers />}
             {activeTab === 'database' && <DashboardDatabase />}
             {activeTab === 'infra' && <DashboardInfra />}
         </div>
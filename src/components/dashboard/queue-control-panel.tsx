@@ -0,0 +1,175 @@
+'use client';
+
+import * as React from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { toast } from 'sonner';
+import { CheckCircle2, Loader2, Pause, Play, Square } from 'lucide-react';
+
+export interface QueueControl {
+    scope: string;
+    mode: 'running' | 'paused' | 'draining';
+    since: string | null;
+    processing: number;
+    drained: boolean;
+}
+
+type QueueControlAction = 'pause' | 'drain' | 'resume';
+
+interface QueueControlPanelProps {
+    controls: QueueControl[];
+    onChanged?: () => void;
+}
+
+function formatTime(value: string | null): string {
+    if (!value) return '—';
+    const d = new Date(value);
+    return isNaN(d.getTime()) ? '—' : d.toLocaleString();
+}
+
+function scopeLabel(scope: string): string {
+    return scope === 'all' ? 'All queues' : scope;
+}
+
+function StateBadge({ control }: { control: QueueControl }) {
+    if (control.mode === 'running') {
+        return <span className="text-green-600 dark:text-green-400">running</span>;
+    }
+    if (control.mode === 'paused') {
+        return <span className="text-yellow-600 dark:text-yellow-400">paused</span>;
+    }
+    if (control.drained) {
+        return (
+            <span className="inline-flex items-center gap-1 text-green-600 dark:text-green-400">
+                <CheckCircle2 className="h-3.5 w-3.5" />
+                drained
+            </span>
+        );
+    }
+    return (
+        <span className="inline-flex items-center gap-1 text-blue-600 dark:text-blue-400">
+            <Loader2 className="h-3.5 w-3.5 animate-spin" />
+            draining
+        </span>
+    );
+}
+
+export function QueueControlPanel({ controls, onChanged }: QueueControlPanelProps) {
+    const [busyScope, setBusyScope] = React.useState<string | null>(null);
+
+    const runAction = async (scope: string, action: QueueControlAction) => {
+        if (scope === 'all' && action !== 'resume') {
+            const verb = action === 'pause' ? 'pozastavit' : 'vyprázdnit (drain)';
+            if (!window.confirm(`Opravdu chcete ${verb} všechny fronty? Workery nepřevezmou žádný nový job.`)) return;
+        }
+
+        try {
+            setBusyScope(scope);
+            const response = await fetch('/api/queue/control', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ scope, action }),
+            });
+            const data = await response.json().catch(() => ({}));
+            if (!response.ok) throw new Error(data.error || `Failed to ${action} queue`);
+
+            toast.success(`${scopeLabel(scope)}: ${data.mode}`);
+            onChanged?.();
+        } catch (err) {
+            toast.error(err instanceof Error ? err.message : `Failed to ${action} queue`);
+        } finally {
+            setBusyScope(null);
+        }
+    };
+
+    const global = controls.find((control) => control.scope === 'all');
+
+    return (
+        <Card>
+            <CardHeader>
+                <CardTitle>Queue control</CardTitle>
+                <CardDescription>
+                    Pause stops workers from taking new jobs; drain does the same and tracks in-flight jobs until none remain
+                </CardDescription>
+            </CardHeader>
+            <CardContent className="p-0">
+                <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                        <thead className="bg-muted/80 border-b">
+                            <tr>
+                                <th className="text-left font-medium p-3">Queue</th>
+                                <th className="text-left font-medium p-3">State</th>
+                                <th className="text-left font-medium p-3">Since</th>
+                                <th className="text-right font-medium p-3">Processing</th>
+                                <th className="text-right font-medium p-3">Actions</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {controls.map((control) => {
+                                const busy = busyScope === control.scope;
+                                const inheritsGlobal = control.scope !== 'all' && global?.mode !== 'running' && control.mode === 'running';
+                                return (
+                                    <tr key={control.scope} className="border-b border-border/50">
+                                        <td className="p-3 font-medium">{scopeLabel(control.scope)}</td>
+                                        <td className="p-3">
+                                            <StateBadge control={control} />
+                                            {inheritsGlobal && (
+                                                <span className="ml-2 text-xs text-muted-foreground">(stopped by all queues)</span>
+                                            )}
+                                        </td>
+                                        <td className="p-3 text-muted-foreground">{formatTime(control.since)}</td>
+                                        <td className={`p-3 text-right tabular-nums ${control.processing ? '' : 'text-muted-foreground'}`}>
+                                            {control.mode === 'draining' && !control.drained
+                                                ? `${control.processing} remaining`
+                                                : control.processing}
+                                        </td>
+                                        <td className="p-3">
+                                            <div className="flex justify-end gap-2">
+                                                {control.mode === 'running' ? (
+                                                    <>
+                                                        <Button
+                                                            size="sm"
+                                                            variant="outline"
+                                                            disabled={busy}
+                                                            onClick={() => runAction(control.scope, 'pause')}
+                                                        >
+                                                            <Pause className="mr-1.5 h-3.5 w-3.5" />
+                                                            Pause
+                                                        </Button>
+                                                        <Button
+                                                            size="sm"
+                                                            variant="outline"
+                                                            disabled={busy}
+                                                            onClick={() => runAction(control.scope, 'drain')}
+                                                        >
+                                                            <Square className="mr-1.5 h-3.5 w-3.5" />
+                                                            Drain
+                                                        </Button>
+                                                    </>
+                                                ) : (
+                                                    <Button
+                                                        size="sm"
+                                                        variant="outline"
+                                                        disabled={busy}
+                                                        onClick={() => runAction(control.scope, 'resume')}
+                                                    >
+                                                        {busy ? (
+                                                            <Loader2 className="mr-1.5 h-3.5 w-3.5 animate-spin" />
+                                                        ) : (
+                                                            <Play className="mr-1.5 h-3.5 w-3.5" />
+                                                        )}
+                                                        Resume
+                                                    </Button>
+                                                )}
+                                            </div>
+                                        </td>
+                                    </tr>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                </div>
+            </CardContent>
+        </Card>
+    );
+}
@@ -0,0 +1,79 @@
+'use client';
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+
+export interface QueueLane {
+    key: string;
+    task: string | null;
+    priority: 'high' | 'normal' | 'low' | null;
+    length: number;
+}
+
+interface QueueLanesPanelProps {
+    lanes: QueueLane[];
+}
+
+const PRIORITIES = ['high', 'normal', 'low'] as const;
+
+export function QueueLanesPanel({ lanes }: QueueLanesPanelProps) {
+    const tasks = Array.from(new Set(lanes.filter((lane) => lane.task).map((lane) => lane.task as string)));
+    const legacy = lanes.find((lane) => lane.task === null);
+    const depth = (task: string, priority: string) =>
+        lanes.find((lane) => lane.task === task && lane.priority === priority);
+
+    return (
+        <Card>
+            <CardHeader>
+                <CardTitle>Queue lanes</CardTitle>
+                <CardDescription>
+                    Waiting jobs per task lane; workers take high before normal before low
+                </CardDescription>
+            </CardHeader>
+            <CardContent className="p-0">
+                <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                        <thead className="bg-muted/80 border-b">
+                            <tr>
+                                <th className="text-left font-medium p-3">Task</th>
+                                {PRIORITIES.map((priority) => (
+                                    <th key={priority} className="text-right font-medium p-3 capitalize">{priority}</th>
+                                ))}
+                                <th className="text-right font-medium p-3">Total</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {tasks.map((task) => {
+                                const row = PRIORITIES.map((priority) => depth(task, priority));
+                                return (
+                                    <tr key={task} className="border-b border-border/50">
+                                        <td className="p-3">{task}</td>
+                                        {row.map((lane, index) => (
+                                            <td
+                                                key={PRIORITIES[index]}
+                                                className={`p-3 text-right tabular-nums ${lane?.length ? '' : 'text-muted-foreground'}`}
+                                                title={lane?.key}
+                                            >
+                                                {lane?.length ?? 0}
+                                            </td>
+                                        ))}
+                                        <td className="p-3 text-right tabular-nums font-medium">
+                                            {row.reduce((sum, lane) => sum + (lane?.length ?? 0), 0)}
+                                        </td>
+                                    </tr>
+                                );
+                            })}
+                            {legacy && (
+                                <tr className="text-muted-foreground">
+                                    <td className="p-3" colSpan={PRIORITIES.length + 1}>
+                                        Other tasks / legacy <span className="font-mono text-xs">{legacy.key}</span>
+                                    </td>
+                                    <td className="p-3 text-right tabular-nums">{legacy.length}</td>
+                                </tr>
+                            )}
+                        </tbody>
+                    </table>
+                </div>
+            </CardContent>
+        </Card>
+    );
+}
@@ -0,0 +1,245 @@
+'use client';
+
+import * as React from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Loader2 } from 'lucide-react';
+
+type MetricsRange = 'hour' | 'day' | 'week';
+
+interface LatencyPercentiles {
+    count: number;
+    p50: number;
+    p95: number;
+    p99: number;
+}
+
+interface MetricsPoint {
+    at: string;
+    enqueued: number;
+    completed: number;
+    failed: number;
+    wait: LatencyPercentiles | null;
+    run: LatencyPercentiles | null;
+}
+
+interface QueueMetrics {
+    range: MetricsRange;
+    point_ms: number;
+    tasks: string[];
+    points: MetricsPoint[];
+}
+
+interface ChartSeries {
+    label: string;
+    /** Tailwind classes must be literal so they survive the build: stroke for the line, bg for the legend. */
+    strokeClass: string;
+    swatchClass: string;
+    values: Array<number | null>;
+}
+
+const RANGES: { value: MetricsRange; label: string }[] = [
+    { value: 'hour', label: 'Last hour' },
+    { value: 'day', label: 'Last day' },
+    { value: 'week', label: 'Last week' },
+];
+const REFRESH_MS = 30000;
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 160;
+
+function formatLatency(ms: number): string {
+    if (ms < 1000) return `${ms}ms`;
+    if (ms < 60000) return `${Math.round(ms / 1000)}s`;
+    if (ms < 3600000) return `${Math.round(ms / 60000)}m`;
+    return `${Math.round(ms / 3600000)}h`;
+}
+
+function formatTick(value: string, range: MetricsRange): string {
+    const d = new Date(value);
+    if (isNaN(d.getTime())) return '';
+    return range === 'week'
+        ? d.toLocaleDateString(undefined, { weekday: 'short', day: 'numeric' })
+        : d.toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' });
+}
+
+function LineChart({ series, points, range, formatValue }: {
+    series: ChartSeries[];
+    points: MetricsPoint[];
+    range: MetricsRange;
+    formatValue: (value: number) => string;
+}) {
+    const max = Math.max(1, ...series.flatMap((line) => line.values.filter((value): value is number => value !== null)));
+    const step = points.length > 1 ? CHART_WIDTH / (points.length - 1) : CHART_WIDTH;
+    const y = (value: number) => CHART_HEIGHT - (value / max) * CHART_HEIGHT;
+
+    // Gaps (null) split a line into segments instead of dropping to zero.
+    const segments = (values: Array<number | null>) => {
+        const result: string[] = [];
+        let current: string[] = [];
+        values.forEach((value, index) => {
+            if (value === null) {
+                if (current.length > 0) result.push(current.join(' '));
+                current = [];
+                return;
+            }
+            current.push(`${(index * step).toFixed(1)},${y(value).toFixed(1)}`);
+        });
+        if (current.length > 0) result.push(current.join(' '));
+        return result;
+    };
+
+    return (
+        <div className="space-y-2">
+            <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-muted-foreground">
+                {series.map((line) => (
+                    <span key={line.label} className="inline-flex items-center gap-1.5">
+                        <span className={`h-0.5 w-3 rounded ${line.swatchClass}`} />
+                        {line.label}
+                    </span>
+                ))}
+                <span className="ml-auto tabular-nums">max {formatValue(max)}</span>
+            </div>
+            <svg
+                viewBox={`0 -4 ${CHART_WIDTH} ${CHART_HEIGHT + 8}`}
+                preserveAspectRatio="none"
+                className="h-40 w-full overflow-visible"
+                role="img"
+            >
+                <line x1={0} x2={CHART_WIDTH} y1={CHART_HEIGHT} y2={CHART_HEIGHT} className="stroke-border" strokeWidth={1} />
+                <line x1={0} x2={CHART_WIDTH} y1={CHART_HEIGHT / 2} y2={CHART_HEIGHT / 2} className="stroke-border/50" strokeDasharray="4 4" strokeWidth={1} />
+                {series.map((line) =>
+                    segments(line.values).map((segment, index) => (
+                        <polyline
+                            key={`${line.label}-${index}`}
+                            points={segment}
+                            fill="none"
+                            className={line.strokeClass}
+                            strokeWidth={1.5}
+                            vectorEffect="non-scaling-stroke"
+                        />
+                    )),
+                )}
+            </svg>
+            <div className="flex justify-between text-[10px] text-muted-foreground tabular-nums">
+                <span>{points[0] ? formatTick(points[0].at, range) : ''}</span>
+                <span>{points.length > 2 ? formatTick(points[Math.floor(points.length / 2)].at, range) : ''}</span>
+                <span>now</span>
+            </div>
+        </div>
+    );
+}
+
+export function QueueMetricsPanel() {
+    const [range, setRange] = React.useState<MetricsRange>('hour');
+    const [task, setTask] = React.useState('');
+    const [metrics, setMetrics] = React.useState<QueueMetrics | null>(null);
+    const [error, setError] = React.useState<string | null>(null);
+
+    const fetchMetrics = React.useCallback(async () => {
+        try {
+            const params = new URLSearchParams({ range });
+            if (task) params.set('task', task);
+            const response = await fetch(`/api/stats/metrics?${params.toString()}`);
+            const data = await response.json().catch(() => ({}));
+            if (!response.ok) throw new Error(data.error || 'Failed to fetch queue metrics');
+            setMetrics(data as QueueMetrics);
+            setError(null);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to fetch queue metrics');
+        }
+    }, [range, task]);
+
+    React.useEffect(() => {
+        fetchMetrics();
+        const timer = setInterval(fetchMetrics, REFRESH_MS);
+        return () => clearInterval(timer);
+    }, [fetchMetrics]);
+
+    const points = metrics?.points ?? [];
+    const totals = points.reduce(
+        (sum, point) => ({
+            enqueued: sum.enqueued + point.enqueued,
+            completed: sum.completed + point.completed,
+            failed: sum.failed + point.failed,
+        }),
+        { enqueued: 0, completed: 0, failed: 0 },
+    );
+    const pointLabel = metrics ? formatLatency(metrics.point_ms) : '';
+
+    return (
+        <Card>
+            <CardHeader>
+                <div className="flex flex-wrap items-center justify-between gap-3">
+                    <div>
+                        <CardTitle>Throughput and latency</CardTitle>
+                        <CardDescription>
+                            Jobs per {pointLabel || 'bucket'} and p50 / p95 queue wait and processing time
+                        </CardDescription>
+                    </div>
+                    <div className="flex items-center gap-2">
+                        <select
+                            value={task}
+                            onChange={(event) => setTask(event.target.value)}
+                            className="h-8 rounded-md border border-input bg-background px-2 text-sm"
+                            aria-label="Filter metrics by task"
+                        >
+                            <option value="">All tasks</option>
+                            {(metrics?.tasks ?? []).map((value) => <option key={value} value={value}>{value}</option>)}
+                        </select>
+                        <select
+                            value={range}
+                            onChange={(event) => setRange(event.target.value as MetricsRange)}
+                            className="h-8 rounded-md border border-input bg-background px-2 text-sm"
+                            aria-label="Metrics range"
+                        >
+                            {RANGES.map((option) => <option key={option.value} value={option.value}>{option.label}</option>)}
+                        </select>
+                    </div>
+                </div>
+            </CardHeader>
+            <CardContent>
+                {error ? (
+                    <p className="text-sm text-rose-600 dark:text-rose-400">{error}</p>
+                ) : !metrics ? (
+                    <div className="flex justify-center py-8">
+                        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+                    </div>
+                ) : (
+                    <div className="grid gap-6 lg:grid-cols-2">
+                        <div className="space-y-2">
+                            <p className="text-sm font-medium">
+                                Throughput
+                                <span className="ml-2 font-normal text-muted-foreground tabular-nums">
+                                    {totals.enqueued} enqueued · {totals.completed} completed · {totals.failed} failed
+                                </span>
+                            </p>
+                            <LineChart
+                                points={points}
+                                range={metrics.range}
+                                formatValue={(value) => String(Math.round(value))}
+                                series={[
+                                    { label: 'Enqueued', strokeClass: 'stroke-yellow-500', swatchClass: 'bg-yellow-500', values: points.map((point) => point.enqueued) },
+                                    { label: 'Completed', strokeClass: 'stroke-green-500', swatchClass: 'bg-green-500', values: points.map((point) => point.completed) },
+                                    { label: 'Failed', strokeClass: 'stroke-red-500', swatchClass: 'bg-red-500', values: points.map((point) => point.failed) },
+                                ]}
+                            />
+                        </div>
+                        <div className="space-y-2">
+                            <p className="text-sm font-medium">Latency</p>
+                            <LineChart
+                                points={points}
+                                range={metrics.range}
+                                formatValue={formatLatency}
+                                series={[
+                                    { label: 'Wait p50', strokeClass: 'stroke-sky-400', swatchClass: 'bg-sky-400', values: points.map((point) => point.wait?.p50 ?? null) },
+                                    { label: 'Wait p95', strokeClass: 'stroke-blue-600', swatchClass: 'bg-blue-600', values: points.map((point) => point.wait?.p95 ?? null) },
+                                    { label: 'Processing p50', strokeClass: 'stroke-violet-400', swatchClass: 'bg-violet-400', values: points.map((point) => point.run?.p50 ?? null) },
+                                    { label: 'Processing p95', strokeClass: 'stroke-violet-700', swatchClass: 'bg-violet-700', values: points.map((point) => point.run?.p95 ?? null) },
+                                ]}
+                            />
+                        </div>
+                    </div>
+                )}
+            </CardContent>
+        </Card>
+    );
+}
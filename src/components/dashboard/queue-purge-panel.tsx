@@ -0,0 +1,214 @@
+'use client';
+
+import * as React from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { toast } from 'sonner';
+import { Eye, Loader2, Trash2 } from 'lucide-react';
+
+interface PurgeSummary {
+    total: number;
+    skipped_processing: number;
+    by_status: Record<string, number>;
+    by_task: Record<string, number>;
+    sample: Array<{ id: string; task: string; status: string; source_id: string; run_id: string; created_at: string }>;
+}
+
+interface PurgePreview {
+    preview_token: string;
+    expires_at: string;
+    summary: PurgeSummary;
+}
+
+interface QueuePurgePanelProps {
+    onPurged?: () => void;
+}
+
+const PURGE_STATUSES = ['pending', 'retrying', 'completed', 'failed', 'canceled'];
+const PURGE_TASKS = ['discover', 'download', 'ocr'];
+const CONFIRMATION = 'PURGE JOBS';
+
+function formatCounts(counts: Record<string, number>): string {
+    const entries = Object.entries(counts);
+    if (entries.length === 0) return '—';
+    return entries.map(([key, value]) => `${key}: ${value}`).join(', ');
+}
+
+export function QueuePurgePanel({ onPurged }: QueuePurgePanelProps) {
+    const [statuses, setStatuses] = React.useState<Set<string>>(new Set());
+    const [task, setTask] = React.useState('');
+    const [sourceId, setSourceId] = React.useState('');
+    const [runId, setRunId] = React.useState('');
+    const [olderThanHours, setOlderThanHours] = React.useState('');
+    const [preview, setPreview] = React.useState<PurgePreview | null>(null);
+    const [previewing, setPreviewing] = React.useState(false);
+    const [executing, setExecuting] = React.useState(false);
+    const [confirmText, setConfirmText] = React.useState('');
+
+    // Any filter change invalidates the current preview.
+    const updateFilter = (apply: () => void) => {
+        apply();
+        setPreview(null);
+        setConfirmText('');
+    };
+
+    const toggleStatus = (status: string) => {
+        updateFilter(() => setStatuses((prev) => {
+            const next = new Set(prev);
+            if (next.has(status)) next.delete(status);
+            else next.add(status);
+            return next;
+        }));
+    };
+
+    const handlePreview = async () => {
+        const hours = olderThanHours ? Number(olderThanHours) : undefined;
+        if (hours !== undefined && (!Number.isFinite(hours) || hours <= 0)) {
+            toast.error('Older than must be a positive number of hours');
+            return;
+        }
+
+        try {
+            setPreviewing(true);
+            const response = await fetch('/api/queue/purge/preview', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    statuses: statuses.size > 0 ? Array.from(statuses) : undefined,
+                    task: task || undefined,
+                    source_id: sourceId.trim() || undefined,
+                    run_id: runId.trim() || undefined,
+                    older_than_hours: hours,
+                }),
+            });
+            const data = await response.json().catch(() => ({}));
+            if (!response.ok) throw new Error(data.error || 'Failed to preview purge');
+            setPreview(data);
+            setConfirmText('');
+        } catch (err) {
+            toast.error(err instanceof Error ? err.message : 'Failed to preview purge');
+        } finally {
+            setPreviewing(false);
+        }
+    };
+
+    const handleExecute = async () => {
+        if (!preview) return;
+        try {
+            setExecuting(true);
+            const response = await fetch('/api/queue/purge/execute', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ preview_token: preview.preview_token, confirmation: confirmText }),
+            });
+            const data = await response.json().catch(() => ({}));
+            if (!response.ok) throw new Error(data.error || 'Failed to purge jobs');
+            toast.success(`Purged ${data.deleted} job(s)`);
+            setPreview(null);
+            setConfirmText('');
+            onPurged?.();
+        } catch (err) {
+            toast.error(err instanceof Error ? err.message : 'Failed to purge jobs');
+        } finally {
+            setExecuting(false);
+        }
+    };
+
+    return (
+        <Card>
+            <CardHeader>
+                <CardTitle>Selective purge</CardTitle>
+                <CardDescription>
+                    Delete only matching jobs. Preview first; jobs currently processing are never purged.
+                </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+                <div className="flex flex-wrap items-center gap-3 text-sm">
+                    {PURGE_STATUSES.map((status) => (
+                        <label key={status} className="inline-flex items-center gap-1.5">
+                            <input type="checkbox" checked={statuses.has(status)} onChange={() => toggleStatus(status)} />
+                            {status}
+                        </label>
+                    ))}
+                </div>
+                <div className="flex flex-wrap items-center gap-2">
+                    <select
+                        value={task}
+                        onChange={(event) => updateFilter(() => setTask(event.target.value))}
+                        className="h-8 rounded-md border border-input bg-background px-2 text-sm"
+                        aria-label="Task"
+                    >
+                        <option value="">Any task</option>
+                        {PURGE_TASKS.map((value) => <option key={value} value={value}>{value}</option>)}
+                    </select>
+                    <Input
+                        value={sourceId}
+                        onChange={(event) => updateFilter(() => setSourceId(event.target.value))}
+                        placeholder="Source ID"
+                        className="h-8 w-28"
+                    />
+                    <Input
+                        value={runId}
+                        onChange={(event) => updateFilter(() => setRunId(event.target.value))}
+                        placeholder="Run ID"
+                        className="h-8 w-28"
+                    />
+                    <Input
+                        value={olderThanHours}
+                        onChange={(event) => updateFilter(() => setOlderThanHours(event.target.value))}
+                        placeholder="Older than (h)"
+                        inputMode="decimal"
+                        className="h-8 w-32"
+                    />
+                    <Button variant="outline" size="sm" onClick={handlePreview} disabled={previewing || executing}>
+                        {previewing ? <Loader2 className="h-4 w-4 animate-spin" /> : <Eye className="h-4 w-4" />}
+                        Preview
+                    </Button>
+                </div>
+
+                {preview && (
+                    <div className="space-y-3 rounded-md border p-3 text-sm">
+                        <div className="space-y-1">
+                            <p>
+                                Matching jobs: <span className="font-medium">{preview.summary.total}</span>
+                                {preview.summary.skipped_processing > 0 && (
+                                    <span className="text-muted-foreground"> ({preview.summary.skipped_processing} processing skipped)</span>
+                                )}
+                            </p>
+                            <p className="text-xs text-muted-foreground">By status: {formatCounts(preview.summary.by_status)}</p>
+                            <p className="text-xs text-muted-foreground">By task: {formatCounts(preview.summary.by_task)}</p>
+                            {preview.summary.sample.length > 0 && (
+                                <p className="text-xs text-muted-foreground">
+                                    Sample IDs: <span className="font-mono">{preview.summary.sample.map((job) => job.id).join(', ')}</span>
+                                </p>
+                            )}
+                            <p className="text-xs text-muted-foreground">
+                                Preview expires: {new Date(preview.expires_at).toLocaleString()}
+                            </p>
+                        </div>
+                        {preview.summary.total > 0 && (
+                            <div className="flex flex-wrap items-center gap-2">
+                                <Input
+                                    value={confirmText}
+                                    onChange={(event) => setConfirmText(event.target.value)}
+                                    placeholder={`Type ${CONFIRMATION}`}
+                                    className="h-8 w-48"
+                                />
+                                <Button
+                                    variant="destructive"
+                                    size="sm"
+                                    onClick={handleExecute}
+                                    disabled={executing || confirmText !== CONFIRMATION}
+                                >
+                                    {executing ? <Loader2 className="h-4 w-4 animate-spin" /> : <Trash2 className="h-4 w-4" />}
+                                    Purge {preview.summary.total} job(s)
+                                </Button>
+                            </div>
+                        )}
+                    </div>
+                )}
+            </CardContent>
+        </Card>
+    );
+}
@@ -0,0 +1,149 @@
+'use client';
+
+import * as React from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { toast } from 'sonner';
+import { Loader2 } from 'lucide-react';
+
+interface ReaperLogEntry {
+    job_id: string;
+    task: string;
+    worker: string;
+    reason: 'heartbeat_expired' | 'visibility_timeout';
+    started_at: string;
+    reaped_at: string;
+    attempts: number;
+    max_attempts: number;
+}
+
+interface ReaperConfig {
+    heartbeat_timeout_ms: number;
+    visibility_timeout_ms: Record<string, number>;
+    default_visibility_timeout_ms: number;
+}
+
+interface ReaperPanelProps {
+    /** Total reaped jobs from the stats stream; a change triggers a refetch. */
+    reapedTotal: number;
+}
+
+const REASON_LABELS: Record<ReaperLogEntry['reason'], string> = {
+    heartbeat_expired: 'Heartbeat expired',
+    visibility_timeout: 'Visibility timeout',
+};
+
+function formatTime(value: string): string {
+    if (!value) return '—';
+    const d = new Date(value);
+    return isNaN(d.getTime()) ? '—' : d.toLocaleString();
+}
+
+function formatMinutes(ms: number): string {
+    return `${Math.round(ms / 60000)} min`;
+}
+
+export function ReaperPanel({ reapedTotal }: ReaperPanelProps) {
+    const [entries, setEntries] = React.useState<ReaperLogEntry[]>([]);
+    const [heartbeats, setHeartbeats] = React.useState<Record<string, string>>({});
+    const [config, setConfig] = React.useState<ReaperConfig | null>(null);
+    const [loading, setLoading] = React.useState(false);
+
+    const fetchLog = React.useCallback(async () => {
+        try {
+            setLoading(true);
+            const response = await fetch('/api/queue/reaper?limit=50');
+            const data = await response.json().catch(() => ({}));
+            if (!response.ok) throw new Error(data.error || 'Failed to load reaper log');
+            setEntries(data.entries ?? []);
+            setHeartbeats(data.heartbeats ?? {});
+            setConfig(data.config ?? null);
+        } catch (err) {
+            toast.error(err instanceof Error ? err.message : 'Failed to load reaper log');
+        } finally {
+            setLoading(false);
+        }
+    }, []);
+
+    React.useEffect(() => {
+        fetchLog();
+    }, [fetchLog, reapedTotal]);
+
+    const now = Date.now();
+    const heartbeatEntries = Object.entries(heartbeats).sort(([a], [b]) => a.localeCompare(b));
+
+    return (
+        <Card>
+            <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                    Stuck-job reaper
+                    {loading && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+                </CardTitle>
+                <CardDescription>
+                    Processing jobs whose worker stopped sending heartbeats or that exceeded the visibility timeout
+                    are failed and then retried or dead-lettered by max attempts ({reapedTotal} reaped in total).
+                </CardDescription>
+                {config && (
+                    <div className="flex flex-wrap gap-x-4 gap-y-1 pt-1 text-xs text-muted-foreground">
+                        <span>Heartbeat timeout: {Math.round(config.heartbeat_timeout_ms / 1000)} s</span>
+                        {Object.entries(config.visibility_timeout_ms).map(([task, ms]) => (
+                            <span key={task}>{task}: {formatMinutes(ms)}</span>
+                        ))}
+                    </div>
+                )}
+            </CardHeader>
+            <CardContent className="space-y-4">
+                {heartbeatEntries.length > 0 && (
+                    <div className="flex flex-wrap gap-2 text-xs">
+                        {heartbeatEntries.map(([worker, lastBeat]) => {
+                            const ageMs = now - new Date(lastBeat).getTime();
+                            const alive = config ? ageMs <= config.heartbeat_timeout_ms : true;
+                            return (
+                                <span
+                                    key={worker}
+                                    className="inline-flex items-center gap-1.5 rounded-md border px-2 py-1"
+                                    title={`Last heartbeat: ${formatTime(lastBeat)}`}
+                                >
+                                    <span className={`h-1.5 w-1.5 rounded-full ${alive ? 'bg-green-500' : 'bg-red-500'}`} />
+                                    <span className="font-mono">{worker}</span>
+                                </span>
+                            );
+                        })}
+                    </div>
+                )}
+
+                {entries.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No stuck jobs reaped yet</p>
+                ) : (
+                    <div className="overflow-x-auto max-h-[320px] overflow-y-auto">
+                        <table className="w-full text-sm">
+                            <thead className="sticky top-0 bg-muted/80 backdrop-blur supports-[backdrop-filter]:bg-muted/60 border-b">
+                                <tr>
+                                    <th className="text-left font-medium p-2">Job</th>
+                                    <th className="text-left font-medium p-2">Task</th>
+                                    <th className="text-left font-medium p-2">Worker</th>
+                                    <th className="text-left font-medium p-2">Reason</th>
+                                    <th className="text-left font-medium p-2">Started</th>
+                                    <th className="text-left font-medium p-2">Reaped</th>
+                                    <th className="text-left font-medium p-2">Attempts</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {entries.map((entry) => (
+                                    <tr key={`${entry.job_id}-${entry.reaped_at}`} className="border-b border-border/50">
+                                        <td className="p-2 font-mono text-xs">{entry.job_id}</td>
+                                        <td className="p-2">{entry.task}</td>
+                                        <td className="p-2 font-mono text-xs">{entry.worker || '—'}</td>
+                                        <td className="p-2 text-orange-600 dark:text-orange-400">{REASON_LABELS[entry.reason] ?? entry.reason}</td>
+                                        <td className="p-2 text-muted-foreground">{formatTime(entry.started_at)}</td>
+                                        <td className="p-2 text-muted-foreground">{formatTime(entry.reaped_at)}</td>
+                                        <td className="p-2 tabular-nums">{entry.attempts}/{entry.max_attempts}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
+            </CardContent>
+        </Card>
+    );
+}
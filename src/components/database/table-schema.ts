@@ -50,6 +50,7 @@ export const TABLE_SCHEMAS: TableSchema[] = [
             { name: 'okres_id', label: 'Okres ID', type: 'text', nullable: true },
             { name: 'obec_id', label: 'Obec ID', type: 'integer', nullable: true },
             { name: 'typ_id', label: 'Typ ID', type: 'integer', nullable: true },
+            { name: 'tags', label: 'Tagy', type: 'jsonb', nullable: true, truncate: 40 },
         ],
     },
     {
@@ -159,11 +160,25 @@ export const TABLE_SCHEMAS: TableSchema[] = [
             { name: 'active_stage', label: 'Active Stage', type: 'text', nullable: true },
             { name: 'error_message', label: 'Error', type: 'text', nullable: true, truncate: 80 },
             { name: 'stats_json', label: 'Statistiky', type: 'json', nullable: true, truncate: 40 },
+            { name: 'batch_id', label: 'Batch ID', type: 'bigint', nullable: true },
             { name: 'created_by', label: 'Vytvořil', type: 'text' },
             { name: 'created_at', label: 'Vytvořeno', type: 'timestamp', autoGenerated: true },
             { name: 'updated_at', label: 'Upraveno', type: 'timestamp', autoGenerated: true },
         ],
     },
+    {
+        name: 'ingestion_batches',
+        label: 'Ingestion Batches',
+        primaryKey: 'id',
+        columns: [
+            { name: 'id', label: 'ID', type: 'bigint', primaryKey: true, autoGenerated: true },
+            { name: 'name', label: 'Název', type: 'text', nullable: true, searchable: true },
+            { name: 'filter', label: 'Filtr', type: 'jsonb', truncate: 40 },
+            { name: 'max_concurrent_runs', label: 'Souběžných runů', type: 'integer' },
+            { name: 'created_by', label: 'Vytvořil', type: 'text', nullable: true },
+            { name: 'created_at', label: 'Vytvořeno', type: 'timestamptz', autoGenerated: true },
+        ],
+    },
     {
         name: 'cz_regions_kraj',
         label: 'Kraje',
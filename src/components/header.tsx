@@ -6,12 +6,15 @@ import Image from 'next/image';
 import { usePathname } from 'next/navigation';
 import { cn } from '@/lib/utils';
 import { ThemeToggle } from '@/components/theme-toggle';
+import { HealthStrip, useHealthReport } from '@/components/health-strip';
 import { useSidebar, SIDEBAR_WIDTH, SIDEBAR_COLLAPSED_WIDTH } from '@/components/sidebar-context';
-import { Home, ListTodo, Database, Globe, Workflow, Pin, PinOff, HardDrive, Menu, X } from 'lucide-react';
+import { Home, ListTodo, CalendarClock, Archive, Database, Globe, Workflow, Pin, PinOff, HardDrive, Menu, X } from 'lucide-react';
 
 const NAV_LINKS = [
     { href: '/', label: 'Dashboard', icon: Home },
     { href: '/tasks', label: 'Tasks', icon: ListTodo },
+    { href: '/schedules', label: 'Schedules', icon: CalendarClock },
+    { href: '/archive', label: 'Archive', icon: Archive },
     { href: '/sources', label: 'Sources', icon: Globe },
     { href: '/pipeline', label: 'Pipeline', icon: Workflow },
     { href: '/database', label: 'Database', icon: Database },
@@ -22,6 +25,7 @@ export function Header() {
     const pathname = usePathname();
     const { pinned, togglePin, mobileOpen, toggleMobile, closeMobile } = useSidebar();
     const [hovered, setHovered] = useState(false);
+    const health = useHealthReport();
 
     const expanded = pinned || hovered;
 
@@ -73,7 +77,10 @@ export function Header() {
                     <Image src="/tool.svg" alt="HUD" width={18} height={18} className="shrink-0" />
                     <span className="text-sm tracking-wide whitespace-nowrap">HUD</span>
                 </Link>
-                <ThemeToggle />
+                <div className="flex items-center gap-1">
+                    <HealthStrip {...health} compact />
+                    <ThemeToggle />
+                </div>
             </div>
 
             <div
@@ -130,6 +137,13 @@ export function Header() {
                     {renderNavLinks(expanded)}
                 </nav>
 
+                <div className={cn(
+                    'border-t border-border/60 py-2 shrink-0',
+                    expanded ? 'px-4' : 'flex justify-center px-0',
+                )}>
+                    <HealthStrip {...health} compact={!expanded} />
+                </div>
+
                 <div className={cn(
                     'border-t border-border/60 px-2 py-2 shrink-0 flex items-center',
                     expanded ? 'justify-between' : 'justify-center gap-1.5',
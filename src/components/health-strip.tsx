@@ -0,0 +1,103 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { cn } from '@/lib/utils';
+
+type DependencyStatus = 'ok' | 'down' | 'not_configured';
+type OverallHealth = 'ok' | 'degraded' | 'down';
+
+interface DependencyHealth {
+    name: string;
+    status: DependencyStatus;
+    latency_ms: number | null;
+    detail: string | null;
+}
+
+export interface HealthReport {
+    status: OverallHealth;
+    checked_at: string;
+    dependencies: DependencyHealth[];
+}
+
+const HEALTH_POLL_MS = 30000;
+
+const STATUS_DOT: Record<DependencyStatus | OverallHealth | 'unknown', string> = {
+    ok: 'bg-green-500',
+    degraded: 'bg-yellow-500',
+    down: 'bg-red-500',
+    not_configured: 'bg-muted-foreground/40',
+    unknown: 'bg-muted-foreground/40',
+};
+
+function describe(dep: DependencyHealth): string {
+    const parts = [dep.name, dep.status.replace('_', ' ')];
+    if (dep.latency_ms !== null) parts.push(`${dep.latency_ms}ms`);
+    if (dep.detail) parts.push(dep.detail);
+    return parts.join(' · ');
+}
+
+/**
+ * Poll /api/health; the endpoint answers 503 with a full report when a required dependency is down.
+ */
+export function useHealthReport(): { report: HealthReport | null; error: boolean } {
+    const [report, setReport] = useState<HealthReport | null>(null);
+    const [error, setError] = useState(false);
+
+    useEffect(() => {
+        let active = true;
+        const fetchHealth = async () => {
+            try {
+                const response = await fetch('/api/health', { cache: 'no-store' });
+                const data = await response.json();
+                if (!active) return;
+                if (!Array.isArray(data?.dependencies)) throw new Error('Invalid health response');
+                setReport(data as HealthReport);
+                setError(false);
+            } catch {
+                if (active) setError(true);
+            }
+        };
+
+        fetchHealth();
+        const timer = setInterval(fetchHealth, HEALTH_POLL_MS);
+        return () => {
+            active = false;
+            clearInterval(timer);
+        };
+    }, []);
+
+    return { report, error };
+}
+
+export function HealthStrip({ report, error, compact = false }: {
+    report: HealthReport | null;
+    error: boolean;
+    compact?: boolean;
+}) {
+    const overall = error ? 'down' : report?.status ?? 'unknown';
+    const title = error
+        ? 'Health check unreachable'
+        : report
+            ? report.dependencies.map(describe).join('\n')
+            : 'Checking health…';
+
+    if (compact || error || !report) {
+        return (
+            <span className="inline-flex h-6 w-6 items-center justify-center" title={title}>
+                <span className={cn('h-2 w-2 rounded-full', STATUS_DOT[overall])} />
+                <span className="sr-only">System health: {overall}</span>
+            </span>
+        );
+    }
+
+    return (
+        <ul className="flex flex-wrap gap-x-2.5 gap-y-1 text-[10px] text-muted-foreground" aria-label="System health">
+            {report.dependencies.map((dep) => (
+                <li key={dep.name} className="inline-flex items-center gap-1" title={describe(dep)}>
+                    <span className={cn('h-1.5 w-1.5 rounded-full', STATUS_DOT[dep.status])} />
+                    {dep.name}
+                </li>
+            ))}
+        </ul>
+    );
+}
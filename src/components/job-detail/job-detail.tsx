@@ -0,0 +1,416 @@
+'use client';
+
+import * as React from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { fromRedisBool } from '@/lib/redis-bool';
+import { toast } from 'sonner';
+import { ArrowLeft, Ban, Copy, Loader2, RefreshCw, RotateCcw, XCircle } from 'lucide-react';
+
+interface JobAttempt {
+    attempt: number;
+    status: string;
+    worker: string;
+    started_at: string;
+    completed_at: string;
+    error_message: string;
+}
+
+interface JobDetailData {
+    id: string;
+    origin: 'redis' | 'archive';
+    job: Record<string, string>;
+    attempts: JobAttempt[];
+    run: Record<string, unknown> | null;
+    items: Record<string, unknown>[];
+    links_error: string | null;
+}
+
+const ACTIVE_STATUSES = new Set(['pending', 'processing', 'retrying']);
+const RETRYABLE_STATUSES = new Set(['failed', 'canceled']);
+// Fields a clone keeps; everything else (status, timings, history) starts fresh.
+const CLONE_FIELDS = [
+    'task', 'run_id', 'source_id', 'source_url_id', 'document_id', 'max_attempts', 'priority',
+    'mode', 'lang', 'dpi', 'psm', 'oem', 'min_text_chars', 'ocr_addon',
+];
+const JSON_FIELDS = new Set(['attempt_history', 'error_history']);
+
+function formatTime(value: unknown): string {
+    if (!value) return '—';
+    const d = new Date(String(value));
+    return isNaN(d.getTime()) ? '—' : d.toLocaleString();
+}
+
+function formatDuration(start: string, end: string): string {
+    const ms = new Date(end).getTime() - new Date(start).getTime();
+    if (!start || !end || Number.isNaN(ms) || ms < 0) return '—';
+    if (ms < 1000) return `${ms} ms`;
+    if (ms < 60000) return `${(ms / 1000).toFixed(1)} s`;
+    return `${(ms / 60000).toFixed(1)} min`;
+}
+
+function statusDot(status: string): string {
+    switch (status) {
+        case 'completed': return 'bg-green-500';
+        case 'failed': return 'bg-red-500';
+        case 'processing': return 'bg-blue-500';
+        case 'retrying': return 'bg-orange-500';
+        case 'pending': return 'bg-yellow-500';
+        case 'canceled': return 'bg-zinc-400';
+        default: return 'bg-muted-foreground';
+    }
+}
+
+function StatusLabel({ status }: { status: string }) {
+    return (
+        <span className="inline-flex items-center gap-1.5 capitalize">
+            <span className={`h-1.5 w-1.5 rounded-full shrink-0 ${statusDot(status)}`} />
+            {status || '—'}
+        </span>
+    );
+}
+
+function buildClonePayload(job: Record<string, string>): string {
+    const payload: Record<string, unknown> = {};
+    for (const field of CLONE_FIELDS) {
+        const value = job[field];
+        if (!value) continue;
+        payload[field] = field === 'max_attempts' ? Number(value) : value;
+    }
+    payload.manual = true;
+    return JSON.stringify(payload, null, 2);
+}
+
+function formatHashValue(field: string, value: string): string {
+    if (!JSON_FIELDS.has(field) || !value) return value;
+    try {
+        return JSON.stringify(JSON.parse(value), null, 2);
+    } catch {
+        return value;
+    }
+}
+
+export function JobDetail({ id }: { id: string }) {
+    const router = useRouter();
+    const [detail, setDetail] = React.useState<JobDetailData | null>(null);
+    const [loading, setLoading] = React.useState(true);
+    const [error, setError] = React.useState<string | null>(null);
+    const [busyAction, setBusyAction] = React.useState<'retry' | 'cancel' | 'clone' | null>(null);
+    const [cloneDraft, setCloneDraft] = React.useState<string | null>(null);
+
+    const fetchDetail = React.useCallback(async () => {
+        try {
+            setLoading(true);
+            setError(null);
+            const response = await fetch(`/api/tasks/${encodeURIComponent(id)}`);
+            const data = await response.json().catch(() => ({}));
+            if (!response.ok) throw new Error(data.error || 'Failed to fetch job');
+            setDetail(data as JobDetailData);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'An error occurred');
+        } finally {
+            setLoading(false);
+        }
+    }, [id]);
+
+    React.useEffect(() => {
+        fetchDetail();
+    }, [fetchDetail]);
+
+    // Refetch on every lifecycle event of this job while it is still live in Redis.
+    const live = detail?.origin === 'redis';
+    React.useEffect(() => {
+        if (!live) return;
+        const events = new EventSource(`/api/queue/events?job_id=${encodeURIComponent(id)}`);
+        events.onmessage = () => {
+            void fetchDetail();
+        };
+        return () => events.close();
+    }, [id, live, fetchDetail]);
+
+    const runAction = async (action: 'retry' | 'cancel') => {
+        if (action === 'cancel' && !window.confirm(`Opravdu chcete zrušit job #${id}?`)) return;
+
+        try {
+            setBusyAction(action);
+            const url = action === 'retry'
+                ? `/api/tasks/${encodeURIComponent(id)}/retry`
+                : `/api/pipeline/jobs/${encodeURIComponent(id)}/cancel`;
+            const response = await fetch(url, { method: 'POST' });
+            const data = await response.json().catch(() => ({}));
+            if (!response.ok) throw new Error(data.error || `Failed to ${action} job`);
+
+            toast.success(action === 'retry' ? `Job #${id} queued again` : `Job #${id}: ${data.outcome}`);
+            await fetchDetail();
+        } catch (err) {
+            toast.error(err instanceof Error ? err.message : `Failed to ${action} job`);
+        } finally {
+            setBusyAction(null);
+        }
+    };
+
+    const submitClone = async () => {
+        if (cloneDraft === null) return;
+
+        let body: unknown;
+        try {
+            body = JSON.parse(cloneDraft);
+        } catch {
+            toast.error('Clone payload is not valid JSON');
+            return;
+        }
+
+        try {
+            setBusyAction('clone');
+            const response = await fetch('/api/tasks', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(body),
+            });
+            const data = await response.json().catch(() => ({}));
+            if (!response.ok) throw new Error(data.error || 'Failed to clone job');
+
+            toast.success(data.deduplicated ? `Job #${data.job.id} is already queued` : `Queued clone #${data.job.id}`);
+            setCloneDraft(null);
+            router.push(`/tasks/${encodeURIComponent(data.job.id)}`);
+        } catch (err) {
+            toast.error(err instanceof Error ? err.message : 'Failed to clone job');
+        } finally {
+            setBusyAction(null);
+        }
+    };
+
+    if (error) {
+        return (
+            <div className="flex flex-col items-center justify-center py-12 space-y-4">
+                <XCircle className="h-12 w-12 text-red-500" />
+                <p className="text-lg text-muted-foreground">{error}</p>
+                <Button onClick={fetchDetail} variant="outline">Try again</Button>
+            </div>
+        );
+    }
+
+    if (!detail) {
+        return (
+            <div className="flex justify-center py-12 text-muted-foreground">
+                <Loader2 className="h-6 w-6 animate-spin" />
+            </div>
+        );
+    }
+
+    const { job, attempts, run, items } = detail;
+    const status = job.status || '';
+    const canRetry = live && (RETRYABLE_STATUSES.has(status) || Boolean(job.dead_at));
+    const canCancel = live && ACTIVE_STATUSES.has(status) && !job.dead_at;
+    const hashFields = Object.keys(job).sort();
+
+    return (
+        <div className="w-full max-w-6xl mx-auto space-y-6">
+            <div className="flex flex-wrap items-center justify-between gap-4">
+                <div>
+                    <Link href="/" className="inline-flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground">
+                        <ArrowLeft className="h-3.5 w-3.5" />
+                        Dashboard
+                    </Link>
+                    <h1 className="text-2xl font-bold tracking-tight">Job #{id}</h1>
+                    <p className="text-sm text-muted-foreground">
+                        {job.task || 'unknown'} · <StatusLabel status={status} />
+                        {job.dead_at && <span className="ml-2 text-rose-600 dark:text-rose-400">dead-lettered</span>}
+                        {!live && <span className="ml-2">(archived, read-only)</span>}
+                    </p>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                    <Button onClick={fetchDetail} variant="outline" size="sm" disabled={loading}>
+                        <RefreshCw className={`mr-2 h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+                        Refresh
+                    </Button>
+                    <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setCloneDraft(cloneDraft === null ? buildClonePayload(job) : null)}
+                    >
+                        <Copy className="mr-2 h-4 w-4" />
+                        Clone
+                    </Button>
+                    {canRetry && (
+                        <Button variant="outline" size="sm" disabled={busyAction !== null} onClick={() => runAction('retry')}>
+                            <RotateCcw className="mr-2 h-4 w-4" />
+                            Retry
+                        </Button>
+                    )}
+                    {canCancel && (
+                        <Button variant="outline" size="sm" disabled={busyAction !== null} onClick={() => runAction('cancel')}>
+                            <Ban className="mr-2 h-4 w-4" />
+                            Cancel
+                        </Button>
+                    )}
+                </div>
+            </div>
+
+            {cloneDraft !== null && (
+                <Card>
+                    <CardHeader>
+                        <CardTitle>Clone job</CardTitle>
+                        <CardDescription>Edit the payload and enqueue it as a new job via the Task Wizard API</CardDescription>
+                    </CardHeader>
+                    <CardContent className="space-y-3">
+                        <Textarea
+                            value={cloneDraft}
+                            onChange={(event) => setCloneDraft(event.target.value)}
+                            className="min-h-[220px] font-mono text-xs"
+                            spellCheck={false}
+                        />
+                        <div className="flex justify-end gap-2">
+                            <Button variant="outline" size="sm" onClick={() => setCloneDraft(null)}>Close</Button>
+                            <Button size="sm" disabled={busyAction !== null} onClick={submitClone}>
+                                {busyAction === 'clone' && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                                Enqueue clone
+                            </Button>
+                        </div>
+                    </CardContent>
+                </Card>
+            )}
+
+            <Card>
+                <CardHeader>
+                    <CardTitle>Overview</CardTitle>
+                </CardHeader>
+                <CardContent>
+                    <dl className="grid grid-cols-2 gap-x-6 gap-y-3 text-sm md:grid-cols-4">
+                        <div><dt className="text-muted-foreground">Priority</dt><dd>{job.priority || 'normal'}</dd></div>
+                        <div><dt className="text-muted-foreground">Attempts</dt><dd className="tabular-nums">{job.attempts || '0'}/{job.max_attempts || '—'}</dd></div>
+                        <div><dt className="text-muted-foreground">Worker</dt><dd>{job.worker || '—'}</dd></div>
+                        <div><dt className="text-muted-foreground">Manual</dt><dd>{fromRedisBool(job.manual) ? 'yes' : 'no'}</dd></div>
+                        <div><dt className="text-muted-foreground">Created</dt><dd>{formatTime(job.created_at)}</dd></div>
+                        <div><dt className="text-muted-foreground">Started</dt><dd>{formatTime(job.started_at)}</dd></div>
+                        <div><dt className="text-muted-foreground">Completed</dt><dd>{formatTime(job.completed_at)}</dd></div>
+                        <div><dt className="text-muted-foreground">Retry at</dt><dd>{formatTime(job.retry_at)}</dd></div>
+                        <div><dt className="text-muted-foreground">Run</dt><dd className="font-mono text-xs">{job.run_id || '—'}</dd></div>
+                        <div><dt className="text-muted-foreground">Source</dt><dd className="font-mono text-xs">{job.source_id || '—'}</dd></div>
+                        <div><dt className="text-muted-foreground">Source URL</dt><dd className="font-mono text-xs">{job.source_url_id || '—'}</dd></div>
+                        <div><dt className="text-muted-foreground">Document</dt><dd className="font-mono text-xs">{job.document_id || '—'}</dd></div>
+                    </dl>
+                    {job.error_message && (
+                        <p className="mt-4 break-all text-sm text-rose-600 dark:text-rose-400">{job.error_message}</p>
+                    )}
+                </CardContent>
+            </Card>
+
+            <Card>
+                <CardHeader>
+                    <CardTitle>Attempts</CardTitle>
+                    <CardDescription>One row per finished attempt, oldest first</CardDescription>
+                </CardHeader>
+                <CardContent className="p-0">
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-sm">
+                            <thead className="bg-muted/80 border-b">
+                                <tr>
+                                    <th className="text-left font-medium p-3">#</th>
+                                    <th className="text-left font-medium p-3">Status</th>
+                                    <th className="text-left font-medium p-3">Worker</th>
+                                    <th className="text-left font-medium p-3">Started</th>
+                                    <th className="text-left font-medium p-3">Finished</th>
+                                    <th className="text-left font-medium p-3">Duration</th>
+                                    <th className="text-left font-medium p-3">Error</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {attempts.length === 0 ? (
+                                    <tr>
+                                        <td colSpan={7} className="p-6 text-center text-muted-foreground">No finished attempts yet</td>
+                                    </tr>
+                                ) : (
+                                    attempts.map((attempt) => (
+                                        <tr key={attempt.attempt} className="border-b border-border/50">
+                                            <td className="p-3 tabular-nums">{attempt.attempt}</td>
+                                            <td className="p-3"><StatusLabel status={attempt.status} /></td>
+                                            <td className="p-3 text-muted-foreground">{attempt.worker || '—'}</td>
+                                            <td className="p-3 text-muted-foreground">{formatTime(attempt.started_at)}</td>
+                                            <td className="p-3 text-muted-foreground">{formatTime(attempt.completed_at)}</td>
+                                            <td className="p-3 text-muted-foreground">{formatDuration(attempt.started_at, attempt.completed_at)}</td>
+                                            <td className="p-3 break-all text-rose-600 dark:text-rose-400">{attempt.error_message || '—'}</td>
+                                        </tr>
+                                    ))
+                                )}
+                            </tbody>
+                        </table>
+                    </div>
+                </CardContent>
+            </Card>
+
+            <Card>
+                <CardHeader>
+                    <CardTitle>Ingestion run and items</CardTitle>
+                    <CardDescription>
+                        {detail.links_error
+                            ? `Failed to load linked rows: ${detail.links_error}`
+                            : run
+                                ? `Run #${String(run.id)} · ${String(run.status ?? '—')} · stage ${String(run.active_stage ?? '—')} · started ${formatTime(run.started_at)}`
+                                : 'No linked ingestion run'}
+                    </CardDescription>
+                </CardHeader>
+                <CardContent className="p-0">
+                    <div className="overflow-x-auto max-h-[50vh] overflow-y-auto">
+                        <table className="w-full text-sm">
+                            <thead className="sticky top-0 bg-muted/80 backdrop-blur supports-[backdrop-filter]:bg-muted/60 border-b">
+                                <tr>
+                                    <th className="text-left font-medium p-3">Item</th>
+                                    <th className="text-left font-medium p-3">Stage</th>
+                                    <th className="text-left font-medium p-3">Status</th>
+                                    <th className="text-left font-medium p-3">Updated</th>
+                                    <th className="text-left font-medium p-3">Error</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {items.length === 0 ? (
+                                    <tr>
+                                        <td colSpan={5} className="p-6 text-center text-muted-foreground">No ingestion items for this job</td>
+                                    </tr>
+                                ) : (
+                                    items.map((item) => (
+                                        <tr key={String(item.id)} className="border-b border-border/50">
+                                            <td className="p-3 max-w-[320px] truncate" title={String(item.item_key ?? '')}>
+                                                {String(item.item_label || item.item_key || item.id)}
+                                            </td>
+                                            <td className="p-3 text-muted-foreground">{String(item.stage ?? '—')}</td>
+                                            <td className="p-3"><StatusLabel status={String(item.status ?? '')} /></td>
+                                            <td className="p-3 text-muted-foreground">{formatTime(item.updated_at)}</td>
+                                            <td className="p-3 max-w-[260px] truncate text-rose-600 dark:text-rose-400" title={String(item.error_message ?? '')}>
+                                                {String(item.error_message || item.last_error_message || '—')}
+                                            </td>
+                                        </tr>
+                                    ))
+                                )}
+                            </tbody>
+                        </table>
+                    </div>
+                </CardContent>
+            </Card>
+
+            <Card>
+                <CardHeader>
+                    <CardTitle>Payload</CardTitle>
+                    <CardDescription>Every field of the <code>job:{id}</code> hash</CardDescription>
+                </CardHeader>
+                <CardContent className="p-0">
+                    <table className="w-full text-sm">
+                        <tbody>
+                            {hashFields.map((field) => (
+                                <tr key={field} className="border-b border-border/50 align-top">
+                                    <td className="p-3 w-48 font-mono text-xs text-muted-foreground">{field}</td>
+                                    <td className="p-3 font-mono text-xs whitespace-pre-wrap break-all">
+                                        {formatHashValue(field, job[field]) || '—'}
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </CardContent>
+            </Card>
+        </div>
+    );
+}
@@ -0,0 +1,487 @@
+'use client';
+
+import * as React from 'react';
+import Link from 'next/link';
+import { toast } from 'sonner';
+import { ArrowLeft, Eye, Layers, Loader2, Play, RefreshCw } from 'lucide-react';
+import { ObecAutocomplete } from '@/components/sources/obec-autocomplete';
+import { useObecSearch } from '@/components/sources/hooks/use-obec-search';
+import { useSourceTypes } from '@/components/sources/hooks/use-source-types';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+import type { PipelineBatch, PipelineBatchDetail, PipelineBatchFilter, PipelineBatchSource } from './types';
+
+type RegionLevel = 'none' | 'kraj' | 'okres' | 'obec';
+
+const ANY = 'any';
+const POLL_INTERVAL_MS = 5000;
+const MAX_PREVIEW_NAMES = 20;
+
+const STAGE_LABELS: Record<string, string> = {
+    discovery: 'Discovery',
+    documents: 'Download',
+    ocr: 'OCR',
+    summary: 'Souhrn',
+};
+
+function statusBadgeClass(status: string): string {
+    if (status === 'completed') return 'bg-green-500/10 text-green-700 border-green-500/30 dark:text-green-300';
+    if (status === 'failed') return 'bg-red-500/10 text-red-700 border-red-500/30 dark:text-red-300';
+    if (status === 'canceled') return 'bg-muted text-muted-foreground border-border';
+    return 'bg-primary/15 text-primary border-primary/30';
+}
+
+function describeBatchStatus(batch: PipelineBatch): string {
+    if (!batch.summary.finished) return 'running';
+    return batch.summary.failed > 0 ? 'failed' : 'completed';
+}
+
+function BatchProgress({ batch }: { batch: PipelineBatch }) {
+    const { summary } = batch;
+    const width = (count: number) => `${summary.total > 0 ? (count / summary.total) * 100 : 0}%`;
+    return (
+        <div className="space-y-1.5">
+            <div className="flex h-2 overflow-hidden rounded-full bg-muted">
+                <div className="bg-green-500" style={{ width: width(summary.completed) }} />
+                <div className="bg-red-500" style={{ width: width(summary.failed) }} />
+                <div className="bg-muted-foreground/40" style={{ width: width(summary.canceled) }} />
+                <div className="bg-primary/60" style={{ width: width(summary.running) }} />
+            </div>
+            <div className="flex flex-wrap gap-x-3 gap-y-1 text-xs text-muted-foreground">
+                <span className="font-medium text-foreground">{summary.progress} %</span>
+                <span>{summary.total} runů</span>
+                <span>ve frontě {summary.queued}</span>
+                <span>
+                    běží {summary.running}
+                    {Object.keys(summary.stages).length > 0
+                        ? ` (${Object.entries(summary.stages).map(([stage, count]) => `${STAGE_LABELS[stage] ?? stage} ${count}`).join(', ')})`
+                        : ''}
+                </span>
+                <span className="text-green-700 dark:text-green-300">hotovo {summary.completed}</span>
+                <span className={cn(summary.failed > 0 && 'text-red-600 dark:text-red-400')}>selhalo {summary.failed}</span>
+                {summary.canceled > 0 ? <span>zrušeno {summary.canceled}</span> : null}
+            </div>
+        </div>
+    );
+}
+
+/**
+ * Start a crawl of many sources at once and follow the batches' progress.
+ */
+export function BatchRuns() {
+    const { sourceTypes, loadingTypes } = useSourceTypes();
+    const {
+        selectedObec,
+        obecSearch,
+        obecResults,
+        showObecDropdown,
+        searchingObec,
+        obecDropdownRef,
+        onObecInputChange,
+        onSelectObec,
+        resetObec,
+    } = useObecSearch();
+
+    const [name, setName] = React.useState('');
+    const [regionLevel, setRegionLevel] = React.useState<RegionLevel>('none');
+    const [typeId, setTypeId] = React.useState(ANY);
+    const [strategy, setStrategy] = React.useState(ANY);
+    const [tag, setTag] = React.useState('');
+    const [maxConcurrentRuns, setMaxConcurrentRuns] = React.useState('3');
+    const [preview, setPreview] = React.useState<{ sources: PipelineBatchSource[]; busy: PipelineBatchSource[] } | null>(null);
+    const [previewing, setPreviewing] = React.useState(false);
+    const [creating, setCreating] = React.useState(false);
+
+    const [batches, setBatches] = React.useState<PipelineBatch[]>([]);
+    const [batchesLoading, setBatchesLoading] = React.useState(true);
+    const [openBatchId, setOpenBatchId] = React.useState<string | null>(null);
+    const [batchDetail, setBatchDetail] = React.useState<PipelineBatchDetail | null>(null);
+
+    const filter = React.useMemo<PipelineBatchFilter>(() => {
+        const next: PipelineBatchFilter = {};
+        if (selectedObec && regionLevel === 'kraj') next.kraj_id = selectedObec.kraj_id;
+        if (selectedObec && regionLevel === 'okres') next.okres_id = selectedObec.okres_id;
+        if (selectedObec && regionLevel === 'obec') next.obec_id = parseInt(selectedObec.id, 10);
+        if (typeId !== ANY) next.typ_id = parseInt(typeId, 10);
+        if (strategy === 'list' || strategy === 'rss') next.crawl_strategy = strategy;
+        if (tag.trim()) next.tag = tag.trim();
+        return next;
+    }, [regionLevel, selectedObec, strategy, tag, typeId]);
+    const hasFilter = Object.keys(filter).length > 0;
+
+    // Readable default name, since the stored filter only has ids.
+    const filterLabel = React.useMemo(() => {
+        const parts: string[] = [];
+        if (selectedObec && regionLevel === 'kraj') parts.push(selectedObec.kraj_nazev);
+        if (selectedObec && regionLevel === 'okres') parts.push(`okres ${selectedObec.okres_nazev}`);
+        if (selectedObec && regionLevel === 'obec') parts.push(selectedObec.nazev);
+        if (typeId !== ANY) parts.push(sourceTypes.find((type) => String(type.id) === typeId)?.name ?? `typ ${typeId}`);
+        if (filter.crawl_strategy) parts.push(filter.crawl_strategy);
+        if (filter.tag) parts.push(`#${filter.tag}`);
+        return parts.join(' · ');
+    }, [filter, regionLevel, selectedObec, sourceTypes, typeId]);
+
+    React.useEffect(() => {
+        setPreview(null);
+    }, [filter]);
+
+    const loadBatches = React.useCallback(async () => {
+        try {
+            const response = await fetch('/api/pipeline/batches');
+            const data = await response.json();
+            if (!response.ok) throw new Error(data.error || 'Nepodařilo se načíst batche');
+            setBatches(Array.isArray(data.batches) ? data.batches : []);
+        } catch (error) {
+            console.error('Failed to load batches:', error);
+        } finally {
+            setBatchesLoading(false);
+        }
+    }, []);
+
+    const loadBatchDetail = React.useCallback(async (batchId: string) => {
+        try {
+            const response = await fetch(`/api/pipeline/batches/${encodeURIComponent(batchId)}`);
+            const data = await response.json();
+            if (!response.ok) throw new Error(data.error || 'Nepodařilo se načíst batch');
+            setBatchDetail(data.batch as PipelineBatchDetail);
+        } catch (error) {
+            console.error('Failed to load batch detail:', error);
+            toast.error(error instanceof Error ? error.message : 'Nepodařilo se načíst batch');
+        }
+    }, []);
+
+    React.useEffect(() => {
+        void loadBatches();
+    }, [loadBatches]);
+
+    const hasRunningBatch = batches.some((batch) => !batch.summary.finished);
+    React.useEffect(() => {
+        if (!hasRunningBatch) return;
+        const interval = window.setInterval(() => {
+            void loadBatches();
+            if (openBatchId) void loadBatchDetail(openBatchId);
+        }, POLL_INTERVAL_MS);
+        return () => window.clearInterval(interval);
+    }, [hasRunningBatch, loadBatchDetail, loadBatches, openBatchId]);
+
+    const handleToggleBatch = (batchId: string) => {
+        if (openBatchId === batchId) {
+            setOpenBatchId(null);
+            setBatchDetail(null);
+            return;
+        }
+        setOpenBatchId(batchId);
+        setBatchDetail(null);
+        void loadBatchDetail(batchId);
+    };
+
+    const handlePreview = async () => {
+        setPreviewing(true);
+        try {
+            const response = await fetch('/api/pipeline/batches', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ filter, dry_run: true }),
+            });
+            const data = await response.json();
+            if (!response.ok) throw new Error(data.error || 'Nepodařilo se vybrat zdroje');
+            setPreview({ sources: data.sources ?? [], busy: data.busy ?? [] });
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : 'Nepodařilo se vybrat zdroje');
+        } finally {
+            setPreviewing(false);
+        }
+    };
+
+    const handleCreate = async () => {
+        const count = preview?.sources.length;
+        const question = count !== undefined
+            ? `Spustit batch crawl pro ${count} zdrojů?`
+            : 'Spustit batch crawl pro všechny zdroje odpovídající filtru?';
+        if (!window.confirm(question)) return;
+
+        setCreating(true);
+        try {
+            const response = await fetch('/api/pipeline/batches', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    name: name.trim() || filterLabel,
+                    filter,
+                    max_concurrent_runs: parseInt(maxConcurrentRuns, 10) || 3,
+                }),
+            });
+            const data = await response.json();
+            if (!response.ok) throw new Error(data.error || 'Nepodařilo se vytvořit batch');
+
+            const batch = data.batch as PipelineBatch;
+            const busy = Array.isArray(data.busy) ? data.busy.length : 0;
+            toast.success(`Batch #${batch.id}: ${batch.summary.total} runů ve frontě${busy > 0 ? `, ${busy} zdrojů přeskočeno (rozpracovaný run)` : ''}`);
+            setName('');
+            setPreview(null);
+            setOpenBatchId(batch.id);
+            void loadBatchDetail(batch.id);
+            await loadBatches();
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : 'Nepodařilo se vytvořit batch');
+        } finally {
+            setCreating(false);
+        }
+    };
+
+    return (
+        <div className="space-y-5">
+            <div className="flex items-center justify-between gap-3 flex-wrap">
+                <div>
+                    <h1 className="text-xl font-semibold">Batch runy</h1>
+                    <p className="text-sm text-muted-foreground">Crawl všech zdrojů vybraných filtrem, spouštěný postupně.</p>
+                </div>
+                <Button variant="outline" size="sm" asChild>
+                    <Link href="/pipeline">
+                        <ArrowLeft className="h-4 w-4 mr-2" />
+                        Pipeline
+                    </Link>
+                </Button>
+            </div>
+
+            <Card className="ring-1 ring-primary/30">
+                <CardHeader>
+                    <CardTitle>Nový batch</CardTitle>
+                    <CardDescription>
+                        Každý vybraný aktivní zdroj dostane vlastní run; zdroje s rozpracovaným runem se přeskočí.
+                    </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                    <div className="grid gap-3 md:grid-cols-[160px_minmax(0,1fr)]">
+                        <div>
+                            <Label className="mb-1 block text-xs text-muted-foreground">Region</Label>
+                            <Select
+                                value={regionLevel}
+                                onValueChange={(value) => {
+                                    setRegionLevel(value as RegionLevel);
+                                    if (value === 'none') resetObec();
+                                }}
+                            >
+                                <SelectTrigger>
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value="none">Bez omezení</SelectItem>
+                                    <SelectItem value="kraj">Celý kraj</SelectItem>
+                                    <SelectItem value="okres">Celý okres</SelectItem>
+                                    <SelectItem value="obec">Jen obec</SelectItem>
+                                </SelectContent>
+                            </Select>
+                        </div>
+                        {regionLevel !== 'none' ? (
+                            <ObecAutocomplete
+                                obecDropdownRef={obecDropdownRef}
+                                obecSearch={obecSearch}
+                                searchingObec={searchingObec}
+                                showObecDropdown={showObecDropdown}
+                                obecResults={obecResults}
+                                onObecInputChange={onObecInputChange}
+                                onSelectObec={onSelectObec}
+                                selectedOkresName={selectedObec?.okres_nazev}
+                                selectedKrajName={selectedObec?.kraj_nazev}
+                            />
+                        ) : (
+                            <p className="self-end pb-2 text-xs text-muted-foreground">
+                                Kraj nebo okres vyberete přes libovolnou obec v něm.
+                            </p>
+                        )}
+                    </div>
+
+                    <div className="grid gap-3 md:grid-cols-4">
+                        <div>
+                            <Label className="mb-1 block text-xs text-muted-foreground">Typ zdroje</Label>
+                            <Select value={typeId} onValueChange={setTypeId} disabled={loadingTypes}>
+                                <SelectTrigger>
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value={ANY}>Všechny typy</SelectItem>
+                                    {sourceTypes.map((type) => (
+                                        <SelectItem key={type.id} value={String(type.id)}>{type.name}</SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                        <div>
+                            <Label className="mb-1 block text-xs text-muted-foreground">Strategie</Label>
+                            <Select value={strategy} onValueChange={setStrategy}>
+                                <SelectTrigger>
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value={ANY}>Všechny strategie</SelectItem>
+                                    <SelectItem value="list">list</SelectItem>
+                                    <SelectItem value="rss">rss</SelectItem>
+                                </SelectContent>
+                            </Select>
+                        </div>
+                        <div>
+                            <Label htmlFor="batch-tag" className="mb-1 block text-xs text-muted-foreground">Tag</Label>
+                            <Input id="batch-tag" value={tag} onChange={(event) => setTag(event.target.value)} placeholder="např. uredni-deska" />
+                        </div>
+                        <div>
+                            <Label htmlFor="batch-concurrency" className="mb-1 block text-xs text-muted-foreground">Souběžných runů</Label>
+                            <Input
+                                id="batch-concurrency"
+                                type="number"
+                                min={1}
+                                max={50}
+                                value={maxConcurrentRuns}
+                                onChange={(event) => setMaxConcurrentRuns(event.target.value)}
+                            />
+                        </div>
+                    </div>
+
+                    <div>
+                        <Label htmlFor="batch-name" className="mb-1 block text-xs text-muted-foreground">Název (volitelný)</Label>
+                        <Input
+                            id="batch-name"
+                            value={name}
+                            onChange={(event) => setName(event.target.value)}
+                            placeholder={filterLabel || 'Batch'}
+                        />
+                    </div>
+
+                    {preview ? (
+                        <div className="rounded-md border border-border/60 px-3 py-2 text-sm">
+                            <p>
+                                <span className="font-medium">{preview.sources.length}</span> zdrojů ke crawlu
+                                {preview.busy.length > 0 ? `, ${preview.busy.length} přeskočeno (rozpracovaný run)` : ''}
+                            </p>
+                            {preview.sources.length > 0 ? (
+                                <p className="mt-1 text-xs text-muted-foreground">
+                                    {preview.sources.slice(0, MAX_PREVIEW_NAMES).map((source) => source.name || `#${source.id}`).join(', ')}
+                                    {preview.sources.length > MAX_PREVIEW_NAMES ? ` … a dalších ${preview.sources.length - MAX_PREVIEW_NAMES}` : ''}
+                                </p>
+                            ) : null}
+                        </div>
+                    ) : null}
+
+                    <div className="flex items-center gap-2 flex-wrap">
+                        <Button type="button" variant="outline" onClick={() => void handlePreview()} disabled={!hasFilter || previewing || creating}>
+                            {previewing ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Eye className="h-4 w-4 mr-2" />}
+                            Náhled zdrojů
+                        </Button>
+                        <Button
+                            type="button"
+                            onClick={() => void handleCreate()}
+                            disabled={!hasFilter || creating || preview?.sources.length === 0}
+                        >
+                            {creating ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Play className="h-4 w-4 mr-2" />}
+                            Spustit batch
+                        </Button>
+                        {!hasFilter ? (
+                            <span className="text-xs text-muted-foreground">Zadejte alespoň jeden filtr.</span>
+                        ) : null}
+                    </div>
+                </CardContent>
+            </Card>
+
+            <Card className="ring-1 ring-primary/30">
+                <CardHeader>
+                    <div className="flex items-center justify-between gap-3 flex-wrap">
+                        <div>
+                            <CardTitle>Batche</CardTitle>
+                            <CardDescription>Průběh a selhání napříč runy batche</CardDescription>
+                        </div>
+                        <Button type="button" variant="ghost" size="sm" onClick={() => void loadBatches()}>
+                            <RefreshCw className="h-4 w-4 mr-2" />
+                            Obnovit
+                        </Button>
+                    </div>
+                </CardHeader>
+                <CardContent>
+                    {batchesLoading ? (
+                        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                            <Loader2 className="h-4 w-4 animate-spin" />
+                            Načítám batche...
+                        </div>
+                    ) : batches.length === 0 ? (
+                        <p className="text-sm text-muted-foreground">Zatím žádné batche.</p>
+                    ) : (
+                        <div className="space-y-3">
+                            {batches.map((batch) => {
+                                const status = describeBatchStatus(batch);
+                                const open = openBatchId === batch.id;
+                                return (
+                                    <div key={batch.id} className="rounded-md border border-border p-3 space-y-3">
+                                        <div className="flex items-center gap-3 flex-wrap">
+                                            <Layers className="h-4 w-4 text-muted-foreground" />
+                                            <span className="font-mono text-xs">#{batch.id}</span>
+                                            <span className="font-medium min-w-0 flex-1 truncate">{batch.name || 'Batch'}</span>
+                                            <span className={cn('inline-flex items-center rounded-full border px-2 py-0.5 text-xs', statusBadgeClass(status))}>
+                                                {status}
+                                            </span>
+                                            <span className="text-xs text-muted-foreground">
+                                                {batch.created_at ? new Date(batch.created_at).toLocaleString('cs-CZ') : '—'}
+                                            </span>
+                                            <Button type="button" variant="ghost" size="sm" onClick={() => handleToggleBatch(batch.id)}>
+                                                {open ? 'Skrýt runy' : 'Runy'}
+                                            </Button>
+                                        </div>
+                                        <BatchProgress batch={batch} />
+                                        {batch.failures.length > 0 ? (
+                                            <ul className="max-h-40 overflow-auto divide-y divide-border/40 rounded-md border border-red-500/30 text-xs">
+                                                {batch.failures.map((failure) => (
+                                                    <li key={failure.run_id} className="px-3 py-1.5">
+                                                        <span className="font-mono">#{failure.run_id}</span>{' '}
+                                                        <span className="font-medium">{failure.source_name || `Source #${failure.source_id}`}</span>
+                                                        <span className="text-muted-foreground">
+                                                            {' · '}{STAGE_LABELS[failure.stage ?? ''] ?? failure.stage ?? '—'}
+                                                            {failure.error_message ? ` · ${failure.error_message}` : ''}
+                                                        </span>
+                                                    </li>
+                                                ))}
+                                            </ul>
+                                        ) : null}
+                                        {open ? (
+                                            batchDetail?.id !== batch.id ? (
+                                                <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                                                    <Loader2 className="h-3.5 w-3.5 animate-spin" />
+                                                    Načítám runy...
+                                                </div>
+                                            ) : (
+                                                <ul className="max-h-80 overflow-auto divide-y divide-border/40 rounded-md border border-border/60 text-xs">
+                                                    {batchDetail.runs.map((run) => {
+                                                        const runStatus = run.status === 'pending' && !run.started_at ? 'queued' : String(run.status);
+                                                        return (
+                                                            <li key={run.id} className="flex items-center gap-3 px-3 py-1.5">
+                                                                <span className="font-mono w-16 shrink-0">#{run.id}</span>
+                                                                <span className="min-w-0 flex-1 truncate">{run.source_name || `Source #${run.source_id}`}</span>
+                                                                <span className="text-muted-foreground">
+                                                                    {STAGE_LABELS[run.active_stage ?? ''] ?? run.active_stage ?? '—'}
+                                                                </span>
+                                                                <span className={cn('inline-flex items-center rounded-full border px-2 py-0.5', statusBadgeClass(runStatus))}>
+                                                                    {runStatus}
+                                                                </span>
+                                                            </li>
+                                                        );
+                                                    })}
+                                                </ul>
+                                            )
+                                        ) : null}
+                                    </div>
+                                );
+                            })}
+                        </div>
+                    )}
+                </CardContent>
+            </Card>
+        </div>
+    );
+}
@@ -1,12 +1,14 @@
 'use client';
 
 import * as React from 'react';
+import Link from 'next/link';
 import {
     CheckCircle2,
     Loader2,
     Play,
     Plus,
     RefreshCw,
+    RotateCcw,
     Search,
     FileDown,
     ScanText,
@@ -14,6 +16,7 @@ import {
     AlertCircle,
     Copy,
     ExternalLink,
+    Layers,
     TriangleAlert,
     X,
 } from 'lucide-react';
@@ -25,6 +28,8 @@ import { supabase } from '@/lib/supabase';
 import { useSources, type Source } from '@/hooks/use-sources';
 import { useIngestionItems } from '@/hooks/use-ingestion-items';
 import { useIngestionRuns } from '@/hooks/use-ingestion-runs';
+import { getNextCrawlDueAt } from '@/lib/crawl-interval';
+import { hasDiscoveryDownloadFileStep } from '@/lib/source-config';
 import type {
     PipelineCreatedJob,
     PipelineIngestionItem,
@@ -37,6 +42,7 @@ import type {
     PipelineStage,
     PipelineSummary,
 } from './types';
+import { RunDiffPanel } from './run-diff';
 
 interface SourceUrlMeta {
     id: string;
@@ -156,6 +162,9 @@ const STAGE_ORDER: PipelineStage[] = ['sources', 'discovery', 'download', 'ocr',
 const QUEUE_OPERATOR_TIMEOUT_MS = 4000;
 const QUEUE_OPERATOR_POLL_MS = 3000;
 const QUEUE_OPERATOR_STALE_MS = 15000;
+const JOB_STATUS_POLL_MS = 2000;
+const JOB_STATUS_FALLBACK_POLL_MS = 15000;
+const JOB_EVENT_REFETCH_DELAY_MS = 250;
 const OCR_JOB_DEFAULTS = {
     mode: 'hybrid',
     lang: 'ces+eng',
@@ -166,7 +175,7 @@ const OCR_JOB_DEFAULTS = {
     ocr_addon: '1',
 } as const;
 
-const TERMINAL_STATUSES: PipelineJobStatusValue[] = ['completed', 'failed', 'unknown'];
+const TERMINAL_STATUSES: PipelineJobStatusValue[] = ['completed', 'failed', 'canceled', 'unknown'];
 
 function isTerminal(status: PipelineJobStatusValue): boolean {
     return TERMINAL_STATUSES.includes(status);
@@ -189,10 +198,14 @@ function getStatusDot(status: PipelineJobStatusValue): string {
             return 'bg-yellow-500';
         case 'processing':
             return 'bg-primary animate-pulse';
+        case 'retrying':
+            return 'bg-orange-500';
         case 'completed':
             return 'bg-green-500';
         case 'failed':
             return 'bg-red-500';
+        case 'canceled':
+            return 'bg-zinc-400';
         default:
             return 'bg-muted-foreground';
     }
@@ -204,10 +217,14 @@ function getStatusLabel(status: PipelineJobStatusValue): string {
             return 'pending';
         case 'processing':
             return 'processing';
+        case 'retrying':
+            return 'retrying';
         case 'completed':
             return 'completed';
         case 'failed':
             return 'failed';
+        case 'canceled':
+            return 'canceled';
         default:
             return 'unknown';
     }
@@ -468,7 +485,8 @@ function getStageIndex(stage: PipelineStage): number {
 function getJobCounts(jobs: PipelineJobStatus[]) {
     return jobs.reduce(
         (acc, job) => {
-            if (job.status === 'pending') acc.pending++;
+            // A retry waiting for its backoff is queued work again.
+            if (job.status === 'pending' || job.status === 'retrying') acc.pending++;
             if (job.status === 'processing') acc.processing++;
             if (job.status === 'completed') acc.completed++;
             if (job.status === 'failed') acc.failed++;
@@ -487,36 +505,6 @@ function isObjectRecord(value: unknown): value is Record<string, unknown> {
     return value !== null && typeof value === 'object';
 }
 
-function hasDiscoveryDownloadFileStep(crawlParams: unknown): boolean {
-    if (!isObjectRecord(crawlParams)) return false;
-    const discovery = crawlParams.discovery;
-    if (!isObjectRecord(discovery)) return false;
-    const chain = discovery.chain;
-    if (!Array.isArray(chain)) return false;
-
-    const visit = (nodes: unknown[]): boolean => {
-        for (const node of nodes) {
-            if (!isObjectRecord(node)) continue;
-            const repeater = node.repeater;
-            if (isObjectRecord(repeater) && Array.isArray(repeater.steps)) {
-                const hasDownloadFile = repeater.steps.some((step) => (
-                    isObjectRecord(step) && step.type === 'download_file'
-                ));
-                if (hasDownloadFile) return true;
-            }
-
-            const children = node.children;
-            if (Array.isArray(children) && visit(children)) {
-                return true;
-            }
-        }
-
-        return false;
-    };
-
-    return visit(chain);
-}
-
 function buildQueueOperatorUrl(pathname: string): string {
     const base = process.env.NEXT_PUBLIC_QUEUE_OPERATOR_URL?.trim();
     if (!base) return pathname;
@@ -571,6 +559,30 @@ function toPendingStatuses(jobs: PipelineCreatedJob[]): PipelineJobStatus[] {
     }));
 }
 
+function appendPendingJobs(previous: PipelineJobStatus[], jobs: PipelineCreatedJob[]): PipelineJobStatus[] {
+    // Deduplicated enqueues return ids the list already tracks.
+    const known = new Set(previous.map((job) => job.id));
+    return [...previous, ...toPendingStatuses(jobs.filter((job) => !known.has(job.id)))];
+}
+
+function latestJobPerTarget(jobs: PipelineJobStatus[]): PipelineJobStatus[] {
+    // A retried target has several jobs in the run; only the last one counts.
+    const latest = new Map<string, PipelineJobStatus>();
+    for (const job of jobs) {
+        const key = `${job.task}:${job.document_id || job.source_url_id || job.source_id || job.id}`;
+        latest.delete(key);
+        latest.set(key, job);
+    }
+    return Array.from(latest.values());
+}
+
+function mergeRunJobs(previous: PipelineJobStatus[], jobs: PipelineJobStatus[]): PipelineJobStatus[] {
+    // Jobs the run orchestrator enqueued on the server are appended after the ones this page knows.
+    const byId = new Map(jobs.map((job) => [job.id, job]));
+    const known = new Set(previous.map((job) => job.id));
+    return [...previous.map((job) => byId.get(job.id) ?? job), ...jobs.filter((job) => !known.has(job.id))];
+}
+
 interface ManualPipelineProps {
     devMode: boolean;
 }
@@ -622,6 +634,7 @@ export function ManualPipeline({ devMode }: ManualPipelineProps) {
     const [finishingRun, setFinishingRun] = React.useState(false);
     const [suppressAutoRunSelect, setSuppressAutoRunSelect] = React.useState(false);
     const [deletingRunIds, setDeletingRunIds] = React.useState<Record<string, boolean>>({});
+    const [cancelingJobIds, setCancelingJobIds] = React.useState<Record<string, boolean>>({});
     const [refreshingData, setRefreshingData] = React.useState(false);
     const [operatorJobProgressById, setOperatorJobProgressById] = React.useState<Record<string, QueueOperatorJobProgress>>({});
     const [operatorSourceProgress, setOperatorSourceProgress] = React.useState<QueueOperatorSourceProgress | null>(null);
@@ -635,6 +648,9 @@ export function ManualPipeline({ devMode }: ManualPipelineProps) {
     const [loadingDownloadDetails, setLoadingDownloadDetails] = React.useState(false);
     const [loadingOcrDetails, setLoadingOcrDetails] = React.useState(false);
     const [downloadSkippedByDiscovery, setDownloadSkippedByDiscovery] = React.useState(false);
+    const [runJobsReloadKey, setRunJobsReloadKey] = React.useState(0);
+    const [retryingStage, setRetryingStage] = React.useState<'documents' | 'ocr' | null>(null);
+    const loadedRunJobsIdRef = React.useRef<string | null>(null);
 
     const selectedSource = React.useMemo(
         () => sources.find((source) => String(source.id) === runState.selectedSourceId) ?? null,
@@ -861,6 +877,15 @@ export function ManualPipeline({ devMode }: ManualPipelineProps) {
         setIngestionItems(normalizedItems);
     }, [selectedRunItems]);
 
+    const failedItemCounts = React.useMemo(() => {
+        const counts = { documents: 0, ocr: 0 };
+        for (const item of ingestionItems) {
+            if (item.status !== 'failed') continue;
+            if (item.stage === 'documents' || item.stage === 'ocr') counts[item.stage] += 1;
+        }
+        return counts;
+    }, [ingestionItems]);
+
     React.useEffect(() => {
         setIngestionLoading(activeRunsLoading || historyRunsLoading || selectedRunItemsLoading);
     }, [activeRunsLoading, historyRunsLoading, selectedRunItemsLoading]);
@@ -1304,6 +1329,33 @@ export function ManualPipeline({ devMode }: ManualPipelineProps) {
         return data.jobs as PipelineJobStatus[];
     }, []);
 
+    const fetchRunJobs = React.useCallback(async (runId: string) => {
+        const response = await fetch(`/api/pipeline/runs/${encodeURIComponent(runId)}/jobs`);
+        const data = await response.json();
+        if (!response.ok) {
+            throw new Error(data.error || 'Nepodařilo se načíst joby runu');
+        }
+        const jobIds = (data.jobs as Array<{ id: string }>).map((job) => job.id);
+        const statuses: PipelineJobStatus[] = [];
+        for (const batch of chunk(jobIds, 1000)) {
+            statuses.push(...await fetchJobStatuses(batch));
+        }
+        return latestJobPerTarget(statuses);
+    }, [fetchJobStatuses]);
+
+    const retryFailedItems = React.useCallback(async (runId: string, stage: 'documents' | 'ocr') => {
+        const response = await fetch(`/api/pipeline/runs/${encodeURIComponent(runId)}/retry`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ stage }),
+        });
+        const data = await response.json();
+        if (!response.ok) {
+            throw new Error(data.error || 'Nepodařilo se zopakovat selhané položky');
+        }
+        return data as { items: number; enqueued: number; skipped: number };
+    }, []);
+
     const createPipelineRun = React.useCallback(async (sourceId: string) => {
         const response = await fetch('/api/pipeline/runs', {
             method: 'POST',
@@ -1344,15 +1396,16 @@ export function ManualPipeline({ devMode }: ManualPipelineProps) {
         }
     }, []);
 
-    const patchSelectedRun = React.useCallback(async (updates: Record<string, unknown>) => {
-        if (!runState.selectedRunId) return;
-        try {
-            await patchPipelineRun(runState.selectedRunId, updates);
-            await Promise.all([refreshActiveRuns(), refreshHistoryRuns()]);
-        } catch (error) {
-            console.error('Failed to patch selected run:', error);
+    const cancelPipelineJob = React.useCallback(async (jobId: string) => {
+        const response = await fetch(`/api/pipeline/jobs/${encodeURIComponent(jobId)}/cancel`, {
+            method: 'POST',
+        });
+        const data = await response.json().catch(() => ({}));
+        if (!response.ok) {
+            throw new Error(data.error || 'Nepodařilo se zrušit job');
         }
-    }, [patchPipelineRun, refreshActiveRuns, refreshHistoryRuns, runState.selectedRunId]);
+        return data.outcome as 'canceled' | 'cancel_requested';
+    }, []);
 
     const unlockStage = React.useCallback((stage: PipelineStage) => {
         setMaxVisitedStage((prev) => (
@@ -1455,6 +1508,33 @@ export function ManualPipeline({ devMode }: ManualPipelineProps) {
         }
     }, [deletePipelineRun, refreshActiveRuns, refreshHistoryRuns, resetPipelineToSources, runState.selectedRunId]);
 
+    const handleCancelJob = React.useCallback(async (job: PipelineJobStatus) => {
+        if (!window.confirm(`Opravdu chcete zrušit job #${job.id} (${job.task})?`)) return;
+
+        setCancelingJobIds((prev) => ({ ...prev, [job.id]: true }));
+        try {
+            const outcome = await cancelPipelineJob(job.id);
+            const update: PipelineJobStatus = outcome === 'canceled'
+                ? { ...job, status: 'canceled' }
+                : { ...job, cancel_requested: true };
+            setDiscoverJobs((prev) => mergeStatuses(prev, [update]));
+            setDownloadJobs((prev) => mergeStatuses(prev, [update]));
+            setOcrJobs((prev) => mergeStatuses(prev, [update]));
+            toast.success(outcome === 'canceled'
+                ? `Job #${job.id} zrušen`
+                : `Job #${job.id} právě běží — worker ho ukončí`);
+        } catch (error) {
+            console.error('Cancel job failed:', error);
+            toast.error(error instanceof Error ? error.message : 'Nepodařilo se zrušit job');
+        } finally {
+            setCancelingJobIds((prev) => {
+                const next = { ...prev };
+                delete next[job.id];
+                return next;
+            });
+        }
+    }, [cancelPipelineJob]);
+
     const resetRunStateForSource = React.useCallback((sourceId: string, runId: string, runStartedAt: string) => {
         setRunState({
             selectedSourceId: sourceId,
@@ -1509,6 +1589,8 @@ export function ManualPipeline({ devMode }: ManualPipelineProps) {
         setDownloadSettled(false);
         setOcrSettled(false);
         setDownloadSkippedByDiscovery(false);
+        loadedRunJobsIdRef.current = null;
+        setRunJobsReloadKey((prev) => prev + 1);
         void fetchIngestionDiagnostics(runId);
     }, [fetchIngestionDiagnostics]);
 
@@ -1574,11 +1656,10 @@ export function ManualPipeline({ devMode }: ManualPipelineProps) {
                     manual: true,
                 })),
             );
-            setDownloadJobs((prev) => [...prev, ...toPendingStatuses(jobs)]);
+            setDownloadJobs((prev) => appendPendingJobs(prev, jobs));
             setRunState((prev) => ({ ...prev, activeStage: 'download' }));
             unlockStage('download');
             setDownloadSettled(false);
-            void patchSelectedRun({ active_stage: 'documents', status: 'running', error_message: null });
             toast.success(`Download jobs vytvořeny: ${jobs.length}`);
         } catch (error) {
             console.error('Download enqueue failed:', error);
@@ -1586,7 +1667,7 @@ export function ManualPipeline({ devMode }: ManualPipelineProps) {
         } finally {
             setSubmittingDownload(false);
         }
-    }, [discoveredSourceUrls, downloadSkippedByDiscovery, enqueueJobs, patchSelectedRun, runState.selectedRunId, runState.selectedSourceId, unlockStage]);
+    }, [discoveredSourceUrls, downloadSkippedByDiscovery, enqueueJobs, runState.selectedRunId, runState.selectedSourceId, unlockStage]);
 
     const handleStartDownloadForSourceUrl = React.useCallback(async (sourceUrlId: string) => {
         if (!runState.selectedSourceId || !runState.selectedRunId || downloadSkippedByDiscovery) return;
@@ -1603,11 +1684,10 @@ export function ManualPipeline({ devMode }: ManualPipelineProps) {
                     manual: true,
                 },
             ]);
-            setDownloadJobs((prev) => [...prev, ...toPendingStatuses(jobs)]);
+            setDownloadJobs((prev) => appendPendingJobs(prev, jobs));
             setRunState((prev) => ({ ...prev, activeStage: 'download' }));
             setDownloadSettled(false);
             unlockStage('download');
-            void patchSelectedRun({ active_stage: 'documents', status: 'running', error_message: null });
             toast.success('Download job vytvořen');
         } catch (error) {
             console.error('Single download enqueue failed:', error);
@@ -1615,7 +1695,7 @@ export function ManualPipeline({ devMode }: ManualPipelineProps) {
         } finally {
             setSubmittingDownload(false);
         }
-    }, [downloadSkippedByDiscovery, enqueueJobs, patchSelectedRun, runState.selectedRunId, runState.selectedSourceId, unlockStage]);
+    }, [downloadSkippedByDiscovery, enqueueJobs, runState.selectedRunId, runState.selectedSourceId, unlockStage]);
 
     const handleStartOcr = React.useCallback(async () => {
         if (!runState.selectedSourceId || !runState.selectedRunId || changedDocuments.length === 0) return;
@@ -1634,11 +1714,10 @@ export function ManualPipeline({ devMode }: ManualPipelineProps) {
                     ...OCR_JOB_DEFAULTS,
                 })),
             );
-            setOcrJobs((prev) => [...prev, ...toPendingStatuses(jobs)]);
+            setOcrJobs((prev) => appendPendingJobs(prev, jobs));
             setRunState((prev) => ({ ...prev, activeStage: 'ocr' }));
             unlockStage('ocr');
             setOcrSettled(false);
-            void patchSelectedRun({ active_stage: 'ocr', status: 'running', error_message: null });
             toast.success(`OCR jobs vytvořeny: ${jobs.length}`);
         } catch (error) {
             console.error('OCR enqueue failed:', error);
@@ -1646,7 +1725,7 @@ export function ManualPipeline({ devMode }: ManualPipelineProps) {
         } finally {
             setSubmittingOcr(false);
         }
-    }, [changedDocuments, enqueueJobs, patchSelectedRun, runState.selectedRunId, runState.selectedSourceId, unlockStage]);
+    }, [changedDocuments, enqueueJobs, runState.selectedRunId, runState.selectedSourceId, unlockStage]);
 
     const handleStartOcrForDocument = React.useCallback(async (document: DocumentItem) => {
         if (!runState.selectedSourceId || !runState.selectedRunId) return;
@@ -1665,11 +1744,10 @@ export function ManualPipeline({ devMode }: ManualPipelineProps) {
                     ...OCR_JOB_DEFAULTS,
                 },
             ]);
-            setOcrJobs((prev) => [...prev, ...toPendingStatuses(jobs)]);
+            setOcrJobs((prev) => appendPendingJobs(prev, jobs));
             setRunState((prev) => ({ ...prev, activeStage: 'ocr' }));
             setOcrSettled(false);
             unlockStage('ocr');
-            void patchSelectedRun({ active_stage: 'ocr', status: 'running', error_message: null });
             toast.success('OCR job vytvořen');
         } catch (error) {
             console.error('Single OCR enqueue failed:', error);
@@ -1677,7 +1755,35 @@ export function ManualPipeline({ devMode }: ManualPipelineProps) {
         } finally {
             setSubmittingOcr(false);
         }
-    }, [enqueueJobs, patchSelectedRun, runState.selectedRunId, runState.selectedSourceId, unlockStage]);
+    }, [enqueueJobs, runState.selectedRunId, runState.selectedSourceId, unlockStage]);
+
+    const handleRetryFailed = React.useCallback(async (stage: 'documents' | 'ocr') => {
+        const runId = runState.selectedRunId;
+        if (!runId) return;
+        setRetryingStage(stage);
+
+        try {
+            const result = await retryFailedItems(runId, stage);
+            // The new jobs replace the failed ones; they are loaded from the run below.
+            if (stage === 'documents') {
+                setDownloadJobs((prev) => prev.filter((job) => job.status !== 'failed'));
+                setDownloadSettled(false);
+            } else {
+                setOcrJobs((prev) => prev.filter((job) => job.status !== 'failed'));
+                setOcrSettled(false);
+            }
+            setRunJobsReloadKey((prev) => prev + 1);
+            await Promise.all([refreshActiveRuns(), refreshHistoryRuns(), refreshSelectedRunItems()]);
+            toast.success(`Znovu zařazeno: ${result.enqueued} jobů`, {
+                description: result.skipped > 0 ? `${result.skipped} položek bez cílového ID přeskočeno` : undefined,
+            });
+        } catch (error) {
+            console.error('Retry failed items failed:', error);
+            toast.error(error instanceof Error ? error.message : 'Nepodařilo se zopakovat selhané položky');
+        } finally {
+            setRetryingStage(null);
+        }
+    }, [refreshActiveRuns, refreshHistoryRuns, refreshSelectedRunItems, retryFailedItems, runState.selectedRunId]);
 
     React.useEffect(() => {
         fetchAllSourceUrlMeta();
@@ -1691,14 +1797,80 @@ export function ManualPipeline({ devMode }: ManualPipelineProps) {
         }
     }, [maxVisitedStage, runState.activeStage]);
 
+    const activeJobIdsRef = React.useRef(activeJobIds);
+    React.useEffect(() => {
+        activeJobIdsRef.current = activeJobIds;
+    }, [activeJobIds]);
+
+    const knownJobIdsRef = React.useRef<Set<string>>(new Set());
+    React.useEffect(() => {
+        knownJobIdsRef.current = new Set(allJobs.map((job) => job.id));
+    }, [allJobs]);
+
+    const hasActiveJobs = activeJobIds.length > 0;
+    const selectedRunId = runState.selectedRunId;
+    const watchSelectedRun = Boolean(selectedRun && isRunIncomplete(selectedRun.status));
+
+    // The run orchestrator enqueues later stages on the server, so the job lists are loaded from the run
+    // itself. Stages that already settled before the run was opened stay quiet (no toasts, no reloads).
+    React.useEffect(() => {
+        if (!selectedRunId) {
+            loadedRunJobsIdRef.current = null;
+            return;
+        }
+
+        let cancelled = false;
+        const initialLoad = loadedRunJobsIdRef.current !== selectedRunId;
+
+        (async () => {
+            try {
+                const jobs = await fetchRunJobs(selectedRunId);
+                if (cancelled) return;
+                loadedRunJobsIdRef.current = selectedRunId;
+
+                const known = knownJobIdsRef.current;
+                const stages: Array<[
+                    string,
+                    React.Dispatch<React.SetStateAction<PipelineJobStatus[]>>,
+                    React.Dispatch<React.SetStateAction<boolean>>,
+                ]> = [
+                    ['discover', setDiscoverJobs, setDiscoverySettled],
+                    ['download', setDownloadJobs, setDownloadSettled],
+                    ['ocr', setOcrJobs, setOcrSettled],
+                ];
+                for (const [task, setJobs, setSettled] of stages) {
+                    const stageJobs = jobs.filter((job) => job.task === task);
+                    if (stageJobs.length === 0) continue;
+                    setJobs((prev) => mergeRunJobs(prev, stageJobs));
+                    if (initialLoad) {
+                        if (stageJobs.every((job) => isTerminal(job.status))) setSettled(true);
+                    } else if (stageJobs.some((job) => !known.has(job.id))) {
+                        setSettled(false);
+                    }
+                }
+            } catch (error) {
+                console.error('Failed to load run jobs:', error);
+            }
+        })();
+
+        return () => {
+            cancelled = true;
+        };
+    }, [fetchRunJobs, runJobsReloadKey, selectedRunId]);
+
+    // Job events of the run trigger a refetch; the slow poll only covers a dropped stream.
     React.useEffect(() => {
-        if (activeJobIds.length === 0) return;
+        if (!hasActiveJobs && !watchSelectedRun) return;
 
         let cancelled = false;
+        let refetchTimer: ReturnType<typeof setTimeout> | null = null;
+        let reloadTimer: ReturnType<typeof setTimeout> | null = null;
 
         const poll = async () => {
+            const jobIds = activeJobIdsRef.current;
+            if (jobIds.length === 0) return;
             try {
-                const jobs = await fetchJobStatuses(activeJobIds);
+                const jobs = await fetchJobStatuses(jobIds);
                 if (cancelled) return;
 
                 setDiscoverJobs((prev) => mergeStatuses(prev, jobs));
@@ -1709,14 +1881,54 @@ export function ManualPipeline({ devMode }: ManualPipelineProps) {
             }
         };
 
-        poll();
-        const timer = setInterval(poll, 2000);
+        const schedulePoll = () => {
+            if (refetchTimer) return;
+            refetchTimer = setTimeout(() => {
+                refetchTimer = null;
+                void poll();
+            }, JOB_EVENT_REFETCH_DELAY_MS);
+        };
+
+        const scheduleRunJobsReload = () => {
+            if (reloadTimer) return;
+            reloadTimer = setTimeout(() => {
+                reloadTimer = null;
+                setRunJobsReloadKey((prev) => prev + 1);
+            }, JOB_EVENT_REFETCH_DELAY_MS);
+        };
+
+        let events: EventSource | null = null;
+        if (selectedRunId) {
+            events = new EventSource(`/api/queue/events?run_id=${encodeURIComponent(selectedRunId)}`);
+            events.onmessage = (message) => {
+                try {
+                    const event = JSON.parse(message.data) as { type?: string; job_id?: string };
+                    if (event.type === 'progress' || !event.job_id) return;
+                    if (event.type === 'enqueued' && !knownJobIdsRef.current.has(event.job_id)) {
+                        scheduleRunJobsReload();
+                    } else if (activeJobIdsRef.current.includes(event.job_id)) {
+                        schedulePoll();
+                    }
+                } catch {
+                    // Ignore malformed events
+                }
+            };
+        }
+
+        void poll();
+        const timer = setInterval(() => {
+            void poll();
+            if (watchSelectedRun) scheduleRunJobsReload();
+        }, selectedRunId ? JOB_STATUS_FALLBACK_POLL_MS : JOB_STATUS_POLL_MS);
 
         return () => {
             cancelled = true;
+            events?.close();
             clearInterval(timer);
+            if (refetchTimer) clearTimeout(refetchTimer);
+            if (reloadTimer) clearTimeout(reloadTimer);
         };
-    }, [activeJobIds, fetchJobStatuses]);
+    }, [hasActiveJobs, watchSelectedRun, selectedRunId, fetchJobStatuses]);
 
     React.useEffect(() => {
         if (!runState.selectedSourceId) return;
@@ -1804,15 +2016,9 @@ export function ManualPipeline({ devMode }: ManualPipelineProps) {
         const hasFailure = discoverJobs.some((job) => job.status === 'failed');
         if (hasFailure && !discoverySettled) {
             setDiscoverySettled(true);
-            void patchSelectedRun({
-                status: 'failed',
-                active_stage: 'discovery',
-                error_message: 'Discovery job selhal',
-                finished_at: new Date().toISOString(),
-            });
             toast.error('Discovery job selhal. Zkontrolujte error_message.');
         }
-    }, [discoverJobs, discoverySettled, patchSelectedRun]);
+    }, [discoverJobs, discoverySettled]);
 
     React.useEffect(() => {
         if (!discoverCompleted || discoverySettled || !runState.selectedRunId) return;
@@ -1827,12 +2033,10 @@ export function ManualPipeline({ devMode }: ManualPipelineProps) {
                 if (selectedSourceHasDiscoveryDownloadFile) {
                     setDownloadSkippedByDiscovery(true);
                     setDownloadSettled(true);
-                    void patchSelectedRun({ active_stage: 'ocr', status: 'running', error_message: null });
                     unlockStage('ocr');
                     toast.success('Discovery dokončeno. Download krok přeskočen, soubory připravené pro OCR.');
                 } else {
                     setDownloadSkippedByDiscovery(false);
-                    void patchSelectedRun({ active_stage: 'documents', status: 'running', error_message: null });
                     unlockStage('download');
                     toast.success('Discovery dokončeno');
                 }
@@ -1848,7 +2052,6 @@ export function ManualPipeline({ devMode }: ManualPipelineProps) {
         discoverySettled,
         fetchAllSourceUrlMeta,
         fetchIngestionDiagnostics,
-        patchSelectedRun,
         runState.selectedRunId,
         selectedSourceHasDiscoveryDownloadFile,
         unlockStage,
@@ -1858,15 +2061,9 @@ export function ManualPipeline({ devMode }: ManualPipelineProps) {
         const hasFailure = downloadJobs.some((job) => job.status === 'failed');
         if (hasFailure && !downloadSettled) {
             setDownloadSettled(true);
-            void patchSelectedRun({
-                status: 'failed',
-                active_stage: 'documents',
-                error_message: 'Některé download joby selhaly',
-                finished_at: new Date().toISOString(),
-            });
             toast.error('Některé download joby selhaly');
         }
-    }, [downloadJobs, downloadSettled, patchSelectedRun]);
+    }, [downloadJobs, downloadSettled]);
 
     React.useEffect(() => {
         if (!downloadCompleted || downloadSettled || !runState.selectedRunId) return;
@@ -1877,7 +2074,6 @@ export function ManualPipeline({ devMode }: ManualPipelineProps) {
         (async () => {
             try {
                 await fetchIngestionDiagnostics(runState.selectedRunId!);
-                void patchSelectedRun({ active_stage: 'ocr', status: 'running', error_message: null });
                 unlockStage('ocr');
                 toast.success('Download fáze dokončena');
             } catch (error) {
@@ -1891,7 +2087,6 @@ export function ManualPipeline({ devMode }: ManualPipelineProps) {
         downloadCompleted,
         downloadSettled,
         fetchIngestionDiagnostics,
-        patchSelectedRun,
         runState.selectedRunId,
         unlockStage,
     ]);
@@ -1900,29 +2095,17 @@ export function ManualPipeline({ devMode }: ManualPipelineProps) {
         const hasFailure = ocrJobs.some((job) => job.status === 'failed');
         if (hasFailure && !ocrSettled) {
             setOcrSettled(true);
-            void patchSelectedRun({
-                status: 'failed',
-                active_stage: 'ocr',
-                error_message: 'Některé OCR joby selhaly',
-                finished_at: new Date().toISOString(),
-            });
             unlockStage('summary');
             toast.error('Některé OCR joby selhaly');
         }
-    }, [ocrJobs, ocrSettled, patchSelectedRun, unlockStage]);
+    }, [ocrJobs, ocrSettled, unlockStage]);
 
     React.useEffect(() => {
         if (!ocrCompleted || ocrSettled) return;
         setOcrSettled(true);
-        void patchSelectedRun({
-            status: 'completed',
-            active_stage: 'summary',
-            error_message: null,
-            finished_at: new Date().toISOString(),
-        });
         unlockStage('summary');
         toast.success('OCR fáze dokončena');
-    }, [ocrCompleted, ocrSettled, patchSelectedRun, unlockStage]);
+    }, [ocrCompleted, ocrSettled, unlockStage]);
 
     React.useEffect(() => {
         if (!ocrSettled || !runState.selectedRunId) return;
@@ -1960,6 +2143,54 @@ export function ManualPipeline({ devMode }: ManualPipelineProps) {
         return <span className={cn('font-medium', colorClass)}>{label}</span>;
     };
 
+    const renderSourceNextDue = (source: Source) => {
+        const dueAt = getNextCrawlDueAt(source);
+        if (!dueAt) {
+            return <span className="text-muted-foreground">bez intervalu</span>;
+        }
+
+        const remainingMs = dueAt.getTime() - Date.now();
+        if (remainingMs <= 0) {
+            return <span className="text-primary">další crawl: nyní</span>;
+        }
+
+        const label = remainingMs < 60 * 60 * 1000
+            ? `za ${Math.max(1, Math.round(remainingMs / 60000))} min`
+            : remainingMs < 48 * 60 * 60 * 1000
+                ? `za ${Math.round(remainingMs / (60 * 60 * 1000))} h`
+                : `za ${Math.round(remainingMs / (24 * 60 * 60 * 1000))} dní`;
+
+        return (
+            <span className="text-muted-foreground" title={dueAt.toLocaleString('cs-CZ')}>
+                další crawl: {label}
+            </span>
+        );
+    };
+
+    const renderRunExportLinks = (runId: string, compact = false) => (
+        <div className={cn('flex items-center', compact ? 'gap-0.5' : 'gap-2')}>
+            {(['csv', 'json'] as const).map((format) => (
+                <Button
+                    key={format}
+                    asChild
+                    variant={compact ? 'ghost' : 'outline'}
+                    size="sm"
+                    className={cn(compact && 'h-7 px-2 text-xs text-muted-foreground')}
+                >
+                    <a
+                        href={`/api/pipeline/runs/${encodeURIComponent(runId)}/export?format=${format}`}
+                        download={`run-${runId}-report.${format}`}
+                        title={`Stáhnout report runu #${runId} (${format.toUpperCase()})`}
+                        onClick={(event) => event.stopPropagation()}
+                    >
+                        {compact ? null : <FileDown className="h-4 w-4 mr-2" />}
+                        {format.toUpperCase()}
+                    </a>
+                </Button>
+            ))}
+        </div>
+    );
+
     const renderRunsPanel = () => {
         const runsLoading = runScope === 'active' ? activeRunsLoading : historyRunsLoading;
         return (
@@ -1970,27 +2201,35 @@ export function ManualPipeline({ devMode }: ManualPipelineProps) {
                             <CardTitle>Pipeline Runs</CardTitle>
                             <CardDescription>Nedokončené běhy + historie</CardDescription>
                         </div>
-                        <div className="inline-flex rounded-md border border-border/80 p-0.5">
-                            <button
-                                type="button"
-                                className={cn(
-                                    'px-3 py-1.5 text-xs rounded',
-                                    runScope === 'active' ? 'bg-primary/20 text-primary' : 'text-muted-foreground hover:text-foreground',
-                                )}
-                                onClick={() => setRunScope('active')}
-                            >
-                                Aktivní
-                            </button>
-                            <button
-                                type="button"
-                                className={cn(
-                                    'px-3 py-1.5 text-xs rounded',
-                                    runScope === 'history' ? 'bg-primary/20 text-primary' : 'text-muted-foreground hover:text-foreground',
-                                )}
-                                onClick={() => setRunScope('history')}
-                            >
-                                Historie
-                            </button>
+                        <div className="flex items-center gap-2 flex-wrap">
+                            <div className="inline-flex rounded-md border border-border/80 p-0.5">
+                                <button
+                                    type="button"
+                                    className={cn(
+                                        'px-3 py-1.5 text-xs rounded',
+                                        runScope === 'active' ? 'bg-primary/20 text-primary' : 'text-muted-foreground hover:text-foreground',
+                                    )}
+                                    onClick={() => setRunScope('active')}
+                                >
+                                    Aktivní
+                                </button>
+                                <button
+                                    type="button"
+                                    className={cn(
+                                        'px-3 py-1.5 text-xs rounded',
+                                        runScope === 'history' ? 'bg-primary/20 text-primary' : 'text-muted-foreground hover:text-foreground',
+                                    )}
+                                    onClick={() => setRunScope('history')}
+                                >
+                                    Historie
+                                </button>
+                            </div>
+                            <Button variant="outline" size="sm" asChild>
+                                <Link href="/pipeline/batches">
+                                    <Layers className="h-4 w-4 mr-2" />
+                                    Batch runy
+                                </Link>
+                            </Button>
                         </div>
                     </div>
                 </CardHeader>
@@ -2011,6 +2250,8 @@ export function ManualPipeline({ devMode }: ManualPipelineProps) {
                                 const runStatus = String(run.status || 'pending');
                                 const canDeleteRun = runScope === 'active' && isRunIncomplete(runStatus);
                                 const deletingRun = Boolean(deletingRunIds[runId]);
+                                // Batch runs wait as `pending` without started_at until the batch scheduler starts them.
+                                const queuedInBatch = Boolean(run.batch_id) && runStatus === 'pending' && !run.started_at;
                                 const badgeClass = runStatus === 'completed'
                                     ? 'bg-green-500/10 text-green-700 border-green-500/30 dark:text-green-300'
                                     : runStatus === 'failed'
@@ -2038,14 +2279,25 @@ export function ManualPipeline({ devMode }: ManualPipelineProps) {
                                                 <span className="font-medium min-w-0 flex-1 truncate">
                                                     {source?.name || `Source #${run.source_id}`}
                                                 </span>
-                                                <span className={cn('inline-flex items-center rounded-full border px-2 py-0.5 text-xs', badgeClass)}>
-                                                    {runStatus}
-                                                </span>
+                                                {queuedInBatch ? (
+                                                    <span className="inline-flex items-center rounded-full border border-border bg-muted px-2 py-0.5 text-xs text-muted-foreground">
+                                                        ve frontě batche #{run.batch_id}
+                                                    </span>
+                                                ) : (
+                                                    <span className={cn('inline-flex items-center rounded-full border px-2 py-0.5 text-xs', badgeClass)}>
+                                                        {runStatus}
+                                                    </span>
+                                                )}
                                                 <span className="text-xs text-muted-foreground">
                                                     {run.started_at ? new Date(run.started_at).toLocaleString('cs-CZ') : '—'}
                                                 </span>
                                             </div>
                                         </button>
+                                        {runScope === 'history' ? (
+                                            <div className="mr-2 self-center shrink-0">
+                                                {renderRunExportLinks(runId, true)}
+                                            </div>
+                                        ) : null}
                                         {canDeleteRun ? (
                                             <Button
                                                 type="button"
@@ -2084,12 +2336,13 @@ export function ManualPipeline({ devMode }: ManualPipelineProps) {
                         <th className="text-left p-2">Status</th>
                         <th className="text-left p-2">Attempts</th>
                         <th className="text-left p-2">Error</th>
+                        <th className="p-2" />
                     </tr>
                 </thead>
                 <tbody>
                     {jobs.length === 0 ? (
                         <tr>
-                            <td colSpan={5} className="p-3 text-muted-foreground">{emptyLabel}</td>
+                            <td colSpan={6} className="p-3 text-muted-foreground">{emptyLabel}</td>
                         </tr>
                     ) : (
                         jobs.map((job) => (
@@ -2104,6 +2357,25 @@ export function ManualPipeline({ devMode }: ManualPipelineProps) {
                                 </td>
                                 <td className="p-2">{job.attempts}</td>
                                 <td className="p-2 text-red-600 dark:text-red-400">{job.error_message || '—'}</td>
+                                <td className="p-2 text-right">
+                                    {isTerminal(job.status) ? null : job.cancel_requested ? (
+                                        <span className="text-xs text-muted-foreground">ruší se…</span>
+                                    ) : (
+                                        <Button
+                                            type="button"
+                                            variant="ghost"
+                                            size="sm"
+                                            className="h-7 px-2 text-muted-foreground hover:text-destructive"
+                                            disabled={Boolean(cancelingJobIds[job.id])}
+                                            onClick={() => void handleCancelJob(job)}
+                                            title="Zrušit job"
+                                        >
+                                            {cancelingJobIds[job.id]
+                                                ? <Loader2 className="h-3.5 w-3.5 animate-spin" />
+                                                : <X className="h-3.5 w-3.5" />}
+                                        </Button>
+                                    )}
+                                </td>
                             </tr>
                         ))
                     )}
@@ -2477,6 +2749,7 @@ export function ManualPipeline({ devMode }: ManualPipelineProps) {
                                         <span className="text-xs font-mono w-20 shrink-0">{source.id}</span>
                                         <span className="font-medium flex-1 truncate">{source.name}</span>
                                         <span className="text-sm">{renderSourceStatus(source)}</span>
+                                        <span className="hidden text-xs sm:inline">{renderSourceNextDue(source)}</span>
                                         <span className="inline-flex h-6 w-6 items-center justify-center rounded-full border border-border bg-muted/50">
                                             <Play className="h-3 w-3 text-muted-foreground" />
                                         </span>
@@ -2576,6 +2849,28 @@ export function ManualPipeline({ devMode }: ManualPipelineProps) {
         </Card>
     );
 
+    const renderRetryFailedButton = (stage: 'documents' | 'ocr') => {
+        const failedCount = failedItemCounts[stage];
+        if (failedCount === 0 || !selectedRun || String(selectedRun.status).toLowerCase() === 'canceled') return null;
+        return (
+            <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => void handleRetryFailed(stage)}
+                disabled={retryingStage !== null}
+                title="Znovu zařadit jen selhané položky této fáze do stejného runu"
+            >
+                {retryingStage === stage ? (
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                    <RotateCcw className="h-4 w-4 mr-2" />
+                )}
+                Opakovat selhané ({failedCount})
+            </Button>
+        );
+    };
+
     const renderDownloadCard = () => (
         <Card className="ring-1 ring-primary/30">
             <CardHeader>
@@ -2587,6 +2882,7 @@ export function ManualPipeline({ devMode }: ManualPipelineProps) {
                     <span className="text-sm text-muted-foreground">
                         OCR kandidáti: <span className="font-semibold text-foreground">{changedDocuments.length}</span>
                     </span>
+                    {renderRetryFailedButton('documents')}
                     <Button
                         onClick={handleStartOcr}
                         disabled={!downloadStageCompleted || changedDocuments.length === 0 || submittingOcr}
@@ -2755,6 +3051,7 @@ export function ManualPipeline({ devMode }: ManualPipelineProps) {
                     <span className="text-sm text-muted-foreground">
                         Kandidáti OCR: <span className="font-semibold text-foreground">{changedDocuments.length}</span>
                     </span>
+                    {renderRetryFailedButton('ocr')}
                     <Button
                         onClick={handleStartOcr}
                         disabled={!downloadStageCompleted || changedDocuments.length === 0 || submittingOcr}
@@ -2946,7 +3243,9 @@ export function ManualPipeline({ devMode }: ManualPipelineProps) {
                             </div>
                         </div>
                     )}
+                    {selectedRun ? <RunDiffPanel run={selectedRun} /> : null}
                     <div className="flex items-center justify-end gap-2 flex-wrap">
+                        {runState.selectedRunId ? renderRunExportLinks(runState.selectedRunId) : null}
                         <Button type="button" variant="outline" size="sm" onClick={handlePrepareNewRun}>
                             <Plus className="h-4 w-4 mr-2" />
                             Nový run
@@ -0,0 +1,209 @@
+'use client';
+
+import * as React from 'react';
+import { GitCompare, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+import type { PipelineRunDiff, PipelineRunDiffItem, PipelineRunListItem } from './types';
+
+const PREVIOUS_RUN = 'previous';
+const MAX_ROWS_SHOWN = 50;
+
+function formatRunDate(run: Pick<PipelineRunListItem, 'started_at' | 'created_at'>): string {
+    const value = run.started_at || run.created_at;
+    return value ? new Date(value).toLocaleString('cs-CZ') : '—';
+}
+
+function describeItem(item: PipelineRunDiffItem): string {
+    return item.item_label || item.item_key;
+}
+
+function DiffSection<T extends PipelineRunDiffItem>({ title, items, tone, renderDetail }: {
+    title: string;
+    items: T[];
+    tone: 'positive' | 'negative' | 'neutral';
+    renderDetail?: (item: T) => React.ReactNode;
+}) {
+    return (
+        <div className="rounded-md border border-border/60">
+            <div className="flex items-center justify-between gap-2 border-b border-border/60 px-3 py-2">
+                <span className="text-sm font-medium">{title}</span>
+                <span
+                    className={cn(
+                        'text-sm font-semibold tabular-nums',
+                        items.length > 0 && tone === 'positive' && 'text-green-600 dark:text-green-400',
+                        items.length > 0 && tone === 'negative' && 'text-red-600 dark:text-red-400',
+                    )}
+                >
+                    {items.length}
+                </span>
+            </div>
+            {items.length === 0 ? (
+                <p className="px-3 py-2 text-xs text-muted-foreground">Beze změn.</p>
+            ) : (
+                <ul className="max-h-60 divide-y divide-border/40 overflow-auto text-xs">
+                    {items.slice(0, MAX_ROWS_SHOWN).map((item, index) => (
+                        <li key={`${item.item_key}-${index}`} className="px-3 py-1.5">
+                            <p className="truncate" title={item.item_key}>{describeItem(item)}</p>
+                            {renderDetail ? <div className="mt-0.5 text-muted-foreground">{renderDetail(item)}</div> : null}
+                        </li>
+                    ))}
+                    {items.length > MAX_ROWS_SHOWN && (
+                        <li className="px-3 py-1.5 text-muted-foreground">
+                            … a dalších {items.length - MAX_ROWS_SHOWN}
+                        </li>
+                    )}
+                </ul>
+            )}
+        </div>
+    );
+}
+
+/**
+ * Compare the selected run with an older run of the same source (by default the previous one).
+ */
+export function RunDiffPanel({ run }: { run: PipelineRunListItem }) {
+    const [open, setOpen] = React.useState(false);
+    const [baseRunId, setBaseRunId] = React.useState(PREVIOUS_RUN);
+    const [candidates, setCandidates] = React.useState<PipelineRunListItem[]>([]);
+    const [diff, setDiff] = React.useState<PipelineRunDiff | null>(null);
+    const [loading, setLoading] = React.useState(false);
+    const [error, setError] = React.useState<string | null>(null);
+
+    const runId = String(run.id);
+    const sourceId = String(run.source_id);
+
+    React.useEffect(() => {
+        setOpen(false);
+        setBaseRunId(PREVIOUS_RUN);
+        setDiff(null);
+        setError(null);
+    }, [runId]);
+
+    React.useEffect(() => {
+        if (!open) return;
+        let active = true;
+        fetch(`/api/pipeline/runs?scope=all&source_id=${encodeURIComponent(sourceId)}&limit=50`)
+            .then((response) => response.json())
+            .then((data) => {
+                if (!active || !Array.isArray(data?.runs)) return;
+                setCandidates((data.runs as PipelineRunListItem[]).filter((item) => String(item.id) !== runId));
+            })
+            .catch((fetchError) => console.error('Failed to load runs for comparison:', fetchError));
+        return () => {
+            active = false;
+        };
+    }, [open, runId, sourceId]);
+
+    React.useEffect(() => {
+        if (!open) return;
+        let active = true;
+        setLoading(true);
+        setError(null);
+
+        const params = new URLSearchParams({ head: runId });
+        if (baseRunId !== PREVIOUS_RUN) params.set('base', baseRunId);
+
+        fetch(`/api/pipeline/runs/compare?${params.toString()}`)
+            .then(async (response) => {
+                const data = await response.json();
+                if (!response.ok) throw new Error(data.error || 'Nepodařilo se porovnat runy');
+                if (active) setDiff(data as PipelineRunDiff);
+            })
+            .catch((fetchError) => {
+                if (!active) return;
+                setDiff(null);
+                setError(fetchError instanceof Error ? fetchError.message : 'Nepodařilo se porovnat runy');
+            })
+            .finally(() => {
+                if (active) setLoading(false);
+            });
+
+        return () => {
+            active = false;
+        };
+    }, [baseRunId, open, runId]);
+
+    if (!open) {
+        return (
+            <Button type="button" variant="outline" size="sm" onClick={() => setOpen(true)}>
+                <GitCompare className="h-4 w-4 mr-2" />
+                Porovnat s předchozím runem
+            </Button>
+        );
+    }
+
+    return (
+        <div className="space-y-3 rounded-lg border p-3">
+            <div className="flex items-center justify-between gap-3 flex-wrap">
+                <div className="flex items-center gap-2 text-sm">
+                    <GitCompare className="h-4 w-4 text-muted-foreground" />
+                    <span>Změny oproti</span>
+                    <Select value={baseRunId} onValueChange={setBaseRunId}>
+                        <SelectTrigger className="h-8 w-64 text-xs">
+                            <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                            <SelectItem value={PREVIOUS_RUN}>Předchozí run</SelectItem>
+                            {candidates.map((candidate) => (
+                                <SelectItem key={candidate.id} value={String(candidate.id)}>
+                                    #{candidate.id} · {formatRunDate(candidate)} · {candidate.status}
+                                </SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                </div>
+                <Button type="button" variant="ghost" size="sm" onClick={() => setOpen(false)}>
+                    Skrýt
+                </Button>
+            </div>
+
+            {loading ? (
+                <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                    Porovnávám runy...
+                </div>
+            ) : error ? (
+                <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+            ) : diff ? (
+                <>
+                    <p className="text-xs text-muted-foreground">
+                        Run #{diff.base.id} ({formatRunDate(diff.base)}) → run #{diff.head.id} ({formatRunDate(diff.head)})
+                    </p>
+                    <div className="grid gap-3 md:grid-cols-2">
+                        <DiffSection title="Nové source URLs" items={diff.new_source_urls} tone="positive" />
+                        <DiffSection title="Zmizelé source URLs" items={diff.removed_source_urls} tone="negative" />
+                        <DiffSection
+                            title="Dokumenty se změněným checksumem"
+                            items={diff.changed_documents}
+                            tone="neutral"
+                            renderDetail={(item) => (
+                                <span className="font-mono">
+                                    {item.base_checksum.slice(0, 12)} → {item.head_checksum.slice(0, 12)}
+                                </span>
+                            )}
+                        />
+                        <DiffSection
+                            title="Dříve completed, nyní failed"
+                            items={diff.regressions}
+                            tone="negative"
+                            renderDetail={(item) => (
+                                <span>
+                                    {item.stage}
+                                    {item.error_message ? ` · ${item.error_message}` : ''}
+                                </span>
+                            )}
+                        />
+                    </div>
+                </>
+            ) : null}
+        </div>
+    );
+}
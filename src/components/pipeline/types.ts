@@ -2,7 +2,7 @@ export type PipelineTask = 'discover' | 'download' | 'ocr';
 
 export type PipelineStage = 'sources' | 'discovery' | 'download' | 'ocr' | 'summary';
 
-export type PipelineJobStatusValue = 'pending' | 'processing' | 'completed' | 'failed' | 'unknown';
+export type PipelineJobStatusValue = 'pending' | 'processing' | 'retrying' | 'completed' | 'failed' | 'canceled' | 'unknown';
 export type PipelineRunStatus = 'pending' | 'running' | 'completed' | 'failed' | 'canceled';
 export type PipelineRunScope = 'active' | 'history';
 export type PipelineItemStage = 'discovery' | 'documents' | 'ocr';
@@ -31,6 +31,7 @@ export interface PipelineJobRequest {
     oem?: string;
     min_text_chars?: string;
     ocr_addon?: string;
+    idempotency_key?: string;
 }
 
 export interface PipelineCreatedJob {
@@ -41,6 +42,8 @@ export interface PipelineCreatedJob {
     source_url_id: string;
     document_id: string;
     manual: boolean;
+    /** True when an identical job was already queued and its id is returned instead. */
+    deduplicated?: boolean;
     mode?: string;
     lang?: string;
     dpi?: string;
@@ -70,6 +73,7 @@ export interface PipelineJobStatus {
     oem?: string;
     min_text_chars?: string;
     ocr_addon?: string;
+    cancel_requested?: boolean;
 }
 
 export interface PipelineIngestionItem {
@@ -107,6 +111,7 @@ export interface PipelineRunListItem {
     id: string;
     source_id: string;
     source_url_id: string | null;
+    batch_id: string | null;
     status: PipelineRunStatus | string;
     active_stage: PipelineStage | string | null;
     started_at: string | null;
@@ -122,6 +127,70 @@ export interface PipelineRunDetail extends PipelineRunListItem {
     items?: PipelineIngestionItem[];
 }
 
+export interface PipelineRunDiffItem {
+    item_key: string;
+    item_label: string | null;
+    source_url_id: string | null;
+    document_id: string | null;
+}
+
+export interface PipelineRunDiff {
+    base: Pick<PipelineRunListItem, 'id' | 'source_id' | 'status' | 'started_at' | 'created_at'>;
+    head: Pick<PipelineRunListItem, 'id' | 'source_id' | 'status' | 'started_at' | 'created_at'>;
+    new_source_urls: PipelineRunDiffItem[];
+    removed_source_urls: PipelineRunDiffItem[];
+    changed_documents: Array<PipelineRunDiffItem & { base_checksum: string; head_checksum: string }>;
+    regressions: Array<PipelineRunDiffItem & { stage: string; error_message: string | null }>;
+}
+
+export interface PipelineBatchFilter {
+    kraj_id?: string;
+    okres_id?: string;
+    obec_id?: number;
+    typ_id?: number;
+    crawl_strategy?: 'list' | 'rss';
+    tag?: string;
+}
+
+export interface PipelineBatchSource {
+    id: string;
+    name: string | null;
+}
+
+export interface PipelineBatch {
+    id: string;
+    name: string | null;
+    filter: PipelineBatchFilter;
+    max_concurrent_runs: number;
+    created_by: string | null;
+    created_at: string | null;
+    summary: {
+        total: number;
+        queued: number;
+        running: number;
+        completed: number;
+        failed: number;
+        canceled: number;
+        stages: Record<string, number>;
+        progress: number;
+        finished: boolean;
+    };
+    failures: Array<{
+        run_id: string;
+        source_id: string | null;
+        source_name: string | null;
+        stage: string | null;
+        error_message: string | null;
+    }>;
+}
+
+export interface PipelineBatchDetail extends PipelineBatch {
+    runs: Array<Pick<PipelineRunListItem, 'id' | 'source_id' | 'status' | 'active_stage' | 'started_at' | 'finished_at' | 'error_message'> & {
+        batch_id: string;
+        source_name: string | null;
+    }>;
+}
+
 export interface PipelineSummary {
     newSourceUrls: number;
     changedDocuments: number;
@@ -0,0 +1,209 @@
+'use client';
+
+import * as React from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { toast } from 'sonner';
+import { Loader2, Pause, Play, RefreshCw, Trash2, XCircle } from 'lucide-react';
+import { describeCron } from '@/components/task-wizard/cron-picker';
+
+interface ScheduleItem {
+    id: string;
+    name: string;
+    cron: string;
+    task: string;
+    source_id: string;
+    source_url_id: string;
+    document_id: string;
+    paused: boolean;
+    next_run_at: string;
+    last_run_at: string;
+    last_job_id: string;
+    last_error: string;
+    run_count: number;
+    created_at: string;
+}
+
+function formatTime(value: string): string {
+    if (!value) return '—';
+    const d = new Date(value);
+    return isNaN(d.getTime()) ? '—' : d.toLocaleString();
+}
+
+function describeTarget(schedule: ScheduleItem): string {
+    if (schedule.document_id) return `document #${schedule.document_id}`;
+    if (schedule.source_url_id) return `source URL #${schedule.source_url_id}`;
+    if (schedule.source_id) return `source #${schedule.source_id}`;
+    return '—';
+}
+
+export function ScheduleList() {
+    const [schedules, setSchedules] = React.useState<ScheduleItem[]>([]);
+    const [loading, setLoading] = React.useState(true);
+    const [error, setError] = React.useState<string | null>(null);
+    const [busyId, setBusyId] = React.useState<string | null>(null);
+
+    const fetchSchedules = React.useCallback(async () => {
+        try {
+            setLoading(true);
+            setError(null);
+            const response = await fetch('/api/schedules');
+            const data = await response.json().catch(() => ({}));
+            if (!response.ok) throw new Error(data.error || 'Failed to fetch schedules');
+            setSchedules(data.schedules ?? []);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'An error occurred');
+        } finally {
+            setLoading(false);
+        }
+    }, []);
+
+    React.useEffect(() => {
+        fetchSchedules();
+    }, [fetchSchedules]);
+
+    const handleTogglePaused = async (schedule: ScheduleItem) => {
+        try {
+            setBusyId(schedule.id);
+            const response = await fetch(`/api/schedules/${encodeURIComponent(schedule.id)}`, {
+                method: 'PATCH',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ paused: !schedule.paused }),
+            });
+            const data = await response.json().catch(() => ({}));
+            if (!response.ok) throw new Error(data.error || 'Failed to update schedule');
+            setSchedules((prev) => prev.map((item) => (item.id === schedule.id ? data.schedule : item)));
+            toast.success(schedule.paused ? 'Schedule resumed' : 'Schedule paused');
+        } catch (err) {
+            toast.error(err instanceof Error ? err.message : 'Failed to update schedule');
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    const handleDelete = async (schedule: ScheduleItem) => {
+        const confirmed = window.confirm(`Opravdu chcete smazat plán "${schedule.name}"?`);
+        if (!confirmed) return;
+
+        try {
+            setBusyId(schedule.id);
+            const response = await fetch(`/api/schedules/${encodeURIComponent(schedule.id)}`, { method: 'DELETE' });
+            const data = await response.json().catch(() => ({}));
+            if (!response.ok) throw new Error(data.error || 'Failed to delete schedule');
+            setSchedules((prev) => prev.filter((item) => item.id !== schedule.id));
+            toast.success('Schedule deleted');
+        } catch (err) {
+            toast.error(err instanceof Error ? err.message : 'Failed to delete schedule');
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    return (
+        <div className="w-full max-w-6xl mx-auto space-y-6">
+            <div className="flex flex-wrap items-center justify-between gap-4">
+                <div>
+                    <h1 className="text-2xl font-bold tracking-tight">Schedules</h1>
+                    <p className="text-sm text-muted-foreground">Recurring jobs created from the Task Wizard schedule picker</p>
+                </div>
+                <Button onClick={fetchSchedules} variant="outline" size="sm" disabled={loading}>
+                    <RefreshCw className={`mr-2 h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+                    Refresh
+                </Button>
+            </div>
+
+            {error ? (
+                <Card>
+                    <CardContent className="flex flex-col items-center justify-center py-12 space-y-4">
+                        <XCircle className="h-12 w-12 text-red-500" />
+                        <p className="text-lg text-muted-foreground">{error}</p>
+                    </CardContent>
+                </Card>
+            ) : loading && schedules.length === 0 ? (
+                <div className="flex items-center justify-center py-12">
+                    <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+                </div>
+            ) : (
+                <Card>
+                    <CardHeader>
+                        <CardTitle>Recurring jobs</CardTitle>
+                        <CardDescription>Each schedule enqueues one job into the Redis queue when its cron expression fires</CardDescription>
+                    </CardHeader>
+                    <CardContent className="p-0">
+                        <div className="overflow-x-auto">
+                            <table className="w-full text-sm">
+                                <thead className="bg-muted/80 border-b">
+                                    <tr>
+                                        <th className="text-left font-medium p-3">ID</th>
+                                        <th className="text-left font-medium p-3">Name</th>
+                                        <th className="text-left font-medium p-3">Task</th>
+                                        <th className="text-left font-medium p-3">Target</th>
+                                        <th className="text-left font-medium p-3">Schedule</th>
+                                        <th className="text-left font-medium p-3">Next run</th>
+                                        <th className="text-left font-medium p-3">Last run</th>
+                                        <th className="text-left font-medium p-3">Runs</th>
+                                        <th className="text-right font-medium p-3">Actions</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {schedules.length === 0 ? (
+                                        <tr>
+                                            <td colSpan={9} className="p-6 text-center text-muted-foreground">
+                                                No schedules yet
+                                            </td>
+                                        </tr>
+                                    ) : (
+                                        schedules.map((schedule) => (
+                                            <tr key={schedule.id} className="border-b border-border/50 hover:bg-muted/30">
+                                                <td className="p-3 font-mono text-xs">{schedule.id}</td>
+                                                <td className="p-3">{schedule.name}</td>
+                                                <td className="p-3">{schedule.task}</td>
+                                                <td className="p-3 text-muted-foreground">{describeTarget(schedule)}</td>
+                                                <td className="p-3">
+                                                    <div>{describeCron(schedule.cron)}</div>
+                                                    <code className="text-[10px] text-muted-foreground font-mono">{schedule.cron}</code>
+                                                </td>
+                                                <td className="p-3 text-muted-foreground">
+                                                    {schedule.paused ? <span className="text-yellow-600 dark:text-yellow-400">Paused</span> : formatTime(schedule.next_run_at)}
+                                                    {schedule.last_error && (
+                                                        <div className="text-xs text-red-600 dark:text-red-400">{schedule.last_error}</div>
+                                                    )}
+                                                </td>
+                                                <td className="p-3 text-muted-foreground">
+                                                    {formatTime(schedule.last_run_at)}
+                                                    {schedule.last_job_id && <span className="font-mono text-xs"> (job {schedule.last_job_id})</span>}
+                                                </td>
+                                                <td className="p-3 tabular-nums">{schedule.run_count}</td>
+                                                <td className="p-3">
+                                                    <div className="flex justify-end gap-2">
+                                                        <Button
+                                                            variant="outline"
+                                                            size="sm"
+                                                            disabled={busyId === schedule.id}
+                                                            onClick={() => handleTogglePaused(schedule)}
+                                                        >
+                                                            {schedule.paused ? <Play className="h-4 w-4" /> : <Pause className="h-4 w-4" />}
+                                                            {schedule.paused ? 'Resume' : 'Pause'}
+                                                        </Button>
+                                                        <Button
+                                                            variant="destructive"
+                                                            size="sm"
+                                                            disabled={busyId === schedule.id}
+                                                            onClick={() => handleDelete(schedule)}
+                                                        >
+                                                            <Trash2 className="h-4 w-4" />
+                                                        </Button>
+                                                    </div>
+                                                </td>
+                                            </tr>
+                                        ))
+                                    )}
+                                </tbody>
+                            </table>
+                        </div>
+                    </CardContent>
+                </Card>
+            )}
+        </div>
+    );
+}
@@ -17,6 +17,7 @@ interface SourceData {
     okres_id: number | null;
     kraj_id: number | null;
     workflow_data: unknown;
+    rate_limits?: unknown;
     [key: string]: unknown;
 }
 
@@ -10,6 +10,7 @@ import {
     buildRssSourceConfig,
     type RssDetectionWarningLike,
     type RssProbeResult,
+    type SourceRateLimits,
 } from '@/lib/source-config';
 import { validateWorkflow } from '@/lib/workflow-validation';
 import type { CrawlStrategy, Obec } from '@/components/sources/types';
@@ -21,6 +22,7 @@ interface SubmitPayload {
     baseUrl: string;
     crawlStrategy: CrawlStrategy;
     crawlInterval: string;
+    rateLimits: SourceRateLimits | null;
     workflowData: ScrapingWorkflow | null;
     playwrightEnabled: boolean;
     obec: Obec | null;
@@ -46,6 +48,7 @@ export function useSourceSubmit({ editSourceId, onSubmitted }: UseSourceSubmitOp
             baseUrl,
             crawlStrategy,
             crawlInterval,
+            rateLimits,
             workflowData,
             playwrightEnabled,
             obec,
@@ -138,6 +141,7 @@ export function useSourceSubmit({ editSourceId, onSubmitted }: UseSourceSubmitOp
                     obec_id: obec?.id ? parseInt(obec.id, 10) : null,
                     okres_id: obec?.okres_id || null,
                     kraj_id: obec?.kraj_id || null,
+                    rate_limits: rateLimits,
                     workflow_data: crawlStrategy === 'list' ? workflowData : null,
                 }),
             });
@@ -33,7 +33,13 @@ import {
 } from '@/components/ui/alert-dialog';
 import { Button } from '@/components/ui/button';
 import { ElementSelector, ScrapingWorkflow } from '@/lib/crawler-types';
-import { buildRssAuthoringSummary, buildRssSourceConfig } from '@/lib/source-config';
+import {
+    buildRssAuthoringSummary,
+    buildRssSourceConfig,
+    buildSourceRateLimits,
+    SourceRateLimitsSchema,
+    type SourceRateLimitScope,
+} from '@/lib/source-config';
 
 const DEFAULT_RSS_AUTHORING: RssAuthoringValues = {
     allowHtmlDocuments: false,
@@ -62,6 +68,9 @@ export function SourceEditorContainer() {
     const [baseUrl, setBaseUrl] = useState('');
     const [crawlStrategy, setCrawlStrategy] = useState<CrawlStrategy>('list');
     const [crawlInterval, setCrawlInterval] = useState('1 day');
+    const [rateLimitScope, setRateLimitScope] = useState<SourceRateLimitScope>('source');
+    const [maxConcurrentJobs, setMaxConcurrentJobs] = useState('');
+    const [requestsPerMinute, setRequestsPerMinute] = useState('');
 
     const [simulatorLoading, setSimulatorLoading] = useState(false);
     const [workflowData, setWorkflowData] = useState<ScrapingWorkflow | null>(null);
@@ -233,6 +242,12 @@ export function SourceEditorContainer() {
         setBaseUrl(loadedSource.base_url ?? '');
         setCrawlStrategy((loadedSource.crawl_strategy as CrawlStrategy) ?? 'list');
         setCrawlInterval(loadedSource.crawl_interval ?? '1 day');
+        const rateLimits = SourceRateLimitsSchema.safeParse(loadedSource.rate_limits);
+        if (rateLimits.success) {
+            setRateLimitScope(rateLimits.data.scope);
+            setMaxConcurrentJobs(rateLimits.data.max_concurrent_jobs?.toString() ?? '');
+            setRequestsPerMinute(rateLimits.data.requests_per_minute?.toString() ?? '');
+        }
         if (loadedSource.base_url) {
             setSimulatorLoading(true);
         }
@@ -307,6 +322,7 @@ export function SourceEditorContainer() {
             baseUrl,
             crawlStrategy,
             crawlInterval,
+            rateLimits: buildSourceRateLimits({ scope: rateLimitScope, maxConcurrentJobs, requestsPerMinute }),
             workflowData,
             playwrightEnabled,
             obec: selectedObec,
@@ -435,6 +451,12 @@ export function SourceEditorContainer() {
                     onBaseUrlBlur={handleBaseUrlBlur}
                     crawlInterval={crawlInterval}
                     onCrawlIntervalChange={setCrawlInterval}
+                    rateLimitScope={rateLimitScope}
+                    onRateLimitScopeChange={setRateLimitScope}
+                    maxConcurrentJobs={maxConcurrentJobs}
+                    onMaxConcurrentJobsChange={setMaxConcurrentJobs}
+                    requestsPerMinute={requestsPerMinute}
+                    onRequestsPerMinuteChange={setRequestsPerMinute}
                     submitting={submitting}
                     editMode={isEditMode}
                     sourceLoading={sourceLoading}
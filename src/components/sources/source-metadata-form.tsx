@@ -5,6 +5,7 @@ import { ChevronRight, Globe, Loader2, Plus } from 'lucide-react';
 
 import { ObecAutocomplete } from '@/components/sources/obec-autocomplete';
 import type { Obec, SourceType } from '@/components/sources/types';
+import type { SourceRateLimitScope } from '@/lib/source-config';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -36,6 +37,12 @@ interface SourceMetadataFormProps {
     onBaseUrlBlur?: () => void;
     crawlInterval: string;
     onCrawlIntervalChange: (value: string) => void;
+    rateLimitScope: SourceRateLimitScope;
+    onRateLimitScopeChange: (value: SourceRateLimitScope) => void;
+    maxConcurrentJobs: string;
+    onMaxConcurrentJobsChange: (value: string) => void;
+    requestsPerMinute: string;
+    onRequestsPerMinuteChange: (value: string) => void;
     submitting: boolean;
     editMode?: boolean;
     sourceLoading?: boolean;
@@ -61,6 +68,12 @@ export function SourceMetadataForm({
     onBaseUrlBlur,
     crawlInterval,
     onCrawlIntervalChange,
+    rateLimitScope,
+    onRateLimitScopeChange,
+    maxConcurrentJobs,
+    onMaxConcurrentJobsChange,
+    requestsPerMinute,
+    onRequestsPerMinuteChange,
     submitting,
     editMode,
     sourceLoading,
@@ -193,6 +206,46 @@ export function SourceMetadataForm({
                     </Button>
                 </div>
             </div>
+
+            <div className="grid gap-3 sm:grid-cols-[160px_160px_160px_minmax(0,1fr)]">
+                <div>
+                    <Label htmlFor="maxConcurrentJobs" className="mb-1 block text-xs text-muted-foreground">Max. soubeznych jobu</Label>
+                    <Input
+                        id="maxConcurrentJobs"
+                        type="number"
+                        min={1}
+                        value={maxConcurrentJobs}
+                        onChange={(event) => onMaxConcurrentJobsChange(event.target.value)}
+                        placeholder="Bez limitu"
+                    />
+                </div>
+                <div>
+                    <Label htmlFor="requestsPerMinute" className="mb-1 block text-xs text-muted-foreground">Pozadavku / min</Label>
+                    <Input
+                        id="requestsPerMinute"
+                        type="number"
+                        min={1}
+                        value={requestsPerMinute}
+                        onChange={(event) => onRequestsPerMinuteChange(event.target.value)}
+                        placeholder="Bez limitu"
+                    />
+                </div>
+                <div>
+                    <Label htmlFor="rateLimitScope" className="mb-1 block text-xs text-muted-foreground">Limit plati pro</Label>
+                    <Select value={rateLimitScope} onValueChange={(value) => onRateLimitScopeChange(value as SourceRateLimitScope)}>
+                        <SelectTrigger id="rateLimitScope">
+                            <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                            <SelectItem value="source">Tento zdroj</SelectItem>
+                            <SelectItem value="domain">Celou domenu</SelectItem>
+                        </SelectContent>
+                    </Select>
+                </div>
+                <p className="self-end pb-2 text-xs text-muted-foreground">
+                    Workery pred spustenim jobu berou token z Redis; &quot;Celou domenu&quot; sdili limit se vsemi zdroji na stejnem hostu.
+                </p>
+            </div>
         </div>
     );
 }
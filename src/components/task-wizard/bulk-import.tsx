@@ -0,0 +1,246 @@
+'use client';
+
+import * as React from 'react';
+import { toast } from 'sonner';
+import { FileUp, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { cn } from '@/lib/utils';
+
+type BulkFormat = 'csv' | 'json';
+
+export interface BulkImportDefaults {
+    task: 'discover' | 'download' | 'ocr';
+    max_attempts: number;
+    lang?: string;
+    psm?: string;
+    oem?: string;
+}
+
+interface BulkPreviewRow {
+    row: number;
+    task: string | null;
+    source_id: string | null;
+    source_url_id: string | null;
+    document_id: string | null;
+    errors: string[];
+}
+
+interface BulkPreview {
+    total: number;
+    valid: number;
+    invalid: number;
+    rows: BulkPreviewRow[];
+}
+
+const MAX_FILE_BYTES = 2_000_000;
+const MAX_ERROR_ROWS_SHOWN = 100;
+
+function detectFormat(file: File, content: string): BulkFormat {
+    if (file.name.toLowerCase().endsWith('.json')) return 'json';
+    if (file.name.toLowerCase().endsWith('.csv')) return 'csv';
+    return content.trimStart().startsWith('[') ? 'json' : 'csv';
+}
+
+function describeTarget(row: BulkPreviewRow): string {
+    if (row.document_id) return `document ${row.document_id}`;
+    if (row.source_url_id) return `source URL ${row.source_url_id}`;
+    if (row.source_id) return `source ${row.source_id}`;
+    return '—';
+}
+
+export function BulkImport({ defaults }: { defaults: BulkImportDefaults }) {
+    const [file, setFile] = React.useState<{ name: string; format: BulkFormat; content: string } | null>(null);
+    const [preview, setPreview] = React.useState<BulkPreview | null>(null);
+    const [previewError, setPreviewError] = React.useState<string | null>(null);
+    const [loading, setLoading] = React.useState(false);
+    const [submitting, setSubmitting] = React.useState(false);
+    const inputRef = React.useRef<HTMLInputElement>(null);
+    // Reused only when a submit failed without a response, so retrying cannot enqueue the rows twice.
+    const idempotencyKeyRef = React.useRef<string | null>(null);
+
+    const { task, max_attempts, lang, psm, oem } = defaults;
+
+    const post = React.useCallback(async (dryRun: boolean, idempotencyKey?: string) => {
+        if (!file) return null;
+        const res = await fetch('/api/tasks/bulk', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+                format: file.format,
+                content: file.content,
+                defaults: { task, max_attempts, lang, psm, oem },
+                dry_run: dryRun,
+                idempotency_key: idempotencyKey,
+            }),
+        });
+        const json = await res.json();
+        if (!res.ok) throw new Error(json.error || 'Failed to process file');
+        return json;
+    }, [file, task, max_attempts, lang, psm, oem]);
+
+    // The preview depends on the wizard defaults too, so re-validate whenever they change.
+    React.useEffect(() => {
+        if (!file) return;
+        let active = true;
+        setLoading(true);
+        post(true)
+            .then((json) => {
+                if (!active || !json) return;
+                setPreview(json as BulkPreview);
+                setPreviewError(null);
+            })
+            .catch((err) => {
+                if (!active) return;
+                setPreview(null);
+                setPreviewError(err instanceof Error ? err.message : 'Failed to process file');
+            })
+            .finally(() => {
+                if (active) setLoading(false);
+            });
+        return () => {
+            active = false;
+        };
+    }, [file, post]);
+
+    const clear = () => {
+        idempotencyKeyRef.current = null;
+        setFile(null);
+        setPreview(null);
+        setPreviewError(null);
+        if (inputRef.current) inputRef.current.value = '';
+    };
+
+    const handleFile = async (selected: File | undefined) => {
+        if (!selected) return;
+        if (selected.size > MAX_FILE_BYTES) {
+            toast.error('File is too large (max 2 MB)');
+            return;
+        }
+        const content = await selected.text();
+        idempotencyKeyRef.current = null;
+        setFile({ name: selected.name, format: detectFormat(selected, content), content });
+    };
+
+    const handleEnqueue = async () => {
+        setSubmitting(true);
+        try {
+            idempotencyKeyRef.current ??= crypto.randomUUID();
+            const json = await post(false, idempotencyKeyRef.current);
+            idempotencyKeyRef.current = null;
+            if (!json) return;
+            toast.success(`Queued ${json.queued} job${json.queued === 1 ? '' : 's'} from ${file?.name}`, {
+                description: [
+                    json.deduplicated > 0 ? `${json.deduplicated} already existed` : null,
+                    json.invalid > 0 ? `${json.invalid} invalid rows skipped` : null,
+                ].filter(Boolean).join(' · ') || undefined,
+            });
+            clear();
+        } catch (err) {
+            toast.error(err instanceof Error ? err.message : 'Failed to enqueue jobs');
+        } finally {
+            setSubmitting(false);
+        }
+    };
+
+    const invalidRows = preview?.rows.filter((row) => row.errors.length > 0) ?? [];
+
+    return (
+        <div className="space-y-3">
+            <div className="space-y-1.5">
+                <Label className="text-sm">File</Label>
+                <label
+                    className={cn(
+                        'flex cursor-pointer items-center gap-3 rounded-lg border border-dashed px-3 py-3 text-sm transition-colors hover:bg-muted/50',
+                        file && 'border-primary/50',
+                    )}
+                >
+                    <FileUp className="h-4 w-4 shrink-0 text-muted-foreground" />
+                    <span className="truncate">
+                        {file ? `${file.name} (${file.format.toUpperCase()})` : 'Choose a CSV or JSON file…'}
+                    </span>
+                    <input
+                        ref={inputRef}
+                        type="file"
+                        accept=".csv,.json,text/csv,application/json"
+                        className="sr-only"
+                        onChange={(e) => handleFile(e.target.files?.[0])}
+                    />
+                </label>
+                <p className="text-xs text-muted-foreground">
+                    One row per job with <code>source_id</code>, <code>source_url_id</code> or <code>document_id</code>.
+                    Optional <code>task</code>, <code>lang</code>, <code>psm</code>, <code>oem</code> and <code>max_attempts</code> columns override the settings above.
+                </p>
+            </div>
+
+            {loading && (
+                <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                    <Loader2 className="h-3.5 w-3.5 animate-spin" />
+                    Validating rows…
+                </div>
+            )}
+            {previewError && <p className="text-sm text-rose-600 dark:text-rose-400">{previewError}</p>}
+
+            {preview && !loading && (
+                <div className="space-y-2">
+                    <p className="text-sm tabular-nums">
+                        {preview.total} rows ·{' '}
+                        <span className="text-green-600 dark:text-green-400">{preview.valid} valid</span>
+                        {preview.invalid > 0 && (
+                            <> · <span className="text-rose-600 dark:text-rose-400">{preview.invalid} invalid</span></>
+                        )}
+                    </p>
+                    {invalidRows.length > 0 && (
+                        <div className="max-h-60 overflow-auto rounded-md border">
+                            <table className="w-full text-xs">
+                                <thead className="sticky top-0 bg-muted/80 text-left text-muted-foreground">
+                                    <tr>
+                                        <th className="px-2 py-1.5 font-medium">Row</th>
+                                        <th className="px-2 py-1.5 font-medium">Target</th>
+                                        <th className="px-2 py-1.5 font-medium">Errors</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {invalidRows.slice(0, MAX_ERROR_ROWS_SHOWN).map((row) => (
+                                        <tr key={row.row} className="border-t align-top">
+                                            <td className="px-2 py-1.5 tabular-nums">{row.row}</td>
+                                            <td className="px-2 py-1.5 font-mono">{describeTarget(row)}</td>
+                                            <td className="px-2 py-1.5 text-rose-600 dark:text-rose-400">{row.errors.join('; ')}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                            {invalidRows.length > MAX_ERROR_ROWS_SHOWN && (
+                                <p className="border-t px-2 py-1.5 text-xs text-muted-foreground">
+                                    {invalidRows.length - MAX_ERROR_ROWS_SHOWN} more invalid rows not shown
+                                </p>
+                            )}
+                        </div>
+                    )}
+                </div>
+            )}
+
+            <div className="flex gap-2">
+                {file && (
+                    <Button variant="outline" onClick={clear} disabled={submitting}>
+                        Clear
+                    </Button>
+                )}
+                <Button
+                    onClick={handleEnqueue}
+                    disabled={!preview || preview.valid === 0 || loading || submitting}
+                    className="flex-1"
+                >
+                    {submitting ? (
+                        <>
+                            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                            Enqueueing...
+                        </>
+                    ) : (
+                        <>Enqueue {preview?.valid ?? 0} valid job{preview?.valid === 1 ? '' : 's'}</>
+                    )}
+                </Button>
+            </div>
+        </div>
+    );
+}
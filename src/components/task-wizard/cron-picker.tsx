@@ -56,7 +56,7 @@ function buildCron(fields: { minute: string; hour: string; dayOfMonth: string; m
     return `${fields.minute} ${fields.hour} ${fields.dayOfMonth} ${fields.month} ${fields.dayOfWeek}`;
 }
 
-function describeCron(cron: string): string {
+export function describeCron(cron: string): string {
     if (!cron || cron.trim() === '') return 'Not set';
     const preset = PRESETS.find((p) => p.cron === cron);
     if (preset) return preset.label;
@@ -21,6 +21,7 @@ import { SourceCombobox } from './source-combobox';
 import { SourceUrlCombobox } from './source-url-combobox';
 import { DocumentCombobox } from './document-combobox';
 import { CronPicker } from './cron-picker';
+import { BulkImport, type BulkImportDefaults } from './bulk-import';
 import {
     defaultWizardData,
     type JobType,
@@ -113,6 +114,7 @@ export function TaskWizard() {
     const [submitting, setSubmitting] = React.useState(false);
     const [showAdvanced, setShowAdvanced] = React.useState(false);
     const [bulkEnabled, setBulkEnabled] = React.useState(false);
+    const [fileImport, setFileImport] = React.useState(false);
 
     const patch = (p: Partial<WizardData>) => setData((prev) => ({ ...prev, ...p }));
 
@@ -133,17 +135,27 @@ export function TaskWizard() {
 
     const handleSourceUrlSelect = (item: SourceUrl | null) => {
         if (item) {
-            patch({ sourceUrlId: String(item.id), sourceUrlLabel: item.label || '', sourceUrlUrl: item.url });
+            patch({ sourceId: String(item.source_id), sourceUrlId: String(item.id), sourceUrlLabel: item.label || '', sourceUrlUrl: item.url });
         } else {
-            patch({ sourceUrlId: '', sourceUrlLabel: '', sourceUrlUrl: '' });
+            patch({ sourceId: '', sourceUrlId: '', sourceUrlLabel: '', sourceUrlUrl: '' });
         }
     };
 
     const handleDocumentSelect = (doc: Document | null) => {
         if (doc) {
-            patch({ documentId: String(doc.id), documentName: doc.filename || '', documentUrl: doc.url });
+            patch({ sourceUrlId: doc.source_url_id ? String(doc.source_url_id) : '', documentId: String(doc.id), documentName: doc.filename || '', documentUrl: doc.url });
         } else {
-            patch({ documentId: '', documentName: '', documentUrl: '' });
+            patch({ sourceUrlId: '', documentId: '', documentName: '', documentUrl: '' });
+        }
+    };
+
+    const handleFileImportToggle = (checked: boolean) => {
+        setFileImport(checked);
+        clearSelections();
+        // Schedules and repeated copies only apply to a single picked target
+        if (checked) {
+            setBulkEnabled(false);
+            patch({ bulkCount: 1, cronTime: '' });
         }
     };
 
@@ -152,42 +164,50 @@ export function TaskWizard() {
         if (!checked) patch({ bulkCount: 1 });
     };
 
+    // Reused only when a submit failed without a response, so retrying cannot enqueue the job twice.
+    const idempotencyKeyRef = React.useRef<string | null>(null);
+
     const reset = () => {
+        idempotencyKeyRef.current = null;
         setData({ ...defaultWizardData });
         setBulkEnabled(false);
+        setFileImport(false);
         setShowAdvanced(false);
     };
 
+    const importDefaults: BulkImportDefaults = data.jobType === 'ocr'
+        ? { task: 'ocr', max_attempts: data.maxAttempts, lang: data.ocrLanguage, psm: String(data.ocrPsm), oem: String(data.ocrOem) }
+        : { task: data.method === 'redownload' ? 'download' : 'discover', max_attempts: data.maxAttempts };
+
     const handleSubmit = async () => {
         if (!data.jobType) return;
         setSubmitting(true);
         try {
             const body: Record<string, unknown> = {
-                task: data.jobType,
                 max_attempts: data.maxAttempts,
                 cron_time: data.cronTime || undefined,
             };
+            if (!data.cronTime) {
+                idempotencyKeyRef.current ??= crypto.randomUUID();
+                body.idempotency_key = idempotencyKeyRef.current;
+            }
 
             if (data.jobType === 'scrapy') {
-                body.method = data.method;
+                // Redownload re-crawls known source URLs; both discover methods run discovery.
+                body.task = data.method === 'redownload' ? 'download' : 'discover';
                 body.count = data.bulkCount;
-                if (data.scrapyTarget === 'sources') {
-                    body.source_id = data.sourceId || undefined;
-                    body.source_url = data.sourceUrl || undefined;
-                } else {
+                body.source_id = data.sourceId || undefined;
+                if (data.scrapyTarget === 'source_urls') {
                     body.source_url_id = data.sourceUrlId || undefined;
-                    body.source_url = data.sourceUrlUrl || undefined;
                 }
             } else {
-                body.ocr_language = data.ocrLanguage;
-                body.ocr_psm = data.ocrPsm;
-                body.ocr_oem = data.ocrOem;
-                if (data.ocrTarget === 'source_urls') {
-                    body.source_url_id = data.sourceUrlId || undefined;
-                    body.source_url = data.sourceUrlUrl || undefined;
-                } else {
+                body.task = 'ocr';
+                body.lang = data.ocrLanguage;
+                body.psm = String(data.ocrPsm);
+                body.oem = String(data.ocrOem);
+                body.source_url_id = data.sourceUrlId || undefined;
+                if (data.ocrTarget === 'documents') {
                     body.document_id = data.documentId || undefined;
-                    body.source_url = data.documentUrl || undefined;
                 }
             }
 
@@ -196,9 +216,19 @@ export function TaskWizard() {
                 headers: { 'Content-Type': 'application/json' },
                 body: JSON.stringify(body),
             });
+            idempotencyKeyRef.current = null;
             const json = await res.json();
             if (!res.ok) throw new Error(json.error || 'Failed to create job');
 
+            if (json.schedule) {
+                toast.success(`Scheduled ${data.jobType} job (${json.schedule.cron})`, {
+                    description: `Next run ${new Date(json.schedule.next_run_at).toLocaleString()}`,
+                    action: { label: 'Create another', onClick: reset },
+                });
+                reset();
+                return;
+            }
+
             const count = data.jobType === 'scrapy' ? data.bulkCount : 1;
             toast.success(`Created ${count} ${data.jobType} job${count > 1 ? 's' : ''}`, {
                 action: { label: 'Create another', onClick: reset },
@@ -243,8 +273,19 @@ export function TaskWizard() {
                     </div>
                 </div>
 
+                {/* ── Single target or file import ── */}
+                {data.jobType && (
+                    <div className="flex items-center justify-between gap-3">
+                        <div>
+                            <Label className="text-sm">Import from file</Label>
+                            <p className="text-xs text-muted-foreground">Enqueue one job per row of a CSV or JSON list</p>
+                        </div>
+                        <Switch checked={fileImport} onCheckedChange={handleFileImportToggle} />
+                    </div>
+                )}
+
                 {/* ── Scrapy: target + picker ── */}
-                {data.jobType === 'scrapy' && (
+                {data.jobType === 'scrapy' && !fileImport && (
                     <div className="space-y-3">
                         <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
                             <Label className="text-sm">Pick from</Label>
@@ -276,7 +317,7 @@ export function TaskWizard() {
                 )}
 
                 {/* ── OCR: target + picker ── */}
-                {data.jobType === 'ocr' && (
+                {data.jobType === 'ocr' && !fileImport && (
                     <div className="space-y-3">
                         <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
                             <Label className="text-sm">Pick from</Label>
@@ -344,11 +385,13 @@ export function TaskWizard() {
                             </div>
                         </div>
 
-                        <div className="flex items-center justify-between gap-3">
-                            <Label className="text-sm">Bulk / Stress test</Label>
-                            <Switch checked={bulkEnabled} onCheckedChange={handleBulkToggle} />
-                        </div>
-                        {bulkEnabled && (
+                        {!fileImport && (
+                            <div className="flex items-center justify-between gap-3">
+                                <Label className="text-sm">Bulk / Stress test</Label>
+                                <Switch checked={bulkEnabled} onCheckedChange={handleBulkToggle} />
+                            </div>
+                        )}
+                        {bulkEnabled && !fileImport && (
                             <div className="space-y-2 pl-1">
                                 <div className="flex items-center justify-between text-xs text-muted-foreground">
                                     <span>Count</span>
@@ -421,17 +464,20 @@ export function TaskWizard() {
                                         className="h-9 w-full sm:max-w-[120px]"
                                     />
                                 </div>
-                                <div className="space-y-1.5">
-                                    <Label className="text-xs text-muted-foreground">Schedule (optional)</Label>
-                                    <CronPicker value={data.cronTime} onChange={(cron) => patch({ cronTime: cron })} />
-                                </div>
+                                {!fileImport && (
+                                    <div className="space-y-1.5">
+                                        <Label className="text-xs text-muted-foreground">Schedule (optional)</Label>
+                                        <CronPicker value={data.cronTime} onChange={(cron) => patch({ cronTime: cron })} />
+                                    </div>
+                                )}
                             </div>
                         )}
                     </>
                 )}
 
                 {/* ── Submit ── */}
-                {data.jobType && (
+                {data.jobType && fileImport && <BulkImport defaults={importDefaults} />}
+                {data.jobType && !fileImport && (
                     <Button onClick={handleSubmit} disabled={submitting} className="w-full">
                         {submitting ? (
                             <>
@@ -439,7 +485,7 @@ export function TaskWizard() {
                                 Creating...
                             </>
                         ) : (
-                            <>Create {data.jobType} job{data.jobType === 'scrapy' && bulkEnabled && data.bulkCount > 1 ? `s (${data.bulkCount})` : ''}</>
+                            <>{data.cronTime ? 'Schedule' : 'Create'} {data.jobType} job{data.jobType === 'scrapy' && bulkEnabled && data.bulkCount > 1 ? `s (${data.bulkCount})` : ''}</>
                         )}
                     </Button>
                 )}
@@ -15,6 +15,7 @@ function normalizeRunRow(row: Record<string, unknown>): PipelineRunListItem {
         id: String(row.id),
         source_id: toStringOrNull(row.source_id) || '',
         source_url_id: toStringOrNull(row.source_url_id),
+        batch_id: toStringOrNull(row.batch_id),
         status: toStringOrNull(row.status) || 'pending',
         active_stage: toStringOrNull(row.active_stage),
         started_at: toStringOrNull(row.started_at),
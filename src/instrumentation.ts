@@ -0,0 +1,6 @@
+export async function register() {
+    if (process.env.NEXT_RUNTIME !== 'nodejs') return;
+
+    const { startSchedulerLoop } = await import('@/lib/scheduler-loop');
+    startSchedulerLoop();
+}
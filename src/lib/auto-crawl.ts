@@ -0,0 +1,150 @@
+import { supabase } from '@/lib/supabase';
+import { getNextCrawlDueAt } from '@/lib/crawl-interval';
+import { renderTemplate, RUN_PAYLOAD_TEMPLATE } from '@/lib/templates';
+import { enqueueJobs } from '@/lib/job-enqueue';
+import { withRedisLock } from '@/lib/redis-lock';
+import { isEnabled } from '@/lib/env-flags';
+
+const LOCK_KEY = 'auto_crawl:lock';
+const LOCK_TTL_MS = 60000;
+const DEFAULT_MAX_CONCURRENT_RUNS = 3;
+const ACTIVE_RUN_STATUSES = ['pending', 'running'];
+
+export interface AutoCrawlStartedRun {
+    source_id: string;
+    run_id: string;
+    job_id: string;
+}
+
+export interface AutoCrawlResult {
+    enabled: boolean;
+    due: number;
+    active_runs: number;
+    started: AutoCrawlStartedRun[];
+    errors: Array<{ source_id: string; error: string }>;
+}
+
+export function getAutoCrawlMaxConcurrentRuns(): number {
+    const raw = process.env.AUTO_CRAWL_MAX_CONCURRENT_RUNS;
+    if (!raw) return DEFAULT_MAX_CONCURRENT_RUNS;
+    const parsed = Number.parseInt(raw, 10);
+    if (!Number.isFinite(parsed) || parsed < 1) return DEFAULT_MAX_CONCURRENT_RUNS;
+    return parsed;
+}
+
+async function createAutoCrawlRun(sourceId: string): Promise<string> {
+    const payload: Record<string, unknown> = renderTemplate(
+        RUN_PAYLOAD_TEMPLATE as unknown as Record<string, unknown>,
+        {
+            source_id: sourceId,
+            source_url_id: null,
+            created_by: 'auto-crawl',
+        },
+    );
+
+    const { data, error } = await supabase
+        .from('ingestion_runs')
+        .insert([payload])
+        .select('id')
+        .single();
+
+    if (error || !data?.id) {
+        throw new Error(error?.message || 'ingestion_runs insert failed');
+    }
+    return String(data.id);
+}
+
+async function enqueueDiscoverJob(sourceId: string, runId: string, now: Date): Promise<string> {
+    try {
+        const [job] = await enqueueJobs([{
+            task: 'discover',
+            run_id: runId,
+            source_id: sourceId,
+            // Background crawls yield to manual and scheduled work.
+            priority: 'low',
+        }], { now });
+        return job.id;
+    } catch (enqueueError) {
+        // A run without a job would stay active forever and keep its source busy; fail it instead.
+        const timestamp = now.toISOString();
+        const message = enqueueError instanceof Error ? enqueueError.message : 'Discovery enqueue failed';
+        await supabase
+            .from('ingestion_runs')
+            .update({ status: 'failed', error_message: message, finished_at: timestamp, updated_at: timestamp })
+            .eq('id', runId);
+        throw enqueueError;
+    }
+}
+
+/**
+ * Start discovery runs for enabled sources whose crawl_interval has elapsed.
+ *
+ * Opt-in via AUTO_CRAWL_ENABLED. A short Redis lock keeps replicas from
+ * starting the same source twice, sources with an unfinished run are skipped,
+ * and at most AUTO_CRAWL_MAX_CONCURRENT_RUNS runs are active at once.
+ */
+export async function runAutoCrawl(now: Date = new Date()): Promise<AutoCrawlResult> {
+    const result: AutoCrawlResult = { enabled: false, due: 0, active_runs: 0, started: [], errors: [] };
+    if (!isEnabled(process.env.AUTO_CRAWL_ENABLED, false)) return result;
+    result.enabled = true;
+
+    const locked = await withRedisLock(LOCK_KEY, LOCK_TTL_MS, async () => {
+        const { data: sources, error: sourcesError } = await supabase
+            .from('sources')
+            .select('id, enabled, crawl_interval, last_crawled_at')
+            .eq('enabled', true)
+            .not('crawl_interval', 'is', null);
+        if (sourcesError) throw new Error(sourcesError.message);
+
+        const dueSources = (sources || [])
+            .map((source) => ({ source, dueAt: getNextCrawlDueAt(source) }))
+            .filter((entry): entry is { source: typeof entry.source; dueAt: Date } => (
+                entry.dueAt !== null && entry.dueAt.getTime() <= now.getTime()
+            ))
+            .sort((a, b) => a.dueAt.getTime() - b.dueAt.getTime());
+        result.due = dueSources.length;
+        if (dueSources.length === 0) return result;
+
+        const { data: activeRuns, error: runsError } = await supabase
+            .from('ingestion_runs')
+            .select('id, source_id, started_at')
+            .in('status', ACTIVE_RUN_STATUSES);
+        if (runsError) throw new Error(runsError.message);
+
+        // Batch runs still waiting for their turn keep their source busy but take no capacity.
+        result.active_runs = (activeRuns || []).filter((run) => run.started_at).length;
+        const busySourceIds = new Set((activeRuns || []).map((run) => String(run.source_id)));
+        let capacity = getAutoCrawlMaxConcurrentRuns() - result.active_runs;
+
+        for (const { source } of dueSources) {
+            if (capacity <= 0) break;
+            const sourceId = String(source.id);
+            if (busySourceIds.has(sourceId)) continue;
+
+            try {
+                const timestamp = now.toISOString();
+                const runId = await createAutoCrawlRun(sourceId);
+                const jobId = await enqueueDiscoverJob(sourceId, runId, now);
+
+                const { error: updateError } = await supabase
+                    .from('sources')
+                    .update({ last_crawled_at: timestamp })
+                    .eq('id', sourceId);
+                if (updateError) {
+                    console.error(`auto-crawl: failed to update last_crawled_at for source ${sourceId}:`, updateError.message);
+                }
+
+                result.started.push({ source_id: sourceId, run_id: runId, job_id: jobId });
+                capacity--;
+            } catch (error) {
+                result.errors.push({
+                    source_id: sourceId,
+                    error: error instanceof Error ? error.message : 'Failed to start run',
+                });
+            }
+        }
+
+        return result;
+    });
+    return locked ?? result;
+}
@@ -0,0 +1,181 @@
+import { supabase } from '@/lib/supabase';
+import { EnqueueJobSchema, validateEnqueueJob, type EnqueueJobInput } from '@/lib/job-enqueue';
+
+/**
+ * Task Wizard file import: a CSV (header row) or JSON array of targets with per-row overrides.
+ *
+ * Columns: `task`, `source_id`, `source_url_id`, `document_id`, `lang`, `psm`, `oem`, `max_attempts`.
+ * Missing or empty cells fall back to the wizard's defaults; each row is validated against
+ * EnqueueJobSchema and against Supabase, and only rows without errors are enqueued.
+ */
+export const BULK_FORMATS = ['csv', 'json'] as const;
+export const BULK_MAX_ROWS = 1000;
+const BULK_COLUMNS = ['task', 'source_id', 'source_url_id', 'document_id', 'lang', 'psm', 'oem', 'max_attempts'] as const;
+const LOOKUP_BATCH_SIZE = 300;
+const TARGET_FIELDS = ['source_id', 'source_url_id', 'document_id'] as const;
+const NUMERIC_ID_PATTERN = /^\d+$/;
+
+export type BulkFormat = (typeof BULK_FORMATS)[number];
+export type BulkDefaults = Pick<EnqueueJobInput, 'task' | 'max_attempts' | 'lang' | 'psm' | 'oem'>;
+
+export interface BulkRow {
+    /** 1-based position in the file, not counting the CSV header. */
+    row: number;
+    job: EnqueueJobInput;
+    errors: string[];
+}
+
+/**
+ * Minimal RFC 4180 reader: quoted fields, doubled quotes, CRLF; blank lines are skipped.
+ */
+export function parseCsv(text: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let quoted = false;
+
+    const endRow = () => {
+        row.push(field);
+        if (row.some((cell) => cell.trim() !== '')) rows.push(row);
+        row = [];
+        field = '';
+    };
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (quoted) {
+            if (char === '"' && text[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            quoted = true;
+        } else if (char === ',') {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') i++;
+            endRow();
+        } else {
+            field += char;
+        }
+    }
+    if (field !== '' || row.length > 0) endRow();
+
+    return rows;
+}
+
+/**
+ * Turn the uploaded file into one string record per row; returns an error for unreadable input.
+ */
+export function parseBulkRecords(content: string, format: BulkFormat): { records: Array<Record<string, string>>; error: string | null } {
+    if (format === 'json') {
+        let parsed: unknown;
+        try {
+            parsed = JSON.parse(content);
+        } catch {
+            return { records: [], error: 'File is not valid JSON' };
+        }
+        if (!Array.isArray(parsed)) return { records: [], error: 'JSON file must contain an array of rows' };
+
+        const records = parsed.map((item) => {
+            const record: Record<string, string> = {};
+            if (!item || typeof item !== 'object') return record;
+            for (const [key, value] of Object.entries(item as Record<string, unknown>)) {
+                if (value === null || value === undefined) continue;
+                record[key.trim().toLowerCase()] = String(value);
+            }
+            return record;
+        });
+        return { records, error: null };
+    }
+
+    const [header, ...lines] = parseCsv(content.replace(/^\uFEFF/, ''));
+    if (!header) return { records: [], error: 'CSV file is empty' };
+    const columns = header.map((name) => name.trim().toLowerCase());
+    if (!columns.some((name) => name === 'source_id' || name === 'source_url_id' || name === 'document_id')) {
+        return { records: [], error: 'CSV header needs a source_id, source_url_id or document_id column' };
+    }
+
+    const records = lines.map((cells) => {
+        const record: Record<string, string> = {};
+        columns.forEach((name, index) => {
+            if (name) record[name] = cells[index] ?? '';
+        });
+        return record;
+    });
+    return { records, error: null };
+}
+
+function formatIssues(error: { issues: Array<{ path: PropertyKey[]; message: string }> }): string[] {
+    return error.issues.map((issue) => (issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message));
+}
+
+/**
+ * Merge each record over the defaults and validate it; rows keep their errors instead of being dropped.
+ */
+export function buildBulkRows(records: Array<Record<string, string>>, defaults: BulkDefaults): BulkRow[] {
+    return records.map((record, index) => {
+        const values: Record<string, string> = {};
+        for (const column of BULK_COLUMNS) {
+            const value = record[column]?.trim();
+            if (value) values[column] = value;
+        }
+
+        const candidate = {
+            ...defaults,
+            ...values,
+            max_attempts: values.max_attempts !== undefined ? Number(values.max_attempts) : defaults.max_attempts,
+        };
+        const parsed = EnqueueJobSchema.safeParse(candidate);
+        if (!parsed.success) {
+            return { row: index + 1, job: candidate as EnqueueJobInput, errors: formatIssues(parsed.error) };
+        }
+
+        const job = parsed.data;
+        const errors = TARGET_FIELDS
+            .filter((field) => job[field] !== undefined && !NUMERIC_ID_PATTERN.test(job[field]))
+            .map((field) => `${field} must be a numeric id`);
+        const taskError = validateEnqueueJob(job);
+        if (taskError) errors.push(taskError);
+        return { row: index + 1, job, errors };
+    });
+}
+
+async function findExistingIds(table: 'sources' | 'source_urls' | 'documents', ids: string[]): Promise<Set<string>> {
+    const existing = new Set<string>();
+    for (let i = 0; i < ids.length; i += LOOKUP_BATCH_SIZE) {
+        let query = supabase.from(table).select('id').in('id', ids.slice(i, i + LOOKUP_BATCH_SIZE));
+        if (table === 'documents') query = query.is('deleted_at', null);
+        const { data, error } = await query;
+        if (error) throw new Error(`${table} lookup failed: ${error.message}`);
+        for (const row of data ?? []) existing.add(String(row.id));
+    }
+    return existing;
+}
+
+/**
+ * Add an error to every valid row whose source, source URL or document is missing in Supabase.
+ */
+export async function checkBulkTargets(rows: BulkRow[]): Promise<void> {
+    const targets = [
+        { field: 'source_id', table: 'sources' },
+        { field: 'source_url_id', table: 'source_urls' },
+        { field: 'document_id', table: 'documents' },
+    ] as const;
+    const candidates = rows.filter((row) => row.errors.length === 0);
+
+    for (const { field, table } of targets) {
+        const ids = Array.from(new Set(candidates.map((row) => row.job[field]).filter((id): id is string => id !== undefined && NUMERIC_ID_PATTERN.test(id))));
+        if (ids.length === 0) continue;
+        const existing = await findExistingIds(table, ids);
+        for (const row of candidates) {
+            const id = row.job[field];
+            if (id && !existing.has(id)) row.errors.push(`${field} ${id} does not exist`);
+        }
+    }
+}
@@ -0,0 +1,93 @@
+const UNIT_MS: Record<string, number> = {
+    year: 365 * 24 * 60 * 60 * 1000,
+    mon: 30 * 24 * 60 * 60 * 1000,
+    month: 30 * 24 * 60 * 60 * 1000,
+    week: 7 * 24 * 60 * 60 * 1000,
+    day: 24 * 60 * 60 * 1000,
+    hour: 60 * 60 * 1000,
+    min: 60 * 1000,
+    minute: 60 * 1000,
+    sec: 1000,
+    second: 1000,
+};
+
+// Jitter spreads sources sharing the same interval; capped so short intervals stay predictable.
+const JITTER_RATIO = 0.1;
+const MAX_JITTER_MS = 15 * 60 * 1000;
+
+export interface CrawlScheduleSource {
+    id: string | number;
+    enabled?: boolean | null;
+    crawl_interval: string | null;
+    last_crawled_at: string | null;
+}
+
+/**
+ * Parse a Postgres interval as returned by Supabase (`1 day`, `2 days 03:00:00`, `01:30:00`, `1 mon`)
+ * into milliseconds. Months count as 30 days, years as 365 days.
+ * Returns null for empty, unparseable or non-positive intervals.
+ */
+export function parseIntervalMs(value: string | null | undefined): number | null {
+    if (!value) return null;
+    const input = value.trim().toLowerCase();
+    if (!input) return null;
+
+    let total = 0;
+    let matched = false;
+
+    const unitPattern = /(-?\d+(?:\.\d+)?)\s*(years?|mons?|months?|weeks?|days?|hours?|mins?|minutes?|secs?|seconds?)\b/g;
+    for (const match of input.matchAll(unitPattern)) {
+        const unit = match[2].replace(/s$/, '');
+        const unitMs = UNIT_MS[unit];
+        if (unitMs === undefined) continue;
+        total += Number.parseFloat(match[1]) * unitMs;
+        matched = true;
+    }
+
+    const clock = input.match(/(-?)(\d+):(\d{2})(?::(\d{2}(?:\.\d+)?))?/);
+    if (clock) {
+        const sign = clock[1] === '-' ? -1 : 1;
+        const ms = (Number.parseInt(clock[2], 10) * 3600 + Number.parseInt(clock[3], 10) * 60 + Number.parseFloat(clock[4] ?? '0')) * 1000;
+        total += sign * ms;
+        matched = true;
+    }
+
+    if (!matched || !Number.isFinite(total) || total <= 0) return null;
+    return Math.round(total);
+}
+
+function hashFraction(value: string): number {
+    let hash = 0;
+    for (let i = 0; i < value.length; i++) {
+        hash = (hash * 31 + value.charCodeAt(i)) >>> 0;
+    }
+    return (hash % 1000) / 1000;
+}
+
+/**
+ * Deterministic per-source jitter, so the server scheduler and the UI agree on the due time.
+ */
+export function getCrawlJitterMs(sourceId: string | number, intervalMs: number): number {
+    return Math.round(hashFraction(String(sourceId)) * Math.min(intervalMs * JITTER_RATIO, MAX_JITTER_MS));
+}
+
+/**
+ * When the source is next due for an automatic crawl.
+ * Returns null when the source is disabled or has no usable crawl_interval;
+ * a source that was never crawled is due immediately (epoch).
+ */
+export function getNextCrawlDueAt(source: CrawlScheduleSource): Date | null {
+    if (source.enabled === false) return null;
+    const intervalMs = parseIntervalMs(source.crawl_interval);
+    if (intervalMs === null) return null;
+
+    const lastCrawled = source.last_crawled_at ? new Date(source.last_crawled_at).getTime() : NaN;
+    if (Number.isNaN(lastCrawled)) return new Date(0);
+
+    return new Date(lastCrawled + intervalMs + getCrawlJitterMs(source.id, intervalMs));
+}
+
+export function isCrawlDue(source: CrawlScheduleSource, now: Date = new Date()): boolean {
+    const dueAt = getNextCrawlDueAt(source);
+    return dueAt !== null && dueAt.getTime() <= now.getTime();
+}
@@ -0,0 +1,155 @@
+export interface CronSchedule {
+    minutes: Set<number>;
+    hours: Set<number>;
+    daysOfMonth: Set<number>;
+    months: Set<number>;
+    daysOfWeek: Set<number>;
+    anyDayOfMonth: boolean;
+    anyDayOfWeek: boolean;
+}
+
+interface FieldSpec {
+    name: string;
+    min: number;
+    max: number;
+}
+
+const FIELDS: FieldSpec[] = [
+    { name: 'minute', min: 0, max: 59 },
+    { name: 'hour', min: 0, max: 23 },
+    { name: 'day of month', min: 1, max: 31 },
+    { name: 'month', min: 1, max: 12 },
+    { name: 'day of week', min: 0, max: 7 },
+];
+
+// Upper bound for the next-run search; 5 years covers every valid expression (e.g. Feb 29).
+const MAX_SEARCH_MS = 5 * 366 * 24 * 60 * 60 * 1000;
+
+function parseNumber(value: string, spec: FieldSpec): number {
+    if (!/^\d+$/.test(value)) {
+        throw new Error(`Invalid ${spec.name} value: ${value}`);
+    }
+    const parsed = Number.parseInt(value, 10);
+    if (parsed < spec.min || parsed > spec.max) {
+        throw new Error(`${spec.name} value out of range (${spec.min}-${spec.max}): ${value}`);
+    }
+    return parsed;
+}
+
+function parseField(raw: string, spec: FieldSpec): Set<number> {
+    const values = new Set<number>();
+
+    for (const part of raw.split(',')) {
+        const [rangePart, stepPart] = part.split('/');
+        const step = stepPart === undefined ? 1 : parseNumber(stepPart, { ...spec, min: 1 });
+
+        let start: number;
+        let end: number;
+        if (rangePart === '*') {
+            start = spec.min;
+            end = spec.max;
+        } else if (rangePart.includes('-')) {
+            const [from, to] = rangePart.split('-');
+            start = parseNumber(from, spec);
+            end = parseNumber(to, spec);
+            if (start > end) {
+                throw new Error(`Invalid ${spec.name} range: ${rangePart}`);
+            }
+        } else {
+            start = parseNumber(rangePart, spec);
+            end = stepPart === undefined ? start : spec.max;
+        }
+
+        for (let value = start; value <= end; value += step) {
+            values.add(value);
+        }
+    }
+
+    return values;
+}
+
+/**
+ * Parse a standard 5-field cron expression (minute hour day-of-month month day-of-week).
+ * Supports `*`, numbers, ranges (`1-5`), steps (`*\/6`, `0-30/10`) and lists (`1,15`).
+ * Day of week accepts both 0 and 7 for Sunday.
+ */
+export function parseCronExpression(expression: string): CronSchedule {
+    const parts = expression.trim().split(/\s+/);
+    if (parts.length !== 5) {
+        throw new Error(`Cron expression must have 5 fields, got ${parts.length}`);
+    }
+
+    const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map((part, index) => parseField(part, FIELDS[index]));
+
+    if (daysOfWeek.has(7)) {
+        daysOfWeek.delete(7);
+        daysOfWeek.add(0);
+    }
+
+    return {
+        minutes,
+        hours,
+        daysOfMonth,
+        months,
+        daysOfWeek,
+        anyDayOfMonth: parts[2] === '*',
+        anyDayOfWeek: parts[4] === '*',
+    };
+}
+
+export function isValidCronExpression(expression: string): boolean {
+    try {
+        parseCronExpression(expression);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+    const domMatch = schedule.daysOfMonth.has(date.getDate());
+    const dowMatch = schedule.daysOfWeek.has(date.getDay());
+
+    // Vixie cron semantics: when both day fields are restricted, either one may match.
+    if (!schedule.anyDayOfMonth && !schedule.anyDayOfWeek) return domMatch || dowMatch;
+    if (!schedule.anyDayOfMonth) return domMatch;
+    if (!schedule.anyDayOfWeek) return dowMatch;
+    return true;
+}
+
+/**
+ * Compute the first fire time strictly after `from`, evaluated in the server's local time zone.
+ * Returns null when the expression can never fire (e.g. `0 0 31 2 *`).
+ */
+export function getNextCronTime(expression: string | CronSchedule, from: Date = new Date()): Date | null {
+    const schedule = typeof expression === 'string' ? parseCronExpression(expression) : expression;
+    const limit = from.getTime() + MAX_SEARCH_MS;
+
+    const candidate = new Date(from.getTime());
+    candidate.setSeconds(0, 0);
+    candidate.setMinutes(candidate.getMinutes() + 1);
+
+    while (candidate.getTime() <= limit) {
+        if (!schedule.months.has(candidate.getMonth() + 1)) {
+            candidate.setMonth(candidate.getMonth() + 1, 1);
+            candidate.setHours(0, 0, 0, 0);
+            continue;
+        }
+        if (!matchesDay(schedule, candidate)) {
+            candidate.setDate(candidate.getDate() + 1);
+            candidate.setHours(0, 0, 0, 0);
+            continue;
+        }
+        if (!schedule.hours.has(candidate.getHours())) {
+            candidate.setHours(candidate.getHours() + 1, 0, 0, 0);
+            continue;
+        }
+        if (!schedule.minutes.has(candidate.getMinutes())) {
+            candidate.setMinutes(candidate.getMinutes() + 1, 0, 0);
+            continue;
+        }
+        return candidate;
+    }
+
+    return null;
+}
@@ -0,0 +1,336 @@
+import { redis } from '@/lib/redis';
+import { fromRedisBool, toRedisBool } from '@/lib/redis-bool';
+import { removeJobs, statusIndexKey, syncJobIndex, UNSWEPT_FAILED_KEY } from '@/lib/job-index';
+import { requeueToLanes } from '@/lib/queue-lanes';
+import { withRedisLock } from '@/lib/redis-lock';
+
+/**
+ * Retry with exponential backoff + dead-letter queue for failed Redis jobs.
+ *
+ * - Workers mark a job `status=failed` (with `error_message`, `attempts`).
+ * - The failure sweep records the error in `error_history` and either
+ *   schedules a retry (`status=retrying`, id in `queue:delayed` scored by ready-at ms)
+ *   or, once `attempts >= max_attempts`, moves the id to the `queue:dead` list (`dead_at` set).
+ * - The delayed sweep pushes ready retries back onto their queue lane.
+ *
+ * The sweep only reads `jobs:failed_unswept`, which the index fills whenever a job moves to `failed`;
+ * each id leaves it once retried, dead-lettered or canceled, so old dead letters cost nothing per tick.
+ */
+export const DELAYED_QUEUE_KEY = 'queue:delayed';
+export const DEAD_LETTER_KEY = 'queue:dead';
+const SWEEP_LOCK_KEY = 'dead_letter:lock';
+const SWEEP_LOCK_TTL_MS = 60000;
+const UNSWEPT_SEEDED_KEY = 'jobs:failed_unswept_seeded';
+const MAX_SWEEP_JOBS = 1000;
+
+const DEFAULT_BACKOFF_BASE_MS = 30000;
+const DEFAULT_BACKOFF_MAX_MS = 30 * 60 * 1000;
+const RETRYABLE_STATUSES = new Set(['failed', 'canceled']);
+
+export interface JobErrorHistoryEntry {
+    attempt: number;
+    error_message: string;
+    failed_at: string;
+    worker: string;
+}
+
+export interface DeadLetterEntry {
+    id: string;
+    task: string;
+    run_id: string;
+    source_id: string;
+    source_url_id: string;
+    document_id: string;
+    attempts: number;
+    max_attempts: number;
+    error_message: string;
+    error_history: JobErrorHistoryEntry[];
+    created_at: string;
+    dead_at: string;
+}
+
+export interface FailureSweepResult {
+    retried: string[];
+    dead_lettered: string[];
+}
+
+function parseIntEnv(raw: string | undefined, fallback: number): number {
+    if (!raw) return fallback;
+    const parsed = Number.parseInt(raw, 10);
+    if (!Number.isFinite(parsed) || parsed <= 0) return fallback;
+    return parsed;
+}
+
+function toInt(value: string | undefined, fallback: number): number {
+    const parsed = Number.parseInt(value ?? '', 10);
+    return Number.isFinite(parsed) ? parsed : fallback;
+}
+
+/**
+ * Delay before retry number `attempts` (1-based): base * 2^(attempts-1), capped.
+ */
+export function computeRetryDelayMs(
+    attempts: number,
+    baseMs: number = parseIntEnv(process.env.RETRY_BACKOFF_BASE_MS, DEFAULT_BACKOFF_BASE_MS),
+    maxMs: number = parseIntEnv(process.env.RETRY_BACKOFF_MAX_MS, DEFAULT_BACKOFF_MAX_MS),
+): number {
+    const exponent = Math.max(0, attempts - 1);
+    return Math.min(baseMs * 2 ** exponent, maxMs);
+}
+
+export function parseErrorHistory(raw: string | undefined): JobErrorHistoryEntry[] {
+    if (!raw) return [];
+    try {
+        const parsed = JSON.parse(raw);
+        return Array.isArray(parsed) ? parsed as JobErrorHistoryEntry[] : [];
+    } catch {
+        return [];
+    }
+}
+
+function toDeadLetterEntry(id: string, data: Record<string, string>): DeadLetterEntry {
+    return {
+        id,
+        task: data.task || 'unknown',
+        run_id: data.run_id || '',
+        source_id: data.source_id || '',
+        source_url_id: data.source_url_id || '',
+        document_id: data.document_id || '',
+        attempts: toInt(data.attempts, 0),
+        max_attempts: toInt(data.max_attempts, 3),
+        error_message: data.error_message || '',
+        error_history: parseErrorHistory(data.error_history),
+        created_at: data.created_at || '',
+        dead_at: data.dead_at || '',
+    };
+}
+
+/**
+ * Failures recorded before `jobs:failed_unswept` existed are only in the status index; copy them over once. Dead-lettered ones drop out again on the first sweep.
+ */
+async function seedUnsweptFailures(): Promise<void> {
+    if (await redis.exists(UNSWEPT_SEEDED_KEY)) return;
+    const ids = await redis.zrange(statusIndexKey('failed'), 0, -1);
+    for (let i = 0; i < ids.length; i += MAX_SWEEP_JOBS) {
+        await redis.sadd(UNSWEPT_FAILED_KEY, ...ids.slice(i, i + MAX_SWEEP_JOBS));
+    }
+    await redis.set(UNSWEPT_SEEDED_KEY, new Date().toISOString());
+}
+
+async function loadFailedJobs(): Promise<Array<{ id: string; data: Record<string, string> }>> {
+    await seedUnsweptFailures();
+    const ids = await redis.srandmember(UNSWEPT_FAILED_KEY, MAX_SWEEP_JOBS);
+    if (ids.length === 0) return [];
+
+    const pipeline = redis.pipeline();
+    for (const id of ids) pipeline.hgetall(`job:${id}`);
+    const results = (await pipeline.exec()) ?? [];
+
+    const failed: Array<{ id: string; data: Record<string, string> }> = [];
+    const settled: string[] = [];
+    results.forEach(([, value], index) => {
+        const data = value as Record<string, string> | null;
+        if (!data || data.status !== 'failed' || data.dead_at) {
+            // Already handled, retried by hand or deleted since it was flagged.
+            settled.push(ids[index]);
+            return;
+        }
+        failed.push({ id: ids[index], data });
+    });
+    if (settled.length > 0) await redis.srem(UNSWEPT_FAILED_KEY, ...settled);
+    return failed;
+}
+
+/**
+ * Handle newly failed jobs: schedule a backoff retry or move them to the dead-letter queue.
+ */
+export async function sweepFailedJobs(now: Date = new Date()): Promise<FailureSweepResult> {
+    const result: FailureSweepResult = { retried: [], dead_lettered: [] };
+
+    const locked = await withRedisLock(SWEEP_LOCK_KEY, SWEEP_LOCK_TTL_MS, async () => {
+        const failedJobs = await loadFailedJobs();
+        const timestamp = now.toISOString();
+
+        for (const { id, data } of failedJobs) {
+            // A job canceled while running must not come back through the retry path.
+            if (fromRedisBool(data.cancel_requested)) {
+                await redis.hset(`job:${id}`, { status: 'canceled' });
+                await redis.srem(UNSWEPT_FAILED_KEY, id);
+                await syncJobIndex([id]);
+                continue;
+            }
+
+            const history = parseErrorHistory(data.error_history);
+            // Fall back to the recorded history when the worker does not bump `attempts`;
+            // `history_base` marks where the current attempt budget started after a manual requeue.
+            const attempts = Math.max(toInt(data.attempts, 0), history.length - toInt(data.history_base, 0) + 1);
+            const maxAttempts = toInt(data.max_attempts, 3);
+            history.push({
+                attempt: attempts,
+                error_message: data.error_message || '',
+                failed_at: data.completed_at || timestamp,
+                worker: data.worker || '',
+            });
+
+            const pipeline = redis.pipeline();
+            pipeline.srem(UNSWEPT_FAILED_KEY, id);
+            if (attempts < maxAttempts) {
+                const retryAt = new Date(now.getTime() + computeRetryDelayMs(attempts));
+                pipeline.hset(`job:${id}`, {
+                    status: 'retrying',
+                    attempts: String(attempts),
+                    retry_at: retryAt.toISOString(),
+                    error_history: JSON.stringify(history),
+                });
+                pipeline.zadd(DELAYED_QUEUE_KEY, retryAt.getTime(), id);
+                result.retried.push(id);
+            } else {
+                pipeline.hset(`job:${id}`, {
+                    dead_at: timestamp,
+                    retry_at: '',
+                    error_history: JSON.stringify(history),
+                });
+                pipeline.lrem(DEAD_LETTER_KEY, 0, id);
+                pipeline.lpush(DEAD_LETTER_KEY, id);
+                result.dead_lettered.push(id);
+            }
+            await pipeline.exec();
+        }
+        await syncJobIndex(result.retried);
+
+        return result;
+    });
+    return locked ?? result;
+}
+
+/**
+ * Push retries whose backoff has elapsed back onto their queue lane.
+ * Each id is claimed with ZREM so concurrent callers never requeue it twice.
+ */
+export async function promoteDelayedJobs(now: Date = new Date()): Promise<string[]> {
+    const readyIds = await redis.zrangebyscore(DELAYED_QUEUE_KEY, '-inf', now.getTime());
+    const promoted: string[] = [];
+
+    for (const id of readyIds) {
+        const claimed = await redis.zrem(DELAYED_QUEUE_KEY, id);
+        if (claimed !== 1) continue;
+
+        await redis.hset(`job:${id}`, {
+            status: 'pending',
+            queued_at: now.toISOString(),
+            retry_at: '',
+            worker: '',
+            started_at: '',
+            completed_at: '',
+            error_message: '',
+        });
+        promoted.push(id);
+    }
+    await requeueToLanes(promoted);
+    await syncJobIndex(promoted);
+
+    return promoted;
+}
+
+export async function listDeadLetters(offset = 0, limit = 100): Promise<{ total: number; entries: DeadLetterEntry[] }> {
+    const [total, ids] = await Promise.all([
+        redis.llen(DEAD_LETTER_KEY),
+        redis.lrange(DEAD_LETTER_KEY, offset, offset + limit - 1),
+    ]);
+    if (ids.length === 0) return { total, entries: [] };
+
+    const pipeline = redis.pipeline();
+    for (const id of ids) pipeline.hgetall(`job:${id}`);
+    const results = (await pipeline.exec()) ?? [];
+
+    const entries = results.map(([, value], index) => toDeadLetterEntry(ids[index], (value as Record<string, string>) ?? {}));
+    return { total, entries };
+}
+
+async function resolveTargetIds(jobIds: string[] | 'all'): Promise<string[]> {
+    if (jobIds !== 'all') return Array.from(new Set(jobIds));
+    return redis.lrange(DEAD_LETTER_KEY, 0, -1);
+}
+
+/**
+ * Move dead-lettered jobs back to their queue lane with a fresh attempt budget.
+ * The error history is kept so the job detail still shows previous failures.
+ */
+export async function requeueDeadLetters(jobIds: string[] | 'all'): Promise<string[]> {
+    const ids = await resolveTargetIds(jobIds);
+    const requeued: string[] = [];
+
+    for (const id of ids) {
+        const removed = await redis.lrem(DEAD_LETTER_KEY, 0, id);
+        if (removed === 0) continue;
+
+        const history = parseErrorHistory((await redis.hget(`job:${id}`, 'error_history')) ?? undefined);
+        await redis.hset(`job:${id}`, {
+            status: 'pending',
+            queued_at: new Date().toISOString(),
+            attempts: '0',
+            history_base: String(history.length),
+            dead_at: '',
+            retry_at: '',
+            worker: '',
+            started_at: '',
+            completed_at: '',
+            error_message: '',
+        });
+        requeued.push(id);
+    }
+    await requeueToLanes(requeued);
+    await syncJobIndex(requeued);
+
+    return requeued;
+}
+
+export type JobRetryOutcome = 'retried' | 'not_finished' | 'not_found';
+
+/**
+ * Manually re-run one finished job (failed, canceled or dead-lettered) under its own id,
+ * with a fresh attempt budget. Attempt and error history are kept.
+ */
+export async function retryJob(id: string): Promise<JobRetryOutcome> {
+    const data = await redis.hgetall(`job:${id}`);
+    if (!data || Object.keys(data).length === 0) return 'not_found';
+    if (!RETRYABLE_STATUSES.has(data.status) && !data.dead_at) return 'not_finished';
+
+    const history = parseErrorHistory(data.error_history);
+    const pipeline = redis.pipeline();
+    pipeline.lrem(DEAD_LETTER_KEY, 0, id);
+    pipeline.zrem(DELAYED_QUEUE_KEY, id);
+    pipeline.hset(`job:${id}`, {
+        status: 'pending',
+        queued_at: new Date().toISOString(),
+        attempts: '0',
+        history_base: String(history.length),
+        dead_at: '',
+        retry_at: '',
+        worker: '',
+        started_at: '',
+        completed_at: '',
+        error_message: '',
+        cancel_requested: toRedisBool(false),
+        canceled_at: '',
+    });
+    await pipeline.exec();
+
+    await requeueToLanes([id]);
+    await syncJobIndex([id]);
+    return 'retried';
+}
+
+export async function discardDeadLetters(jobIds: string[] | 'all'): Promise<string[]> {
+    const ids = await resolveTargetIds(jobIds);
+    const discarded: string[] = [];
+
+    for (const id of ids) {
+        const removed = await redis.lrem(DEAD_LETTER_KEY, 0, id);
+        if (removed === 0) continue;
+        discarded.push(id);
+    }
+    await removeJobs(discarded);
+
+    return discarded;
+}
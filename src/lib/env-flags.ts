@@ -0,0 +1,11 @@
+/**
+ * Parse an on/off env flag: `1`/`true`/`yes`/`on` and `0`/`false`/`no`/`off` (case-insensitive);
+ * anything else, or an unset variable, yields `fallback`.
+ */
+export function isEnabled(value: string | undefined, fallback = true): boolean {
+    if (!value) return fallback;
+    const normalized = value.trim().toLowerCase();
+    if (['1', 'true', 'yes', 'on'].includes(normalized)) return true;
+    if (['0', 'false', 'no', 'off'].includes(normalized)) return false;
+    return fallback;
+}
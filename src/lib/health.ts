@@ -0,0 +1,126 @@
+import { existsSync } from 'node:fs';
+import { redis } from '@/lib/redis';
+import { supabase } from '@/lib/supabase';
+import { getLaneDepths } from '@/lib/queue-lanes';
+import { getDockerInfo, getPortainerConfig } from '@/lib/portainer';
+import { headR2Bucket, isR2Configured } from '@/lib/r2';
+
+/**
+ * Dependency checks behind GET /api/health and the header health strip.
+ *
+ * Every check runs in parallel under CHECK_TIMEOUT_MS. Redis and Supabase are required: if either is
+ * down the overall status is `down` (HTTP 503). R2, Portainer and Playwright only degrade it, and a
+ * dependency without configuration reports `not_configured` instead of failing.
+ */
+export const HEALTH_DEPENDENCIES = ['redis', 'supabase', 'r2', 'portainer', 'playwright'] as const;
+const REQUIRED_DEPENDENCIES: HealthDependency[] = ['redis', 'supabase'];
+const CHECK_TIMEOUT_MS = 5000;
+
+export type HealthDependency = (typeof HEALTH_DEPENDENCIES)[number];
+export type DependencyStatus = 'ok' | 'down' | 'not_configured';
+export type OverallHealth = 'ok' | 'degraded' | 'down';
+
+export interface DependencyHealth {
+    name: HealthDependency;
+    status: DependencyStatus;
+    latency_ms: number | null;
+    detail: string | null;
+}
+
+export interface HealthReport {
+    status: OverallHealth;
+    checked_at: string;
+    dependencies: DependencyHealth[];
+}
+
+class NotConfiguredError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'NotConfiguredError';
+    }
+}
+
+function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new Error(`Timed out after ${ms}ms`)), ms);
+    });
+    return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Run one check; it resolves to an optional detail string or throws to report the dependency down.
+ */
+async function runCheck(name: HealthDependency, check: () => Promise<string | null>): Promise<DependencyHealth> {
+    const startedAt = Date.now();
+    try {
+        const detail = await withTimeout(check(), CHECK_TIMEOUT_MS);
+        return { name, status: 'ok', latency_ms: Date.now() - startedAt, detail };
+    } catch (error) {
+        const configError = error instanceof NotConfiguredError
+            || (error instanceof Error && error.name === 'InfraConfigError');
+        return {
+            name,
+            status: configError ? 'not_configured' : 'down',
+            latency_ms: configError ? null : Date.now() - startedAt,
+            detail: error instanceof Error ? error.message : String(error),
+        };
+    }
+}
+
+async function checkRedis(): Promise<string> {
+    await redis.ping();
+    const lanes = await getLaneDepths();
+    const queued = lanes.reduce((sum, lane) => sum + lane.length, 0);
+    return `${queued} queued`;
+}
+
+async function checkSupabase(): Promise<null> {
+    const { error } = await supabase.from('sources').select('id').limit(1);
+    if (error) throw new Error(error.message);
+    return null;
+}
+
+async function checkR2(): Promise<null> {
+    if (!isR2Configured()) throw new NotConfiguredError('R2 credentials are not set');
+    await headR2Bucket();
+    return null;
+}
+
+async function checkPortainer(): Promise<string | null> {
+    const config = getPortainerConfig();
+    const info = await getDockerInfo(config);
+    return info.OperatingSystem ?? null;
+}
+
+async function checkPlaywright(): Promise<null> {
+    // Same runtime import as /api/render, so this reports what previews will actually get.
+    let chromium;
+    try {
+        const playwright = await import('playwright');
+        chromium = playwright.chromium;
+    } catch {
+        throw new NotConfiguredError('playwright module is not installed');
+    }
+    if (!existsSync(chromium.executablePath())) {
+        throw new Error('Chromium is not installed (npx playwright install chromium)');
+    }
+    return null;
+}
+
+export function summarizeHealth(dependencies: DependencyHealth[]): OverallHealth {
+    if (dependencies.some((dep) => dep.status === 'down' && REQUIRED_DEPENDENCIES.includes(dep.name))) return 'down';
+    if (dependencies.some((dep) => dep.status === 'down')) return 'degraded';
+    return 'ok';
+}
+
+export async function checkHealth(now: Date = new Date()): Promise<HealthReport> {
+    const dependencies = await Promise.all([
+        runCheck('redis', checkRedis),
+        runCheck('supabase', checkSupabase),
+        runCheck('r2', checkR2),
+        runCheck('portainer', checkPortainer),
+        runCheck('playwright', checkPlaywright),
+    ]);
+    return { status: summarizeHealth(dependencies), checked_at: now.toISOString(), dependencies };
+}
@@ -10,6 +10,7 @@ import {
     type DockerContainerStats,
     type DockerContainerSummary,
 } from '@/lib/portainer';
+import { isEnabled } from '@/lib/env-flags';
 
 export type HealthStatus = 'healthy' | 'unhealthy' | 'starting' | 'unknown';
 
@@ -266,14 +267,6 @@ async function mapLocalProbe(
     };
 }
 
-function isEnabled(value: string | undefined, fallback = true): boolean {
-    if (!value) return fallback;
-    const normalized = value.trim().toLowerCase();
-    if (['1', 'true', 'yes', 'on'].includes(normalized)) return true;
-    if (['0', 'false', 'no', 'off'].includes(normalized)) return false;
-    return fallback;
-}
-
 function mapContainerName(container: DockerContainerSummary): string {
     const raw = container.Names?.[0] ?? '';
     const normalized = raw.startsWith('/') ? raw.slice(1) : raw;
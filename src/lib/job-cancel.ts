@@ -0,0 +1,130 @@
+import { redis } from '@/lib/redis';
+import { supabase } from '@/lib/supabase';
+import { toRedisBool } from '@/lib/redis-bool';
+import { DELAYED_QUEUE_KEY } from '@/lib/dead-letter';
+import { runIndexKey, syncJobIndex, UNSWEPT_FAILED_KEY } from '@/lib/job-index';
+import { removeFromLanes } from '@/lib/queue-lanes';
+
+/**
+ * Job / run cancellation.
+ *
+ * - Jobs still waiting in their queue lane (or `queue:delayed`) are removed and marked `status=canceled`.
+ * - Failed jobs the failure sweep has not handled yet are canceled too, so the sweep cannot retry them.
+ * - Jobs a worker already claimed get `cancel_requested=true`; the worker checks the flag
+ *   between steps, stops, and writes `status=canceled` itself.
+ * - Open `ingestion_items` of the affected jobs/run are marked `canceled`.
+ */
+export type JobCancelOutcome = 'canceled' | 'cancel_requested' | 'already_finished' | 'not_found';
+
+export interface JobCancelResult {
+    id: string;
+    outcome: JobCancelOutcome;
+}
+
+export interface RunCancelResult {
+    run_id: string;
+    jobs: JobCancelResult[];
+    canceled: number;
+    cancel_requested: number;
+    items_canceled: number;
+}
+
+const FINISHED_JOB_STATUSES = new Set(['completed', 'failed', 'canceled']);
+const OPEN_ITEM_STATUSES = ['pending', 'running'];
+
+async function cancelJobHash(id: string, data: Record<string, string>, timestamp: string): Promise<JobCancelOutcome> {
+    const status = (data.status || '').toLowerCase();
+    if (status === 'failed' && !data.dead_at) {
+        await redis.zrem(DELAYED_QUEUE_KEY, id);
+        await redis.srem(UNSWEPT_FAILED_KEY, id);
+        await redis.hset(`job:${id}`, { status: 'canceled', canceled_at: timestamp, retry_at: '' });
+        await syncJobIndex([id]);
+        return 'canceled';
+    }
+    if (FINISHED_JOB_STATUSES.has(status) || data.dead_at) return 'already_finished';
+
+    // LREM / ZREM act as the claim: if the id was still queued, no worker can pick it up anymore.
+    const pipeline = redis.pipeline();
+    removeFromLanes(pipeline, id, data);
+    const removedFromDelayed = await redis.zrem(DELAYED_QUEUE_KEY, id);
+    const removedFromQueue = ((await pipeline.exec()) ?? []).reduce((sum, [, value]) => sum + Number(value ?? 0), 0);
+
+    if (removedFromQueue > 0 || removedFromDelayed > 0) {
+        await redis.hset(`job:${id}`, {
+            status: 'canceled',
+            canceled_at: timestamp,
+            completed_at: timestamp,
+            retry_at: '',
+        });
+        await syncJobIndex([id]);
+        return 'canceled';
+    }
+
+    await redis.hset(`job:${id}`, {
+        cancel_requested: toRedisBool(true),
+        canceled_at: timestamp,
+    });
+    return 'cancel_requested';
+}
+
+async function markItemsCanceled(column: 'job_id' | 'run_id', value: string, timestamp: string): Promise<number> {
+    const { data, error } = await supabase
+        .from('ingestion_items')
+        .update({ status: 'canceled', updated_at: timestamp })
+        .eq(column, value)
+        .in('status', OPEN_ITEM_STATUSES)
+        .select('id');
+    if (error) throw new Error(error.message);
+    return (data || []).length;
+}
+
+async function loadRunJobs(runId: string): Promise<Array<{ id: string; data: Record<string, string> }>> {
+    const ids = await redis.zrange(runIndexKey(runId), 0, -1);
+    if (ids.length === 0) return [];
+
+    const pipeline = redis.pipeline();
+    for (const id of ids) pipeline.hgetall(`job:${id}`);
+    const results = (await pipeline.exec()) ?? [];
+
+    const jobs: Array<{ id: string; data: Record<string, string> }> = [];
+    results.forEach(([, value], index) => {
+        const data = value as Record<string, string> | null;
+        if (!data || Object.keys(data).length === 0) return;
+        jobs.push({ id: ids[index], data });
+    });
+    return jobs;
+}
+
+export async function cancelJob(id: string, now: Date = new Date()): Promise<JobCancelResult> {
+    const data = await redis.hgetall(`job:${id}`);
+    if (!data || Object.keys(data).length === 0) return { id, outcome: 'not_found' };
+
+    const timestamp = now.toISOString();
+    const outcome = await cancelJobHash(id, data, timestamp);
+    if (outcome !== 'already_finished') {
+        await markItemsCanceled('job_id', id, timestamp);
+    }
+    return { id, outcome };
+}
+
+/**
+ * Cancel every unfinished Redis job of a run and close its open ingestion items.
+ * Does not touch the `ingestion_runs` row; callers update the run status themselves.
+ */
+export async function cancelRunJobs(runId: string, now: Date = new Date()): Promise<RunCancelResult> {
+    const timestamp = now.toISOString();
+    const runJobs = await loadRunJobs(runId);
+
+    const jobs: JobCancelResult[] = [];
+    for (const { id, data } of runJobs) {
+        jobs.push({ id, outcome: await cancelJobHash(id, data, timestamp) });
+    }
+
+    return {
+        run_id: runId,
+        jobs,
+        canceled: jobs.filter((job) => job.outcome === 'canceled').length,
+        cancel_requested: jobs.filter((job) => job.outcome === 'cancel_requested').length,
+        items_canceled: await markItemsCanceled('run_id', runId, timestamp),
+    };
+}
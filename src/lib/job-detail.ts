@@ -0,0 +1,128 @@
+import { redis } from '@/lib/redis';
+import { supabase } from '@/lib/supabase';
+import { parseErrorHistory } from '@/lib/dead-letter';
+
+/**
+ * Everything the `/tasks/[id]` page shows for one job: the full hash, attempt history
+ * and the linked `ingestion_runs` / `ingestion_items` rows.
+ *
+ * Jobs already moved to `queue_jobs_archive` are served from the archived payload (read-only).
+ */
+const MAX_ITEMS = 200;
+
+export interface JobAttempt {
+    attempt: number;
+    status: string;
+    worker: string;
+    started_at: string;
+    completed_at: string;
+    error_message: string;
+}
+
+export interface JobDetail {
+    id: string;
+    origin: 'redis' | 'archive';
+    job: Record<string, string>;
+    attempts: JobAttempt[];
+    run: Record<string, unknown> | null;
+    items: Record<string, unknown>[];
+    /** Supabase lookup of the run / items failed; the job itself is still returned. */
+    links_error: string | null;
+}
+
+/**
+ * Attempts recorded by the index sync (`attempt_history`); jobs that finished before it existed
+ * fall back to the failure sweep's `error_history`.
+ */
+export function parseAttemptHistory(job: Record<string, string>): JobAttempt[] {
+    if (job.attempt_history) {
+        try {
+            const parsed = JSON.parse(job.attempt_history);
+            if (Array.isArray(parsed)) {
+                return parsed.map((entry, index) => ({
+                    attempt: Number(entry?.attempt) || index + 1,
+                    status: String(entry?.status ?? ''),
+                    worker: String(entry?.worker ?? ''),
+                    started_at: String(entry?.started_at ?? ''),
+                    completed_at: String(entry?.completed_at ?? ''),
+                    error_message: String(entry?.error_message ?? ''),
+                }));
+            }
+        } catch {
+            // Fall through to error_history
+        }
+    }
+
+    return parseErrorHistory(job.error_history).map((entry) => ({
+        attempt: entry.attempt,
+        status: 'failed',
+        worker: entry.worker,
+        started_at: '',
+        completed_at: entry.failed_at,
+        error_message: entry.error_message,
+    }));
+}
+
+function toStringRecord(value: unknown): Record<string, string> {
+    if (!value || typeof value !== 'object') return {};
+    return Object.fromEntries(
+        Object.entries(value as Record<string, unknown>).map(([key, field]) => [
+            key,
+            typeof field === 'string' ? field : JSON.stringify(field ?? ''),
+        ]),
+    );
+}
+
+async function loadArchivedJob(id: string): Promise<Record<string, string> | null> {
+    const { data, error } = await supabase
+        .from('queue_jobs_archive')
+        .select('payload')
+        .eq('job_id', id)
+        .order('archived_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+    if (error) throw new Error(error.message);
+    return data ? toStringRecord(data.payload) : null;
+}
+
+async function loadLinks(id: string, job: Record<string, string>): Promise<Pick<JobDetail, 'run' | 'items' | 'links_error'>> {
+    const runId = job.run_id || '';
+
+    // Job ids restart after a queue flush, so items are narrowed to the job's run when it has one.
+    let itemsQuery = supabase
+        .from('ingestion_items')
+        .select('*')
+        .eq('job_id', id)
+        .order('updated_at', { ascending: false })
+        .limit(MAX_ITEMS);
+    if (runId) itemsQuery = itemsQuery.eq('run_id', runId);
+
+    const [runResult, itemsResult] = await Promise.all([
+        runId
+            ? supabase.from('ingestion_runs').select('*').eq('id', runId).maybeSingle()
+            : Promise.resolve({ data: null, error: null }),
+        itemsQuery,
+    ]);
+
+    const error = runResult.error ?? itemsResult.error;
+    return {
+        run: (runResult.data as Record<string, unknown> | null) ?? null,
+        items: (itemsResult.data as Record<string, unknown>[] | null) ?? [],
+        links_error: error ? error.message : null,
+    };
+}
+
+export async function getJobDetail(id: string): Promise<JobDetail | null> {
+    const hash = await redis.hgetall(`job:${id}`);
+    const live = hash && Object.keys(hash).length > 0;
+    const job = live ? hash : await loadArchivedJob(id);
+    if (!job) return null;
+
+    return {
+        id,
+        origin: live ? 'redis' : 'archive',
+        job,
+        attempts: parseAttemptHistory(job),
+        ...(await loadLinks(id, job)),
+    };
+}
@@ -0,0 +1,254 @@
+import { z } from 'zod';
+import { redis } from '@/lib/redis';
+import { fromRedisBool, toRedisBool } from '@/lib/redis-bool';
+import { renderTemplate, JOB_PAYLOAD_TEMPLATE } from '@/lib/templates';
+import { defineJobIndexScripts, indexNewJob } from '@/lib/job-index';
+import { claimIdempotencyKeys, deriveIdempotencyKey, releaseIdempotencyKeys } from '@/lib/job-idempotency';
+import { defaultPriority, isJobPriority, JOB_PRIORITIES, LANE_TASKS, pushToLane, type JobPriority } from '@/lib/queue-lanes';
+
+/**
+ * Single enqueue path for every job the app creates (pipeline, Task Wizard, schedules, auto-crawl).
+ *
+ * Renders JOB_PAYLOAD_TEMPLATE, so each `job:{id}` hash has the field set the V2 worker
+ * contract reads, then claims idempotency keys, writes the indexes and pushes to the lane.
+ */
+export const EnqueueJobSchema = z.object({
+    task: z.enum(LANE_TASKS),
+    run_id: z.string().optional(),
+    source_id: z.string().optional(),
+    source_url_id: z.string().optional(),
+    document_id: z.string().optional(),
+    manual: z.boolean().optional().default(false),
+    max_attempts: z.number().int().min(1).max(20).optional().default(3),
+    // OCR options; defaults from DEFAULT_OCR_OPTIONS
+    mode: z.string().optional(),
+    lang: z.string().optional(),
+    dpi: z.string().optional(),
+    psm: z.string().optional(),
+    oem: z.string().optional(),
+    min_text_chars: z.string().optional(),
+    ocr_addon: z.string().optional(),
+    // A repeated request with the same key returns the already created job
+    idempotency_key: z.string().min(1).max(200).optional(),
+    priority: z.enum(JOB_PRIORITIES).optional(),
+});
+
+export type EnqueueJobInput = z.input<typeof EnqueueJobSchema> & {
+    /** Cron expression of the schedule that fired the job. */
+    cron_time?: string;
+    schedule_id?: string;
+};
+
+interface OcrOptions {
+    mode: string;
+    lang: string;
+    dpi: string;
+    psm: string;
+    oem: string;
+    min_text_chars: string;
+    ocr_addon: string;
+}
+
+export interface EnqueuedJob extends OcrOptions {
+    id: string;
+    task: string;
+    run_id: string;
+    source_id: string;
+    source_url_id: string;
+    document_id: string;
+    max_attempts: number;
+    manual: boolean;
+    priority: JobPriority;
+    created_at: string;
+    /** The idempotency key matched an existing job; nothing new was queued. */
+    deduplicated: boolean;
+}
+
+export interface EnqueueOptions {
+    /** Part of a bulk batch: unprioritised jobs go to the low lane. */
+    bulk?: boolean;
+    now?: Date;
+}
+
+export const DEFAULT_OCR_OPTIONS: OcrOptions = {
+    mode: 'hybrid',
+    lang: 'ces+eng',
+    dpi: '300',
+    psm: '3',
+    oem: '3',
+    min_text_chars: '30',
+    ocr_addon: '1',
+};
+
+const EMPTY_OCR_OPTIONS: OcrOptions = {
+    mode: '',
+    lang: '',
+    dpi: '',
+    psm: '',
+    oem: '',
+    min_text_chars: '',
+    ocr_addon: '',
+};
+
+/**
+ * Target ids each task needs; returns an error message or null.
+ */
+export function validateEnqueueJob(job: Pick<EnqueueJobInput, 'task' | 'source_id' | 'source_url_id' | 'document_id'>): string | null {
+    if (job.task === 'discover' && !job.source_id) {
+        return 'discover job requires source_id';
+    }
+    if (job.task === 'download' && !job.source_url_id) {
+        return 'download job requires source_url_id';
+    }
+    if (job.task === 'ocr' && !job.document_id && !job.source_url_id) {
+        return 'ocr job requires document_id or source_url_id';
+    }
+    return null;
+}
+
+function resolveOcrOptions(job: EnqueueJobInput): OcrOptions {
+    if (job.task !== 'ocr') return EMPTY_OCR_OPTIONS;
+    return {
+        mode: job.mode || DEFAULT_OCR_OPTIONS.mode,
+        lang: job.lang || DEFAULT_OCR_OPTIONS.lang,
+        dpi: job.dpi || DEFAULT_OCR_OPTIONS.dpi,
+        psm: job.psm || DEFAULT_OCR_OPTIONS.psm,
+        oem: job.oem || DEFAULT_OCR_OPTIONS.oem,
+        min_text_chars: job.min_text_chars || DEFAULT_OCR_OPTIONS.min_text_chars,
+        ocr_addon: job.ocr_addon || DEFAULT_OCR_OPTIONS.ocr_addon,
+    };
+}
+
+/**
+ * Describe an already stored job the way enqueueJobs reports it, for deduplicated requests.
+ */
+function toEnqueuedJob(id: string, data: Record<string, string>): EnqueuedJob {
+    return {
+        id,
+        task: data.task || '',
+        run_id: data.run_id || '',
+        source_id: data.source_id || '',
+        source_url_id: data.source_url_id || '',
+        document_id: data.document_id || '',
+        mode: data.mode || '',
+        lang: data.lang || '',
+        dpi: data.dpi || '',
+        psm: data.psm || '',
+        oem: data.oem || '',
+        min_text_chars: data.min_text_chars || '',
+        ocr_addon: data.ocr_addon || '',
+        max_attempts: Number.parseInt(data.max_attempts || '', 10) || 3,
+        manual: fromRedisBool(data.manual),
+        priority: isJobPriority(data.priority) ? data.priority : 'normal',
+        created_at: data.created_at || '',
+        deduplicated: true,
+    };
+}
+
+async function loadExistingJobs(ids: Array<string | null>): Promise<Map<string, Record<string, string>>> {
+    const unique = Array.from(new Set(ids.filter((id): id is string => id !== null)));
+    const existing = new Map<string, Record<string, string>>();
+    if (unique.length === 0) return existing;
+
+    const pipeline = redis.pipeline();
+    for (const id of unique) pipeline.hgetall(`job:${id}`);
+    const results = (await pipeline.exec()) ?? [];
+    results.forEach(([, value], index) => {
+        const data = value as Record<string, string> | null;
+        if (data && Object.keys(data).length > 0) existing.set(unique[index], data);
+    });
+    return existing;
+}
+
+/**
+ * Create jobs in one pipeline. Ids are allocated up front; a job whose idempotency key
+ * (client key, or one derived from task + run_id + target) already belongs to another job
+ * comes back with that job's id and `deduplicated: true`.
+ */
+export async function enqueueJobs(jobs: EnqueueJobInput[], options: EnqueueOptions = {}): Promise<EnqueuedJob[]> {
+    if (jobs.length === 0) return [];
+
+    const count = jobs.length;
+    const endId = await redis.incrby('job_id_counter', count);
+    const firstId = endId - count + 1;
+    const createdAt = (options.now ?? new Date()).toISOString();
+
+    // Without a client key, jobs of a run are deduplicated per task + target while still active.
+    const claims = jobs.map((job, i) => {
+        const id = String(firstId + i);
+        if (job.idempotency_key) return { key: job.idempotency_key, id, activeOnly: false };
+        const derivedKey = deriveIdempotencyKey(job);
+        return derivedKey ? { key: derivedKey, id, activeOnly: true } : null;
+    });
+    const existingIds = await claimIdempotencyKeys(claims);
+    const existingJobs = await loadExistingJobs(existingIds);
+
+    defineJobIndexScripts();
+    const pipeline = redis.pipeline();
+    const enqueued = jobs.map((job, i): EnqueuedJob => {
+        const existingId = existingIds[i];
+        const id = existingId ?? String(firstId + i);
+        const manual = job.manual ?? false;
+        const maxAttempts = job.max_attempts ?? 3;
+        const priority = job.priority ?? defaultPriority({ manual, bulk: options.bulk });
+        const ocr = resolveOcrOptions(job);
+        const created: EnqueuedJob = {
+            id,
+            task: job.task,
+            run_id: job.run_id ?? '',
+            source_id: job.source_id ?? '',
+            source_url_id: job.source_url_id ?? '',
+            document_id: job.document_id ?? '',
+            ...ocr,
+            max_attempts: maxAttempts,
+            manual,
+            priority,
+            created_at: createdAt,
+            deduplicated: existingId !== null,
+        };
+        if (existingId) {
+            // The other request may still be writing its hash; fall back to what this one asked for.
+            const existing = existingJobs.get(existingId);
+            return existing ? toEnqueuedJob(existingId, existing) : created;
+        }
+
+        const redisJob = renderTemplate<Record<string, string | number>>(
+            JOB_PAYLOAD_TEMPLATE as unknown as Record<string, unknown>,
+            {
+                id,
+                task: created.task,
+                run_id: created.run_id,
+                source_id: created.source_id,
+                source_url_id: created.source_url_id,
+                document_id: created.document_id,
+                created_at: createdAt,
+                max_attempts: String(maxAttempts),
+                cron_time: job.cron_time ?? '',
+                manual: toRedisBool(manual),
+                ocr_mode: ocr.mode,
+                ocr_lang: ocr.lang,
+                ocr_dpi: ocr.dpi,
+                ocr_psm: ocr.psm,
+                ocr_oem: ocr.oem,
+                ocr_min_text_chars: ocr.min_text_chars,
+                ocr_addon: ocr.ocr_addon,
+            },
+        );
+
+        pipeline.hset(`job:${id}`, job.schedule_id ? { ...redisJob, schedule_id: job.schedule_id } : redisJob);
+        indexNewJob(pipeline, { id, task: created.task, run_id: created.run_id, created_at: createdAt });
+        pushToLane(pipeline, { id, task: created.task, priority });
+        return created;
+    });
+
+    try {
+        const results = (await pipeline.exec()) ?? [];
+        const failed = results.find(([error]) => error);
+        if (failed) throw failed[0];
+    } catch (error) {
+        // Keys claimed for the new ids would otherwise point at missing jobs for the whole TTL.
+        await releaseIdempotencyKeys(claims.map((claim, i) => (existingIds[i] === null ? claim : null)));
+        throw error;
+    }
+    return enqueued;
+}
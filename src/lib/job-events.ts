@@ -0,0 +1,98 @@
+import { redis } from '@/lib/redis';
+
+/**
+ * Job lifecycle events in the `job_events` stream (capped at ~JOB_EVENTS_MAX_LEN entries).
+ *
+ * Status transitions are appended by the job index SYNC_SCRIPT, so every writer that calls
+ * syncJobIndex (and every worker write picked up from `jobs:dirty`) produces exactly one event.
+ * Workers XADD `progress` entries themselves (see the worker contract).
+ *
+ * Entry fields: `type`, `job_id`, `task`, `status`, `previous`, `run_id`, `source_id`,
+ * plus `message` / `progress` on progress entries. The event time is the stream id.
+ */
+export const JOB_EVENTS_KEY = 'job_events';
+export const JOB_EVENTS_MAX_LEN = 10000;
+export const JOB_EVENT_TYPES = ['enqueued', 'started', 'progress', 'completed', 'failed', 'retrying', 'canceled'] as const;
+
+export type JobEventType = (typeof JOB_EVENT_TYPES)[number];
+
+export interface JobEvent {
+    /** Stream entry id, usable as SSE `Last-Event-ID`. */
+    id: string;
+    type: JobEventType;
+    job_id: string;
+    task: string;
+    status: string;
+    previous: string;
+    run_id: string;
+    source_id: string;
+    message: string;
+    /** 0–100 on progress entries, otherwise null. */
+    progress: number | null;
+    at: string;
+}
+
+export interface JobEventFilter {
+    job_id?: string;
+    run_id?: string;
+    source_id?: string;
+    task?: string;
+}
+
+function isJobEventType(value: string): value is JobEventType {
+    return (JOB_EVENT_TYPES as readonly string[]).includes(value);
+}
+
+function streamIdTime(id: string): string {
+    const ms = Number.parseInt(id.split('-')[0], 10);
+    return Number.isFinite(ms) ? new Date(ms).toISOString() : '';
+}
+
+/**
+ * Turn one XREAD / XRANGE entry into a JobEvent; unknown types and entries without a job id are dropped.
+ */
+export function parseJobEvent(id: string, fields: string[]): JobEvent | null {
+    const data: Record<string, string> = {};
+    for (let i = 0; i + 1 < fields.length; i += 2) data[fields[i]] = fields[i + 1];
+    if (!data.job_id || !data.type || !isJobEventType(data.type)) return null;
+
+    const progress = Number.parseFloat(data.progress ?? '');
+    return {
+        id,
+        type: data.type,
+        job_id: data.job_id,
+        task: data.task ?? '',
+        status: data.status ?? '',
+        previous: data.previous ?? '',
+        run_id: data.run_id ?? '',
+        source_id: data.source_id ?? '',
+        message: data.message ?? '',
+        progress: Number.isFinite(progress) ? Math.min(100, Math.max(0, progress)) : null,
+        at: streamIdTime(id),
+    };
+}
+
+export function parseJobEventFilter(searchParams: URLSearchParams): JobEventFilter {
+    const filter: JobEventFilter = {};
+    for (const key of ['job_id', 'run_id', 'source_id', 'task'] as const) {
+        const value = searchParams.get(key)?.trim();
+        if (value) filter[key] = value;
+    }
+    return filter;
+}
+
+export function matchesJobEventFilter(event: JobEvent, filter: JobEventFilter): boolean {
+    if (filter.job_id && event.job_id !== filter.job_id) return false;
+    if (filter.run_id && event.run_id !== filter.run_id) return false;
+    if (filter.source_id && event.source_id !== filter.source_id) return false;
+    if (filter.task && event.task !== filter.task) return false;
+    return true;
+}
+
+/**
+ * Id of the newest entry, so a fresh subscriber only gets events from now on.
+ */
+export async function getLatestJobEventId(): Promise<string> {
+    const [latest] = await redis.xrevrange(JOB_EVENTS_KEY, '+', '-', 'COUNT', 1);
+    return latest?.[0] ?? '0-0';
+}
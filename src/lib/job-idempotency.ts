@@ -0,0 +1,130 @@
+import type { Result } from 'ioredis';
+import { redis } from '@/lib/redis';
+import { defineRedisScript } from '@/lib/redis-scripts';
+
+/**
+ * Idempotent enqueue: `job_idempotency:{key}` maps a key to the job id created for it.
+ *
+ * - Client keys (`idempotency_key`) return the same job for the whole TTL.
+ * - Keys derived from task + run_id + target only dedupe while that job is still active,
+ *   so a finished job can be enqueued again for the same target.
+ */
+const KEY_PREFIX = 'job_idempotency:';
+const DEFAULT_TTL_SECONDS = 24 * 60 * 60;
+// How long a claim may point at a job hash that was never written before another request takes it over.
+const IN_FLIGHT_GRACE_SECONDS = 60;
+const SCAN_COUNT = 200;
+
+export interface IdempotencyClaim {
+    key: string;
+    id: string;
+    /** Only dedupe against jobs that are still pending/processing/retrying. */
+    activeOnly: boolean;
+}
+
+// KEYS: idempotency key. ARGV: new job id, ttl seconds, active-only flag, in-flight grace seconds.
+// Returns the existing job id, or false after claiming the key for the new id.
+// A claimed id without a job hash yet belongs to a request that is still writing it, so it counts as existing
+// during the grace period; after that the writer is gone (crashed between claim and write) and the key is reclaimed.
+const CLAIM_SCRIPT = `
+local existing = redis.call('GET', KEYS[1])
+if existing then
+  local status = redis.call('HGET', 'job:' .. existing, 'status')
+  if not status then
+    if tonumber(ARGV[2]) - redis.call('TTL', KEYS[1]) < tonumber(ARGV[4]) then return existing end
+  elseif ARGV[3] ~= '1' or status == 'pending' or status == 'processing' or status == 'retrying' then
+    return existing
+  end
+end
+redis.call('SET', KEYS[1], ARGV[1], 'EX', ARGV[2])
+return false
+`;
+
+// KEYS: idempotency key. ARGV: job id. Deletes the key only while it still points at that id.
+const RELEASE_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('DEL', KEYS[1])
+end
+return 0
+`;
+
+declare module 'ioredis' {
+    interface RedisCommander<Context> {
+        claimIdempotencyKey(key: string, id: string, ttlSeconds: string, activeOnly: string, graceSeconds: string): Result<string | null, Context>;
+        releaseIdempotencyKey(key: string, id: string): Result<number, Context>;
+    }
+}
+
+function getTtlSeconds(): number {
+    const raw = process.env.JOB_IDEMPOTENCY_TTL_SECONDS;
+    if (!raw) return DEFAULT_TTL_SECONDS;
+    const parsed = Number.parseInt(raw, 10);
+    if (!Number.isFinite(parsed) || parsed <= 0) return DEFAULT_TTL_SECONDS;
+    return parsed;
+}
+
+export function deriveIdempotencyKey(job: {
+    task: string;
+    run_id?: string;
+    source_id?: string;
+    source_url_id?: string;
+    document_id?: string;
+}): string | null {
+    if (!job.run_id) return null;
+    return ['auto', job.task, job.run_id, job.source_id ?? '', job.source_url_id ?? '', job.document_id ?? ''].join(':');
+}
+
+/**
+ * Claim keys for freshly allocated job ids. Returns, per claim, the id of an already existing job
+ * (skip creating it) or null when the new id now owns the key. Claims for `null` keys always return null.
+ */
+export async function claimIdempotencyKeys(claims: Array<IdempotencyClaim | null>): Promise<Array<string | null>> {
+    if (!claims.some(Boolean)) return claims.map(() => null);
+
+    const ttl = String(getTtlSeconds());
+    defineRedisScript('claimIdempotencyKey', 1, CLAIM_SCRIPT);
+    const pipeline = redis.pipeline();
+    for (const claim of claims) {
+        if (claim) {
+            pipeline.claimIdempotencyKey(`${KEY_PREFIX}${claim.key}`, claim.id, ttl, claim.activeOnly ? '1' : '0', String(IN_FLIGHT_GRACE_SECONDS));
+        }
+    }
+    const results = (await pipeline.exec()) ?? [];
+
+    let cursor = 0;
+    return claims.map((claim) => {
+        if (!claim) return null;
+        const [error, value] = results[cursor++] ?? [];
+        if (error) throw error;
+        return typeof value === 'string' ? value : null;
+    });
+}
+
+/**
+ * Give back keys claimed for jobs whose hash was never written, so a retry is not deduplicated
+ * against a job that does not exist. Keys already taken over by another id are left alone.
+ */
+export async function releaseIdempotencyKeys(claims: Array<IdempotencyClaim | null>): Promise<void> {
+    if (!claims.some(Boolean)) return;
+
+    defineRedisScript('releaseIdempotencyKey', 1, RELEASE_SCRIPT);
+    const pipeline = redis.pipeline();
+    for (const claim of claims) {
+        if (claim) pipeline.releaseIdempotencyKey(`${KEY_PREFIX}${claim.key}`, claim.id);
+    }
+    await pipeline.exec();
+}
+
+/**
+ * Drop every idempotency key; called by the full queue flush, which restarts job ids from 1.
+ */
+export async function clearIdempotencyKeys(): Promise<number> {
+    let deleted = 0;
+    let cursor = '0';
+    do {
+        const [nextCursor, keys] = await redis.scan(cursor, 'MATCH', `${KEY_PREFIX}*`, 'COUNT', SCAN_COUNT);
+        cursor = nextCursor;
+        if (keys.length > 0) deleted += await redis.del(...keys);
+    } while (cursor !== '0');
+    return deleted;
+}
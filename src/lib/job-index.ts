@@ -0,0 +1,359 @@
+import type { ChainableCommander, Result } from 'ioredis';
+import { redis } from '@/lib/redis';
+import { JOB_EVENTS_KEY, JOB_EVENTS_MAX_LEN } from '@/lib/job-events';
+import { recordEnqueued, recordFinished } from '@/lib/queue-metrics';
+import { withRedisLock } from '@/lib/redis-lock';
+import { defineRedisScript } from '@/lib/redis-scripts';
+
+/**
+ * Secondary indexes over the `job:{id}` hashes, so stats and listings never SCAN `job:*`.
+ *
+ * - `jobs:all`, `jobs:status:{status}`, `jobs:task:{task}`, `jobs:run:{run_id}` — sorted sets scored by created_at (ms).
+ * - `jobs:counts` — hash of `{task}:{status}` counters.
+ * - `jobs:durations` — hash of `{task}:sum_ms` / `{task}:count` for completed jobs.
+ * - `jobs:worker_counts` — hash of `{worker}:completed` / `{worker}:failed` counters;
+ *   `jobs:worker_completions:{worker}` — sorted set of the worker's completions in the last 24 h, scored by completed_at.
+ * - `jobs:dirty` — set of job ids whose status changed outside this app; workers SADD after writing `status`.
+ * - `jobs:failed_unswept` — set of failed jobs the failure sweep has not handled yet (see dead-letter.ts).
+ *
+ * The status a job is indexed under is kept in its hash as `index_status`; SYNC_SCRIPT moves the job
+ * between status sets whenever `status` differs from it, so every writer just calls syncJobIndex.
+ * Each move is also appended to the `job_events` stream (see job-events.ts), and each finished attempt
+ * to the JSON `attempt_history` field of the hash; a rebuild records neither.
+ */
+export const JOB_INDEX_PREFIX = 'jobs:';
+export const ALL_JOBS_KEY = 'jobs:all';
+export const JOB_COUNTS_KEY = 'jobs:counts';
+export const JOB_DURATIONS_KEY = 'jobs:durations';
+export const DIRTY_JOBS_KEY = 'jobs:dirty';
+export const WORKER_COUNTS_KEY = 'jobs:worker_counts';
+export const UNSWEPT_FAILED_KEY = 'jobs:failed_unswept';
+const WORKER_COMPLETIONS_WINDOW_MS = 24 * 60 * 60 * 1000;
+const INDEX_READY_KEY = 'jobs:index_ready';
+const REBUILD_LOCK_KEY = 'jobs:index_lock';
+const REBUILD_LOCK_TTL_MS = 5 * 60 * 1000;
+const BATCH_SIZE = 500;
+const DEFAULT_RECONCILE_MAX_JOBS = 5000;
+const MAX_ATTEMPT_HISTORY = 50;
+
+export function statusIndexKey(status: string): string {
+    return `jobs:status:${status}`;
+}
+
+export function taskIndexKey(task: string): string {
+    return `jobs:task:${task}`;
+}
+
+export function runIndexKey(runId: string): string {
+    return `jobs:run:${runId}`;
+}
+
+export function workerCompletionsKey(worker: string): string {
+    return `jobs:worker_completions:${worker}`;
+}
+
+// KEYS: job hash, jobs:all, jobs:counts, job_events. ARGV: id, fallback score, record transition ('1' / '0'), stream max length.
+// Recording flags new failures for the sweep, appends the event and, when an attempt ended (left `processing`, or finished after starting), an `attempt_history` entry.
+// Returns {previous index_status, status, task, started_at, completed_at, worker, queued_at or created_at} or false when nothing changed.
+const SYNC_SCRIPT = `
+local status = redis.call('HGET', KEYS[1], 'status')
+if not status then return false end
+local prev = redis.call('HGET', KEYS[1], 'index_status')
+if prev == status then return false end
+local task = redis.call('HGET', KEYS[1], 'task') or 'unknown'
+if task == '' then task = 'unknown' end
+local score = redis.call('ZSCORE', KEYS[2], ARGV[1]) or ARGV[2]
+if prev then
+  redis.call('ZREM', 'jobs:status:' .. prev, ARGV[1])
+  redis.call('HINCRBY', KEYS[3], task .. ':' .. prev, -1)
+end
+redis.call('ZADD', 'jobs:status:' .. status, score, ARGV[1])
+redis.call('HINCRBY', KEYS[3], task .. ':' .. status, 1)
+redis.call('HSET', KEYS[1], 'index_status', status)
+if status == 'failed' and ARGV[3] == '1' then
+  redis.call('SADD', 'jobs:failed_unswept', ARGV[1])
+end
+if ARGV[3] == '1' then
+  local types = { pending = 'enqueued', processing = 'started' }
+  local refs = redis.call('HMGET', KEYS[1], 'run_id', 'source_id')
+  redis.call('XADD', KEYS[4], 'MAXLEN', '~', ARGV[4], '*',
+    'type', types[status] or status, 'job_id', ARGV[1], 'task', task, 'status', status,
+    'previous', prev or '', 'run_id', refs[1] or '', 'source_id', refs[2] or '')
+end
+local times = redis.call('HMGET', KEYS[1], 'started_at', 'completed_at', 'worker', 'queued_at', 'created_at')
+local finished = { completed = true, failed = true, canceled = true }
+if ARGV[3] == '1' and not finished[prev or ''] and (prev == 'processing' or (finished[status] and (times[1] or '') ~= '')) then
+  local raw = redis.call('HMGET', KEYS[1], 'attempt_history', 'error_message')
+  local ok, history = pcall(cjson.decode, raw[1] or '')
+  if not ok or type(history) ~= 'table' then history = {} end
+  local last = history[#history]
+  table.insert(history, {
+    attempt = ((last and tonumber(last.attempt)) or 0) + 1, status = status, worker = times[3] or '',
+    started_at = times[1] or '', completed_at = times[2] or '', error_message = raw[2] or '' })
+  while #history > ${MAX_ATTEMPT_HISTORY} do table.remove(history, 1) end
+  redis.call('HSET', KEYS[1], 'attempt_history', cjson.encode(history))
+end
+local queued = times[4]
+if not queued or queued == '' then queued = times[5] or '' end
+return {prev or '', status, task, times[1] or '', times[2] or '', times[3] or '', queued}
+`;
+
+// KEYS: job hash, jobs:all, jobs:counts. ARGV: id. Drops the job from every index and deletes the hash.
+const REMOVE_SCRIPT = `
+local fields = redis.call('HMGET', KEYS[1], 'index_status', 'task', 'run_id')
+local task = fields[2] or 'unknown'
+if task == '' then task = 'unknown' end
+redis.call('ZREM', KEYS[2], ARGV[1])
+redis.call('ZREM', 'jobs:task:' .. task, ARGV[1])
+if fields[3] and fields[3] ~= '' then
+  redis.call('ZREM', 'jobs:run:' .. fields[3], ARGV[1])
+end
+if fields[1] then
+  redis.call('ZREM', 'jobs:status:' .. fields[1], ARGV[1])
+  redis.call('HINCRBY', KEYS[3], task .. ':' .. fields[1], -1)
+end
+redis.call('SREM', 'jobs:dirty', ARGV[1])
+redis.call('SREM', 'jobs:failed_unswept', ARGV[1])
+return redis.call('DEL', KEYS[1])
+`;
+
+declare module 'ioredis' {
+    interface RedisCommander<Context> {
+        syncJobIndexEntry(
+            jobKey: string, allKey: string, countsKey: string, eventsKey: string,
+            id: string, score: string, record: string, eventsMaxLen: string,
+        ): Result<string[] | null, Context>;
+        removeJobIndexEntry(jobKey: string, allKey: string, countsKey: string, id: string): Result<number, Context>;
+    }
+}
+
+/**
+ * Register SYNC_SCRIPT / REMOVE_SCRIPT as Redis commands. Pipelines only see commands defined before
+ * they were created, so call this before creating a pipeline that indexNewJob writes to.
+ */
+export function defineJobIndexScripts(): void {
+    defineRedisScript('syncJobIndexEntry', 4, SYNC_SCRIPT);
+    defineRedisScript('removeJobIndexEntry', 3, REMOVE_SCRIPT);
+}
+
+function toScore(createdAt: string | undefined): number {
+    const ms = createdAt ? new Date(createdAt).getTime() : NaN;
+    return Number.isNaN(ms) ? Date.now() : ms;
+}
+
+function queueSync(pipeline: ChainableCommander, id: string, score: number, record = true): void {
+    pipeline.syncJobIndexEntry(
+        `job:${id}`,
+        ALL_JOBS_KEY,
+        JOB_COUNTS_KEY,
+        JOB_EVENTS_KEY,
+        id,
+        String(score),
+        record ? '1' : '0',
+        String(JOB_EVENTS_MAX_LEN),
+    );
+}
+
+/**
+ * Append the index writes (and the enqueue counter) for a freshly created job to an enqueue pipeline (after its HSET).
+ */
+export function indexNewJob(
+    pipeline: ChainableCommander,
+    job: { id: string | number; task: string; run_id?: string; created_at: string },
+): void {
+    const id = String(job.id);
+    const score = toScore(job.created_at);
+    pipeline.zadd(ALL_JOBS_KEY, score, id);
+    pipeline.zadd(taskIndexKey(job.task || 'unknown'), score, id);
+    if (job.run_id) pipeline.zadd(runIndexKey(job.run_id), score, id);
+    queueSync(pipeline, id, score);
+    recordEnqueued(pipeline, job);
+}
+
+function recordDurations(pipeline: ChainableCommander, task: string, startedAt: string, completedAt: string): boolean {
+    const start = new Date(startedAt).getTime();
+    const end = new Date(completedAt).getTime();
+    if (Number.isNaN(start) || Number.isNaN(end) || end <= start) return false;
+    pipeline.hincrby(JOB_DURATIONS_KEY, `${task}:sum_ms`, end - start);
+    pipeline.hincrby(JOB_DURATIONS_KEY, `${task}:count`, 1);
+    return true;
+}
+
+function recordWorkerOutcome(pipeline: ChainableCommander, id: string, worker: string, status: string, completedAt: string): void {
+    pipeline.hincrby(WORKER_COUNTS_KEY, `${worker}:${status}`, 1);
+    if (status !== 'completed') return;
+    const completedMs = new Date(completedAt).getTime();
+    const score = Number.isNaN(completedMs) ? Date.now() : completedMs;
+    const key = workerCompletionsKey(worker);
+    pipeline.zadd(key, score, id);
+    pipeline.zremrangebyscore(key, '-inf', Date.now() - WORKER_COMPLETIONS_WINDOW_MS);
+}
+
+/**
+ * Re-index jobs after their `status` field changed. Returns how many actually moved.
+ * `record: false` skips events, attempt history and counters (index rebuilds are not transitions).
+ */
+export async function syncJobIndex(ids: string[], options: { record?: boolean } = {}): Promise<number> {
+    const record = options.record ?? true;
+    let moved = 0;
+    defineJobIndexScripts();
+
+    for (let i = 0; i < ids.length; i += BATCH_SIZE) {
+        const batch = ids.slice(i, i + BATCH_SIZE);
+        const pipeline = redis.pipeline();
+        for (const id of batch) queueSync(pipeline, id, Date.now(), record);
+        const results = (await pipeline.exec()) ?? [];
+
+        const statsPipeline = redis.pipeline();
+        let hasStats = false;
+        results.forEach(([, value], index) => {
+            if (!Array.isArray(value)) return;
+            moved++;
+            const [, status, task, startedAt, completedAt, worker, queuedAt] = value as string[];
+            // Durations and worker counters outlive the indexes, so a rebuild must not count jobs again.
+            if (!record) return;
+            if (status === 'completed' && recordDurations(statsPipeline, task, startedAt, completedAt)) {
+                hasStats = true;
+            }
+            if (status === 'completed' || status === 'failed') {
+                recordFinished(statsPipeline, { task, outcome: status, queued_at: queuedAt, started_at: startedAt, completed_at: completedAt });
+                hasStats = true;
+            }
+            if (worker && (status === 'completed' || status === 'failed')) {
+                recordWorkerOutcome(statsPipeline, batch[index], worker, status, completedAt);
+                hasStats = true;
+            }
+        });
+        if (hasStats) await statsPipeline.exec();
+    }
+
+    return moved;
+}
+
+export async function removeJobs(ids: string[]): Promise<number> {
+    let removed = 0;
+    defineJobIndexScripts();
+    for (let i = 0; i < ids.length; i += BATCH_SIZE) {
+        const pipeline = redis.pipeline();
+        for (const id of ids.slice(i, i + BATCH_SIZE)) {
+            pipeline.removeJobIndexEntry(`job:${id}`, ALL_JOBS_KEY, JOB_COUNTS_KEY, id);
+        }
+        const results = (await pipeline.exec()) ?? [];
+        removed += results.filter(([, value]) => value === 1).length;
+    }
+    return removed;
+}
+
+export async function listIndexedJobIds(indexKey: string, offset: number, limit: number): Promise<{ total: number; ids: string[] }> {
+    const [total, ids] = await Promise.all([
+        redis.zcard(indexKey),
+        redis.zrevrange(indexKey, offset, offset + limit - 1),
+    ]);
+    return { total, ids };
+}
+
+/**
+ * Cheap catch-up for the stats stream: only re-index jobs flagged dirty by workers.
+ * At most `maxJobs` ids are taken per call; the rest stay flagged for the next one.
+ */
+export async function syncDirtyJobs(maxJobs: number = Number.POSITIVE_INFINITY): Promise<number> {
+    let synced = 0;
+    let taken = 0;
+    while (taken < maxJobs) {
+        const count = Math.min(BATCH_SIZE, maxJobs - taken);
+        const ids = await redis.spop(DIRTY_JOBS_KEY, count);
+        if (ids.length === 0) return synced;
+        taken += ids.length;
+        synced += await syncJobIndex(ids);
+        if (ids.length < count) return synced;
+    }
+    return synced;
+}
+
+/**
+ * Keys a rebuild derives from the job hashes. Counters, `jobs:dirty` and the failure sweep's state are kept.
+ */
+function isRebuiltIndexKey(key: string): boolean {
+    return key === ALL_JOBS_KEY || key === JOB_COUNTS_KEY || /^jobs:(status|task|run):/.test(key);
+}
+
+async function deleteIndexKeys(shouldDelete: (key: string) => boolean): Promise<void> {
+    let cursor = '0';
+    do {
+        const [nextCursor, keys] = await redis.scan(cursor, 'MATCH', `${JOB_INDEX_PREFIX}*`, 'COUNT', 200);
+        cursor = nextCursor;
+        const indexKeys = keys.filter(shouldDelete);
+        if (indexKeys.length > 0) await redis.del(...indexKeys);
+    } while (cursor !== '0');
+}
+
+/**
+ * Clear all indexes and counters after the whole queue was flushed; an empty Redis counts as indexed.
+ */
+export async function resetJobIndex(): Promise<void> {
+    await deleteIndexKeys((key) => key !== REBUILD_LOCK_KEY);
+    await redis.set(INDEX_READY_KEY, new Date().toISOString());
+}
+
+/**
+ * Drop and rebuild the job indexes and status counts from the job hashes. This is the only place that SCANs `job:*`;
+ * it runs once on an unindexed Redis and can be forced via POST /api/queue/reindex.
+ */
+export async function rebuildJobIndex(): Promise<{ rebuilt: boolean; jobs: number }> {
+    const locked = await withRedisLock(REBUILD_LOCK_KEY, REBUILD_LOCK_TTL_MS, async () => {
+        await deleteIndexKeys(isRebuiltIndexKey);
+
+        let jobs = 0;
+        let cursor = '0';
+        do {
+            const [nextCursor, keys] = await redis.scan(cursor, 'MATCH', 'job:*', 'COUNT', BATCH_SIZE);
+            cursor = nextCursor;
+            if (keys.length === 0) continue;
+
+            const readPipeline = redis.pipeline();
+            for (const key of keys) readPipeline.hmget(key, 'task', 'run_id', 'created_at');
+            const results = (await readPipeline.exec()) ?? [];
+
+            const writePipeline = redis.pipeline();
+            const ids: string[] = [];
+            results.forEach(([, value], index) => {
+                const [task, runId, createdAt] = (value as Array<string | null>) ?? [];
+                const id = keys[index].replace(/^job:/, '');
+                writePipeline.hdel(keys[index], 'index_status');
+                const score = toScore(createdAt ?? undefined);
+                writePipeline.zadd(ALL_JOBS_KEY, score, id);
+                writePipeline.zadd(taskIndexKey(task || 'unknown'), score, id);
+                if (runId) writePipeline.zadd(runIndexKey(runId), score, id);
+                ids.push(id);
+            });
+            await writePipeline.exec();
+            await syncJobIndex(ids, { record: false });
+            jobs += ids.length;
+        } while (cursor !== '0');
+
+        await redis.set(INDEX_READY_KEY, new Date().toISOString());
+        return { rebuilt: true, jobs };
+    });
+    return locked ?? { rebuilt: false, jobs: 0 };
+}
+
+export function getReconcileMaxJobs(): number {
+    const raw = process.env.JOB_INDEX_RECONCILE_MAX_JOBS;
+    if (!raw) return DEFAULT_RECONCILE_MAX_JOBS;
+    const parsed = Number.parseInt(raw, 10);
+    if (!Number.isFinite(parsed) || parsed <= 0) return DEFAULT_RECONCILE_MAX_JOBS;
+    return parsed;
+}
+
+/**
+ * Keep the indexes in step with worker-side status writes: drain up to
+ * JOB_INDEX_RECONCILE_MAX_JOBS ids from `jobs:dirty` per tick.
+ */
+export async function reconcileJobIndex(): Promise<{ rebuilt: boolean; synced: number }> {
+    if (!(await redis.exists(INDEX_READY_KEY))) {
+        const { rebuilt } = await rebuildJobIndex();
+        return { rebuilt, synced: 0 };
+    }
+
+    return { rebuilt: false, synced: await syncDirtyJobs(getReconcileMaxJobs()) };
+}
@@ -0,0 +1,258 @@
+import type { Result } from 'ioredis';
+import { redis } from '@/lib/redis';
+import { statusIndexKey, syncJobIndex } from '@/lib/job-index';
+import { withRedisLock } from '@/lib/redis-lock';
+import { isEnabled } from '@/lib/env-flags';
+import { defineRedisScript } from '@/lib/redis-scripts';
+
+/**
+ * Stuck-job reaper for jobs a worker picked up and never finished.
+ *
+ * - Workers HSET `workers:heartbeat {worker} {ISO time}` while alive.
+ * - A `processing` job is stuck when its worker's heartbeat is older than WORKER_HEARTBEAT_TIMEOUT_SECONDS,
+ *   or when `started_at` exceeds the task's visibility timeout. Workers that never sent a heartbeat
+ *   are only judged by the visibility timeout.
+ * - Reaped jobs are marked `failed`; the failure sweep then retries or dead-letters them by `max_attempts`.
+ * - Workers silent for longer than WORKER_RETENTION_HOURS are dropped from `workers:heartbeat`,
+ *   so decommissioned workers leave the registry.
+ */
+export const WORKER_HEARTBEAT_KEY = 'workers:heartbeat';
+export const REAPER_LOG_KEY = 'queue:reaper_log';
+export const REAPED_TOTAL_KEY = 'queue:reaped_total';
+const LOCK_KEY = 'job_reaper:lock';
+const LOCK_TTL_MS = 60000;
+const REAPER_LOG_SIZE = 200;
+const BATCH_SIZE = 500;
+
+const DEFAULT_HEARTBEAT_TIMEOUT_SECONDS = 90;
+const DEFAULT_WORKER_RETENTION_HOURS = 7 * 24;
+const DEFAULT_VISIBILITY_TIMEOUT_MINUTES = 30;
+const DEFAULT_TASK_VISIBILITY_TIMEOUT_MINUTES: Record<string, number> = {
+    discover: 30,
+    download: 30,
+    ocr: 120,
+};
+
+export type ReapReason = 'heartbeat_expired' | 'visibility_timeout';
+
+export interface ReaperConfig {
+    heartbeat_timeout_ms: number;
+    visibility_timeout_ms: Record<string, number>;
+    default_visibility_timeout_ms: number;
+    worker_retention_ms: number;
+}
+
+export interface ProcessingJob {
+    id: string;
+    task: string;
+    worker: string;
+    started_at: string;
+    attempts: string;
+    max_attempts: string;
+}
+
+export interface ReaperLogEntry {
+    job_id: string;
+    task: string;
+    worker: string;
+    reason: ReapReason;
+    started_at: string;
+    reaped_at: string;
+    attempts: number;
+    max_attempts: number;
+}
+
+export interface ReaperResult {
+    enabled: boolean;
+    reaped: ReaperLogEntry[];
+    pruned_workers: string[];
+}
+
+function parsePositiveNumber(raw: string | undefined, fallback: number): number {
+    if (!raw) return fallback;
+    const parsed = Number.parseFloat(raw);
+    if (!Number.isFinite(parsed) || parsed <= 0) return fallback;
+    return parsed;
+}
+
+function toInt(value: string | undefined, fallback: number): number {
+    const parsed = Number.parseInt(value ?? '', 10);
+    return Number.isFinite(parsed) ? parsed : fallback;
+}
+
+/**
+ * Timeouts from the environment. Per-task visibility timeouts use JOB_VISIBILITY_TIMEOUT_{TASK}_MINUTES
+ * and fall back to JOB_VISIBILITY_TIMEOUT_MINUTES.
+ */
+export function getReaperConfig(env: Record<string, string | undefined> = process.env): ReaperConfig {
+    const defaultMinutes = parsePositiveNumber(env.JOB_VISIBILITY_TIMEOUT_MINUTES, DEFAULT_VISIBILITY_TIMEOUT_MINUTES);
+    const visibility: Record<string, number> = {};
+    for (const [task, minutes] of Object.entries(DEFAULT_TASK_VISIBILITY_TIMEOUT_MINUTES)) {
+        const fallback = env.JOB_VISIBILITY_TIMEOUT_MINUTES ? defaultMinutes : minutes;
+        visibility[task] = parsePositiveNumber(env[`JOB_VISIBILITY_TIMEOUT_${task.toUpperCase()}_MINUTES`], fallback) * 60000;
+    }
+
+    return {
+        heartbeat_timeout_ms: parsePositiveNumber(env.WORKER_HEARTBEAT_TIMEOUT_SECONDS, DEFAULT_HEARTBEAT_TIMEOUT_SECONDS) * 1000,
+        visibility_timeout_ms: visibility,
+        default_visibility_timeout_ms: defaultMinutes * 60000,
+        worker_retention_ms: parsePositiveNumber(env.WORKER_RETENTION_HOURS, DEFAULT_WORKER_RETENTION_HOURS) * 3600000,
+    };
+}
+
+/**
+ * Workers whose last heartbeat is older than the retention window (or unreadable).
+ */
+export function findStaleWorkers(heartbeats: Record<string, string>, retentionMs: number, nowMs: number): string[] {
+    return Object.entries(heartbeats)
+        .filter(([, lastBeat]) => {
+            const beatMs = new Date(lastBeat).getTime();
+            return Number.isNaN(beatMs) || nowMs - beatMs > retentionMs;
+        })
+        .map(([worker]) => worker);
+}
+
+/**
+ * Decide whether a processing job is stuck. `heartbeats` maps worker id to its last heartbeat (ISO).
+ */
+export function detectStuckReason(
+    job: ProcessingJob,
+    heartbeats: Record<string, string>,
+    config: ReaperConfig,
+    nowMs: number,
+): ReapReason | null {
+    const lastBeat = job.worker ? heartbeats[job.worker] : undefined;
+    if (lastBeat) {
+        const beatMs = new Date(lastBeat).getTime();
+        if (!Number.isNaN(beatMs) && nowMs - beatMs > config.heartbeat_timeout_ms) return 'heartbeat_expired';
+    }
+
+    const startedMs = new Date(job.started_at).getTime();
+    if (Number.isNaN(startedMs)) return null;
+    const timeoutMs = config.visibility_timeout_ms[job.task] ?? config.default_visibility_timeout_ms;
+    return nowMs - startedMs > timeoutMs ? 'visibility_timeout' : null;
+}
+
+// KEYS: job hash. ARGV: expected started_at, now, error_message, reason.
+// Only fails the job if it is still the same processing attempt the reaper inspected.
+const REAP_SCRIPT = `
+if redis.call('HGET', KEYS[1], 'status') ~= 'processing' then return 0 end
+if (redis.call('HGET', KEYS[1], 'started_at') or '') ~= ARGV[1] then return 0 end
+redis.call('HSET', KEYS[1], 'status', 'failed', 'completed_at', ARGV[2], 'error_message', ARGV[3], 'reaped_at', ARGV[2], 'reap_reason', ARGV[4])
+return 1
+`;
+
+declare module 'ioredis' {
+    interface RedisCommander<Context> {
+        reapStuckJob(jobKey: string, startedAt: string, now: string, errorMessage: string, reason: string): Result<number, Context>;
+    }
+}
+
+const REASON_MESSAGES: Record<ReapReason, string> = {
+    heartbeat_expired: 'Reaped: worker heartbeat expired',
+    visibility_timeout: 'Reaped: visibility timeout exceeded',
+};
+
+async function loadProcessingJobs(): Promise<ProcessingJob[]> {
+    const ids = await redis.zrange(statusIndexKey('processing'), 0, -1);
+    const jobs: ProcessingJob[] = [];
+
+    for (let i = 0; i < ids.length; i += BATCH_SIZE) {
+        const batch = ids.slice(i, i + BATCH_SIZE);
+        const pipeline = redis.pipeline();
+        for (const id of batch) pipeline.hmget(`job:${id}`, 'status', 'task', 'worker', 'started_at', 'attempts', 'max_attempts');
+        const results = (await pipeline.exec()) ?? [];
+
+        results.forEach(([, value], index) => {
+            const [status, task, worker, startedAt, attempts, maxAttempts] = (value as Array<string | null>) ?? [];
+            if (status !== 'processing') return;
+            jobs.push({
+                id: batch[index],
+                task: task || 'unknown',
+                worker: worker || '',
+                started_at: startedAt || '',
+                attempts: attempts || '',
+                max_attempts: maxAttempts || '',
+            });
+        });
+    }
+    return jobs;
+}
+
+/**
+ * Fail `processing` jobs whose worker died or that ran past their visibility timeout.
+ * Runs before the failure sweep so reaped jobs are retried or dead-lettered in the same tick.
+ */
+export async function reapStuckJobs(now: Date = new Date()): Promise<ReaperResult> {
+    const result: ReaperResult = { enabled: false, reaped: [], pruned_workers: [] };
+    if (!isEnabled(process.env.JOB_REAPER_ENABLED, true)) return result;
+    result.enabled = true;
+
+    const locked = await withRedisLock(LOCK_KEY, LOCK_TTL_MS, async () => {
+        const config = getReaperConfig();
+        const heartbeats = await redis.hgetall(WORKER_HEARTBEAT_KEY);
+        result.pruned_workers = findStaleWorkers(heartbeats, config.worker_retention_ms, now.getTime());
+        if (result.pruned_workers.length > 0) {
+            await redis.hdel(WORKER_HEARTBEAT_KEY, ...result.pruned_workers);
+        }
+
+        const jobs = await loadProcessingJobs();
+        if (jobs.length === 0) return result;
+
+        const timestamp = now.toISOString();
+        defineRedisScript('reapStuckJob', 1, REAP_SCRIPT);
+
+        for (const job of jobs) {
+            const reason = detectStuckReason(job, heartbeats, config, now.getTime());
+            if (!reason) continue;
+
+            const reaped = await redis.reapStuckJob(`job:${job.id}`, job.started_at, timestamp, REASON_MESSAGES[reason], reason);
+            if (reaped !== 1) continue;
+
+            result.reaped.push({
+                job_id: job.id,
+                task: job.task,
+                worker: job.worker,
+                reason,
+                started_at: job.started_at,
+                reaped_at: timestamp,
+                attempts: toInt(job.attempts, 0),
+                max_attempts: toInt(job.max_attempts, 3),
+            });
+        }
+
+        if (result.reaped.length > 0) {
+            await syncJobIndex(result.reaped.map((entry) => entry.job_id));
+            const pipeline = redis.pipeline();
+            for (const entry of result.reaped) pipeline.lpush(REAPER_LOG_KEY, JSON.stringify(entry));
+            pipeline.ltrim(REAPER_LOG_KEY, 0, REAPER_LOG_SIZE - 1);
+            pipeline.incrby(REAPED_TOTAL_KEY, result.reaped.length);
+            await pipeline.exec();
+            console.warn(`Job reaper failed ${result.reaped.length} stuck job(s):`, result.reaped.map((entry) => entry.job_id));
+        }
+
+        return result;
+    });
+    return locked ?? result;
+}
+
+export async function listReaperLog(limit = 50): Promise<{ total: number; entries: ReaperLogEntry[] }> {
+    const [totalRaw, rawEntries] = await Promise.all([
+        redis.get(REAPED_TOTAL_KEY),
+        redis.lrange(REAPER_LOG_KEY, 0, limit - 1),
+    ]);
+
+    const entries: ReaperLogEntry[] = [];
+    for (const raw of rawEntries) {
+        try {
+            entries.push(JSON.parse(raw) as ReaperLogEntry);
+        } catch {
+            // Skip malformed entries rather than failing the whole listing.
+        }
+    }
+    return { total: toInt(totalRaw ?? undefined, 0), entries };
+}
+
+export async function listWorkerHeartbeats(): Promise<Record<string, string>> {
+    return redis.hgetall(WORKER_HEARTBEAT_KEY);
+}
@@ -0,0 +1,150 @@
+import { redis } from '@/lib/redis';
+import { supabase } from '@/lib/supabase';
+import { fromRedisBool } from '@/lib/redis-bool';
+import { DEAD_LETTER_KEY, parseErrorHistory } from '@/lib/dead-letter';
+import { removeJobs, statusIndexKey } from '@/lib/job-index';
+import { withRedisLock } from '@/lib/redis-lock';
+import { isEnabled } from '@/lib/env-flags';
+
+const LOCK_KEY = 'job_retention:lock';
+const LOCK_TTL_MS = 5 * 60 * 1000;
+const DEFAULT_RETENTION_HOURS = 72;
+const BATCH_SIZE = 500;
+const MAX_JOBS_PER_RUN = 5000;
+const FINISHED_STATUSES = ['completed', 'failed', 'canceled'];
+
+export interface JobRetentionResult {
+    enabled: boolean;
+    retention_hours: number;
+    archived: number;
+    errors: string[];
+}
+
+export function getJobRetentionHours(): number {
+    const raw = process.env.JOB_RETENTION_HOURS;
+    if (!raw) return DEFAULT_RETENTION_HOURS;
+    const parsed = Number.parseFloat(raw);
+    if (!Number.isFinite(parsed) || parsed <= 0) return DEFAULT_RETENTION_HOURS;
+    return parsed;
+}
+
+function toTimestampOrNull(value: string | undefined): string | null {
+    if (!value) return null;
+    const date = new Date(value);
+    return Number.isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+function toIntOrNull(value: string | undefined): number | null {
+    const parsed = Number.parseInt(value ?? '', 10);
+    return Number.isFinite(parsed) ? parsed : null;
+}
+
+/**
+ * Map a finished Redis job hash onto a `queue_jobs_archive` row.
+ */
+export function toArchiveRow(id: string, data: Record<string, string>): Record<string, unknown> {
+    const startedAt = toTimestampOrNull(data.started_at);
+    const completedAt = toTimestampOrNull(data.completed_at);
+    const durationMs = startedAt && completedAt
+        ? Math.max(0, new Date(completedAt).getTime() - new Date(startedAt).getTime())
+        : null;
+    const errorHistory = parseErrorHistory(data.error_history);
+
+    return {
+        job_id: id,
+        task: data.task || 'unknown',
+        status: data.status || 'unknown',
+        run_id: data.run_id || null,
+        source_id: data.source_id || null,
+        source_url_id: data.source_url_id || null,
+        document_id: data.document_id || null,
+        worker: data.worker || null,
+        manual: fromRedisBool(data.manual),
+        attempts: toIntOrNull(data.attempts) ?? 0,
+        max_attempts: toIntOrNull(data.max_attempts),
+        error_message: data.error_message || null,
+        error_history: errorHistory.length > 0 ? errorHistory : null,
+        payload: data,
+        created_at: toTimestampOrNull(data.created_at),
+        started_at: startedAt,
+        completed_at: completedAt,
+        duration_ms: durationMs,
+    };
+}
+
+/**
+ * A job is archivable once it finished before the cutoff. Failed jobs only count as finished
+ * after the failure sweep dead-lettered them, and their age is measured from `dead_at`,
+ * so the DLQ keeps them for a full retention window.
+ */
+export function isArchivable(data: Record<string, string>, cutoffMs: number): boolean {
+    if (!FINISHED_STATUSES.includes(data.status)) return false;
+    if (data.status === 'failed' && !data.dead_at) return false;
+    const finishedAt = new Date(data.dead_at || data.completed_at || data.created_at || '').getTime();
+    return !Number.isNaN(finishedAt) && finishedAt < cutoffMs;
+}
+
+async function archiveBatch(ids: string[], cutoffMs: number): Promise<{ archived: number; skipped: number }> {
+    const pipeline = redis.pipeline();
+    for (const id of ids) pipeline.hgetall(`job:${id}`);
+    const results = (await pipeline.exec()) ?? [];
+
+    const rows: Record<string, unknown>[] = [];
+    const archivedIds: string[] = [];
+    results.forEach(([, value], index) => {
+        const data = value as Record<string, string> | null;
+        if (!data || !isArchivable(data, cutoffMs)) return;
+        rows.push(toArchiveRow(ids[index], data));
+        archivedIds.push(ids[index]);
+    });
+    if (rows.length === 0) return { archived: 0, skipped: ids.length };
+
+    const { error } = await supabase
+        .from('queue_jobs_archive')
+        .upsert(rows, { onConflict: 'job_id,created_at', ignoreDuplicates: true });
+    if (error) throw new Error(error.message);
+
+    // Only delete from Redis after the rows are safely stored.
+    const cleanup = redis.pipeline();
+    for (const id of archivedIds) cleanup.lrem(DEAD_LETTER_KEY, 0, id);
+    await cleanup.exec();
+    await removeJobs(archivedIds);
+    return { archived: archivedIds.length, skipped: ids.length - archivedIds.length };
+}
+
+/**
+ * Move finished jobs older than JOB_RETENTION_HOURS into `queue_jobs_archive` and delete them from Redis.
+ * Enabled by default; JOB_RETENTION_ENABLED=false turns it off.
+ */
+export async function archiveExpiredJobs(now: Date = new Date()): Promise<JobRetentionResult> {
+    const retentionHours = getJobRetentionHours();
+    const result: JobRetentionResult = { enabled: false, retention_hours: retentionHours, archived: 0, errors: [] };
+    if (!isEnabled(process.env.JOB_RETENTION_ENABLED, true)) return result;
+    result.enabled = true;
+
+    const locked = await withRedisLock(LOCK_KEY, LOCK_TTL_MS, async () => {
+        const cutoffMs = now.getTime() - retentionHours * 60 * 60 * 1000;
+
+        for (const status of FINISHED_STATUSES) {
+            // Index scores are created_at, which never exceeds completed_at, so this only over-selects.
+            let offset = 0;
+            while (result.archived < MAX_JOBS_PER_RUN) {
+                const ids = await redis.zrangebyscore(statusIndexKey(status), '-inf', cutoffMs, 'LIMIT', offset, BATCH_SIZE);
+                if (ids.length === 0) break;
+
+                try {
+                    const batch = await archiveBatch(ids, cutoffMs);
+                    result.archived += batch.archived;
+                    offset += batch.skipped;
+                } catch (error) {
+                    result.errors.push(error instanceof Error ? error.message : String(error));
+                    break;
+                }
+                if (ids.length < BATCH_SIZE) break;
+            }
+        }
+
+        return result;
+    });
+    return locked ?? result;
+}
@@ -0,0 +1,290 @@
+import { redis } from '@/lib/redis';
+import { fromRedisBool, toRedisBool } from '@/lib/redis-bool';
+import { getNextCronTime } from '@/lib/cron';
+import { EnqueueJobSchema, enqueueJobs, type EnqueueJobInput } from '@/lib/job-enqueue';
+
+/**
+ * Recurring job schedules stored in Redis.
+ *
+ * - `schedule:{id}`   hash with the cron expression and the enqueue request (`job`, JSON) it repeats
+ * - `schedules`       set of all schedule ids
+ * - `schedules:due`   sorted set of active schedule ids scored by next fire time (ms)
+ */
+const SCHEDULE_KEY_PREFIX = 'schedule:';
+const SCHEDULE_INDEX_KEY = 'schedules';
+const SCHEDULE_DUE_KEY = 'schedules:due';
+const SCHEDULE_ID_COUNTER_KEY = 'schedule_id_counter';
+
+/** The enqueue request a schedule repeats; idempotency keys and schedule fields belong to each fired job. */
+export type ScheduleJobInput = Omit<EnqueueJobInput, 'idempotency_key' | 'cron_time' | 'schedule_id'>;
+
+export interface JobSchedule {
+    id: string;
+    name: string;
+    cron: string;
+    task: string;
+    source_id: string;
+    source_url_id: string;
+    document_id: string;
+    /** Stored enqueue request; validated against EnqueueJobSchema each time the schedule fires. */
+    job: Record<string, unknown>;
+    paused: boolean;
+    next_run_at: string;
+    last_run_at: string;
+    last_job_id: string;
+    /** Why the schedule was paused automatically, e.g. a task the queue does not accept. */
+    last_error: string;
+    run_count: number;
+    created_at: string;
+    updated_at: string;
+}
+
+export interface CreateScheduleInput {
+    cron: string;
+    name?: string;
+    job: ScheduleJobInput;
+}
+
+export interface FiredSchedule {
+    schedule_id: string;
+    job_id: string;
+    next_run_at: string;
+}
+
+function scheduleKey(id: string): string {
+    return `${SCHEDULE_KEY_PREFIX}${id}`;
+}
+
+function parseJob(data: Record<string, string>): Record<string, unknown> {
+    if (data.job) {
+        try {
+            const job: unknown = JSON.parse(data.job);
+            if (job && typeof job === 'object' && !Array.isArray(job)) return job as Record<string, unknown>;
+        } catch {
+            // Fall through to the flat fields.
+        }
+    }
+
+    // Schedules created before the whole request was stored kept only these fields,
+    // and the oldest ones `ocr_*` instead of the unified names.
+    const legacy: Record<string, unknown> = {
+        task: data.task || '',
+        max_attempts: Number.parseInt(data.max_attempts || '3', 10) || 3,
+        manual: fromRedisBool(data.manual),
+    };
+    const optional: Record<string, string | undefined> = {
+        source_id: data.source_id,
+        source_url_id: data.source_url_id,
+        document_id: data.document_id,
+        lang: data.lang || data.ocr_lang,
+        psm: data.psm || data.ocr_psm,
+        oem: data.oem || data.ocr_oem,
+    };
+    for (const [field, value] of Object.entries(optional)) {
+        if (value) legacy[field] = value;
+    }
+    return legacy;
+}
+
+function parseSchedule(data: Record<string, string>): JobSchedule {
+    return {
+        id: data.id,
+        name: data.name || '',
+        cron: data.cron || '',
+        task: data.task || '',
+        source_id: data.source_id || '',
+        source_url_id: data.source_url_id || '',
+        document_id: data.document_id || '',
+        job: parseJob(data),
+        paused: fromRedisBool(data.paused),
+        next_run_at: data.next_run_at || '',
+        last_run_at: data.last_run_at || '',
+        last_job_id: data.last_job_id || '',
+        last_error: data.last_error || '',
+        run_count: Number.parseInt(data.run_count || '0', 10) || 0,
+        created_at: data.created_at || '',
+        updated_at: data.updated_at || '',
+    };
+}
+
+function requireNextRun(cron: string, from: Date): Date {
+    const next = getNextCronTime(cron, from);
+    if (!next) {
+        throw new Error(`Cron expression never fires: ${cron}`);
+    }
+    return next;
+}
+
+export async function getSchedule(id: string): Promise<JobSchedule | null> {
+    const data = await redis.hgetall(scheduleKey(id));
+    if (!data || Object.keys(data).length === 0) return null;
+    return parseSchedule(data);
+}
+
+export async function listSchedules(): Promise<JobSchedule[]> {
+    const ids = await redis.smembers(SCHEDULE_INDEX_KEY);
+    if (ids.length === 0) return [];
+
+    const pipeline = redis.pipeline();
+    for (const id of ids) pipeline.hgetall(scheduleKey(id));
+    const results = (await pipeline.exec()) ?? [];
+
+    return results
+        .map(([, data]) => data as Record<string, string> | null)
+        .filter((data): data is Record<string, string> => !!data && Object.keys(data).length > 0)
+        .map(parseSchedule)
+        .sort((a, b) => Number(a.id) - Number(b.id));
+}
+
+export async function createSchedule(input: CreateScheduleInput, now: Date = new Date()): Promise<JobSchedule> {
+    const nextRun = requireNextRun(input.cron, now);
+    const id = String(await redis.incr(SCHEDULE_ID_COUNTER_KEY));
+    const timestamp = now.toISOString();
+
+    const schedule: JobSchedule = {
+        id,
+        name: input.name || `${input.job.task} ${input.cron}`,
+        cron: input.cron,
+        task: input.job.task,
+        source_id: input.job.source_id || '',
+        source_url_id: input.job.source_url_id || '',
+        document_id: input.job.document_id || '',
+        job: { ...input.job },
+        paused: false,
+        next_run_at: nextRun.toISOString(),
+        last_run_at: '',
+        last_job_id: '',
+        last_error: '',
+        run_count: 0,
+        created_at: timestamp,
+        updated_at: timestamp,
+    };
+
+    await redis
+        .pipeline()
+        .hset(scheduleKey(id), {
+            ...schedule,
+            job: JSON.stringify(schedule.job),
+            paused: toRedisBool(schedule.paused),
+            run_count: '0',
+        })
+        .sadd(SCHEDULE_INDEX_KEY, id)
+        .zadd(SCHEDULE_DUE_KEY, nextRun.getTime(), id)
+        .exec();
+
+    return schedule;
+}
+
+export async function setSchedulePaused(id: string, paused: boolean, now: Date = new Date()): Promise<JobSchedule | null> {
+    const schedule = await getSchedule(id);
+    if (!schedule) return null;
+
+    const pipeline = redis.pipeline();
+    const updates: Record<string, string> = {
+        paused: toRedisBool(paused),
+        updated_at: now.toISOString(),
+    };
+
+    if (paused) {
+        pipeline.zrem(SCHEDULE_DUE_KEY, id);
+    } else {
+        // Resuming never back-fills missed fires; the schedule continues from now.
+        const nextRun = requireNextRun(schedule.cron, now);
+        updates.next_run_at = nextRun.toISOString();
+        updates.last_error = '';
+        pipeline.zadd(SCHEDULE_DUE_KEY, nextRun.getTime(), id);
+    }
+
+    pipeline.hset(scheduleKey(id), updates);
+    await pipeline.exec();
+
+    return getSchedule(id);
+}
+
+export async function deleteSchedule(id: string): Promise<boolean> {
+    const results = await redis
+        .pipeline()
+        .del(scheduleKey(id))
+        .srem(SCHEDULE_INDEX_KEY, id)
+        .zrem(SCHEDULE_DUE_KEY, id)
+        .exec();
+    const deleted = results?.[0]?.[1];
+    return typeof deleted === 'number' && deleted > 0;
+}
+
+async function enqueueScheduledJob(schedule: JobSchedule, request: ScheduleJobInput, now: Date): Promise<string> {
+    const [job] = await enqueueJobs([{
+        ...request,
+        priority: request.priority ?? 'normal',
+        cron_time: schedule.cron,
+        schedule_id: schedule.id,
+    }], { now });
+    return job.id;
+}
+
+/**
+ * Take a schedule out of rotation with the reason it cannot fire; it stays listed as paused.
+ */
+async function pauseWithError(id: string, error: string, now: Date): Promise<void> {
+    await redis.hset(scheduleKey(id), {
+        paused: toRedisBool(true),
+        last_error: error,
+        updated_at: now.toISOString(),
+    });
+}
+
+/**
+ * Enqueue one job for every active schedule whose next fire time has passed.
+ *
+ * Each schedule is claimed with ZREM before enqueuing, so concurrent callers
+ * (several app replicas, a manual tick) never fire the same slot twice.
+ * Missed slots are not back-filled: a schedule fires once and moves to its next future slot.
+ */
+export async function fireDueSchedules(now: Date = new Date()): Promise<FiredSchedule[]> {
+    const dueIds = await redis.zrangebyscore(SCHEDULE_DUE_KEY, '-inf', now.getTime());
+    const fired: FiredSchedule[] = [];
+
+    for (const id of dueIds) {
+        const claimed = await redis.zrem(SCHEDULE_DUE_KEY, id);
+        if (claimed !== 1) continue;
+
+        const schedule = await getSchedule(id);
+        if (!schedule || schedule.paused) continue;
+
+        // Schedules saved before the task list was unified may carry tasks (e.g. `scrapy`) no worker accepts.
+        const request = EnqueueJobSchema.omit({ idempotency_key: true }).safeParse(schedule.job);
+        if (!request.success) {
+            const error = request.error.issues.some((issue) => issue.path[0] === 'task')
+                ? `Unsupported task: ${schedule.task || '(empty)'}`
+                : `Invalid job: ${request.error.issues[0]?.message ?? 'unknown error'}`;
+            console.warn(`Schedule ${id} cannot be enqueued (${error}); pausing it.`);
+            await pauseWithError(id, error, now);
+            continue;
+        }
+
+        const timestamp = now.toISOString();
+        const nextRun = getNextCronTime(schedule.cron, now);
+
+        try {
+            const jobId = await enqueueScheduledJob(schedule, request.data, now);
+            const pipeline = redis.pipeline();
+            pipeline.hset(scheduleKey(id), {
+                last_run_at: timestamp,
+                last_job_id: jobId,
+                last_error: '',
+                next_run_at: nextRun ? nextRun.toISOString() : '',
+                updated_at: timestamp,
+            });
+            pipeline.hincrby(scheduleKey(id), 'run_count', 1);
+            if (nextRun) pipeline.zadd(SCHEDULE_DUE_KEY, nextRun.getTime(), id);
+            await pipeline.exec();
+
+            fired.push({ schedule_id: id, job_id: jobId, next_run_at: nextRun ? nextRun.toISOString() : '' });
+        } catch (error) {
+            console.error(`Failed to fire schedule ${id}:`, error);
+            if (nextRun) await redis.zadd(SCHEDULE_DUE_KEY, nextRun.getTime(), id);
+        }
+    }
+
+    return fired;
+}
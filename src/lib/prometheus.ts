@@ -0,0 +1,245 @@
+import { redis } from '@/lib/redis';
+import { supabase } from '@/lib/supabase';
+import { DEAD_LETTER_KEY, DELAYED_QUEUE_KEY } from '@/lib/dead-letter';
+import { REAPED_TOTAL_KEY } from '@/lib/job-reaper';
+import { JOB_COUNTS_KEY, JOB_DURATIONS_KEY, WORKER_COUNTS_KEY } from '@/lib/job-index';
+import { getLaneDepths, type LaneDepth } from '@/lib/queue-lanes';
+import { buildQueueControlStatus, getQueueControls } from '@/lib/queue-control';
+import { collectInfraMetrics, type InfraMetricsResponse } from '@/lib/infra-metrics';
+import { computeDocumentHealth, fetchAllDocuments } from '@/lib/storage-data';
+
+/**
+ * Prometheus text exposition (format 0.0.4) for GET /api/metrics.
+ *
+ * Each section (queue, runs, storage, infra) is collected on its own; a failing section is
+ * reported as `hud_metrics_section_up{section} 0` instead of failing the whole scrape.
+ * The storage section reads every `documents` row, so it is cached for STORAGE_CACHE_MS.
+ */
+export const PROMETHEUS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+const RUN_STATUSES = ['pending', 'running', 'completed', 'failed', 'canceled'];
+const STORAGE_CACHE_MS = 5 * 60 * 1000;
+
+export type MetricLabels = Record<string, string>;
+
+export interface MetricSample {
+    /** Appended to the family name, e.g. `_sum` and `_count` for summaries. */
+    suffix?: string;
+    labels?: MetricLabels;
+    value: number;
+}
+
+export interface MetricFamily {
+    name: string;
+    help: string;
+    type: 'gauge' | 'counter' | 'summary';
+    samples: MetricSample[];
+}
+
+type DocumentHealth = ReturnType<typeof computeDocumentHealth>;
+
+let storageCache: { at: number; health: DocumentHealth } | null = null;
+
+function escapeLabelValue(value: string): string {
+    return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+}
+
+function formatValue(value: number): string {
+    if (Number.isNaN(value)) return 'NaN';
+    if (value === Infinity) return '+Inf';
+    if (value === -Infinity) return '-Inf';
+    return String(value);
+}
+
+export function formatPrometheus(families: MetricFamily[]): string {
+    const lines: string[] = [];
+    for (const family of families) {
+        lines.push(`# HELP ${family.name} ${family.help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n')}`);
+        lines.push(`# TYPE ${family.name} ${family.type}`);
+        for (const sample of family.samples) {
+            const labels = Object.entries(sample.labels ?? {});
+            const labelText = labels.length > 0
+                ? `{${labels.map(([key, value]) => `${key}="${escapeLabelValue(value)}"`).join(',')}}`
+                : '';
+            lines.push(`${family.name}${sample.suffix ?? ''}${labelText} ${formatValue(sample.value)}`);
+        }
+    }
+    return `${lines.join('\n')}\n`;
+}
+
+function gauge(name: string, help: string, samples: MetricSample[]): MetricFamily {
+    return { name, help, type: 'gauge', samples };
+}
+
+function counter(name: string, help: string, samples: MetricSample[]): MetricFamily {
+    return { name, help, type: 'counter', samples };
+}
+
+function summary(name: string, help: string, samples: MetricSample[]): MetricFamily {
+    return { name, help, type: 'summary', samples };
+}
+
+function toNumber(raw: string | null | undefined): number {
+    const value = Number.parseInt(raw ?? '', 10);
+    return Number.isFinite(value) ? value : 0;
+}
+
+/**
+ * Split `{prefix}:{suffix}` counter hash fields on the last colon.
+ */
+function splitField(field: string): [string, string] | null {
+    const separator = field.lastIndexOf(':');
+    if (separator <= 0) return null;
+    return [field.slice(0, separator), field.slice(separator + 1)];
+}
+
+export function buildQueueFamilies(input: {
+    lanes: LaneDepth[];
+    counts: Record<string, string>;
+    durations: Record<string, string>;
+    workerCounts: Record<string, string>;
+    controls: Record<string, string>;
+    delayed: number;
+    dead: number;
+    reaped: number;
+}): MetricFamily[] {
+    const jobs: MetricSample[] = [];
+    for (const [field, raw] of Object.entries(input.counts)) {
+        const parts = splitField(field);
+        if (!parts) continue;
+        jobs.push({ labels: { task: parts[0] || 'unknown', status: parts[1] }, value: Math.max(0, toNumber(raw)) });
+    }
+
+    const durations: MetricSample[] = [];
+    for (const [field, raw] of Object.entries(input.durations)) {
+        const parts = splitField(field);
+        if (!parts) continue;
+        if (parts[1] === 'sum_ms') durations.push({ suffix: '_sum', labels: { task: parts[0] }, value: toNumber(raw) / 1000 });
+        if (parts[1] === 'count') durations.push({ suffix: '_count', labels: { task: parts[0] }, value: toNumber(raw) });
+    }
+
+    const workerJobs: MetricSample[] = [];
+    for (const [field, raw] of Object.entries(input.workerCounts)) {
+        const parts = splitField(field);
+        if (!parts) continue;
+        workerJobs.push({ labels: { worker: parts[0], outcome: parts[1] }, value: toNumber(raw) });
+    }
+
+    return [
+        gauge('hud_queue_lane_depth', 'Jobs waiting in a queue lane.', input.lanes.map((lane) => ({
+            labels: { lane: lane.key, task: lane.task ?? '', priority: lane.priority ?? '' },
+            value: lane.length,
+        }))),
+        gauge('hud_queue_delayed_jobs', 'Retries waiting for their backoff in queue:delayed.', [{ value: input.delayed }]),
+        gauge('hud_queue_dead_letter_jobs', 'Jobs in the dead-letter queue.', [{ value: input.dead }]),
+        gauge('hud_queue_paused', 'Queue scope is paused (1) or draining (2); 0 when running.',
+            buildQueueControlStatus(input.controls, input.counts).map((control) => ({
+                labels: { scope: control.scope },
+                value: control.mode === 'paused' ? 1 : control.mode === 'draining' ? 2 : 0,
+            }))),
+        gauge('hud_jobs', 'Redis jobs by task and status.', jobs),
+        counter('hud_jobs_reaped_total', 'Stuck jobs failed by the reaper.', [{ value: input.reaped }]),
+        summary('hud_job_duration_seconds', 'Processing time of completed jobs.', durations),
+        counter('hud_worker_jobs_total', 'Finished jobs per worker and outcome.', workerJobs),
+    ];
+}
+
+async function collectQueueFamilies(): Promise<MetricFamily[]> {
+    const [lanes, counts, durations, workerCounts, controls, delayed, dead, reaped] = await Promise.all([
+        getLaneDepths(),
+        redis.hgetall(JOB_COUNTS_KEY),
+        redis.hgetall(JOB_DURATIONS_KEY),
+        redis.hgetall(WORKER_COUNTS_KEY),
+        getQueueControls(),
+        redis.zcard(DELAYED_QUEUE_KEY),
+        redis.llen(DEAD_LETTER_KEY),
+        redis.get(REAPED_TOTAL_KEY),
+    ]);
+    return buildQueueFamilies({ lanes, counts, durations, workerCounts, controls, delayed, dead, reaped: toNumber(reaped) });
+}
+
+async function collectRunFamilies(): Promise<MetricFamily[]> {
+    const results = await Promise.all(RUN_STATUSES.map(async (status) => {
+        const { count, error } = await supabase
+            .from('ingestion_runs')
+            .select('id', { count: 'exact', head: true })
+            .eq('status', status);
+        if (error) throw new Error(`ingestion_runs count failed: ${error.message}`);
+        return { labels: { status }, value: count ?? 0 };
+    }));
+    return [gauge('hud_ingestion_runs', 'Ingestion runs by status.', results)];
+}
+
+async function collectStorageFamilies(now: number): Promise<MetricFamily[]> {
+    if (!storageCache || now - storageCache.at > STORAGE_CACHE_MS) {
+        storageCache = { at: now, health: computeDocumentHealth(await fetchAllDocuments(false)) };
+    }
+    const health = storageCache.health;
+    return [
+        gauge('hud_storage_documents', 'Stored documents by blob state.', [
+            { labels: { state: 'total' }, value: health.totalDocuments },
+            { labels: { state: 'valid_uuid' }, value: health.documentsWithValidUuid },
+            { labels: { state: 'missing_uuid' }, value: health.documentsMissingUuid },
+            { labels: { state: 'missing_blob_metadata' }, value: health.documentsMissingBlobMetadata },
+        ]),
+        gauge('hud_storage_duplicate_groups', 'Duplicate document groups by key.', [
+            { labels: { key: 'url' }, value: health.duplicateDocumentUrlGroups },
+            { labels: { key: 'checksum' }, value: health.duplicateDocumentChecksumGroups },
+        ]),
+    ];
+}
+
+export function buildInfraFamilies(infra: InfraMetricsResponse): MetricFamily[] {
+    const perContainer = (pick: (metrics: InfraMetricsResponse['containers'][number]['metrics']) => number | null) =>
+        infra.containers.flatMap((container) => {
+            const value = pick(container.metrics);
+            return value === null ? [] : [{ labels: { container: container.name }, value }];
+        });
+
+    return [
+        gauge('hud_container_up', 'Container is running (1) or not (0).', infra.containers.map((container) => ({
+            labels: { container: container.name, image: container.image, health: container.health },
+            value: container.state === 'running' ? 1 : 0,
+        }))),
+        gauge('hud_container_cpu_percent', 'Container CPU usage in percent of one core set.', perContainer((m) => m.cpuPercent)),
+        gauge('hud_container_memory_usage_bytes', 'Container memory usage.', perContainer((m) => m.memUsageBytes)),
+        gauge('hud_container_memory_limit_bytes', 'Container memory limit.', perContainer((m) => m.memLimitBytes)),
+        counter('hud_container_network_receive_bytes_total', 'Bytes received by the container.', perContainer((m) => m.netRxBytes)),
+        counter('hud_container_network_transmit_bytes_total', 'Bytes sent by the container.', perContainer((m) => m.netTxBytes)),
+        counter('hud_container_block_read_bytes_total', 'Bytes read from block devices.', perContainer((m) => m.blockReadBytes)),
+        counter('hud_container_block_write_bytes_total', 'Bytes written to block devices.', perContainer((m) => m.blockWriteBytes)),
+        gauge('hud_container_pids', 'Processes running in the container.', perContainer((m) => m.pidsCurrent)),
+    ];
+}
+
+async function collectInfraFamilies(): Promise<MetricFamily[]> {
+    return buildInfraFamilies(await collectInfraMetrics());
+}
+
+export async function collectPrometheusMetrics(now: number = Date.now()): Promise<string> {
+    const sections: Array<[string, () => Promise<MetricFamily[]>]> = [
+        ['queue', collectQueueFamilies],
+        ['runs', collectRunFamilies],
+        ['storage', () => collectStorageFamilies(now)],
+        ['infra', collectInfraFamilies],
+    ];
+
+    const results = await Promise.allSettled(sections.map(([, collect]) => collect()));
+    const families: MetricFamily[] = [];
+    const up: MetricSample[] = [];
+
+    results.forEach((result, index) => {
+        const section = sections[index][0];
+        if (result.status === 'fulfilled') {
+            families.push(...result.value);
+            up.push({ labels: { section }, value: 1 });
+        } else {
+            // An unconfigured Portainer is expected on local setups; don't log it on every scrape.
+            if (!(result.reason instanceof Error && result.reason.name === 'InfraConfigError')) {
+                console.error(`Metrics section ${section} failed:`, result.reason);
+            }
+            up.push({ labels: { section }, value: 0 });
+        }
+    });
+
+    return formatPrometheus([gauge('hud_metrics_section_up', 'Metrics section was collected (1) or failed (0).', up), ...families]);
+}
@@ -0,0 +1,90 @@
+import { redis } from '@/lib/redis';
+import { LANE_TASKS } from '@/lib/queue-lanes';
+
+/**
+ * Pause / drain flags for the queue lanes, kept in the `queue_control` hash.
+ *
+ * Field is the scope (`all` or a lane task), value is JSON `{ mode, since }`.
+ * Workers HMGET `all` and their task before every pop and take no new job while either is set.
+ * Both modes stop new pickups; `draining` additionally tells the dashboard to track
+ * how many `processing` jobs are still finishing.
+ */
+export const QUEUE_CONTROL_KEY = 'queue_control';
+export const QUEUE_CONTROL_SCOPES = ['all', ...LANE_TASKS] as const;
+
+export type QueueControlScope = (typeof QUEUE_CONTROL_SCOPES)[number];
+export type QueueControlMode = 'paused' | 'draining';
+
+export interface QueueControlState {
+    mode: QueueControlMode;
+    since: string;
+}
+
+export interface QueueControlStatus {
+    scope: QueueControlScope;
+    mode: QueueControlMode | 'running';
+    since: string | null;
+    /** Jobs still `processing` in this scope. */
+    processing: number;
+    /** Draining finished: nothing in this scope is processing anymore. */
+    drained: boolean;
+}
+
+function parseState(raw: string | undefined): QueueControlState | null {
+    if (!raw) return null;
+    try {
+        const parsed = JSON.parse(raw) as Partial<QueueControlState>;
+        if (parsed.mode !== 'paused' && parsed.mode !== 'draining') return null;
+        return { mode: parsed.mode, since: parsed.since ?? '' };
+    } catch {
+        return null;
+    }
+}
+
+function countProcessing(counts: Record<string, string>, scope: QueueControlScope): number {
+    let total = 0;
+    for (const [field, raw] of Object.entries(counts)) {
+        const separator = field.lastIndexOf(':');
+        if (separator <= 0 || field.slice(separator + 1) !== 'processing') continue;
+        if (scope !== 'all' && field.slice(0, separator) !== scope) continue;
+        const value = Number.parseInt(raw, 10);
+        if (Number.isFinite(value) && value > 0) total += value;
+    }
+    return total;
+}
+
+/**
+ * Combine the stored flags with the `{task}:{status}` job counters into one row per scope.
+ */
+export function buildQueueControlStatus(
+    controls: Record<string, string>,
+    counts: Record<string, string>,
+): QueueControlStatus[] {
+    return QUEUE_CONTROL_SCOPES.map((scope) => {
+        const state = parseState(controls[scope]);
+        const processing = countProcessing(counts, scope);
+        return {
+            scope,
+            mode: state?.mode ?? 'running',
+            since: state?.since ?? null,
+            processing,
+            drained: state?.mode === 'draining' && processing === 0,
+        };
+    });
+}
+
+export async function getQueueControls(): Promise<Record<string, string>> {
+    return redis.hgetall(QUEUE_CONTROL_KEY);
+}
+
+/**
+ * Pause or drain a scope, or resume it with `mode = null`.
+ */
+export async function setQueueControl(scope: QueueControlScope, mode: QueueControlMode | null, now: Date = new Date()): Promise<void> {
+    if (!mode) {
+        await redis.hdel(QUEUE_CONTROL_KEY, scope);
+        return;
+    }
+    const state: QueueControlState = { mode, since: now.toISOString() };
+    await redis.hset(QUEUE_CONTROL_KEY, scope, JSON.stringify(state));
+}
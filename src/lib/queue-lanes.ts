@@ -0,0 +1,111 @@
+import type { ChainableCommander } from 'ioredis';
+import { redis } from '@/lib/redis';
+
+/**
+ * Named queue lanes per task type and priority.
+ *
+ * - `queue:{task}:high`, `queue:{task}` (normal) and `queue:{task}:low` for discover / download / ocr.
+ * - Any other task, and jobs enqueued before lanes existed, use the legacy `queue` list.
+ * - The lane a job belongs to is derived from its `task` and `priority` hash fields,
+ *   so retries and requeues go back to the same lane.
+ *
+ * Workers BLPOP the lanes in `lanePopOrder()` (or the subset for their task), which gives
+ * strict priority: high before normal before low, the legacy list last.
+ */
+export const LEGACY_QUEUE_KEY = 'queue';
+export const LANE_TASKS = ['discover', 'download', 'ocr'] as const;
+export const JOB_PRIORITIES = ['high', 'normal', 'low'] as const;
+
+export type JobPriority = (typeof JOB_PRIORITIES)[number];
+
+export interface LaneDepth {
+    key: string;
+    task: string | null;
+    priority: JobPriority | null;
+    length: number;
+}
+
+export function isJobPriority(value: unknown): value is JobPriority {
+    return typeof value === 'string' && (JOB_PRIORITIES as readonly string[]).includes(value);
+}
+
+function isLaneTask(task: string): boolean {
+    return (LANE_TASKS as readonly string[]).includes(task);
+}
+
+export function laneKey(task: string, priority: JobPriority = 'normal'): string {
+    if (!isLaneTask(task)) return LEGACY_QUEUE_KEY;
+    return priority === 'normal' ? `queue:${task}` : `queue:${task}:${priority}`;
+}
+
+export function laneKeyForJob(data: { task?: string; priority?: string }): string {
+    return laneKey(data.task || '', isJobPriority(data.priority) ? data.priority : 'normal');
+}
+
+/**
+ * BLPOP key order for a worker: all lanes of one task, or every lane when `task` is omitted.
+ */
+export function lanePopOrder(task?: string): string[] {
+    const tasks = task ? LANE_TASKS.filter((value) => value === task) : [...LANE_TASKS];
+    const keys = JOB_PRIORITIES.flatMap((priority) => tasks.map((value) => laneKey(value, priority)));
+    return [...keys, LEGACY_QUEUE_KEY];
+}
+
+/**
+ * Lane picked when the caller does not choose one: manual runs jump ahead, bulk batches yield.
+ */
+export function defaultPriority(options: { manual?: boolean; bulk?: boolean }): JobPriority {
+    if (options.bulk) return 'low';
+    if (options.manual) return 'high';
+    return 'normal';
+}
+
+/**
+ * Append to an enqueue pipeline (after the job HSET): record the priority and push the id onto its lane.
+ */
+export function pushToLane(
+    pipeline: ChainableCommander,
+    job: { id: string | number; task: string; priority: JobPriority },
+): void {
+    const id = String(job.id);
+    pipeline.hset(`job:${id}`, 'priority', job.priority);
+    pipeline.rpush(laneKey(job.task, job.priority), id);
+}
+
+/**
+ * Push existing job ids back onto their lanes (retries, DLQ requeue).
+ */
+export async function requeueToLanes(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    const readPipeline = redis.pipeline();
+    for (const id of ids) readPipeline.hmget(`job:${id}`, 'task', 'priority');
+    const results = (await readPipeline.exec()) ?? [];
+
+    const pushPipeline = redis.pipeline();
+    results.forEach(([, value], index) => {
+        const [task, priority] = (value as Array<string | null>) ?? [];
+        pushPipeline.rpush(laneKeyForJob({ task: task ?? undefined, priority: priority ?? undefined }), ids[index]);
+    });
+    await pushPipeline.exec();
+}
+
+/**
+ * Append LREMs that take a job off its lane and the legacy list.
+ */
+export function removeFromLanes(pipeline: ChainableCommander, id: string, data: { task?: string; priority?: string }): void {
+    const key = laneKeyForJob(data);
+    pipeline.lrem(key, 0, id);
+    if (key !== LEGACY_QUEUE_KEY) pipeline.lrem(LEGACY_QUEUE_KEY, 0, id);
+}
+
+export async function getLaneDepths(): Promise<LaneDepth[]> {
+    const lanes: Array<Omit<LaneDepth, 'length'>> = [
+        ...JOB_PRIORITIES.flatMap((priority) => LANE_TASKS.map((task) => ({ key: laneKey(task, priority), task, priority }))),
+        { key: LEGACY_QUEUE_KEY, task: null, priority: null },
+    ];
+
+    const pipeline = redis.pipeline();
+    for (const lane of lanes) pipeline.llen(lane.key);
+    const results = (await pipeline.exec()) ?? [];
+    return lanes.map((lane, index) => ({ ...lane, length: Number(results[index]?.[1] ?? 0) }));
+}
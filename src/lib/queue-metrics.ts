@@ -0,0 +1,201 @@
+import type { ChainableCommander } from 'ioredis';
+import { redis } from '@/lib/redis';
+
+/**
+ * Rolling throughput / latency time-series for the queue.
+ *
+ * - `metrics:m:{epoch minute}` — per-minute hash, kept 26 h; `metrics:h:{epoch hour}` — per-hour hash, kept 8 days.
+ * - Fields: `{task}:enqueued|completed|failed` counters and `{task}:wait:{bucket}` / `{task}:run:{bucket}`
+ *   latency histograms over LATENCY_BOUNDS_MS (queue wait = queued until started, run = started until finished).
+ *
+ * Counters are written next to the index updates (indexNewJob, syncJobIndex); percentiles are read
+ * back from the merged histograms, so they are accurate to one bucket.
+ */
+export const LATENCY_BOUNDS_MS = [
+    250, 500, 1000, 2000, 5000, 10000, 20000, 30000, 60000, 120000, 300000, 600000, 1800000, 3600000,
+];
+export const METRICS_RANGES = ['hour', 'day', 'week'] as const;
+
+export type MetricsRange = (typeof METRICS_RANGES)[number];
+export type JobOutcome = 'completed' | 'failed';
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const MINUTE_TTL_SECONDS = 26 * 60 * 60;
+const HOUR_TTL_SECONDS = 8 * 24 * 60 * 60;
+
+// Which stored resolution each range reads and how many stored buckets form one chart point.
+const RANGE_LAYOUT: Record<MetricsRange, { resolution: 'm' | 'h'; buckets: number; perPoint: number }> = {
+    hour: { resolution: 'm', buckets: 60, perPoint: 1 },
+    day: { resolution: 'm', buckets: 24 * 60, perPoint: 15 },
+    week: { resolution: 'h', buckets: 7 * 24, perPoint: 1 },
+};
+
+export interface LatencyPercentiles {
+    count: number;
+    p50: number;
+    p95: number;
+    p99: number;
+}
+
+export interface MetricsPoint {
+    /** Start of the point's window (ISO). */
+    at: string;
+    enqueued: number;
+    completed: number;
+    failed: number;
+    wait: LatencyPercentiles | null;
+    run: LatencyPercentiles | null;
+}
+
+export interface QueueMetrics {
+    range: MetricsRange;
+    task: string | null;
+    point_ms: number;
+    tasks: string[];
+    points: MetricsPoint[];
+}
+
+function minuteKey(ms: number): string {
+    return `metrics:m:${Math.floor(ms / MINUTE_MS)}`;
+}
+
+function hourKey(ms: number): string {
+    return `metrics:h:${Math.floor(ms / HOUR_MS)}`;
+}
+
+function toMs(value: string | undefined): number {
+    return value ? new Date(value).getTime() : NaN;
+}
+
+export function latencyBucket(ms: number): number {
+    const index = LATENCY_BOUNDS_MS.findIndex((bound) => ms <= bound);
+    return index === -1 ? LATENCY_BOUNDS_MS.length : index;
+}
+
+function increment(pipeline: ChainableCommander, atMs: number, field: string): void {
+    pipeline.hincrby(minuteKey(atMs), field, 1);
+    pipeline.expire(minuteKey(atMs), MINUTE_TTL_SECONDS);
+    pipeline.hincrby(hourKey(atMs), field, 1);
+    pipeline.expire(hourKey(atMs), HOUR_TTL_SECONDS);
+}
+
+/**
+ * Append the enqueue counter of a freshly created job to its enqueue pipeline.
+ */
+export function recordEnqueued(pipeline: ChainableCommander, job: { task: string; created_at: string }): void {
+    const at = toMs(job.created_at);
+    increment(pipeline, Number.isNaN(at) ? Date.now() : at, `${job.task || 'unknown'}:enqueued`);
+}
+
+/**
+ * Append the outcome counter and latency samples of a finished attempt; bucketed by `completed_at`.
+ */
+export function recordFinished(
+    pipeline: ChainableCommander,
+    job: { task: string; outcome: JobOutcome; queued_at: string; started_at: string; completed_at: string },
+): void {
+    const task = job.task || 'unknown';
+    const queued = toMs(job.queued_at);
+    const started = toMs(job.started_at);
+    const completed = toMs(job.completed_at);
+    const at = Number.isNaN(completed) ? Date.now() : completed;
+
+    increment(pipeline, at, `${task}:${job.outcome}`);
+    if (!Number.isNaN(queued) && !Number.isNaN(started) && started >= queued) {
+        increment(pipeline, at, `${task}:wait:${latencyBucket(started - queued)}`);
+    }
+    if (!Number.isNaN(started) && !Number.isNaN(completed) && completed >= started) {
+        increment(pipeline, at, `${task}:run:${latencyBucket(completed - started)}`);
+    }
+}
+
+function percentile(histogram: number[], total: number, fraction: number): number {
+    const target = Math.max(1, Math.ceil(total * fraction));
+    let seen = 0;
+    for (let i = 0; i < histogram.length; i++) {
+        seen += histogram[i];
+        if (seen >= target) return LATENCY_BOUNDS_MS[Math.min(i, LATENCY_BOUNDS_MS.length - 1)];
+    }
+    return LATENCY_BOUNDS_MS[LATENCY_BOUNDS_MS.length - 1];
+}
+
+/**
+ * Percentiles (bucket upper bounds, ms) of a merged histogram, or null without samples.
+ */
+export function summarizeLatency(histogram: number[]): LatencyPercentiles | null {
+    const count = histogram.reduce((sum, value) => sum + value, 0);
+    if (count === 0) return null;
+    return {
+        count,
+        p50: percentile(histogram, count, 0.5),
+        p95: percentile(histogram, count, 0.95),
+        p99: percentile(histogram, count, 0.99),
+    };
+}
+
+/**
+ * Fold stored bucket hashes into chart points, optionally for one task only.
+ */
+export function buildMetricsPoints(
+    buckets: Array<Record<string, string>>,
+    startMs: number,
+    bucketMs: number,
+    perPoint: number,
+    task: string | null,
+): { points: MetricsPoint[]; tasks: string[] } {
+    const tasks = new Set<string>();
+    const points: MetricsPoint[] = [];
+
+    for (let offset = 0; offset < buckets.length; offset += perPoint) {
+        const point = { enqueued: 0, completed: 0, failed: 0 };
+        const wait = new Array<number>(LATENCY_BOUNDS_MS.length + 1).fill(0);
+        const run = new Array<number>(LATENCY_BOUNDS_MS.length + 1).fill(0);
+
+        for (const bucket of buckets.slice(offset, offset + perPoint)) {
+            for (const [field, raw] of Object.entries(bucket)) {
+                const [fieldTask, metric, index] = field.split(':');
+                const value = Number.parseInt(raw, 10);
+                if (!fieldTask || !Number.isFinite(value)) continue;
+                tasks.add(fieldTask);
+                if (task && fieldTask !== task) continue;
+
+                if (metric === 'enqueued' || metric === 'completed' || metric === 'failed') {
+                    point[metric] += value;
+                } else if (metric === 'wait' || metric === 'run') {
+                    const histogram = metric === 'wait' ? wait : run;
+                    const bucketIndex = Number.parseInt(index ?? '', 10);
+                    if (bucketIndex >= 0 && bucketIndex < histogram.length) histogram[bucketIndex] += value;
+                }
+            }
+        }
+
+        points.push({
+            at: new Date(startMs + offset * bucketMs).toISOString(),
+            ...point,
+            wait: summarizeLatency(wait),
+            run: summarizeLatency(run),
+        });
+    }
+
+    return { points, tasks: Array.from(tasks).sort() };
+}
+
+export async function getQueueMetrics(range: MetricsRange, task: string | null = null, now: Date = new Date()): Promise<QueueMetrics> {
+    const layout = RANGE_LAYOUT[range];
+    const bucketMs = layout.resolution === 'm' ? MINUTE_MS : HOUR_MS;
+    const keyFor = layout.resolution === 'm' ? minuteKey : hourKey;
+    // The current (partial) bucket is the last one; align so every point has `perPoint` buckets.
+    const lastBucketStart = Math.floor(now.getTime() / bucketMs) * bucketMs;
+    const alignedLast = lastBucketStart - (Math.floor(lastBucketStart / bucketMs) % layout.perPoint) * bucketMs;
+    const startMs = alignedLast - (layout.buckets - layout.perPoint) * bucketMs;
+    const count = (lastBucketStart - startMs) / bucketMs + 1;
+
+    const pipeline = redis.pipeline();
+    for (let i = 0; i < count; i++) pipeline.hgetall(keyFor(startMs + i * bucketMs));
+    const results = (await pipeline.exec()) ?? [];
+    const buckets = results.map(([, value]) => (value as Record<string, string> | null) ?? {});
+
+    const { points, tasks } = buildMetricsPoints(buckets, startMs, bucketMs, layout.perPoint, task);
+    return { range, task, point_ms: bucketMs * layout.perPoint, tasks, points };
+}
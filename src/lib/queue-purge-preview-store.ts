@@ -0,0 +1,72 @@
+import crypto from 'node:crypto';
+import type { QueuePurgeFilter, QueuePurgeSummary } from '@/lib/queue-purge';
+
+export interface QueuePurgePreviewPayload {
+    filter: QueuePurgeFilter;
+    createdAt: string;
+    expiresAt: string;
+    jobIds: string[];
+    summary: QueuePurgeSummary;
+}
+
+const PREVIEW_TTL_MS = 10 * 60 * 1000;
+
+function getStore(): Map<string, QueuePurgePreviewPayload> {
+    const globalStore = globalThis as typeof globalThis & {
+        __queuePurgePreviewStore?: Map<string, QueuePurgePreviewPayload>;
+    };
+
+    if (!globalStore.__queuePurgePreviewStore) {
+        globalStore.__queuePurgePreviewStore = new Map<string, QueuePurgePreviewPayload>();
+    }
+
+    return globalStore.__queuePurgePreviewStore;
+}
+
+function pruneExpired(store: Map<string, QueuePurgePreviewPayload>): void {
+    const now = Date.now();
+    for (const [token, payload] of store.entries()) {
+        if (new Date(payload.expiresAt).getTime() <= now) {
+            store.delete(token);
+        }
+    }
+}
+
+export function createQueuePurgePreview(
+    filter: QueuePurgeFilter,
+    jobIds: string[],
+    summary: QueuePurgeSummary,
+): { token: string; preview: QueuePurgePreviewPayload } {
+    const store = getStore();
+    pruneExpired(store);
+
+    const createdAt = new Date().toISOString();
+    const expiresAt = new Date(Date.now() + PREVIEW_TTL_MS).toISOString();
+    const token = crypto.randomUUID();
+
+    const payload: QueuePurgePreviewPayload = {
+        filter,
+        createdAt,
+        expiresAt,
+        jobIds,
+        summary,
+    };
+
+    store.set(token, payload);
+
+    return {
+        token,
+        preview: payload,
+    };
+}
+
+export function consumeQueuePurgePreview(token: string): QueuePurgePreviewPayload | null {
+    const store = getStore();
+    pruneExpired(store);
+
+    const payload = store.get(token);
+    if (!payload) return null;
+
+    store.delete(token);
+    return payload;
+}
@@ -0,0 +1,146 @@
+import { redis } from '@/lib/redis';
+import { DEAD_LETTER_KEY, DELAYED_QUEUE_KEY } from '@/lib/dead-letter';
+import { ALL_JOBS_KEY, removeJobs, runIndexKey, statusIndexKey, taskIndexKey } from '@/lib/job-index';
+import { removeFromLanes } from '@/lib/queue-lanes';
+
+/**
+ * Filtered queue purge: resolve the matching jobs for a preview, then delete exactly
+ * those ids on execute. Jobs a worker is currently processing are never purged;
+ * cancel them instead.
+ */
+export interface QueuePurgeFilter {
+    statuses?: string[];
+    task?: string;
+    source_id?: string;
+    run_id?: string;
+    older_than_hours?: number;
+}
+
+export interface QueuePurgeJobSample {
+    id: string;
+    task: string;
+    status: string;
+    source_id: string;
+    run_id: string;
+    created_at: string;
+}
+
+export interface QueuePurgeSummary {
+    total: number;
+    skipped_processing: number;
+    by_status: Record<string, number>;
+    by_task: Record<string, number>;
+    sample: QueuePurgeJobSample[];
+}
+
+const BATCH_SIZE = 500;
+const SAMPLE_SIZE = 20;
+
+export function matchesPurgeFilter(job: QueuePurgeJobSample, filter: QueuePurgeFilter, cutoffMs: number | null): boolean {
+    if (filter.statuses && filter.statuses.length > 0 && !filter.statuses.includes(job.status)) return false;
+    if (filter.task && job.task !== filter.task) return false;
+    if (filter.source_id && job.source_id !== filter.source_id) return false;
+    if (filter.run_id && job.run_id !== filter.run_id) return false;
+    if (cutoffMs !== null) {
+        const createdMs = new Date(job.created_at).getTime();
+        if (Number.isNaN(createdMs) || createdMs >= cutoffMs) return false;
+    }
+    return true;
+}
+
+// Start from the narrowest index the filter allows; the remaining conditions are checked per job.
+function pickCandidateKeys(filter: QueuePurgeFilter): string[] {
+    if (filter.run_id) return [runIndexKey(filter.run_id)];
+    if (filter.statuses && filter.statuses.length > 0) return filter.statuses.map(statusIndexKey);
+    if (filter.task) return [taskIndexKey(filter.task)];
+    return [ALL_JOBS_KEY];
+}
+
+export async function resolveQueuePurge(
+    filter: QueuePurgeFilter,
+    now: Date = new Date(),
+): Promise<{ jobIds: string[]; summary: QueuePurgeSummary }> {
+    const cutoffMs = filter.older_than_hours ? now.getTime() - filter.older_than_hours * 60 * 60 * 1000 : null;
+    const maxScore = cutoffMs === null ? '+inf' : `(${cutoffMs}`;
+
+    const candidateIds = new Set<string>();
+    for (const key of pickCandidateKeys(filter)) {
+        for (const id of await redis.zrangebyscore(key, '-inf', maxScore)) candidateIds.add(id);
+    }
+
+    const summary: QueuePurgeSummary = { total: 0, skipped_processing: 0, by_status: {}, by_task: {}, sample: [] };
+    const jobIds: string[] = [];
+    const ids = Array.from(candidateIds);
+
+    for (let i = 0; i < ids.length; i += BATCH_SIZE) {
+        const batch = ids.slice(i, i + BATCH_SIZE);
+        const pipeline = redis.pipeline();
+        for (const id of batch) pipeline.hmget(`job:${id}`, 'task', 'status', 'source_id', 'run_id', 'created_at');
+        const results = (await pipeline.exec()) ?? [];
+
+        results.forEach(([, value], index) => {
+            const [task, status, sourceId, runId, createdAt] = (value as Array<string | null>) ?? [];
+            if (!status) return;
+            const job: QueuePurgeJobSample = {
+                id: batch[index],
+                task: task || 'unknown',
+                status,
+                source_id: sourceId || '',
+                run_id: runId || '',
+                created_at: createdAt || '',
+            };
+            if (!matchesPurgeFilter(job, filter, cutoffMs)) return;
+            if (job.status === 'processing') {
+                summary.skipped_processing++;
+                return;
+            }
+
+            jobIds.push(job.id);
+            summary.by_status[job.status] = (summary.by_status[job.status] ?? 0) + 1;
+            summary.by_task[job.task] = (summary.by_task[job.task] ?? 0) + 1;
+            if (summary.sample.length < SAMPLE_SIZE) summary.sample.push(job);
+        });
+    }
+
+    summary.total = jobIds.length;
+    return { jobIds, summary };
+}
+
+/**
+ * Delete previewed jobs: drop them from their queue lane, retry set and DLQ, then from the indexes.
+ * The job ID counter is left alone, unlike the full flush.
+ */
+export async function executeQueuePurge(jobIds: string[]): Promise<{ deleted: number; skipped_processing: number }> {
+    let deleted = 0;
+    let skippedProcessing = 0;
+
+    for (let i = 0; i < jobIds.length; i += BATCH_SIZE) {
+        const batch = jobIds.slice(i, i + BATCH_SIZE);
+
+        // A job may have been claimed by a worker since the preview; leave those alone.
+        const statusPipeline = redis.pipeline();
+        for (const id of batch) statusPipeline.hmget(`job:${id}`, 'status', 'task', 'priority');
+        const results = (await statusPipeline.exec()) ?? [];
+
+        const purgeable: string[] = [];
+        const pipeline = redis.pipeline();
+        results.forEach(([, value], index) => {
+            const [status, task, priority] = (value as Array<string | null>) ?? [];
+            if (status === 'processing') {
+                skippedProcessing++;
+                return;
+            }
+            const id = batch[index];
+            removeFromLanes(pipeline, id, { task: task ?? undefined, priority: priority ?? undefined });
+            pipeline.zrem(DELAYED_QUEUE_KEY, id);
+            pipeline.lrem(DEAD_LETTER_KEY, 0, id);
+            purgeable.push(id);
+        });
+        if (purgeable.length === 0) continue;
+
+        await pipeline.exec();
+        deleted += await removeJobs(purgeable);
+    }
+
+    return { deleted, skipped_processing: skippedProcessing };
+}
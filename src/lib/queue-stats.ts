@@ -1,5 +1,22 @@
 import { redis } from '@/lib/redis';
 import { fromRedisBool } from '@/lib/redis-bool';
+import { DEAD_LETTER_KEY, DELAYED_QUEUE_KEY } from '@/lib/dead-letter';
+import { REAPED_TOTAL_KEY } from '@/lib/job-reaper';
+import { getLaneDepths, type LaneDepth } from '@/lib/queue-lanes';
+import { buildQueueControlStatus, getQueueControls, type QueueControlStatus } from '@/lib/queue-control';
+import {
+    ALL_JOBS_KEY,
+    JOB_COUNTS_KEY,
+    JOB_DURATIONS_KEY,
+    getReconcileMaxJobs,
+    listIndexedJobIds,
+    statusIndexKey,
+    syncDirtyJobs,
+    taskIndexKey,
+} from '@/lib/job-index';
+
+export const DEFAULT_JOB_PAGE_SIZE = 50;
+export const MAX_JOB_PAGE_SIZE = 500;
 
 export interface JobStats {
     total: number;
@@ -7,6 +24,8 @@ export interface JobStats {
     processing: number;
     completed: number;
     failed: number;
+    retrying: number;
+    canceled: number;
     avgCompletionTimeMs: number | null;
     byWorker: {
         [key: string]: {
@@ -37,142 +56,174 @@ export interface JobListItem {
 
 export interface QueueStatsResponse {
     success: boolean;
+    /** Total waiting jobs across all lanes. */
     queueLength: number;
+    lanes: LaneDepth[];
+    /** Pause / drain state per scope (`all` and each lane task). */
+    controls: QueueControlStatus[];
+    delayedLength: number;
+    deadLetterLength: number;
+    reapedTotal: number;
     stats: JobStats;
     jobs: JobListItem[];
+    page: {
+        offset: number;
+        limit: number;
+        total: number;
+    };
 }
 
-export async function fetchQueueStats(): Promise<QueueStatsResponse> {
-    const queueName = 'queue';
-    const queueLength = await redis.llen(queueName);
-
-    let cursor = '0';
-    const jobsRaw: Array<{
-        id: string;
-        status: string;
-        task: string;
-        created_at: string;
-        completed_at: string;
-        started_at: string;
-        document_id?: string;
-        source_id?: string;
-        error_message?: string;
-        worker?: string;
-        attempts?: string;
-        manual: boolean;
-    }> = [];
-
-    do {
-        const [nextCursor, keys] = await redis.scan(cursor, 'MATCH', 'job:*', 'COUNT', 100);
-        cursor = nextCursor;
-        for (const key of keys) {
-            const jobData = await redis.hgetall(key);
-            if (jobData && Object.keys(jobData).length > 0) {
-                const id = jobData.id ?? key.replace(/^job:/, '');
-                jobsRaw.push({
-                    id: String(id),
-                    status: jobData.status || 'unknown',
-                    task: jobData.task || 'unknown',
-                    created_at: jobData.created_at || '',
-                    completed_at: jobData.completed_at || '',
-                    started_at: jobData.started_at || '',
-                    document_id: jobData.document_id,
-                    source_id: jobData.source_id,
-                    error_message: jobData.error_message,
-                    worker: jobData.worker,
-                    attempts: jobData.attempts,
-                    manual: fromRedisBool(jobData.manual),
-                });
-            }
-        }
-    } while (cursor !== '0');
+export interface JobListQuery {
+    offset?: number;
+    limit?: number;
+    /** Filter by status or task; when both are set, status wins. */
+    status?: string;
+    task?: string;
+}
+
+type WorkerStats = JobStats['byWorker'][string];
 
-    const jobs: JobListItem[] = jobsRaw
-        .sort((a, b) => new Date(b.created_at || 0).getTime() - new Date(a.created_at || 0).getTime())
-        .slice(0, 500);
+function toOptionalInt(value: string | null): number | undefined {
+    if (!value) return undefined;
+    const parsed = Number.parseInt(value, 10);
+    return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+export function parseJobListQuery(searchParams: URLSearchParams): JobListQuery {
+    return {
+        offset: toOptionalInt(searchParams.get('offset')),
+        limit: toOptionalInt(searchParams.get('limit')),
+        status: searchParams.get('status') || undefined,
+        task: searchParams.get('task') || undefined,
+    };
+}
+
+function emptyWorkerStats(): WorkerStats {
+    return { total: 0, pending: 0, processing: 0, completed: 0, failed: 0, avgCompletionTimeMs: null };
+}
 
+function toAverage(sum: number, count: number): number | null {
+    return count > 0 ? Math.round(sum / count) : null;
+}
+
+/**
+ * Aggregate stats from the `{task}:{status}` counters and completion-time sums kept by the job index.
+ */
+export function buildJobStats(counts: Record<string, string>, durations: Record<string, string>): JobStats {
     const stats: JobStats = {
-        total: jobsRaw.length,
+        total: 0,
         pending: 0,
         processing: 0,
         completed: 0,
         failed: 0,
+        retrying: 0,
+        canceled: 0,
         avgCompletionTimeMs: null,
         byWorker: {},
     };
 
-    const completionTimes: number[] = [];
-    const workerCompletionTimes: { [key: string]: number[] } = {};
+    for (const [field, raw] of Object.entries(counts)) {
+        const value = Number.parseInt(raw, 10);
+        if (!Number.isFinite(value) || value <= 0) continue;
+        const separator = field.lastIndexOf(':');
+        if (separator === -1) continue;
+        const task = field.slice(0, separator) || 'unknown';
+        const status = field.slice(separator + 1);
 
-    for (const job of jobsRaw) {
-        switch (job.status) {
-            case 'pending':
-                stats.pending++;
-                break;
-            case 'processing':
-                stats.processing++;
-                break;
-            case 'completed':
-                stats.completed++;
-                break;
-            case 'failed':
-                stats.failed++;
-                break;
-        }
-
-        const workerType = job.task || 'unknown';
-        if (!stats.byWorker[workerType]) {
-            stats.byWorker[workerType] = {
-                total: 0,
-                pending: 0,
-                processing: 0,
-                completed: 0,
-                failed: 0,
-                avgCompletionTimeMs: null,
-            };
-            workerCompletionTimes[workerType] = [];
-        }
-        stats.byWorker[workerType].total++;
+        const worker = stats.byWorker[task] ?? (stats.byWorker[task] = emptyWorkerStats());
+        worker.total += value;
+        stats.total += value;
 
-        switch (job.status) {
+        switch (status) {
             case 'pending':
-                stats.byWorker[workerType].pending++;
-                break;
             case 'processing':
-                stats.byWorker[workerType].processing++;
-                break;
             case 'completed':
-                stats.byWorker[workerType].completed++;
-                break;
             case 'failed':
-                stats.byWorker[workerType].failed++;
+                stats[status] += value;
+                worker[status] += value;
+                break;
+            case 'retrying':
+            case 'canceled':
+                stats[status] += value;
                 break;
-        }
-
-        if (job.status === 'completed' && job.started_at && job.completed_at) {
-            const startTime = new Date(job.started_at).getTime();
-            const endTime = new Date(job.completed_at).getTime();
-            if (!isNaN(startTime) && !isNaN(endTime) && endTime > startTime) {
-                const duration = endTime - startTime;
-                completionTimes.push(duration);
-                workerCompletionTimes[workerType].push(duration);
-            }
         }
     }
 
-    if (completionTimes.length > 0) {
-        stats.avgCompletionTimeMs = Math.round(
-            completionTimes.reduce((a, b) => a + b, 0) / completionTimes.length
-        );
+    let totalSum = 0;
+    let totalCount = 0;
+    for (const [task, worker] of Object.entries(stats.byWorker)) {
+        const sum = Number.parseInt(durations[`${task}:sum_ms`] ?? '0', 10) || 0;
+        const count = Number.parseInt(durations[`${task}:count`] ?? '0', 10) || 0;
+        worker.avgCompletionTimeMs = toAverage(sum, count);
+        totalSum += sum;
+        totalCount += count;
     }
-    for (const workerType of Object.keys(workerCompletionTimes)) {
-        const times = workerCompletionTimes[workerType];
-        if (times.length > 0) {
-            stats.byWorker[workerType].avgCompletionTimeMs = Math.round(
-                times.reduce((a, b) => a + b, 0) / times.length
-            );
-        }
+    stats.avgCompletionTimeMs = toAverage(totalSum, totalCount);
+
+    return stats;
+}
+
+function toJobListItem(id: string, jobData: Record<string, string>): JobListItem {
+    return {
+        id,
+        status: jobData.status || 'unknown',
+        task: jobData.task || 'unknown',
+        created_at: jobData.created_at || '',
+        completed_at: jobData.completed_at || '',
+        started_at: jobData.started_at || '',
+        document_id: jobData.document_id,
+        source_id: jobData.source_id,
+        error_message: jobData.error_message,
+        worker: jobData.worker,
+        attempts: jobData.attempts,
+        manual: fromRedisBool(jobData.manual),
+    };
+}
+
+export async function fetchQueueStats(query: JobListQuery = {}): Promise<QueueStatsResponse> {
+    const offset = Math.max(0, query.offset ?? 0);
+    const limit = Math.min(Math.max(1, query.limit ?? DEFAULT_JOB_PAGE_SIZE), MAX_JOB_PAGE_SIZE);
+    const indexKey = query.status
+        ? statusIndexKey(query.status)
+        : query.task
+            ? taskIndexKey(query.task)
+            : ALL_JOBS_KEY;
+
+    // Pick up status changes workers flagged since the last call before reading counters.
+    await syncDirtyJobs(getReconcileMaxJobs());
+
+    const [lanes, controls, delayedLength, deadLetterLength, reapedTotal, counts, durations, page] = await Promise.all([
+        getLaneDepths(),
+        getQueueControls(),
+        redis.zcard(DELAYED_QUEUE_KEY),
+        redis.llen(DEAD_LETTER_KEY),
+        redis.get(REAPED_TOTAL_KEY),
+        redis.hgetall(JOB_COUNTS_KEY),
+        redis.hgetall(JOB_DURATIONS_KEY),
+        listIndexedJobIds(indexKey, offset, limit),
+    ]);
+
+    const jobs: JobListItem[] = [];
+    if (page.ids.length > 0) {
+        const pipeline = redis.pipeline();
+        for (const id of page.ids) pipeline.hgetall(`job:${id}`);
+        const results = (await pipeline.exec()) ?? [];
+        results.forEach(([, value], index) => {
+            const jobData = value as Record<string, string> | null;
+            if (jobData && Object.keys(jobData).length > 0) jobs.push(toJobListItem(page.ids[index], jobData));
+        });
     }
 
-    return { success: true, queueLength, stats, jobs };
+    return {
+        success: true,
+        queueLength: lanes.reduce((sum, lane) => sum + lane.length, 0),
+        lanes,
+        controls: buildQueueControlStatus(controls, counts),
+        delayedLength,
+        deadLetterLength,
+        reapedTotal: toOptionalInt(reapedTotal) ?? 0,
+        stats: buildJobStats(counts, durations),
+        jobs,
+        page: { offset, limit, total: page.total },
+    };
 }
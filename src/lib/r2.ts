@@ -1,6 +1,7 @@
 import {
     S3Client,
     DeleteObjectsCommand,
+    HeadBucketCommand,
     HeadObjectCommand,
     ListObjectsV2Command,
 } from '@aws-sdk/client-s3';
@@ -14,6 +15,7 @@ interface R2Config {
     endpoint: string;
 }
 
+const REQUIRED_ENV = ['R2_ACCOUNT_ID', 'R2_ACCESS_KEY_ID', 'R2_SECRET_ACCESS_KEY', 'R2_BUCKET'];
 const MAX_DELETE_BATCH = 1000;
 const MAX_PAGE_SIZE = 200;
 
@@ -68,6 +70,17 @@ export function getR2Bucket(): string {
     return getR2Config().bucket;
 }
 
+export function isR2Configured(): boolean {
+    return REQUIRED_ENV.every((name) => Boolean(process.env[name]?.trim()));
+}
+
+/**
+ * Cheapest authenticated round-trip to the bucket; throws when it is unreachable or access is denied.
+ */
+export async function headR2Bucket(): Promise<void> {
+    await getR2Client().send(new HeadBucketCommand({ Bucket: getR2Bucket() }));
+}
+
 function normalizePrefix(prefix: string | undefined): string {
     const trimmed = (prefix ?? '').trim();
     return trimmed.startsWith('/') ? trimmed.slice(1) : trimmed;
@@ -0,0 +1,36 @@
+import crypto from 'node:crypto';
+import type { Result } from 'ioredis';
+import { redis } from '@/lib/redis';
+import { defineRedisScript } from '@/lib/redis-scripts';
+
+// KEYS: lock key. ARGV: holder token. Deletes the lock only while the token still owns it.
+const RELEASE_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('DEL', KEYS[1])
+end
+return 0
+`;
+
+declare module 'ioredis' {
+    interface RedisCommander<Context> {
+        releaseRedisLock(key: string, token: string): Result<number, Context>;
+    }
+}
+
+/**
+ * Run `fn` while holding the short Redis lock `key`, so only one replica does the work at a time.
+ * Returns null without calling `fn` when another holder has the lock. The lock expires after `ttlMs`
+ * if the process dies, and is released afterwards only if it is still ours.
+ */
+export async function withRedisLock<T>(key: string, ttlMs: number, fn: () => Promise<T>): Promise<T | null> {
+    const token = crypto.randomUUID();
+    const acquired = await redis.set(key, token, 'PX', ttlMs, 'NX');
+    if (acquired !== 'OK') return null;
+
+    try {
+        return await fn();
+    } finally {
+        defineRedisScript('releaseRedisLock', 1, RELEASE_SCRIPT);
+        await redis.releaseRedisLock(key, token);
+    }
+}
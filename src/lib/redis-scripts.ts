@@ -0,0 +1,11 @@
+import { redis } from '@/lib/redis';
+
+/**
+ * Register a Lua script as a custom command on the shared client (and its pipelines), once per client.
+ * ioredis then calls it with EVALSHA and only sends the script text when Redis does not have it cached.
+ * The command's typing goes into a `declare module 'ioredis'` block next to the script.
+ */
+export function defineRedisScript(name: string, numberOfKeys: number, lua: string): void {
+    if (typeof (redis as unknown as Record<string, unknown>)[name] === 'function') return;
+    redis.defineCommand(name, { numberOfKeys, lua });
+}
@@ -0,0 +1,457 @@
+import { z } from 'zod';
+import { supabase } from '@/lib/supabase';
+import { enqueueJobs } from '@/lib/job-enqueue';
+import { withRedisLock } from '@/lib/redis-lock';
+import { isEnabled } from '@/lib/env-flags';
+
+/**
+ * Multi-source batch runs (`ingestion_batches`).
+ *
+ * Creating a batch selects enabled sources by region, type, strategy and tag and inserts one
+ * `ingestion_runs` row per source, `pending` with no `started_at`. Sources that already have an
+ * unfinished run are left out. The `batch-runs` scheduler task then starts discovery for queued runs,
+ * at most `max_concurrent_runs` per batch at once; the run orchestrator takes it from there.
+ */
+const LOCK_KEY = 'batch_runs:lock';
+const LOCK_TTL_MS = 60000;
+const PAGE_SIZE = 1000;
+const ACTIVE_RUN_STATUSES = ['pending', 'running'];
+const BATCH_RUN_COLUMNS = 'id, batch_id, source_id, status, active_stage, started_at, finished_at, error_message';
+export const DEFAULT_BATCH_MAX_CONCURRENT_RUNS = 3;
+
+export const BatchFilterSchema = z.object({
+    kraj_id: z.string().trim().min(1).optional(),
+    okres_id: z.string().trim().min(1).optional(),
+    obec_id: z.coerce.number().int().positive().optional(),
+    typ_id: z.coerce.number().int().positive().optional(),
+    crawl_strategy: z.enum(['list', 'rss']).optional(),
+    tag: z.string().trim().min(1).optional(),
+}).refine((filter) => Object.values(filter).some((value) => value !== undefined), {
+    message: 'Zadejte alespoň jeden filtr',
+});
+
+export const CreateBatchSchema = z.object({
+    name: z.string().trim().max(200).optional(),
+    filter: BatchFilterSchema,
+    max_concurrent_runs: z.coerce.number().int().min(1).max(50).default(DEFAULT_BATCH_MAX_CONCURRENT_RUNS),
+    created_by: z.string().optional(),
+    dry_run: z.boolean().optional(),
+});
+
+export type BatchFilter = z.infer<typeof BatchFilterSchema>;
+export type CreateBatchInput = z.infer<typeof CreateBatchSchema>;
+
+export interface BatchSource {
+    id: string;
+    name: string | null;
+}
+
+export interface BatchSelection {
+    sources: BatchSource[];
+    /** Matching sources left out because they already have an unfinished run. */
+    busy: BatchSource[];
+}
+
+export interface BatchRun {
+    id: string;
+    batch_id: string;
+    source_id: string | null;
+    status: string;
+    active_stage: string | null;
+    started_at: string | null;
+    finished_at: string | null;
+    error_message: string | null;
+}
+
+export interface BatchRunFailure {
+    run_id: string;
+    source_id: string | null;
+    source_name: string | null;
+    stage: string | null;
+    error_message: string | null;
+}
+
+export interface BatchSummary {
+    total: number;
+    /** Waiting for the scheduler to start discovery. */
+    queued: number;
+    running: number;
+    completed: number;
+    failed: number;
+    canceled: number;
+    /** Running runs per active stage. */
+    stages: Record<string, number>;
+    /** Finished runs (completed, failed, canceled) out of all, 0–100. */
+    progress: number;
+    finished: boolean;
+}
+
+export interface BatchOverview {
+    id: string;
+    name: string | null;
+    filter: BatchFilter;
+    max_concurrent_runs: number;
+    created_by: string | null;
+    created_at: string | null;
+    summary: BatchSummary;
+    failures: BatchRunFailure[];
+}
+
+export interface BatchDetail extends BatchOverview {
+    runs: Array<BatchRun & { source_name: string | null }>;
+}
+
+export interface BatchStartResult {
+    enabled: boolean;
+    queued: number;
+    started: Array<{ batch_id: string; run_id: string; job_id: string }>;
+    errors: Array<{ run_id: string; error: string }>;
+}
+
+function toText(value: unknown): string | null {
+    if (value === null || value === undefined) return null;
+    return String(value);
+}
+
+function toBatchRun(row: Record<string, unknown>): BatchRun {
+    return {
+        id: String(row.id),
+        batch_id: String(row.batch_id),
+        source_id: toText(row.source_id),
+        status: toText(row.status) ?? 'pending',
+        active_stage: toText(row.active_stage),
+        started_at: toText(row.started_at),
+        finished_at: toText(row.finished_at),
+        error_message: toText(row.error_message),
+    };
+}
+
+export function isQueuedBatchRun(run: Pick<BatchRun, 'status' | 'started_at'>): boolean {
+    return run.status === 'pending' && !run.started_at;
+}
+
+export function summarizeBatchRuns(runs: BatchRun[]): BatchSummary {
+    const summary: BatchSummary = {
+        total: runs.length,
+        queued: 0,
+        running: 0,
+        completed: 0,
+        failed: 0,
+        canceled: 0,
+        stages: {},
+        progress: 0,
+        finished: false,
+    };
+
+    for (const run of runs) {
+        if (isQueuedBatchRun(run)) {
+            summary.queued++;
+        } else if (ACTIVE_RUN_STATUSES.includes(run.status)) {
+            summary.running++;
+            const stage = run.active_stage || 'discovery';
+            summary.stages[stage] = (summary.stages[stage] ?? 0) + 1;
+        } else if (run.status === 'completed' || run.status === 'failed' || run.status === 'canceled') {
+            summary[run.status]++;
+        }
+    }
+
+    const done = summary.completed + summary.failed + summary.canceled;
+    summary.progress = runs.length > 0 ? Math.round((done / runs.length) * 100) : 0;
+    summary.finished = runs.length > 0 && summary.queued === 0 && summary.running === 0;
+    return summary;
+}
+
+/**
+ * Queued runs to start now, oldest first: each batch gets `max_concurrent_runs` minus its started,
+ * unfinished runs. `runs` are the unfinished runs of all batches.
+ */
+export function planBatchStarts(runs: BatchRun[], maxConcurrentRuns: Map<string, number>): BatchRun[] {
+    const byBatch = new Map<string, BatchRun[]>();
+    for (const run of runs) {
+        const batchRuns = byBatch.get(run.batch_id) ?? [];
+        batchRuns.push(run);
+        byBatch.set(run.batch_id, batchRuns);
+    }
+
+    const starts: BatchRun[] = [];
+    for (const [batchId, batchRuns] of byBatch) {
+        const queued = batchRuns.filter(isQueuedBatchRun).sort((a, b) => Number(a.id) - Number(b.id));
+        const inFlight = batchRuns.length - queued.length;
+        const limit = maxConcurrentRuns.get(batchId) ?? DEFAULT_BATCH_MAX_CONCURRENT_RUNS;
+        starts.push(...queued.slice(0, Math.max(0, limit - inFlight)));
+    }
+    return starts;
+}
+
+async function fetchAll(build: (from: number, to: number) => PromiseLike<{ data: unknown[] | null; error: { message: string } | null }>, table: string): Promise<Array<Record<string, unknown>>> {
+    const rows: Array<Record<string, unknown>> = [];
+    let from = 0;
+
+    while (true) {
+        const { data, error } = await build(from, from + PAGE_SIZE - 1);
+        if (error) throw new Error(`${table} lookup failed: ${error.message}`);
+        const page = (data ?? []) as Array<Record<string, unknown>>;
+        rows.push(...page);
+        if (page.length < PAGE_SIZE) break;
+        from += PAGE_SIZE;
+    }
+
+    return rows;
+}
+
+/**
+ * Enabled sources matching the filter, split into those a batch can run and those already busy.
+ */
+export async function selectBatchSources(filter: BatchFilter): Promise<BatchSelection> {
+    const sources = await fetchAll((from, to) => {
+        let query = supabase
+            .from('sources')
+            .select('id, name')
+            .eq('enabled', true)
+            .order('id', { ascending: true })
+            .range(from, to);
+        if (filter.kraj_id) query = query.eq('kraj_id', filter.kraj_id);
+        if (filter.okres_id) query = query.eq('okres_id', filter.okres_id);
+        if (filter.obec_id) query = query.eq('obec_id', filter.obec_id);
+        if (filter.typ_id) query = query.eq('typ_id', filter.typ_id);
+        if (filter.crawl_strategy) query = query.eq('crawl_strategy', filter.crawl_strategy);
+        // `tags` is jsonb, so the array goes over as a JSON literal.
+        if (filter.tag) query = query.contains('tags', JSON.stringify([filter.tag]));
+        return query;
+    }, 'sources');
+
+    const { data: activeRuns, error } = await supabase
+        .from('ingestion_runs')
+        .select('source_id')
+        .in('status', ACTIVE_RUN_STATUSES);
+    if (error) throw new Error(`ingestion_runs lookup failed: ${error.message}`);
+    const busySourceIds = new Set((activeRuns ?? []).map((run) => String(run.source_id)));
+
+    const selection: BatchSelection = { sources: [], busy: [] };
+    for (const row of sources) {
+        const source = { id: String(row.id), name: toText(row.name) };
+        (busySourceIds.has(source.id) ? selection.busy : selection.sources).push(source);
+    }
+    return selection;
+}
+
+/**
+ * Create the batch and its queued runs; returns null when no source can be run.
+ */
+export async function createBatch(input: CreateBatchInput, now: Date = new Date()): Promise<{ batch: BatchOverview; selection: BatchSelection } | null> {
+    const selection = await selectBatchSources(input.filter);
+    if (selection.sources.length === 0) return null;
+
+    const timestamp = now.toISOString();
+    const createdBy = input.created_by || 'batch';
+    const { data: batch, error } = await supabase
+        .from('ingestion_batches')
+        .insert([{
+            name: input.name || null,
+            filter: input.filter,
+            max_concurrent_runs: input.max_concurrent_runs,
+            created_by: createdBy,
+            created_at: timestamp,
+        }])
+        .select('*')
+        .single();
+    if (error || !batch?.id) throw new Error(error?.message || 'ingestion_batches insert failed');
+
+    const batchId = String(batch.id);
+    const runs = selection.sources.map((source) => ({
+        source_id: source.id,
+        source_url_id: null,
+        batch_id: batchId,
+        status: 'pending',
+        active_stage: 'discovery',
+        started_at: null,
+        finished_at: null,
+        error_message: null,
+        created_by: createdBy,
+        created_at: timestamp,
+        updated_at: timestamp,
+    }));
+    const { data: inserted, error: runsError } = await supabase
+        .from('ingestion_runs')
+        .insert(runs)
+        .select(BATCH_RUN_COLUMNS);
+    if (runsError) {
+        // Do not leave an empty batch behind; its runs were never created.
+        const { error: cleanupError } = await supabase.from('ingestion_batches').delete().eq('id', batchId);
+        if (cleanupError) console.error('Error deleting empty batch:', cleanupError);
+        throw new Error(`ingestion_runs insert failed: ${runsError.message}`);
+    }
+
+    const batchRuns = ((inserted ?? []) as Array<Record<string, unknown>>).map(toBatchRun);
+    return { batch: toOverview(batch, batchRuns, new Map()), selection };
+}
+
+function toOverview(row: Record<string, unknown>, runs: BatchRun[], sourceNames: Map<string, string | null>): BatchOverview {
+    return {
+        id: String(row.id),
+        name: toText(row.name),
+        filter: (row.filter ?? {}) as BatchFilter,
+        max_concurrent_runs: Number(row.max_concurrent_runs ?? DEFAULT_BATCH_MAX_CONCURRENT_RUNS),
+        created_by: toText(row.created_by),
+        created_at: toText(row.created_at),
+        summary: summarizeBatchRuns(runs),
+        failures: runs
+            .filter((run) => run.status === 'failed')
+            .map((run) => ({
+                run_id: run.id,
+                source_id: run.source_id,
+                source_name: run.source_id ? sourceNames.get(run.source_id) ?? null : null,
+                stage: run.active_stage,
+                error_message: run.error_message,
+            })),
+    };
+}
+
+async function fetchBatchRuns(batchIds: string[]): Promise<BatchRun[]> {
+    if (batchIds.length === 0) return [];
+    const rows = await fetchAll((from, to) => supabase
+        .from('ingestion_runs')
+        .select(BATCH_RUN_COLUMNS)
+        .in('batch_id', batchIds)
+        .order('id', { ascending: true })
+        .range(from, to), 'ingestion_runs');
+    return rows.map(toBatchRun);
+}
+
+async function fetchSourceNames(sourceIds: string[]): Promise<Map<string, string | null>> {
+    const names = new Map<string, string | null>();
+    const ids = Array.from(new Set(sourceIds));
+    for (let i = 0; i < ids.length; i += PAGE_SIZE) {
+        const { data, error } = await supabase
+            .from('sources')
+            .select('id, name')
+            .in('id', ids.slice(i, i + PAGE_SIZE));
+        if (error) throw new Error(`sources lookup failed: ${error.message}`);
+        for (const row of data ?? []) names.set(String(row.id), toText(row.name));
+    }
+    return names;
+}
+
+function failedSourceIds(runs: BatchRun[]): string[] {
+    return runs.filter((run) => run.status === 'failed' && run.source_id).map((run) => String(run.source_id));
+}
+
+export async function listBatches(limit = 20): Promise<BatchOverview[]> {
+    const { data: batches, error } = await supabase
+        .from('ingestion_batches')
+        .select('*')
+        .order('id', { ascending: false })
+        .limit(limit);
+    if (error) throw new Error(`ingestion_batches lookup failed: ${error.message}`);
+
+    const runs = await fetchBatchRuns((batches ?? []).map((batch) => String(batch.id)));
+    const sourceNames = await fetchSourceNames(failedSourceIds(runs));
+    return (batches ?? []).map((batch) => toOverview(batch, runs.filter((run) => run.batch_id === String(batch.id)), sourceNames));
+}
+
+export async function getBatch(batchId: string): Promise<BatchDetail | null> {
+    const { data: batch, error } = await supabase
+        .from('ingestion_batches')
+        .select('*')
+        .eq('id', batchId)
+        .maybeSingle();
+    if (error) throw new Error(`ingestion_batches lookup failed: ${error.message}`);
+    if (!batch) return null;
+
+    const runs = await fetchBatchRuns([String(batch.id)]);
+    const sourceNames = await fetchSourceNames(runs.flatMap((run) => (run.source_id ? [run.source_id] : [])));
+    return {
+        ...toOverview(batch, runs, sourceNames),
+        runs: runs.map((run) => ({ ...run, source_name: run.source_id ? sourceNames.get(run.source_id) ?? null : null })),
+    };
+}
+
+async function startBatchRun(run: BatchRun, now: Date): Promise<string> {
+    const timestamp = now.toISOString();
+    const { data: claimed, error } = await supabase
+        .from('ingestion_runs')
+        .update({ status: 'running', active_stage: 'discovery', started_at: timestamp, updated_at: timestamp })
+        .eq('id', run.id)
+        .eq('status', 'pending')
+        .is('started_at', null)
+        .select('id');
+    if (error) throw new Error(`ingestion_runs update failed: ${error.message}`);
+    // Canceled or started from the pipeline page in the meantime.
+    if (!claimed || claimed.length === 0) return '';
+
+    let jobId: string;
+    try {
+        const [job] = await enqueueJobs([{
+            task: 'discover',
+            run_id: run.id,
+            source_id: run.source_id ?? undefined,
+        }], { now, bulk: true });
+        jobId = job.id;
+    } catch (enqueueError) {
+        // A claimed run without a job would wait forever; fail it so the batch overview shows it.
+        const message = enqueueError instanceof Error ? enqueueError.message : 'Discovery enqueue failed';
+        await supabase
+            .from('ingestion_runs')
+            .update({ status: 'failed', error_message: message, finished_at: timestamp, updated_at: timestamp })
+            .eq('id', run.id);
+        throw enqueueError;
+    }
+
+    const { error: sourceError } = await supabase
+        .from('sources')
+        .update({ last_crawled_at: timestamp })
+        .eq('id', run.source_id);
+    if (sourceError) {
+        console.error(`batch-runs: failed to update last_crawled_at for source ${run.source_id}:`, sourceError.message);
+    }
+    return jobId;
+}
+
+/**
+ * Start discovery for queued batch runs, throttled per batch. Disabled with BATCH_RUNS_ENABLED=false;
+ * a short Redis lock keeps replicas from starting the same run twice.
+ */
+export async function startQueuedBatchRuns(now: Date = new Date()): Promise<BatchStartResult> {
+    const result: BatchStartResult = { enabled: false, queued: 0, started: [], errors: [] };
+    if (!isEnabled(process.env.BATCH_RUNS_ENABLED, true)) return result;
+    result.enabled = true;
+
+    const locked = await withRedisLock(LOCK_KEY, LOCK_TTL_MS, async () => {
+        const rows = await fetchAll((from, to) => supabase
+            .from('ingestion_runs')
+            .select(BATCH_RUN_COLUMNS)
+            .not('batch_id', 'is', null)
+            .in('status', ACTIVE_RUN_STATUSES)
+            .order('id', { ascending: true })
+            .range(from, to), 'ingestion_runs');
+        const runs = rows.map(toBatchRun);
+        result.queued = runs.filter(isQueuedBatchRun).length;
+        if (result.queued === 0) return result;
+
+        const batchIds = Array.from(new Set(runs.map((run) => run.batch_id)));
+        const { data: batches, error } = await supabase
+            .from('ingestion_batches')
+            .select('id, max_concurrent_runs')
+            .in('id', batchIds);
+        if (error) throw new Error(`ingestion_batches lookup failed: ${error.message}`);
+        const limits = new Map((batches ?? []).map((batch) => [
+            String(batch.id),
+            Number(batch.max_concurrent_runs) || DEFAULT_BATCH_MAX_CONCURRENT_RUNS,
+        ]));
+
+        for (const run of planBatchStarts(runs, limits)) {
+            try {
+                const jobId = await startBatchRun(run, now);
+                if (jobId) result.started.push({ batch_id: run.batch_id, run_id: run.id, job_id: jobId });
+            } catch (runError) {
+                result.errors.push({
+                    run_id: run.id,
+                    error: runError instanceof Error ? runError.message : 'Failed to start run',
+                });
+            }
+        }
+
+        return result;
+    });
+    return locked ?? result;
+}
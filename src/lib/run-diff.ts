@@ -0,0 +1,203 @@
+import { supabase } from '@/lib/supabase';
+
+/**
+ * Run-to-run comparison of two `ingestion_runs` of the same source.
+ *
+ * Items are matched by `ingestion_items.item_key` (per stage for status changes); when a run has
+ * several rows for one key, the last one wins. Reports source URLs that appeared or disappeared,
+ * documents whose `file_checksum` changed, and items that went from `completed` to `failed`.
+ */
+const PAGE_SIZE = 1000;
+const ITEM_COLUMNS = 'id, item_key, item_label, stage, item_type, status, file_checksum, source_url_id, document_id, error_message, last_error_message';
+
+export interface RunDiffInputItem {
+    item_key: string | null;
+    item_label: string | null;
+    stage: string | null;
+    item_type: string | null;
+    status: string | null;
+    file_checksum: string | null;
+    source_url_id: string | null;
+    document_id: string | null;
+    error_message: string | null;
+    last_error_message: string | null;
+}
+
+export interface RunDiffItem {
+    item_key: string;
+    item_label: string | null;
+    source_url_id: string | null;
+    document_id: string | null;
+}
+
+export interface RunDiffChecksumChange extends RunDiffItem {
+    base_checksum: string;
+    head_checksum: string;
+}
+
+export interface RunDiffRegression extends RunDiffItem {
+    stage: string;
+    error_message: string | null;
+}
+
+export interface RunDiff {
+    new_source_urls: RunDiffItem[];
+    removed_source_urls: RunDiffItem[];
+    changed_documents: RunDiffChecksumChange[];
+    regressions: RunDiffRegression[];
+}
+
+export interface RunDiffRun {
+    id: string;
+    source_id: string | null;
+    status: string | null;
+    started_at: string | null;
+    created_at: string | null;
+}
+
+function isSourceUrlItem(item: RunDiffInputItem): boolean {
+    return item.item_type === 'source_url' || item.stage === 'discovery';
+}
+
+function isDocumentItem(item: RunDiffInputItem): boolean {
+    return item.item_type === 'document' || item.stage === 'documents';
+}
+
+function toDiffItem(item: RunDiffInputItem): RunDiffItem {
+    return {
+        item_key: item.item_key ?? '',
+        item_label: item.item_label,
+        source_url_id: item.source_url_id,
+        document_id: item.document_id,
+    };
+}
+
+function indexBy(items: RunDiffInputItem[], match: (item: RunDiffInputItem) => boolean, key: (item: RunDiffInputItem) => string): Map<string, RunDiffInputItem> {
+    const index = new Map<string, RunDiffInputItem>();
+    for (const item of items) {
+        if (!item.item_key || !match(item)) continue;
+        index.set(key(item), item);
+    }
+    return index;
+}
+
+function byKey(item: RunDiffInputItem): string {
+    return item.item_key ?? '';
+}
+
+function byStageAndKey(item: RunDiffInputItem): string {
+    return `${item.stage ?? ''}:${item.item_key ?? ''}`;
+}
+
+/**
+ * Compare the items of a base (older) and head (newer) run; both lists in insertion order.
+ */
+export function diffRunItems(base: RunDiffInputItem[], head: RunDiffInputItem[]): RunDiff {
+    const baseUrls = indexBy(base, isSourceUrlItem, byKey);
+    const headUrls = indexBy(head, isSourceUrlItem, byKey);
+    const new_source_urls = Array.from(headUrls.values()).filter((item) => !baseUrls.has(byKey(item))).map(toDiffItem);
+    const removed_source_urls = Array.from(baseUrls.values()).filter((item) => !headUrls.has(byKey(item))).map(toDiffItem);
+
+    const baseDocuments = indexBy(base, isDocumentItem, byKey);
+    const changed_documents: RunDiffChecksumChange[] = [];
+    for (const item of indexBy(head, isDocumentItem, byKey).values()) {
+        const previous = baseDocuments.get(byKey(item));
+        if (!previous?.file_checksum || !item.file_checksum || previous.file_checksum === item.file_checksum) continue;
+        changed_documents.push({ ...toDiffItem(item), base_checksum: previous.file_checksum, head_checksum: item.file_checksum });
+    }
+
+    const baseStatuses = indexBy(base, () => true, byStageAndKey);
+    const regressions: RunDiffRegression[] = [];
+    for (const item of indexBy(head, () => true, byStageAndKey).values()) {
+        if (item.status !== 'failed' || baseStatuses.get(byStageAndKey(item))?.status !== 'completed') continue;
+        regressions.push({
+            ...toDiffItem(item),
+            stage: item.stage ?? '',
+            error_message: item.last_error_message || item.error_message || null,
+        });
+    }
+
+    return { new_source_urls, removed_source_urls, changed_documents, regressions };
+}
+
+function toText(value: unknown): string | null {
+    if (value === null || value === undefined) return null;
+    return String(value);
+}
+
+async function fetchRunItems(runId: string): Promise<RunDiffInputItem[]> {
+    const items: RunDiffInputItem[] = [];
+    let from = 0;
+
+    while (true) {
+        const { data, error } = await supabase
+            .from('ingestion_items')
+            .select(ITEM_COLUMNS)
+            .eq('run_id', runId)
+            .order('id', { ascending: true })
+            .range(from, from + PAGE_SIZE - 1);
+
+        if (error) throw new Error(`ingestion_items lookup failed: ${error.message}`);
+
+        const rows = (data ?? []) as Array<Record<string, unknown>>;
+        items.push(...rows.map((row) => ({
+            item_key: toText(row.item_key),
+            item_label: toText(row.item_label),
+            stage: toText(row.stage),
+            item_type: toText(row.item_type),
+            status: toText(row.status),
+            file_checksum: toText(row.file_checksum),
+            source_url_id: toText(row.source_url_id),
+            document_id: toText(row.document_id),
+            error_message: toText(row.error_message),
+            last_error_message: toText(row.last_error_message),
+        })));
+
+        if (rows.length < PAGE_SIZE) break;
+        from += PAGE_SIZE;
+    }
+
+    return items;
+}
+
+function toRun(row: Record<string, unknown>): RunDiffRun {
+    return {
+        id: String(row.id),
+        source_id: toText(row.source_id),
+        status: toText(row.status),
+        started_at: toText(row.started_at),
+        created_at: toText(row.created_at),
+    };
+}
+
+export async function fetchDiffRuns(ids: string[]): Promise<RunDiffRun[]> {
+    const { data, error } = await supabase
+        .from('ingestion_runs')
+        .select('id, source_id, status, started_at, created_at')
+        .in('id', ids);
+    if (error) throw new Error(`ingestion_runs lookup failed: ${error.message}`);
+    return (data ?? []).map(toRun);
+}
+
+/**
+ * The latest run of the same source created before `run`, i.e. the previous crawl.
+ */
+export async function findPreviousRun(run: RunDiffRun): Promise<RunDiffRun | null> {
+    if (!run.source_id || !run.created_at) return null;
+    const { data, error } = await supabase
+        .from('ingestion_runs')
+        .select('id, source_id, status, started_at, created_at')
+        .eq('source_id', run.source_id)
+        .lt('created_at', run.created_at)
+        .neq('status', 'canceled')
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+    if (error) throw new Error(`ingestion_runs lookup failed: ${error.message}`);
+    return data ? toRun(data) : null;
+}
+
+export async function compareRuns(baseRunId: string, headRunId: string): Promise<RunDiff> {
+    const [base, head] = await Promise.all([fetchRunItems(baseRunId), fetchRunItems(headRunId)]);
+    return diffRunItems(base, head);
+}
@@ -0,0 +1,333 @@
+import { redis } from '@/lib/redis';
+import { supabase } from '@/lib/supabase';
+import { DEFAULT_OCR_OPTIONS, enqueueJobs } from '@/lib/job-enqueue';
+import { runIndexKey } from '@/lib/job-index';
+import { hasDiscoveryDownloadFileStep } from '@/lib/source-config';
+import { withRedisLock } from '@/lib/redis-lock';
+import { isEnabled } from '@/lib/env-flags';
+
+/**
+ * Server-side Discovery → Download → OCR progression of ingestion runs.
+ *
+ * Each scheduler tick looks at the Redis jobs of every unfinished run (`jobs:run:{run_id}`) and, once the
+ * latest stage has settled, enqueues the next one: downloads for the source URLs discovery reported,
+ * OCR for the changed documents, then finishes the run. `ingestion_runs.active_stage` / `status` follow
+ * along, so the pipeline page only observes. A job counts as failed once it is dead-lettered; a `failed`
+ * job still waiting for the failure sweep is treated as active. When a target was enqueued more than once
+ * (e.g. a retry of failed items), only its latest job counts.
+ */
+const LOCK_KEY = 'run_orchestrator:lock';
+const LOCK_TTL_MS = 60000;
+const ACTIVE_RUN_STATUSES = ['pending', 'running'];
+const LOOKUP_BATCH_SIZE = 300;
+const MAX_RUN_JOBS = 5000;
+
+export type RunStage = 'discovery' | 'documents' | 'ocr' | 'summary';
+export type RunJobState = 'active' | 'completed' | 'failed' | 'canceled';
+
+export interface RunJob {
+    id: string;
+    task: string;
+    /** `document_id`, else `source_url_id`, else `source_id` of the job. */
+    target: string;
+    state: RunJobState;
+}
+
+export interface StageSummary {
+    total: number;
+    active: number;
+    completed: number;
+    failed: number;
+    canceled: number;
+}
+
+export type RunStep =
+    | { action: 'wait'; stage: RunStage }
+    | { action: 'fail'; stage: RunStage; error: string }
+    | { action: 'after_discovery' }
+    | { action: 'after_download' }
+    | { action: 'complete' };
+
+export interface RunAdvance {
+    run_id: string;
+    action: RunStep['action'];
+    stage: RunStage;
+    enqueued: number;
+}
+
+export interface RunOrchestratorResult {
+    enabled: boolean;
+    runs: number;
+    advanced: RunAdvance[];
+    errors: Array<{ run_id: string; error: string }>;
+}
+
+export function classifyRunJob(data: { status?: string; dead_at?: string }): RunJobState {
+    const status = (data.status ?? '').trim().toLowerCase();
+    if (status === 'completed' || status === 'done') return 'completed';
+    if (status === 'canceled') return 'canceled';
+    if (status === 'failed' && data.dead_at) return 'failed';
+    return 'active';
+}
+
+export function summarizeStage(jobs: RunJob[], task: string): StageSummary {
+    const summary: StageSummary = { total: 0, active: 0, completed: 0, failed: 0, canceled: 0 };
+    for (const job of jobs) {
+        if (job.task !== task) continue;
+        summary.total++;
+        summary[job.state]++;
+    }
+    return summary;
+}
+
+/**
+ * Keep only the latest job per task + target; `jobs` are in enqueue order.
+ */
+export function latestRunJobs(jobs: RunJob[]): RunJob[] {
+    const latest = new Map<string, RunJob>();
+    for (const job of jobs) {
+        const key = `${job.task}:${job.target}`;
+        latest.delete(key);
+        latest.set(key, job);
+    }
+    return Array.from(latest.values());
+}
+
+/**
+ * Decide what the run needs next from its jobs. Any active job means waiting, any dead-lettered one
+ * fails the run; otherwise the latest stage that has jobs is the one that just settled.
+ */
+export function planRunStep(allJobs: RunJob[]): RunStep {
+    const jobs = latestRunJobs(allJobs);
+    const discover = summarizeStage(jobs, 'discover');
+    const download = summarizeStage(jobs, 'download');
+    const ocr = summarizeStage(jobs, 'ocr');
+
+    if (ocr.active > 0) return { action: 'wait', stage: 'ocr' };
+    if (download.active > 0) return { action: 'wait', stage: 'documents' };
+    if (discover.active > 0) return { action: 'wait', stage: 'discovery' };
+
+    if (ocr.failed > 0) return { action: 'fail', stage: 'ocr', error: 'Některé OCR joby selhaly' };
+    if (download.failed > 0) return { action: 'fail', stage: 'documents', error: 'Některé download joby selhaly' };
+    if (discover.failed > 0) return { action: 'fail', stage: 'discovery', error: 'Discovery job selhal' };
+
+    if (ocr.total > 0) return { action: 'complete' };
+    if (download.total > 0) return { action: 'after_download' };
+    if (discover.total > 0) {
+        if (discover.completed === 0) return { action: 'fail', stage: 'discovery', error: 'Discovery job byl zrušen' };
+        return { action: 'after_discovery' };
+    }
+    return { action: 'wait', stage: 'discovery' };
+}
+
+export async function listRunJobs(runId: string): Promise<RunJob[]> {
+    const ids = await redis.zrange(runIndexKey(runId), 0, MAX_RUN_JOBS - 1);
+    if (ids.length === 0) return [];
+
+    const pipeline = redis.pipeline();
+    for (const id of ids) pipeline.hmget(`job:${id}`, 'task', 'status', 'dead_at', 'document_id', 'source_url_id', 'source_id');
+    const results = (await pipeline.exec()) ?? [];
+
+    return ids.flatMap((id, i) => {
+        const [task, status, deadAt, documentId, sourceUrlId, sourceId] = (results[i]?.[1] as Array<string | null> | undefined) ?? [];
+        if (!task) return [];
+        return [{
+            id,
+            task,
+            target: documentId || sourceUrlId || sourceId || '',
+            state: classifyRunJob({ status: status ?? undefined, dead_at: deadAt ?? undefined }),
+        }];
+    });
+}
+
+async function listRunItems(runId: string): Promise<Array<Record<string, unknown>>> {
+    const { data, error } = await supabase
+        .from('ingestion_items')
+        .select('source_url_id, document_id, stage, item_type')
+        .eq('run_id', runId);
+    if (error) throw new Error(`ingestion_items lookup failed: ${error.message}`);
+    return data ?? [];
+}
+
+function distinctIds(items: Array<Record<string, unknown>>, field: string, match: (item: Record<string, unknown>) => boolean): string[] {
+    const ids = new Set<string>();
+    for (const item of items) {
+        const value = item[field];
+        if (match(item) && value !== null && value !== undefined && value !== '') ids.add(String(value));
+    }
+    return Array.from(ids);
+}
+
+async function sourceSkipsDownload(sourceId: string): Promise<boolean> {
+    const { data, error } = await supabase
+        .from('sources')
+        .select('crawl_params')
+        .eq('id', sourceId)
+        .maybeSingle();
+    if (error) throw new Error(`sources lookup failed: ${error.message}`);
+    return hasDiscoveryDownloadFileStep(data?.crawl_params);
+}
+
+/**
+ * Documents of the run to OCR: those reported for the OCR stage, or every downloaded document when none were.
+ */
+async function findChangedDocuments(runId: string): Promise<Array<{ id: string; source_url_id: string }>> {
+    const items = await listRunItems(runId);
+    const documentIds = distinctIds(items, 'document_id', (item) => (
+        item.stage === 'documents' || item.stage === 'ocr' || item.item_type === 'document' || item.item_type === 'ocr_job'
+    ));
+    const ocrCandidateIds = new Set(distinctIds(items, 'document_id', (item) => item.stage === 'ocr' || item.item_type === 'ocr_job'));
+
+    const documents: Array<{ id: string; source_url_id: string }> = [];
+    for (let i = 0; i < documentIds.length; i += LOOKUP_BATCH_SIZE) {
+        const { data, error } = await supabase
+            .from('documents')
+            .select('id, source_url_id')
+            .in('id', documentIds.slice(i, i + LOOKUP_BATCH_SIZE))
+            .is('deleted_at', null);
+        if (error) throw new Error(`documents lookup failed: ${error.message}`);
+        for (const row of data ?? []) documents.push({ id: String(row.id), source_url_id: String(row.source_url_id ?? '') });
+    }
+
+    return ocrCandidateIds.size > 0 ? documents.filter((doc) => ocrCandidateIds.has(doc.id)) : documents;
+}
+
+/**
+ * OCR the changed documents that have no OCR job in the run yet, so documents downloaded by a retry
+ * are picked up without OCRing the rest again.
+ */
+async function enqueueOcr(runId: string, sourceId: string, runJobs: RunJob[], now: Date): Promise<number> {
+    const ocrDone = new Set(runJobs.filter((job) => job.task === 'ocr').map((job) => job.target));
+    const documents = (await findChangedDocuments(runId)).filter((doc) => !ocrDone.has(doc.id));
+    if (documents.length === 0) return 0;
+    const jobs = await enqueueJobs(documents.map((doc) => ({
+        task: 'ocr' as const,
+        run_id: runId,
+        source_id: sourceId || undefined,
+        source_url_id: doc.source_url_id || undefined,
+        document_id: doc.id,
+        ...DEFAULT_OCR_OPTIONS,
+    })), { now });
+    return jobs.length;
+}
+
+async function updateRun(runId: string, updates: Record<string, unknown>, now: Date): Promise<void> {
+    const { error } = await supabase
+        .from('ingestion_runs')
+        .update({ ...updates, updated_at: now.toISOString() })
+        .eq('id', runId)
+        .in('status', ACTIVE_RUN_STATUSES);
+    if (error) throw new Error(`ingestion_runs update failed: ${error.message}`);
+}
+
+async function finishRun(runId: string, now: Date): Promise<void> {
+    await updateRun(runId, {
+        status: 'completed',
+        active_stage: 'summary',
+        error_message: null,
+        finished_at: now.toISOString(),
+    }, now);
+}
+
+/**
+ * Advance one run by at most one stage. Enqueues are deduplicated per run + task + target,
+ * so repeating a step after a crash does not double the jobs.
+ */
+export async function advanceRun(
+    run: { id: string; source_id: string; status: string; active_stage: string | null },
+    now: Date = new Date(),
+): Promise<RunAdvance> {
+    const runId = run.id;
+    const jobs = await listRunJobs(runId);
+    // Nothing enqueued yet (or already archived): leave the run as it is.
+    if (jobs.length === 0) return { run_id: runId, action: 'wait', stage: 'discovery', enqueued: 0 };
+    const step = planRunStep(jobs);
+
+    if (step.action === 'wait') {
+        // Keep the row in sync with what the jobs say, e.g. after a manual enqueue from the pipeline page.
+        if (run.status !== 'running' || run.active_stage !== step.stage) {
+            await updateRun(runId, { status: 'running', active_stage: step.stage }, now);
+        }
+        return { run_id: runId, action: 'wait', stage: step.stage, enqueued: 0 };
+    }
+
+    if (step.action === 'fail') {
+        await updateRun(runId, {
+            status: 'failed',
+            active_stage: step.stage,
+            error_message: step.error,
+            finished_at: now.toISOString(),
+        }, now);
+        return { run_id: runId, action: 'fail', stage: step.stage, enqueued: 0 };
+    }
+
+    if (step.action === 'after_discovery') {
+        if (!run.source_id || !(await sourceSkipsDownload(run.source_id))) {
+            const items = await listRunItems(runId);
+            const sourceUrlIds = distinctIds(items, 'source_url_id', (item) => item.stage === 'discovery' || item.item_type === 'source_url');
+            const created = await enqueueJobs(sourceUrlIds.map((sourceUrlId) => ({
+                task: 'download' as const,
+                run_id: runId,
+                source_id: run.source_id || undefined,
+                source_url_id: sourceUrlId,
+            })), { now });
+
+            if (created.length > 0) {
+                await updateRun(runId, { status: 'running', active_stage: 'documents', error_message: null }, now);
+                return { run_id: runId, action: 'after_discovery', stage: 'documents', enqueued: created.length };
+            }
+            await finishRun(runId, now);
+            return { run_id: runId, action: 'complete', stage: 'summary', enqueued: 0 };
+        }
+    }
+
+    // After downloads, straight after discovery when it already fetched the files, or once OCR settled
+    // (documents a retried download produced still need their OCR job).
+    const enqueued = await enqueueOcr(runId, run.source_id, jobs, now);
+    if (enqueued === 0) {
+        await finishRun(runId, now);
+        return { run_id: runId, action: 'complete', stage: 'summary', enqueued: 0 };
+    }
+    await updateRun(runId, { status: 'running', active_stage: 'ocr', error_message: null }, now);
+    return { run_id: runId, action: step.action === 'complete' ? 'after_download' : step.action, stage: 'ocr', enqueued };
+}
+
+/**
+ * Advance every unfinished run. Disabled with RUN_ORCHESTRATOR_ENABLED=false; a short Redis lock
+ * keeps replicas from advancing the same run twice.
+ */
+export async function advanceRuns(now: Date = new Date()): Promise<RunOrchestratorResult> {
+    const result: RunOrchestratorResult = { enabled: false, runs: 0, advanced: [], errors: [] };
+    if (!isEnabled(process.env.RUN_ORCHESTRATOR_ENABLED, true)) return result;
+    result.enabled = true;
+
+    const locked = await withRedisLock(LOCK_KEY, LOCK_TTL_MS, async () => {
+        const { data: runs, error } = await supabase
+            .from('ingestion_runs')
+            .select('id, source_id, status, active_stage')
+            .in('status', ACTIVE_RUN_STATUSES);
+        if (error) throw new Error(error.message);
+        result.runs = (runs || []).length;
+
+        for (const run of runs || []) {
+            const runId = String(run.id);
+            try {
+                const advance = await advanceRun({
+                    id: runId,
+                    source_id: String(run.source_id ?? ''),
+                    status: String(run.status ?? ''),
+                    active_stage: run.active_stage ? String(run.active_stage) : null,
+                }, now);
+                if (advance.action !== 'wait') result.advanced.push(advance);
+            } catch (runError) {
+                result.errors.push({
+                    run_id: runId,
+                    error: runError instanceof Error ? runError.message : 'Failed to advance run',
+                });
+            }
+        }
+
+        return result;
+    });
+    return locked ?? result;
+}
@@ -0,0 +1,229 @@
+import { supabase } from '@/lib/supabase';
+
+/**
+ * Downloadable run report behind GET /api/pipeline/runs/[id]/export.
+ *
+ * Run metadata, the summary the pipeline page shows (new source URLs, changed documents, blob OK,
+ * OCR completed / failed), item counts per stage and status, and every `ingestion_items` row with
+ * its errors. CSV puts these in three blocks separated by an empty line.
+ */
+export const RUN_REPORT_FORMATS = ['csv', 'json'] as const;
+const PAGE_SIZE = 1000;
+const LOOKUP_BATCH_SIZE = 300;
+const REPORT_STAGES = ['discovery', 'documents', 'ocr'] as const;
+const REPORT_STATUSES = ['pending', 'running', 'completed', 'failed', 'canceled', 'skipped', 'review_required'] as const;
+const ITEM_COLUMNS = [
+    'id',
+    'stage',
+    'item_type',
+    'status',
+    'item_key',
+    'item_label',
+    'source_url_id',
+    'document_id',
+    'job_id',
+    'ingest_status',
+    'ingest_reason',
+    'filename',
+    'document_url',
+    'file_kind',
+    'file_checksum',
+    'error_message',
+    'last_error_message',
+    'review_reason',
+    'needs_review',
+    'created_at',
+    'updated_at',
+] as const;
+
+export type RunReportFormat = (typeof RUN_REPORT_FORMATS)[number];
+type ReportStatus = (typeof REPORT_STATUSES)[number];
+
+export type RunReportItem = Record<(typeof ITEM_COLUMNS)[number], string | null>;
+
+export interface RunReportStageCounts extends Record<ReportStatus, number> {
+    stage: string;
+    total: number;
+    other: number;
+}
+
+export interface RunReport {
+    generated_at: string;
+    run: {
+        id: string;
+        source_id: string | null;
+        source_name: string | null;
+        status: string | null;
+        active_stage: string | null;
+        started_at: string | null;
+        finished_at: string | null;
+        error_message: string | null;
+        created_at: string | null;
+    };
+    summary: {
+        new_source_urls: number;
+        changed_documents: number;
+        blob_ok: number;
+        ocr_completed: number;
+        ocr_failed: number;
+    };
+    stages: RunReportStageCounts[];
+    items: RunReportItem[];
+}
+
+function toText(value: unknown): string | null {
+    if (value === null || value === undefined) return null;
+    return String(value);
+}
+
+function hasBlobStorage(value: unknown): boolean {
+    if (value === null || value === undefined) return false;
+    if (typeof value === 'string') return value.trim().length > 0;
+    if (typeof value === 'object') return Object.keys(value as Record<string, unknown>).length > 0;
+    return Boolean(value);
+}
+
+function distinct(items: RunReportItem[], field: 'source_url_id' | 'document_id', match: (item: RunReportItem) => boolean): string[] {
+    return Array.from(new Set(items.filter(match).map((item) => item[field]).filter((id): id is string => Boolean(id))));
+}
+
+export function countStages(items: RunReportItem[]): RunReportStageCounts[] {
+    const stages = [...REPORT_STAGES, ...new Set(items.map((item) => item.stage ?? '').filter((stage) => stage && !(REPORT_STAGES as readonly string[]).includes(stage)))];
+    return stages.map((stage) => {
+        const counts = Object.fromEntries(REPORT_STATUSES.map((status) => [status, 0])) as Record<ReportStatus, number>;
+        let total = 0;
+        let other = 0;
+        for (const item of items) {
+            if (item.stage !== stage) continue;
+            total++;
+            const status = (item.status ?? '') as ReportStatus;
+            if ((REPORT_STATUSES as readonly string[]).includes(status)) counts[status]++;
+            else other++;
+        }
+        return { stage, total, ...counts, other };
+    });
+}
+
+/**
+ * The on-screen summary computed from the run's items; blob OK needs the documents' storage info.
+ */
+export function summarizeRunItems(items: RunReportItem[], blobOkDocumentIds: Set<string>): RunReport['summary'] {
+    const changedDocumentIds = distinct(items, 'document_id', (item) => item.stage === 'documents' || item.stage === 'ocr');
+    const ocrItems = items.filter((item) => item.stage === 'ocr');
+    return {
+        new_source_urls: distinct(items, 'source_url_id', (item) => item.stage === 'discovery').length,
+        changed_documents: changedDocumentIds.length,
+        blob_ok: changedDocumentIds.filter((id) => blobOkDocumentIds.has(id)).length,
+        ocr_completed: ocrItems.filter((item) => item.status === 'completed').length,
+        ocr_failed: ocrItems.filter((item) => item.status === 'failed').length,
+    };
+}
+
+async function fetchReportItems(runId: string): Promise<RunReportItem[]> {
+    const items: RunReportItem[] = [];
+    let from = 0;
+
+    while (true) {
+        const { data, error } = await supabase
+            .from('ingestion_items')
+            .select(ITEM_COLUMNS.join(', '))
+            .eq('run_id', runId)
+            .order('id', { ascending: true })
+            .range(from, from + PAGE_SIZE - 1);
+
+        if (error) throw new Error(`ingestion_items lookup failed: ${error.message}`);
+
+        const rows = (data ?? []) as unknown as Array<Record<string, unknown>>;
+        items.push(...rows.map((row) => Object.fromEntries(ITEM_COLUMNS.map((column) => [column, toText(row[column])])) as RunReportItem));
+
+        if (rows.length < PAGE_SIZE) break;
+        from += PAGE_SIZE;
+    }
+
+    return items;
+}
+
+async function findBlobOkDocuments(documentIds: string[]): Promise<Set<string>> {
+    const ok = new Set<string>();
+    for (let i = 0; i < documentIds.length; i += LOOKUP_BATCH_SIZE) {
+        const { data, error } = await supabase
+            .from('documents')
+            .select('id, external_storage')
+            .in('id', documentIds.slice(i, i + LOOKUP_BATCH_SIZE));
+        if (error) throw new Error(`documents lookup failed: ${error.message}`);
+        for (const row of data ?? []) {
+            if (hasBlobStorage(row.external_storage)) ok.add(String(row.id));
+        }
+    }
+    return ok;
+}
+
+/**
+ * Build the report; returns null when the run does not exist.
+ */
+export async function buildRunReport(runId: string, now: Date = new Date()): Promise<RunReport | null> {
+    const { data: run, error } = await supabase
+        .from('ingestion_runs')
+        .select('id, source_id, status, active_stage, started_at, finished_at, error_message, created_at')
+        .eq('id', runId)
+        .maybeSingle();
+    if (error) throw new Error(`ingestion_runs lookup failed: ${error.message}`);
+    if (!run) return null;
+
+    let sourceName: string | null = null;
+    if (run.source_id) {
+        const { data: source } = await supabase.from('sources').select('name').eq('id', run.source_id).maybeSingle();
+        sourceName = toText(source?.name);
+    }
+
+    const items = await fetchReportItems(runId);
+    const blobOk = await findBlobOkDocuments(distinct(items, 'document_id', (item) => item.stage === 'documents' || item.stage === 'ocr'));
+
+    return {
+        generated_at: now.toISOString(),
+        run: {
+            id: String(run.id),
+            source_id: toText(run.source_id),
+            source_name: sourceName,
+            status: toText(run.status),
+            active_stage: toText(run.active_stage),
+            started_at: toText(run.started_at),
+            finished_at: toText(run.finished_at),
+            error_message: toText(run.error_message),
+            created_at: toText(run.created_at),
+        },
+        summary: summarizeRunItems(items, blobOk),
+        stages: countStages(items),
+        items,
+    };
+}
+
+function csvCell(value: unknown): string {
+    let text = value === null || value === undefined ? '' : String(value);
+    // Scraped labels and URLs end up here; keep spreadsheets from evaluating them as formulas.
+    if (/^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function csvRow(values: unknown[]): string {
+    return values.map(csvCell).join(',');
+}
+
+export function formatRunReportCsv(report: RunReport): string {
+    const lines: string[] = [csvRow(['field', 'value'])];
+    for (const [key, value] of Object.entries(report.run)) lines.push(csvRow([`run.${key}`, value]));
+    for (const [key, value] of Object.entries(report.summary)) lines.push(csvRow([`summary.${key}`, value]));
+    lines.push(csvRow(['generated_at', report.generated_at]));
+
+    lines.push('');
+    lines.push(csvRow(['stage', 'total', ...REPORT_STATUSES, 'other']));
+    for (const stage of report.stages) {
+        lines.push(csvRow([stage.stage, stage.total, ...REPORT_STATUSES.map((status) => stage[status]), stage.other]));
+    }
+
+    lines.push('');
+    lines.push(csvRow([...ITEM_COLUMNS]));
+    for (const item of report.items) lines.push(csvRow(ITEM_COLUMNS.map((column) => item[column])));
+
+    return `${lines.join('\r\n')}\r\n`;
+}
@@ -0,0 +1,95 @@
+import { supabase } from '@/lib/supabase';
+import { DEFAULT_OCR_OPTIONS, enqueueJobs, type EnqueueJobInput } from '@/lib/job-enqueue';
+
+/**
+ * Retry only the failed items of one run stage.
+ *
+ * - `ingestion_items` with `status=failed` in the stage are re-enqueued under the same `run_id`:
+ *   download jobs per `source_url_id` (stage `documents`), OCR jobs per `document_id` (stage `ocr`).
+ * - Those items go back to `pending` and point at their new job.
+ * - The run is reopened (`running`, stage of the retry), so the run orchestrator follows the new jobs;
+ *   they supersede the failed jobs of the same targets.
+ */
+export const RETRY_STAGES = ['documents', 'ocr'] as const;
+
+export type RetryStage = (typeof RETRY_STAGES)[number];
+
+export interface RunRetryResult {
+    run_id: string;
+    stage: RetryStage;
+    /** Failed items found in the stage. */
+    items: number;
+    /** New jobs; several items of one target share a job, and a target that is already queued is not queued again. */
+    enqueued: number;
+    /** Failed items without the target id the stage needs. */
+    skipped: number;
+}
+
+interface FailedItem {
+    id: string;
+    source_id: string | null;
+    target: string | null;
+}
+
+async function listFailedItems(runId: string, stage: RetryStage): Promise<FailedItem[]> {
+    const { data, error } = await supabase
+        .from('ingestion_items')
+        .select('id, source_id, source_url_id, document_id')
+        .eq('run_id', runId)
+        .eq('stage', stage)
+        .eq('status', 'failed');
+    if (error) throw new Error(`ingestion_items lookup failed: ${error.message}`);
+
+    return (data ?? []).map((row) => {
+        const target = stage === 'ocr' ? row.document_id : row.source_url_id;
+        return {
+            id: String(row.id),
+            source_id: row.source_id ? String(row.source_id) : null,
+            target: target ? String(target) : null,
+        };
+    });
+}
+
+function buildRetryJob(stage: RetryStage, runId: string, sourceId: string | undefined, target: string): EnqueueJobInput {
+    if (stage === 'ocr') {
+        return { task: 'ocr', run_id: runId, source_id: sourceId, document_id: target, manual: true, ...DEFAULT_OCR_OPTIONS };
+    }
+    return { task: 'download', run_id: runId, source_id: sourceId, source_url_id: target, manual: true };
+}
+
+export async function retryFailedRunItems(
+    run: { id: string; source_id: string | null },
+    stage: RetryStage,
+    now: Date = new Date(),
+): Promise<RunRetryResult> {
+    const timestamp = now.toISOString();
+    const items = await listFailedItems(run.id, stage);
+    const retryable = items.filter((item): item is FailedItem & { target: string } => Boolean(item.target));
+    const result: RunRetryResult = { run_id: run.id, stage, items: items.length, enqueued: 0, skipped: items.length - retryable.length };
+    if (retryable.length === 0) return result;
+
+    const targets = Array.from(new Set(retryable.map((item) => item.target)));
+    const jobs = await enqueueJobs(targets.map((target) => {
+        const sourceId = run.source_id ?? retryable.find((item) => item.target === target)?.source_id ?? undefined;
+        return buildRetryJob(stage, run.id, sourceId, target);
+    }), { now });
+    result.enqueued = jobs.filter((job) => !job.deduplicated).length;
+
+    const jobIdByTarget = new Map(targets.map((target, index) => [target, jobs[index]?.id]));
+    for (const target of targets) {
+        const itemIds = retryable.filter((item) => item.target === target).map((item) => item.id);
+        const { error } = await supabase
+            .from('ingestion_items')
+            .update({ status: 'pending', job_id: jobIdByTarget.get(target) ?? null, updated_at: timestamp })
+            .in('id', itemIds);
+        if (error) throw new Error(`ingestion_items update failed: ${error.message}`);
+    }
+
+    const { error: runError } = await supabase
+        .from('ingestion_runs')
+        .update({ status: 'running', active_stage: stage, error_message: null, finished_at: null, updated_at: timestamp })
+        .eq('id', run.id);
+    if (runError) throw new Error(`ingestion_runs update failed: ${runError.message}`);
+
+    return result;
+}
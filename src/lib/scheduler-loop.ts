@@ -0,0 +1,88 @@
+import { fireDueSchedules } from '@/lib/job-schedules';
+import { runAutoCrawl } from '@/lib/auto-crawl';
+import { startQueuedBatchRuns } from '@/lib/run-batches';
+import { promoteDelayedJobs, sweepFailedJobs } from '@/lib/dead-letter';
+import { reconcileJobIndex } from '@/lib/job-index';
+import { reapStuckJobs } from '@/lib/job-reaper';
+import { advanceRuns } from '@/lib/run-orchestrator';
+import { archiveExpiredJobs } from '@/lib/job-retention';
+import { syncSourceRateLimits } from '@/lib/source-rate-limits';
+import { isEnabled } from '@/lib/env-flags';
+
+const DEFAULT_INTERVAL_MS = 15000;
+
+interface SchedulerTask {
+    name: string;
+    run: (now: Date) => Promise<unknown>;
+}
+
+export interface SchedulerTickResult {
+    name: string;
+    ok: boolean;
+    result?: unknown;
+    error?: string;
+}
+
+/**
+ * Periodic maintenance tasks run by the in-process scheduler loop
+ * and by POST /api/schedules/tick. Every task must be safe to run
+ * concurrently from several app replicas.
+ */
+const SCHEDULER_TASKS: SchedulerTask[] = [
+    { name: 'job-schedules', run: fireDueSchedules },
+    { name: 'auto-crawl', run: runAutoCrawl },
+    { name: 'batch-runs', run: startQueuedBatchRuns },
+    // Runs before the failure sweep, which reads failed jobs from the status index.
+    { name: 'job-index', run: reconcileJobIndex },
+    // Reaped jobs are marked failed, so the failure sweep right after retries or dead-letters them.
+    { name: 'job-reaper', run: reapStuckJobs },
+    { name: 'failed-jobs', run: sweepFailedJobs },
+    { name: 'delayed-retries', run: promoteDelayedJobs },
+    // After the failure sweep, so a job that just ran out of attempts is already dead-lettered.
+    { name: 'run-orchestrator', run: advanceRuns },
+    { name: 'job-retention', run: archiveExpiredJobs },
+    { name: 'source-limits', run: syncSourceRateLimits },
+];
+
+export function getSchedulerIntervalMs(): number {
+    const raw = process.env.SCHEDULER_INTERVAL_MS;
+    if (!raw) return DEFAULT_INTERVAL_MS;
+    const parsed = Number.parseInt(raw, 10);
+    if (!Number.isFinite(parsed)) return DEFAULT_INTERVAL_MS;
+    return Math.max(1000, Math.min(parsed, 300000));
+}
+
+export async function runSchedulerTick(now: Date = new Date()): Promise<SchedulerTickResult[]> {
+    const results: SchedulerTickResult[] = [];
+    for (const task of SCHEDULER_TASKS) {
+        try {
+            results.push({ name: task.name, ok: true, result: await task.run(now) });
+        } catch (error) {
+            console.error(`Scheduler task ${task.name} failed:`, error);
+            results.push({ name: task.name, ok: false, error: error instanceof Error ? error.message : String(error) });
+        }
+    }
+    return results;
+}
+
+/**
+ * Start the background scheduler loop once per process.
+ * Disabled with SCHEDULER_ENABLED=false (e.g. when an external cron calls the tick endpoint).
+ */
+export function startSchedulerLoop(): void {
+    if (!isEnabled(process.env.SCHEDULER_ENABLED, true)) return;
+
+    const globalForScheduler = globalThis as typeof globalThis & { __schedulerLoop?: ReturnType<typeof setInterval> };
+    if (globalForScheduler.__schedulerLoop) return;
+
+    let running = false;
+    globalForScheduler.__schedulerLoop = setInterval(async () => {
+        if (running) return;
+        running = true;
+        try {
+            await runSchedulerTick();
+        } finally {
+            running = false;
+        }
+    }, getSchedulerIntervalMs());
+}
@@ -95,6 +95,18 @@ export interface SourceRssExtractionDataV1 extends SourceConfigEnvelopeBaseV1 {
 
 export type SourceConfigEnvelopeV1 = SourceListExtractionDataV1 | SourceRssExtractionDataV1;
 
+export type SourceRateLimitScope = 'source' | 'domain';
+
+/**
+ * Crawl limits stored in `sources.rate_limits`; `null` fields mean no limit.
+ * With `scope = domain` all sources sharing the `base_url` host share one budget.
+ */
+export interface SourceRateLimits {
+    scope: SourceRateLimitScope;
+    max_concurrent_jobs: number | null;
+    requests_per_minute: number | null;
+}
+
 const UrlSchema = z.string().trim().url();
 
 const NullableIntegerSchema = z.preprocess((value) => {
@@ -110,6 +122,18 @@ const NullableStringSchema = z.preprocess((value) => {
     return text.length > 0 ? text : null;
 }, z.string().nullable());
 
+const PositiveLimitSchema = z.preprocess((value) => {
+    if (value === null || value === undefined || value === '') return null;
+    if (typeof value === 'string') return Number(value);
+    return value;
+}, z.number().int().min(1).max(10000).nullable());
+
+export const SourceRateLimitsSchema = z.object({
+    scope: z.enum(['source', 'domain']).default('source'),
+    max_concurrent_jobs: PositiveLimitSchema.default(null),
+    requests_per_minute: PositiveLimitSchema.default(null),
+}).strict();
+
 const RuntimeRulesSchema = z.object({
     accepted_queue_tasks: z.tuple([z.literal('discover'), z.literal('download')]),
     effective_crawl_params_precedence: z.literal('sources.crawl_params -> sources.extraction_data -> {}'),
@@ -220,8 +244,81 @@ const BaseSourcePayloadSchema = z.object({
     obec_id: NullableIntegerSchema.optional().default(null),
     okres_id: NullableStringSchema.optional().default(null),
     kraj_id: NullableStringSchema.optional().default(null),
+    rate_limits: SourceRateLimitsSchema.nullable().optional(),
 });
 
+/**
+ * Limits from the metadata form inputs; returns null when neither limit is set.
+ */
+export function buildSourceRateLimits(input: {
+    scope: SourceRateLimitScope;
+    maxConcurrentJobs: string;
+    requestsPerMinute: string;
+}): SourceRateLimits | null {
+    const toLimit = (value: string) => {
+        const parsed = Number.parseInt(value.trim(), 10);
+        return Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+    };
+    const limits: SourceRateLimits = {
+        scope: input.scope,
+        max_concurrent_jobs: toLimit(input.maxConcurrentJobs),
+        requests_per_minute: toLimit(input.requestsPerMinute),
+    };
+    return limits.max_concurrent_jobs === null && limits.requests_per_minute === null ? null : limits;
+}
+
+/**
+ * Redis budget a source's jobs count against: `source:{id}` or `domain:{host}` (without `www.`).
+ */
+export function sourceRateLimitKey(source: { id: string | number; base_url: string }, scope: SourceRateLimitScope): string {
+    if (scope === 'domain') {
+        try {
+            const host = new URL(source.base_url).hostname.toLowerCase().replace(/^www\./, '');
+            if (host) return `domain:${host}`;
+        } catch {
+            // Fall back to the per-source budget for an unparsable base_url.
+        }
+    }
+    return `source:${source.id}`;
+}
+
+function isObjectRecord(value: unknown): value is Record<string, unknown> {
+    return value !== null && typeof value === 'object';
+}
+
+/**
+ * Discovery chains with a `download_file` step fetch the documents themselves, so the run skips the download stage.
+ */
+export function hasDiscoveryDownloadFileStep(crawlParams: unknown): boolean {
+    if (!isObjectRecord(crawlParams)) return false;
+    const discovery = crawlParams.discovery;
+    if (!isObjectRecord(discovery)) return false;
+    const chain = discovery.chain;
+    if (!Array.isArray(chain)) return false;
+
+    const visit = (nodes: unknown[]): boolean => {
+        for (const node of nodes) {
+            if (!isObjectRecord(node)) continue;
+            const repeater = node.repeater;
+            if (isObjectRecord(repeater) && Array.isArray(repeater.steps)) {
+                const hasDownloadFile = repeater.steps.some((step) => (
+                    isObjectRecord(step) && step.type === 'download_file'
+                ));
+                if (hasDownloadFile) return true;
+            }
+
+            const children = node.children;
+            if (Array.isArray(children) && visit(children)) {
+                return true;
+            }
+        }
+
+        return false;
+    };
+
+    return visit(chain);
+}
+
 export function buildListSourceConfig(crawlParams: UnifiedWorkerCrawlParams): {
     crawl_params: UnifiedWorkerCrawlParams;
     extraction_data: SourceListExtractionDataV1;
@@ -352,6 +449,7 @@ export type ValidatedSourcePayload =
         obec_id: number | null;
         okres_id: string | null;
         kraj_id: string | null;
+        rate_limits?: SourceRateLimits | null;
     }
     | {
         name: string;
@@ -365,6 +463,7 @@ export type ValidatedSourcePayload =
         obec_id: number | null;
         okres_id: string | null;
         kraj_id: string | null;
+        rate_limits?: SourceRateLimits | null;
     };
 
 export type SourcePayloadValidationResult =
@@ -412,6 +511,7 @@ export function validateSourcePayload(payload: unknown): SourcePayloadValidation
                 obec_id: parsed.obec_id,
                 okres_id: parsed.okres_id,
                 kraj_id: parsed.kraj_id,
+                rate_limits: parsed.rate_limits,
             },
         };
     }
@@ -446,6 +546,7 @@ export function validateSourcePayload(payload: unknown): SourcePayloadValidation
             obec_id: parsed.obec_id,
             okres_id: parsed.okres_id,
             kraj_id: parsed.kraj_id,
+            rate_limits: parsed.rate_limits,
         },
     };
 }
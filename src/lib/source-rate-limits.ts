@@ -0,0 +1,104 @@
+import { redis } from '@/lib/redis';
+import { supabase } from '@/lib/supabase';
+import { SourceRateLimitsSchema, sourceRateLimitKey } from '@/lib/source-config';
+
+/**
+ * Per-source crawl limits published to Redis for the workers.
+ *
+ * - `source_limits` — hash of source id -> JSON `{ key, max_concurrent_jobs, requests_per_minute }`.
+ * - `ratelimit:{key}:active` — zset of job ids holding a concurrency slot, scored by lease expiry (ms).
+ * - `ratelimit:{key}:rpm:{minute}` — request counter for one epoch minute.
+ *
+ * Workers acquire and release the tokens (see the worker contract); the app only keeps
+ * `source_limits` in step with `sources.rate_limits`, on save and periodically from the scheduler.
+ */
+export const SOURCE_LIMITS_KEY = 'source_limits';
+const SYNC_LOCK_KEY = 'source_limits:sync_lock';
+const SYNC_INTERVAL_MS = 5 * 60 * 1000;
+
+export interface PublishedSourceLimit {
+    key: string;
+    max_concurrent_jobs: number | null;
+    requests_per_minute: number | null;
+}
+
+export interface SourceLimitsSyncResult {
+    skipped: boolean;
+    synced: number;
+}
+
+/**
+ * Resolve a `sources` row into the entry workers read, or null when it has no effective limit.
+ */
+export function toPublishedSourceLimit(source: {
+    id: string | number;
+    base_url: string;
+    rate_limits?: unknown;
+}): PublishedSourceLimit | null {
+    if (!source.rate_limits) return null;
+    const parsed = SourceRateLimitsSchema.safeParse(source.rate_limits);
+    if (!parsed.success) return null;
+    const { scope, max_concurrent_jobs, requests_per_minute } = parsed.data;
+    if (max_concurrent_jobs === null && requests_per_minute === null) return null;
+    return { key: sourceRateLimitKey(source, scope), max_concurrent_jobs, requests_per_minute };
+}
+
+/**
+ * Write (or clear) one source's entry right after it was saved.
+ */
+export async function publishSourceRateLimits(source: {
+    id: string | number;
+    base_url: string;
+    rate_limits?: unknown;
+}): Promise<void> {
+    const limit = toPublishedSourceLimit(source);
+    if (!limit) {
+        await redis.hdel(SOURCE_LIMITS_KEY, String(source.id));
+        return;
+    }
+    await redis.hset(SOURCE_LIMITS_KEY, String(source.id), JSON.stringify(limit));
+}
+
+/**
+ * Publish from the source save routes. The scheduler re-syncs source_limits,
+ * so a Redis hiccup is only logged and must not fail the save.
+ */
+export async function publishSavedSourceRateLimits(source: {
+    id: string | number;
+    base_url: string;
+    rate_limits?: unknown;
+}): Promise<void> {
+    try {
+        await publishSourceRateLimits(source);
+    } catch (error) {
+        console.error('Failed to publish source rate limits:', error);
+    }
+}
+
+/**
+ * Rebuild `source_limits` from Supabase, at most once per interval across replicas.
+ * Catches limits edited outside the source editor (e.g. the database manager).
+ */
+export async function syncSourceRateLimits(): Promise<SourceLimitsSyncResult> {
+    const acquired = await redis.set(SYNC_LOCK_KEY, '1', 'PX', SYNC_INTERVAL_MS, 'NX');
+    if (acquired !== 'OK') return { skipped: true, synced: 0 };
+
+    const { data, error } = await supabase
+        .from('sources')
+        .select('id, base_url, rate_limits')
+        .not('rate_limits', 'is', null);
+
+    if (error) throw new Error(`sources rate_limits read failed: ${error.message}`);
+
+    const entries: Record<string, string> = {};
+    for (const row of data ?? []) {
+        const limit = toPublishedSourceLimit(row);
+        if (limit) entries[String(row.id)] = JSON.stringify(limit);
+    }
+
+    const pipeline = redis.multi().del(SOURCE_LIMITS_KEY);
+    if (Object.keys(entries).length > 0) pipeline.hset(SOURCE_LIMITS_KEY, entries);
+    await pipeline.exec();
+
+    return { skipped: false, synced: Object.keys(entries).length };
+}
@@ -1,7 +1,7 @@
 /**
  * json-e template for Redis job hash payload.
  *
- * Used by /api/pipeline/jobs and /api/tasks when enqueuing jobs.
+ * Rendered by enqueueJobs (src/lib/job-enqueue.ts) for every job the app creates.
  * All fields are strings (Redis hash values).
  */
 export const JOB_PAYLOAD_TEMPLATE = {
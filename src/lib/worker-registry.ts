@@ -0,0 +1,177 @@
+import { redis } from '@/lib/redis';
+import { WORKER_COUNTS_KEY, workerCompletionsKey } from '@/lib/job-index';
+import { getReaperConfig, WORKER_HEARTBEAT_KEY } from '@/lib/job-reaper';
+import { getPortainerConfig, listDockerContainers, type DockerContainerSummary } from '@/lib/portainer';
+
+/**
+ * Worker registry built from what workers report into Redis.
+ *
+ * - `workers:heartbeat` — hash of worker id -> last heartbeat (ISO); also the list of known workers.
+ * - `worker:{id}` — hash with `host`, `version`, `current_job`, `started_at`, `last_heartbeat`.
+ *
+ * Throughput and failure rate come from the per-worker counters kept by the job index.
+ */
+const HOUR_MS = 60 * 60 * 1000;
+
+export function workerInfoKey(id: string): string {
+    return `worker:${id}`;
+}
+
+export interface WorkerCurrentJob {
+    id: string;
+    task: string;
+    status: string;
+    started_at: string;
+}
+
+export interface WorkerContainerLink {
+    id: string;
+    name: string;
+    state: string;
+    url: string;
+}
+
+export interface WorkerRegistryEntry {
+    id: string;
+    host: string;
+    version: string;
+    started_at: string;
+    last_heartbeat: string;
+    alive: boolean;
+    completed: number;
+    failed: number;
+    failure_rate: number | null;
+    completed_last_hour: number;
+    completed_last_24h: number;
+    current_job: WorkerCurrentJob | null;
+    container: WorkerContainerLink | null;
+}
+
+export interface WorkerRegistryResponse {
+    success: boolean;
+    heartbeat_timeout_ms: number;
+    workers: WorkerRegistryEntry[];
+    warnings: string[];
+}
+
+function toCount(value: string | undefined): number {
+    const parsed = Number.parseInt(value ?? '', 10);
+    return Number.isFinite(parsed) && parsed > 0 ? parsed : 0;
+}
+
+function containerName(container: DockerContainerSummary): string {
+    const raw = container.Names?.[0] ?? '';
+    return raw.startsWith('/') ? raw.slice(1) : raw;
+}
+
+/**
+ * Find the container a worker runs in: by container name equal to the worker id or host,
+ * or by the short container id, which Docker uses as the default hostname.
+ */
+export function matchWorkerContainer(
+    worker: { id: string; host: string },
+    containers: DockerContainerSummary[],
+): DockerContainerSummary | null {
+    const candidates = [worker.id, worker.host].filter(Boolean);
+    for (const container of containers) {
+        const name = containerName(container);
+        if (name && candidates.includes(name)) return container;
+    }
+    if (worker.host && worker.host.length >= 12) {
+        return containers.find((container) => container.Id.startsWith(worker.host)) ?? null;
+    }
+    return null;
+}
+
+export function computeFailureRate(completed: number, failed: number): number | null {
+    const finished = completed + failed;
+    return finished > 0 ? failed / finished : null;
+}
+
+async function loadContainers(warnings: string[]): Promise<{ containers: DockerContainerSummary[]; urlFor: (id: string) => string }> {
+    try {
+        const config = getPortainerConfig();
+        const containers = await listDockerContainers(config);
+        return {
+            containers,
+            urlFor: (id) => `${config.baseUrl}/#!/${config.endpointId}/docker/containers/${id}`,
+        };
+    } catch (error) {
+        warnings.push(`Portainer containers unavailable: ${error instanceof Error ? error.message : 'unknown error'}`);
+        return { containers: [], urlFor: () => '' };
+    }
+}
+
+export async function listWorkers(now: Date = new Date()): Promise<WorkerRegistryResponse> {
+    const warnings: string[] = [];
+    const { heartbeat_timeout_ms: heartbeatTimeoutMs } = getReaperConfig();
+    const [heartbeats, counts] = await Promise.all([
+        redis.hgetall(WORKER_HEARTBEAT_KEY),
+        redis.hgetall(WORKER_COUNTS_KEY),
+    ]);
+    const ids = Object.keys(heartbeats).sort();
+    if (ids.length === 0) return { success: true, heartbeat_timeout_ms: heartbeatTimeoutMs, workers: [], warnings };
+
+    const nowMs = now.getTime();
+    const pipeline = redis.pipeline();
+    for (const id of ids) {
+        pipeline.hgetall(workerInfoKey(id));
+        pipeline.zcount(workerCompletionsKey(id), nowMs - HOUR_MS, '+inf');
+        pipeline.zcount(workerCompletionsKey(id), nowMs - 24 * HOUR_MS, '+inf');
+    }
+    const results = (await pipeline.exec()) ?? [];
+
+    const infos = ids.map((_, index) => (results[index * 3]?.[1] as Record<string, string> | null) ?? {});
+    const currentJobIds = infos.map((info) => info.current_job || '');
+
+    const jobPipeline = redis.pipeline();
+    for (const jobId of currentJobIds) {
+        if (jobId) jobPipeline.hmget(`job:${jobId}`, 'task', 'status', 'started_at');
+    }
+    const jobResults = currentJobIds.some(Boolean) ? (await jobPipeline.exec()) ?? [] : [];
+
+    const { containers, urlFor } = await loadContainers(warnings);
+
+    let jobCursor = 0;
+    const workers = ids.map((id, index): WorkerRegistryEntry => {
+        const info = infos[index];
+        const lastHeartbeat = heartbeats[id];
+        const beatMs = new Date(lastHeartbeat).getTime();
+        const completed = toCount(counts[`${id}:completed`]);
+        const failed = toCount(counts[`${id}:failed`]);
+
+        let currentJob: WorkerCurrentJob | null = null;
+        if (currentJobIds[index]) {
+            const [task, status, startedAt] = (jobResults[jobCursor++]?.[1] as Array<string | null>) ?? [];
+            currentJob = {
+                id: currentJobIds[index],
+                task: task || 'unknown',
+                status: status || 'unknown',
+                started_at: startedAt || '',
+            };
+        }
+
+        const host = info.host || '';
+        const container = matchWorkerContainer({ id, host }, containers);
+
+        return {
+            id,
+            host,
+            version: info.version || '',
+            started_at: info.started_at || '',
+            last_heartbeat: lastHeartbeat,
+            alive: !Number.isNaN(beatMs) && nowMs - beatMs <= heartbeatTimeoutMs,
+            completed,
+            failed,
+            failure_rate: computeFailureRate(completed, failed),
+            completed_last_hour: Number(results[index * 3 + 1]?.[1] ?? 0),
+            completed_last_24h: Number(results[index * 3 + 2]?.[1] ?? 0),
+            current_job: currentJob,
+            container: container
+                ? { id: container.Id, name: containerName(container) || container.Id.slice(0, 12), state: container.State ?? 'unknown', url: urlFor(container.Id) }
+                : null,
+        };
+    });
+
+    return { success: true, heartbeat_timeout_ms: heartbeatTimeoutMs, workers, warnings };
+}
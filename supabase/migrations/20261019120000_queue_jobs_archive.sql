@@ -0,0 +1,43 @@
+begin;
+
+create table if not exists public.queue_jobs_archive (
+  id bigint generated by default as identity primary key,
+  job_id text not null,
+  task text not null,
+  status text not null,
+  run_id text,
+  source_id text,
+  source_url_id text,
+  document_id text,
+  worker text,
+  manual boolean not null default false,
+  attempts integer not null default 0,
+  max_attempts integer,
+  error_message text,
+  error_history jsonb,
+  payload jsonb not null default '{}'::jsonb,
+  created_at timestamp with time zone,
+  started_at timestamp with time zone,
+  completed_at timestamp with time zone,
+  duration_ms bigint,
+  archived_at timestamp with time zone not null default now()
+);
+
+-- Redis job ids restart after a queue flush, so a job is identified by (job_id, created_at).
+-- NULLS NOT DISTINCT keeps re-archiving a job without created_at idempotent.
+create unique index if not exists queue_jobs_archive_job_created_uidx
+  on public.queue_jobs_archive (job_id, created_at) nulls not distinct;
+
+create index if not exists queue_jobs_archive_completed_idx
+  on public.queue_jobs_archive (completed_at desc);
+
+create index if not exists queue_jobs_archive_run_idx
+  on public.queue_jobs_archive (run_id);
+
+create index if not exists queue_jobs_archive_source_idx
+  on public.queue_jobs_archive (source_id);
+
+create index if not exists queue_jobs_archive_task_status_idx
+  on public.queue_jobs_archive (task, status);
+
+commit;
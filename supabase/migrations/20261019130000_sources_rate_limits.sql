@@ -0,0 +1,4 @@
+-- Per-source crawl limits: { scope: 'source' | 'domain', max_concurrent_jobs, requests_per_minute }.
+-- NULL means unlimited. The app publishes them to the Redis hash `source_limits` for the workers.
+ALTER TABLE public.sources
+ADD COLUMN IF NOT EXISTS rate_limits jsonb;
@@ -0,0 +1,28 @@
+begin;
+
+-- Free-form source labels (jsonb array of strings) used to select sources for batch runs.
+alter table public.sources
+  add column if not exists tags jsonb;
+
+create index if not exists sources_tags_idx
+  on public.sources using gin (tags);
+
+create table if not exists public.ingestion_batches (
+  id bigint generated by default as identity primary key,
+  name text,
+  filter jsonb not null default '{}'::jsonb,
+  max_concurrent_runs integer not null default 3,
+  created_by text,
+  created_at timestamp with time zone not null default now()
+);
+
+-- Batch runs are created `pending` with started_at NULL and started a few at a time by the scheduler.
+alter table public.ingestion_runs
+  add column if not exists batch_id bigint references public.ingestion_batches(id) on delete set null,
+  alter column started_at drop not null;
+
+create index if not exists ingestion_runs_batch_idx
+  on public.ingestion_runs (batch_id, id)
+  where batch_id is not null;
+
+commit;
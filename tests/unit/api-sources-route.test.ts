@@ -5,11 +5,16 @@ import { buildListSourceConfig, buildRssSourceConfig } from '@/lib/source-config
 
 const findSourceDuplicate = vi.fn();
 const from = vi.fn();
+const publishSavedSourceRateLimits = vi.fn();
 
 vi.mock('@/lib/duplicate-precheck', () => ({
     findSourceDuplicate,
 }));
 
+vi.mock('@/lib/source-rate-limits', () => ({
+    publishSavedSourceRateLimits,
+}));
+
 vi.mock('@/lib/supabase', () => ({
     supabase: {
         from,
@@ -60,6 +65,7 @@ function createRssPayload() {
 describe('POST /api/sources', () => {
     beforeEach(() => {
         vi.clearAllMocks();
+        publishSavedSourceRateLimits.mockResolvedValue(undefined);
     });
 
     it('returns 400 for invalid payload', async () => {
@@ -184,4 +190,61 @@ describe('POST /api/sources', () => {
         // workflow_data passes through from raw body (null when not provided)
         expect(insertedBody).toHaveProperty('workflow_data');
     });
+
+    it('stores rate limits and publishes them for the workers', async () => {
+        findSourceDuplicate.mockResolvedValueOnce(null);
+
+        const savedSource = {
+            id: 102,
+            name: 'List source',
+            base_url: 'https://example.com/list',
+            rate_limits: { scope: 'domain', max_concurrent_jobs: 2, requests_per_minute: 30 },
+        };
+        const insertSources = vi.fn(() => ({
+            select: vi.fn(() => ({
+                single: vi.fn().mockResolvedValue({ data: savedSource, error: null }),
+            })),
+        }));
+        const insertSourceUrls = vi.fn().mockResolvedValue({ error: null });
+
+        from.mockImplementation((table: string) => {
+            if (table === 'sources') {
+                return { insert: insertSources };
+            }
+            if (table === 'source_urls') {
+                return { insert: insertSourceUrls };
+            }
+            throw new Error(`Unexpected table ${table}`);
+        });
+
+        const { POST } = await import('@/app/api/sources/route');
+        const response = await POST(new Request('http://localhost/api/sources', {
+            method: 'POST',
+            headers: { 'content-type': 'application/json' },
+            body: JSON.stringify({
+                ...createListPayload(),
+                rate_limits: { scope: 'domain', max_concurrent_jobs: '2', requests_per_minute: 30 },
+            }),
+        }));
+
+        expect(response.status).toBe(200);
+        expect(insertSources).toHaveBeenCalledWith([
+            expect.objectContaining({ rate_limits: { scope: 'domain', max_concurrent_jobs: 2, requests_per_minute: 30 } }),
+        ]);
+        expect(publishSavedSourceRateLimits).toHaveBeenCalledWith(savedSource);
+    });
+
+    it('rejects non-positive rate limits', async () => {
+        const { POST } = await import('@/app/api/sources/route');
+        const response = await POST(new Request('http://localhost/api/sources', {
+            method: 'POST',
+            headers: { 'content-type': 'application/json' },
+            body: JSON.stringify({
+                ...createListPayload(),
+                rate_limits: { scope: 'source', max_concurrent_jobs: 0, requests_per_minute: null },
+            }),
+        }));
+
+        expect(response.status).toBe(400);
+    });
 });
@@ -0,0 +1,54 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('@/lib/supabase', () => ({ supabase: {} }));
+vi.mock('@/lib/redis-lock', () => ({ withRedisLock: (_key: string, _ttl: number, fn: () => Promise<unknown>) => fn() }));
+vi.mock('@/lib/job-enqueue', () => ({ enqueueJobs: vi.fn() }));
+
+import { supabase } from '@/lib/supabase';
+import { enqueueJobs } from '@/lib/job-enqueue';
+import { runAutoCrawl } from '@/lib/auto-crawl';
+
+/** Chainable stand-in for a Supabase query builder that resolves to `result`. */
+function query(result: { data?: unknown; error?: { message: string } | null }) {
+    const builder: Record<string, unknown> = {
+        then: (resolve: (value: unknown) => unknown) => resolve({ data: null, error: null, ...result }),
+    };
+    for (const method of ['select', 'insert', 'update', 'eq', 'in', 'not', 'single']) {
+        builder[method] = vi.fn(() => builder);
+    }
+    return builder;
+}
+
+describe('runAutoCrawl', () => {
+    beforeEach(() => {
+        vi.stubEnv('AUTO_CRAWL_ENABLED', 'true');
+    });
+
+    afterEach(() => {
+        vi.unstubAllEnvs();
+    });
+
+    it('fails the new run when its discovery job cannot be enqueued', async () => {
+        const runUpdate = query({});
+        const from = vi.fn()
+            .mockReturnValueOnce(query({ data: [{ id: 4, enabled: true, crawl_interval: '1 day', last_crawled_at: null }] }))
+            .mockReturnValueOnce(query({ data: [] }))
+            .mockReturnValueOnce(query({ data: { id: 12 } }))
+            .mockReturnValueOnce(runUpdate);
+        Object.assign(supabase, { from });
+        vi.mocked(enqueueJobs).mockRejectedValue(new Error('Redis unavailable'));
+
+        const result = await runAutoCrawl(new Date('2026-03-05T10:00:00.000Z'));
+
+        expect(result.started).toEqual([]);
+        expect(result.errors).toEqual([{ source_id: '4', error: 'Redis unavailable' }]);
+        expect(from).toHaveBeenLastCalledWith('ingestion_runs');
+        expect(runUpdate.update).toHaveBeenCalledWith({
+            status: 'failed',
+            error_message: 'Redis unavailable',
+            finished_at: '2026-03-05T10:00:00.000Z',
+            updated_at: '2026-03-05T10:00:00.000Z',
+        });
+        expect(runUpdate.eq).toHaveBeenCalledWith('id', '12');
+    });
+});
@@ -0,0 +1,63 @@
+import { describe, expect, it, vi } from 'vitest';
+
+vi.mock('@/lib/redis', () => ({ redis: {} }));
+vi.mock('@/lib/supabase', () => ({ supabase: {} }));
+
+import { buildBulkRows, parseBulkRecords, parseCsv } from '@/lib/bulk-enqueue';
+
+describe('parseCsv', () => {
+    it('handles quoted fields, doubled quotes, CRLF and blank lines', () => {
+        expect(parseCsv('a,b\r\n"x, y","say ""hi"""\r\n\r\n1,\n')).toEqual([
+            ['a', 'b'],
+            ['x, y', 'say "hi"'],
+            ['1', ''],
+        ]);
+    });
+});
+
+describe('parseBulkRecords', () => {
+    it('maps CSV rows onto lower-cased header columns', () => {
+        const { records, error } = parseBulkRecords('\uFEFFDocument_ID,lang\n12,deu\n13,\n', 'csv');
+        expect(error).toBeNull();
+        expect(records).toEqual([
+            { document_id: '12', lang: 'deu' },
+            { document_id: '13', lang: '' },
+        ]);
+    });
+
+    it('rejects files without a target column or with a non-array JSON body', () => {
+        expect(parseBulkRecords('name\nfoo\n', 'csv').error).toMatch(/source_id/);
+        expect(parseBulkRecords('{"source_id": 1}', 'json').error).toMatch(/array/);
+        expect(parseBulkRecords('[{"source_id": 1, "max_attempts": 5}]', 'json').records).toEqual([
+            { source_id: '1', max_attempts: '5' },
+        ]);
+    });
+});
+
+describe('buildBulkRows', () => {
+    const defaults = { task: 'ocr' as const, max_attempts: 3, lang: 'eng', psm: '3', oem: '3' };
+
+    it('applies per-row overrides over the defaults', () => {
+        const [row] = buildBulkRows([{ document_id: '12', lang: 'deu', max_attempts: '5' }], defaults);
+        expect(row.errors).toEqual([]);
+        expect(row.job).toMatchObject({ task: 'ocr', document_id: '12', lang: 'deu', psm: '3', max_attempts: 5 });
+    });
+
+    it('reports schema and target errors per row', () => {
+        const rows = buildBulkRows([
+            { document_id: '12', max_attempts: 'many' },
+            { task: 'download', source_id: '4' },
+            { task: 'crawl', source_id: '4' },
+        ], defaults);
+
+        expect(rows.map((row) => row.row)).toEqual([1, 2, 3]);
+        expect(rows[0].errors[0]).toMatch(/^max_attempts/);
+        expect(rows[1].errors).toEqual(['download job requires source_url_id']);
+        expect(rows[2].errors[0]).toMatch(/^task/);
+    });
+
+    it('rejects non-numeric target ids before any lookup', () => {
+        const [row] = buildBulkRows([{ document_id: '12,13' }], defaults);
+        expect(row.errors).toEqual(['document_id must be a numeric id']);
+    });
+});
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { getCrawlJitterMs, getNextCrawlDueAt, isCrawlDue, parseIntervalMs } from '@/lib/crawl-interval';
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+describe('parseIntervalMs', () => {
+    it('parses Postgres interval output', () => {
+        expect(parseIntervalMs('1 day')).toBe(DAY);
+        expect(parseIntervalMs('2 days 03:00:00')).toBe(2 * DAY + 3 * HOUR);
+        expect(parseIntervalMs('01:30:00')).toBe(1.5 * HOUR);
+        expect(parseIntervalMs('1 mon')).toBe(30 * DAY);
+        expect(parseIntervalMs('6 hours')).toBe(6 * HOUR);
+        expect(parseIntervalMs('1 week')).toBe(7 * DAY);
+        expect(parseIntervalMs('30 minutes')).toBe(30 * 60 * 1000);
+    });
+
+    it('returns null for empty or invalid values', () => {
+        expect(parseIntervalMs(null)).toBeNull();
+        expect(parseIntervalMs('')).toBeNull();
+        expect(parseIntervalMs('soon')).toBeNull();
+        expect(parseIntervalMs('00:00:00')).toBeNull();
+    });
+});
+
+describe('getNextCrawlDueAt', () => {
+    it('is due immediately when the source was never crawled', () => {
+        const dueAt = getNextCrawlDueAt({ id: '1', enabled: true, crawl_interval: '1 day', last_crawled_at: null });
+        expect(dueAt?.getTime()).toBe(0);
+    });
+
+    it('adds interval and a bounded deterministic jitter to last_crawled_at', () => {
+        const lastCrawledAt = '2026-03-05T10:00:00.000Z';
+        const source = { id: '42', enabled: true, crawl_interval: '1 day', last_crawled_at: lastCrawledAt };
+        const dueAt = getNextCrawlDueAt(source);
+        const jitter = getCrawlJitterMs('42', DAY);
+
+        expect(jitter).toBeGreaterThanOrEqual(0);
+        expect(jitter).toBeLessThanOrEqual(15 * 60 * 1000);
+        expect(dueAt?.getTime()).toBe(new Date(lastCrawledAt).getTime() + DAY + jitter);
+        expect(getNextCrawlDueAt(source)?.getTime()).toBe(dueAt?.getTime());
+    });
+
+    it('returns null for disabled sources or sources without interval', () => {
+        expect(getNextCrawlDueAt({ id: '1', enabled: false, crawl_interval: '1 day', last_crawled_at: null })).toBeNull();
+        expect(getNextCrawlDueAt({ id: '1', enabled: true, crawl_interval: null, last_crawled_at: null })).toBeNull();
+    });
+
+    it('reports due sources', () => {
+        const source = { id: '7', enabled: true, crawl_interval: '01:00:00', last_crawled_at: '2026-03-05T10:00:00.000Z' };
+        expect(isCrawlDue(source, new Date('2026-03-05T10:30:00.000Z'))).toBe(false);
+        expect(isCrawlDue(source, new Date('2026-03-05T11:10:00.000Z'))).toBe(true);
+    });
+});
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { getNextCronTime, isValidCronExpression, parseCronExpression } from '@/lib/cron';
+
+describe('parseCronExpression', () => {
+    it('expands steps, ranges and lists', () => {
+        const schedule = parseCronExpression('*/15 8-10 1,15 * 1-5');
+
+        expect(Array.from(schedule.minutes)).toEqual([0, 15, 30, 45]);
+        expect(Array.from(schedule.hours)).toEqual([8, 9, 10]);
+        expect(Array.from(schedule.daysOfMonth)).toEqual([1, 15]);
+        expect(schedule.months.size).toBe(12);
+        expect(Array.from(schedule.daysOfWeek)).toEqual([1, 2, 3, 4, 5]);
+    });
+
+    it('treats day of week 7 as Sunday', () => {
+        expect(Array.from(parseCronExpression('0 0 * * 7').daysOfWeek)).toEqual([0]);
+    });
+
+    it('rejects malformed expressions', () => {
+        expect(isValidCronExpression('* * * *')).toBe(false);
+        expect(isValidCronExpression('60 * * * *')).toBe(false);
+        expect(isValidCronExpression('*/0 * * * *')).toBe(false);
+        expect(isValidCronExpression('5-1 * * * *')).toBe(false);
+        expect(isValidCronExpression('0 */6 * * *')).toBe(true);
+    });
+});
+
+describe('getNextCronTime', () => {
+    it('returns the next matching minute strictly after the reference time', () => {
+        const next = getNextCronTime('0 * * * *', new Date(2026, 2, 5, 10, 0, 0));
+        expect(next).toEqual(new Date(2026, 2, 5, 11, 0, 0));
+    });
+
+    it('rolls over to the next day for daily schedules', () => {
+        const next = getNextCronTime('30 2 * * *', new Date(2026, 2, 5, 10, 7, 42));
+        expect(next).toEqual(new Date(2026, 2, 6, 2, 30, 0));
+    });
+
+    it('handles every-6-hours presets', () => {
+        const next = getNextCronTime('0 */6 * * *', new Date(2026, 2, 5, 13, 1));
+        expect(next).toEqual(new Date(2026, 2, 5, 18, 0));
+    });
+
+    it('finds the next weekday for weekly schedules', () => {
+        // 2026-03-05 is a Thursday
+        const next = getNextCronTime('0 0 * * 0', new Date(2026, 2, 5, 12, 0));
+        expect(next).toEqual(new Date(2026, 2, 8, 0, 0));
+    });
+
+    it('matches either day field when both are restricted', () => {
+        // 1st of the month or Monday, whichever comes first
+        const next = getNextCronTime('0 9 1 * 1', new Date(2026, 2, 5, 12, 0));
+        expect(next).toEqual(new Date(2026, 2, 9, 9, 0));
+    });
+
+    it('returns null for expressions that never fire', () => {
+        expect(getNextCronTime('0 0 31 2 *', new Date(2026, 0, 1))).toBeNull();
+    });
+});
@@ -0,0 +1,92 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('@/lib/redis', () => ({
+    redis: {
+        exists: vi.fn(),
+        srandmember: vi.fn(),
+        srem: vi.fn(),
+        pipeline: vi.fn(),
+    },
+}));
+vi.mock('@/lib/redis-lock', () => ({ withRedisLock: (_key: string, _ttl: number, fn: () => Promise<unknown>) => fn() }));
+vi.mock('@/lib/job-index', () => ({
+    UNSWEPT_FAILED_KEY: 'jobs:failed_unswept',
+    removeJobs: vi.fn(),
+    statusIndexKey: (status: string) => `jobs:status:${status}`,
+    syncJobIndex: vi.fn(),
+}));
+
+import { redis } from '@/lib/redis';
+import { computeRetryDelayMs, parseErrorHistory, sweepFailedJobs } from '@/lib/dead-letter';
+
+describe('computeRetryDelayMs', () => {
+    it('doubles the delay per attempt', () => {
+        expect(computeRetryDelayMs(1, 1000, 60000)).toBe(1000);
+        expect(computeRetryDelayMs(2, 1000, 60000)).toBe(2000);
+        expect(computeRetryDelayMs(4, 1000, 60000)).toBe(8000);
+    });
+
+    it('caps the delay at the maximum', () => {
+        expect(computeRetryDelayMs(10, 1000, 60000)).toBe(60000);
+    });
+
+    it('treats attempts below one as the first retry', () => {
+        expect(computeRetryDelayMs(0, 1000, 60000)).toBe(1000);
+    });
+});
+
+describe('parseErrorHistory', () => {
+    it('parses a stored JSON history', () => {
+        const raw = JSON.stringify([{ attempt: 1, error_message: 'timeout', failed_at: '2026-01-01T00:00:00.000Z', worker: 'w1' }]);
+        expect(parseErrorHistory(raw)).toEqual([
+            { attempt: 1, error_message: 'timeout', failed_at: '2026-01-01T00:00:00.000Z', worker: 'w1' },
+        ]);
+    });
+
+    it('returns an empty history for missing or malformed values', () => {
+        expect(parseErrorHistory(undefined)).toEqual([]);
+        expect(parseErrorHistory('not json')).toEqual([]);
+        expect(parseErrorHistory('{"attempt":1}')).toEqual([]);
+    });
+});
+
+describe('sweepFailedJobs', () => {
+    const mocked = redis as unknown as Record<'exists' | 'srandmember' | 'srem' | 'pipeline', ReturnType<typeof vi.fn>>;
+    const jobs: Record<string, Record<string, string> | null> = {
+        '1': { status: 'failed', task: 'ocr', attempts: '1', max_attempts: '3', error_message: 'timeout' },
+        '2': { status: 'failed', task: 'ocr', attempts: '3', max_attempts: '3', dead_at: '2026-01-01T00:00:00.000Z' },
+        '3': { status: 'pending', task: 'ocr' },
+        '4': null,
+    };
+    const writes: unknown[][] = [];
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        writes.length = 0;
+        mocked.exists.mockResolvedValue(1);
+        mocked.srandmember.mockResolvedValue(['1', '2', '3', '4']);
+        mocked.pipeline.mockImplementation(() => {
+            const reads: string[] = [];
+            const pipeline = {
+                hgetall: (key: string) => {
+                    reads.push(key.replace('job:', ''));
+                    return pipeline;
+                },
+                hset: (...args: unknown[]) => (writes.push(['hset', ...args]), pipeline),
+                srem: (...args: unknown[]) => (writes.push(['srem', ...args]), pipeline),
+                zadd: (...args: unknown[]) => (writes.push(['zadd', ...args]), pipeline),
+                exec: async () => reads.map((id) => [null, jobs[id]]),
+            };
+            return pipeline;
+        });
+    });
+
+    it('reads only unswept failures and drops ids that no longer need a sweep', async () => {
+        const result = await sweepFailedJobs(new Date('2026-01-01T00:00:00.000Z'));
+
+        expect(mocked.srandmember).toHaveBeenCalledWith('jobs:failed_unswept', 1000);
+        expect(mocked.srem).toHaveBeenCalledWith('jobs:failed_unswept', '2', '3', '4');
+        expect(result).toEqual({ retried: ['1'], dead_lettered: [] });
+        expect(writes).toContainEqual(['srem', 'jobs:failed_unswept', '1']);
+    });
+});
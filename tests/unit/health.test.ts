@@ -0,0 +1,21 @@
+import { describe, expect, it, vi } from 'vitest';
+
+vi.mock('@/lib/redis', () => ({ redis: {} }));
+vi.mock('@/lib/supabase', () => ({ supabase: {} }));
+
+import { summarizeHealth, type DependencyHealth } from '@/lib/health';
+
+function dep(name: DependencyHealth['name'], status: DependencyHealth['status']): DependencyHealth {
+    return { name, status, latency_ms: status === 'not_configured' ? null : 3, detail: null };
+}
+
+describe('summarizeHealth', () => {
+    it('ignores dependencies that are not configured', () => {
+        expect(summarizeHealth([dep('redis', 'ok'), dep('supabase', 'ok'), dep('r2', 'not_configured')])).toBe('ok');
+    });
+
+    it('degrades on optional failures and goes down on required ones', () => {
+        expect(summarizeHealth([dep('redis', 'ok'), dep('supabase', 'ok'), dep('playwright', 'down')])).toBe('degraded');
+        expect(summarizeHealth([dep('redis', 'down'), dep('supabase', 'ok'), dep('portainer', 'down')])).toBe('down');
+    });
+});
@@ -0,0 +1,84 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('@/lib/redis', () => ({ redis: {} }));
+vi.mock('@/lib/redis-lock', () => ({ withRedisLock: (_key: string, _ttl: number, fn: () => Promise<unknown>) => fn() }));
+vi.mock('@/lib/job-index', () => ({
+    UNSWEPT_FAILED_KEY: 'jobs:failed_unswept',
+    removeJobs: vi.fn(),
+    runIndexKey: (runId: string) => `jobs:run:${runId}`,
+    statusIndexKey: (status: string) => `jobs:status:${status}`,
+    syncJobIndex: vi.fn(),
+}));
+vi.mock('@/lib/supabase', () => {
+    const query: Record<string, unknown> = {};
+    for (const method of ['update', 'eq', 'in']) query[method] = () => query;
+    query.select = async () => ({ data: [], error: null });
+    return { supabase: { from: () => query } };
+});
+
+import { redis } from '@/lib/redis';
+import { cancelRunJobs } from '@/lib/job-cancel';
+import { sweepFailedJobs } from '@/lib/dead-letter';
+
+/** Just enough of Redis for a run cancel followed by a failure sweep. */
+function fakeRedis() {
+    const hashes = new Map<string, Record<string, string>>();
+    const sets = new Map<string, Set<string>>();
+    const zsets = new Map<string, Map<string, number>>();
+    const setOf = (key: string) => sets.get(key) ?? sets.set(key, new Set()).get(key)!;
+    const zsetOf = (key: string) => zsets.get(key) ?? zsets.set(key, new Map()).get(key)!;
+
+    const commands = {
+        hgetall: async (key: string) => ({ ...(hashes.get(key) ?? {}) }),
+        hset: async (key: string, values: Record<string, string>) => {
+            hashes.set(key, { ...(hashes.get(key) ?? {}), ...values });
+            return 1;
+        },
+        exists: async () => 1,
+        sadd: async (key: string, ...ids: string[]) => ids.forEach((id) => setOf(key).add(id)),
+        srem: async (key: string, ...ids: string[]) => ids.filter((id) => setOf(key).delete(id)).length,
+        srandmember: async (key: string) => Array.from(setOf(key)),
+        zadd: async (key: string, score: number, id: string) => zsetOf(key).set(id, score),
+        zrem: async (key: string, id: string) => Number(zsetOf(key).delete(id)),
+        zrange: async (key: string) => Array.from(zsetOf(key).keys()),
+        lrem: async () => 0,
+        lpush: async () => 1,
+    };
+    const pipeline = () => {
+        const queued: Array<() => Promise<unknown>> = [];
+        const chain = new Proxy({} as Record<string, unknown>, {
+            get: (_target, name: string) => name === 'exec'
+                ? async () => Promise.all(queued.map(async (run) => [null, await run()]))
+                : (...args: unknown[]) => {
+                    queued.push(() => (commands as Record<string, (...rest: unknown[]) => Promise<unknown>>)[name](...args));
+                    return chain;
+                },
+        });
+        return chain;
+    };
+    return { hashes, sets, zsets, client: { ...commands, pipeline } };
+}
+
+describe('cancelRunJobs', () => {
+    let store: ReturnType<typeof fakeRedis>;
+
+    beforeEach(() => {
+        store = fakeRedis();
+        Object.assign(redis, store.client);
+    });
+
+    it('cancels an unswept failed job so the failure sweep does not retry it', async () => {
+        store.hashes.set('job:5', { status: 'failed', task: 'ocr', run_id: '9', attempts: '1', max_attempts: '3' });
+        await store.client.zadd('jobs:run:9', 1, '5');
+        await store.client.sadd('jobs:failed_unswept', '5');
+
+        const result = await cancelRunJobs('9', new Date('2026-01-01T00:00:00.000Z'));
+        expect(result.jobs).toEqual([{ id: '5', outcome: 'canceled' }]);
+
+        const sweep = await sweepFailedJobs(new Date('2026-01-01T00:01:00.000Z'));
+        expect(sweep).toEqual({ retried: [], dead_lettered: [] });
+        expect(store.hashes.get('job:5')?.status).toBe('canceled');
+        expect(store.sets.get('jobs:failed_unswept')?.size).toBe(0);
+        expect(store.zsets.get('queue:delayed')?.size ?? 0).toBe(0);
+    });
+});
@@ -0,0 +1,34 @@
+import { describe, expect, it, vi } from 'vitest';
+
+vi.mock('@/lib/redis', () => ({ redis: {} }));
+vi.mock('@/lib/supabase', () => ({ supabase: {} }));
+
+import { parseAttemptHistory } from '@/lib/job-detail';
+
+describe('parseAttemptHistory', () => {
+    it('reads the attempts recorded by the index sync', () => {
+        const job = {
+            attempt_history: JSON.stringify([
+                { attempt: 1, status: 'failed', worker: 'w1', started_at: '2026-01-01T00:00:00.000Z', completed_at: '2026-01-01T00:00:05.000Z', error_message: 'timeout' },
+                { attempt: 2, status: 'completed', worker: 'w2', started_at: '2026-01-01T00:01:00.000Z', completed_at: '2026-01-01T00:01:03.000Z', error_message: '' },
+            ]),
+            error_history: JSON.stringify([{ attempt: 1, error_message: 'timeout', failed_at: '2026-01-01T00:00:05.000Z', worker: 'w1' }]),
+        };
+
+        expect(parseAttemptHistory(job).map((attempt) => [attempt.attempt, attempt.status, attempt.worker])).toEqual([
+            [1, 'failed', 'w1'],
+            [2, 'completed', 'w2'],
+        ]);
+    });
+
+    it('falls back to the failure history of older jobs', () => {
+        const job = {
+            error_history: JSON.stringify([{ attempt: 1, error_message: 'boom', failed_at: '2026-01-01T00:00:05.000Z', worker: 'w1' }]),
+        };
+
+        expect(parseAttemptHistory(job)).toEqual([
+            { attempt: 1, status: 'failed', worker: 'w1', started_at: '', completed_at: '2026-01-01T00:00:05.000Z', error_message: 'boom' },
+        ]);
+        expect(parseAttemptHistory({ attempt_history: 'not json' })).toEqual([]);
+    });
+});
@@ -0,0 +1,138 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const claimIdempotencyKeys = vi.fn();
+const releaseIdempotencyKeys = vi.fn();
+const pipeline = {
+    hgetall: vi.fn(),
+    hset: vi.fn(),
+    rpush: vi.fn(),
+    exec: vi.fn(async (): Promise<unknown[]> => []),
+};
+
+vi.mock('@/lib/redis', () => ({
+    redis: {
+        incrby: vi.fn(async (_key: string, count: number) => 20 + count - 1),
+        pipeline: () => pipeline,
+    },
+}));
+
+vi.mock('@/lib/job-index', () => ({
+    defineJobIndexScripts: vi.fn(),
+    indexNewJob: vi.fn(),
+}));
+
+vi.mock('@/lib/job-idempotency', async (importOriginal) => ({
+    ...(await importOriginal<typeof import('@/lib/job-idempotency')>()),
+    claimIdempotencyKeys,
+    releaseIdempotencyKeys,
+}));
+
+function jobHashes(): Array<Record<string, string>> {
+    return (pipeline.hset.mock.calls as unknown[][])
+        .map(([, value]) => value)
+        .filter((value): value is Record<string, string> => typeof value === 'object' && value !== null);
+}
+
+describe('validateEnqueueJob', () => {
+    it('requires the target id each task works on', async () => {
+        const { validateEnqueueJob } = await import('@/lib/job-enqueue');
+        expect(validateEnqueueJob({ task: 'discover' })).toBe('discover job requires source_id');
+        expect(validateEnqueueJob({ task: 'download', source_id: '1' })).toBe('download job requires source_url_id');
+        expect(validateEnqueueJob({ task: 'ocr' })).toBe('ocr job requires document_id or source_url_id');
+        expect(validateEnqueueJob({ task: 'ocr', document_id: '5' })).toBeNull();
+    });
+});
+
+describe('enqueueJobs', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        claimIdempotencyKeys.mockImplementation(async (claims: unknown[]) => claims.map(() => null));
+    });
+
+    it('writes the V2 job hash with run_id and OCR defaults', async () => {
+        const { enqueueJobs } = await import('@/lib/job-enqueue');
+        const [job] = await enqueueJobs(
+            [{ task: 'ocr', run_id: '9', source_id: '1', document_id: '5', psm: '6' }],
+            { now: new Date('2026-01-01T00:00:00.000Z') },
+        );
+
+        expect(job).toMatchObject({ id: '20', run_id: '9', psm: '6', lang: 'ces+eng', priority: 'normal', deduplicated: false });
+        const [hash] = jobHashes();
+        expect(hash).toMatchObject({
+            id: '20',
+            task: 'ocr',
+            run_id: '9',
+            status: 'pending',
+            created_at: '2026-01-01T00:00:00.000Z',
+            psm: '6',
+            oem: '3',
+            lang: 'ces+eng',
+        });
+        expect(hash).not.toHaveProperty('ocr_psm');
+        expect(pipeline.rpush).toHaveBeenCalledWith('queue:ocr', '20');
+    });
+
+    it('sends bulk batches to the low lane and skips deduplicated jobs', async () => {
+        claimIdempotencyKeys.mockResolvedValueOnce(['7', null]);
+        pipeline.exec.mockResolvedValueOnce([[null, { task: 'discover', source_id: '1', priority: 'low' }]]);
+
+        const { enqueueJobs } = await import('@/lib/job-enqueue');
+
+        const jobs = await enqueueJobs(
+            [
+                { task: 'discover', source_id: '1', idempotency_key: 'k:0' },
+                { task: 'discover', source_id: '1', idempotency_key: 'k:1' },
+            ],
+            { bulk: true },
+        );
+
+        expect(jobs.map((job) => [job.id, job.deduplicated, job.priority])).toEqual([
+            ['7', true, 'low'],
+            ['21', false, 'low'],
+        ]);
+        expect(pipeline.rpush).toHaveBeenCalledTimes(1);
+        expect(pipeline.rpush).toHaveBeenCalledWith('queue:discover:low', '21');
+    });
+
+    it('reports the stored job for a deduplicated request', async () => {
+        claimIdempotencyKeys.mockResolvedValueOnce(['7']);
+        pipeline.exec.mockResolvedValueOnce([[null, {
+            task: 'ocr',
+            run_id: '3',
+            document_id: '5',
+            psm: '4',
+            max_attempts: '5',
+            manual: 'true',
+            priority: 'high',
+            created_at: '2025-12-31T00:00:00.000Z',
+        }]]);
+
+        const { enqueueJobs } = await import('@/lib/job-enqueue');
+        const [job] = await enqueueJobs(
+            [{ task: 'ocr', run_id: '9', document_id: '6', psm: '6', idempotency_key: 'k' }],
+            { now: new Date('2026-01-01T00:00:00.000Z') },
+        );
+
+        expect(job).toMatchObject({
+            id: '7',
+            run_id: '3',
+            document_id: '5',
+            psm: '4',
+            max_attempts: 5,
+            manual: true,
+            priority: 'high',
+            created_at: '2025-12-31T00:00:00.000Z',
+            deduplicated: true,
+        });
+        expect(pipeline.hset).not.toHaveBeenCalled();
+    });
+
+    it('releases claimed keys when the job hashes cannot be written', async () => {
+        claimIdempotencyKeys.mockResolvedValueOnce([null]);
+        pipeline.exec.mockRejectedValueOnce(new Error('connection lost'));
+
+        const { enqueueJobs } = await import('@/lib/job-enqueue');
+        await expect(enqueueJobs([{ task: 'discover', source_id: '1', idempotency_key: 'k' }])).rejects.toThrow('connection lost');
+        expect(releaseIdempotencyKeys).toHaveBeenCalledWith([{ key: 'k', id: '20', activeOnly: false }]);
+    });
+});
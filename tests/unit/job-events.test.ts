@@ -0,0 +1,53 @@
+import { describe, expect, it, vi } from 'vitest';
+
+vi.mock('@/lib/redis', () => ({ redis: {} }));
+
+import { matchesJobEventFilter, parseJobEvent, parseJobEventFilter } from '@/lib/job-events';
+
+describe('parseJobEvent', () => {
+    it('reads stream fields and derives the time from the entry id', () => {
+        const event = parseJobEvent('1767225600000-0', [
+            'type', 'started',
+            'job_id', '42',
+            'task', 'ocr',
+            'status', 'processing',
+            'previous', 'pending',
+            'run_id', '7',
+            'source_id', '3',
+        ]);
+
+        expect(event).toMatchObject({
+            id: '1767225600000-0',
+            type: 'started',
+            job_id: '42',
+            task: 'ocr',
+            status: 'processing',
+            previous: 'pending',
+            run_id: '7',
+            source_id: '3',
+            progress: null,
+            at: '2026-01-01T00:00:00.000Z',
+        });
+    });
+
+    it('clamps worker progress and drops unknown entries', () => {
+        expect(parseJobEvent('1-0', ['type', 'progress', 'job_id', '1', 'progress', '140'])?.progress).toBe(100);
+        expect(parseJobEvent('1-0', ['type', 'exploded', 'job_id', '1'])).toBeNull();
+        expect(parseJobEvent('1-0', ['type', 'completed'])).toBeNull();
+    });
+});
+
+describe('matchesJobEventFilter', () => {
+    const event = parseJobEvent('1-0', ['type', 'completed', 'job_id', '1', 'task', 'download', 'run_id', '7', 'source_id', '3'])!;
+
+    it('matches on every given field', () => {
+        expect(matchesJobEventFilter(event, {})).toBe(true);
+        expect(matchesJobEventFilter(event, parseJobEventFilter(new URLSearchParams('run_id=7&task=download')))).toBe(true);
+        expect(matchesJobEventFilter(event, parseJobEventFilter(new URLSearchParams('run_id=7&source_id=4')))).toBe(false);
+        expect(matchesJobEventFilter(event, { job_id: '2' })).toBe(false);
+    });
+
+    it('ignores blank query values', () => {
+        expect(parseJobEventFilter(new URLSearchParams('run_id=&task=%20'))).toEqual({});
+    });
+});
@@ -0,0 +1,68 @@
+import { describe, expect, it, vi } from 'vitest';
+
+vi.mock('@/lib/redis', () => ({ redis: {} }));
+
+import { detectStuckReason, findStaleWorkers, getReaperConfig, type ProcessingJob } from '@/lib/job-reaper';
+
+const NOW = new Date('2026-03-04T12:00:00.000Z').getTime();
+
+function job(overrides: Partial<ProcessingJob> = {}): ProcessingJob {
+    return {
+        id: '42',
+        task: 'download',
+        worker: 'worker-a',
+        started_at: '2026-03-04T11:55:00.000Z',
+        attempts: '1',
+        max_attempts: '3',
+        ...overrides,
+    };
+}
+
+describe('getReaperConfig', () => {
+    it('uses per-task defaults and env overrides', () => {
+        const config = getReaperConfig({ WORKER_HEARTBEAT_TIMEOUT_SECONDS: '60', JOB_VISIBILITY_TIMEOUT_OCR_MINUTES: '45' });
+        expect(config.heartbeat_timeout_ms).toBe(60000);
+        expect(config.visibility_timeout_ms).toEqual({ discover: 1800000, download: 1800000, ocr: 2700000 });
+    });
+
+    it('applies the global visibility timeout to every task without an override', () => {
+        const config = getReaperConfig({ JOB_VISIBILITY_TIMEOUT_MINUTES: '10', JOB_VISIBILITY_TIMEOUT_OCR_MINUTES: 'x' });
+        expect(config.visibility_timeout_ms.ocr).toBe(600000);
+        expect(config.default_visibility_timeout_ms).toBe(600000);
+    });
+});
+
+describe('detectStuckReason', () => {
+    const config = getReaperConfig({});
+
+    it('flags jobs whose worker heartbeat expired', () => {
+        const heartbeats = { 'worker-a': '2026-03-04T11:58:00.000Z' };
+        expect(detectStuckReason(job(), heartbeats, config, NOW)).toBe('heartbeat_expired');
+    });
+
+    it('keeps jobs of a live worker within the visibility timeout', () => {
+        const heartbeats = { 'worker-a': '2026-03-04T11:59:30.000Z' };
+        expect(detectStuckReason(job(), heartbeats, config, NOW)).toBeNull();
+    });
+
+    it('judges workers without heartbeats only by the visibility timeout', () => {
+        expect(detectStuckReason(job(), {}, config, NOW)).toBeNull();
+        expect(detectStuckReason(job({ started_at: '2026-03-04T11:00:00.000Z' }), {}, config, NOW)).toBe('visibility_timeout');
+        expect(detectStuckReason(job({ task: 'ocr', started_at: '2026-03-04T11:00:00.000Z' }), {}, config, NOW)).toBeNull();
+    });
+
+    it('ignores jobs without a valid started_at', () => {
+        expect(detectStuckReason(job({ started_at: '' }), {}, config, NOW)).toBeNull();
+    });
+});
+
+describe('findStaleWorkers', () => {
+    it('returns workers silent for longer than the retention window', () => {
+        const heartbeats = {
+            'worker-a': '2026-03-04T11:59:00.000Z',
+            'worker-old': '2026-02-20T12:00:00.000Z',
+            'worker-broken': 'never',
+        };
+        expect(findStaleWorkers(heartbeats, 7 * 24 * 3600000, NOW)).toEqual(['worker-old', 'worker-broken']);
+    });
+});
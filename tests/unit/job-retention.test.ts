@@ -0,0 +1,66 @@
+import { describe, expect, it, vi } from 'vitest';
+
+vi.mock('@/lib/redis', () => ({ redis: {} }));
+vi.mock('@/lib/supabase', () => ({ supabase: {} }));
+
+import { isArchivable, toArchiveRow } from '@/lib/job-retention';
+
+const CUTOFF = new Date('2026-03-10T00:00:00.000Z').getTime();
+
+describe('isArchivable', () => {
+    it('archives finished jobs completed before the cutoff', () => {
+        expect(isArchivable({ status: 'completed', completed_at: '2026-03-09T10:00:00.000Z' }, CUTOFF)).toBe(true);
+        expect(isArchivable({ status: 'canceled', completed_at: '2026-03-09T10:00:00.000Z' }, CUTOFF)).toBe(true);
+        expect(isArchivable({ status: 'completed', completed_at: '2026-03-10T10:00:00.000Z' }, CUTOFF)).toBe(false);
+    });
+
+    it('keeps active jobs and failed jobs that were not dead-lettered yet', () => {
+        expect(isArchivable({ status: 'processing', completed_at: '' }, CUTOFF)).toBe(false);
+        expect(isArchivable({ status: 'failed', completed_at: '2026-03-01T00:00:00.000Z' }, CUTOFF)).toBe(false);
+    });
+
+    it('measures dead-lettered jobs from dead_at', () => {
+        expect(isArchivable({
+            status: 'failed',
+            completed_at: '2026-03-01T00:00:00.000Z',
+            dead_at: '2026-03-10T05:00:00.000Z',
+        }, CUTOFF)).toBe(false);
+        expect(isArchivable({
+            status: 'failed',
+            completed_at: '2026-03-01T00:00:00.000Z',
+            dead_at: '2026-03-02T00:00:00.000Z',
+        }, CUTOFF)).toBe(true);
+    });
+});
+
+describe('toArchiveRow', () => {
+    it('maps a job hash to an archive row with duration', () => {
+        const row = toArchiveRow('12', {
+            id: '12',
+            task: 'ocr',
+            status: 'completed',
+            run_id: '5',
+            document_id: '99',
+            attempts: '1',
+            max_attempts: '3',
+            manual: 'true',
+            created_at: '2026-03-09T09:59:00.000Z',
+            started_at: '2026-03-09T10:00:00.000Z',
+            completed_at: '2026-03-09T10:00:02.500Z',
+        });
+
+        expect(row).toMatchObject({
+            job_id: '12',
+            task: 'ocr',
+            status: 'completed',
+            run_id: '5',
+            source_id: null,
+            document_id: '99',
+            manual: true,
+            attempts: 1,
+            max_attempts: 3,
+            duration_ms: 2500,
+            error_history: null,
+        });
+    });
+});
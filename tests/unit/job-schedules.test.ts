@@ -0,0 +1,72 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('@/lib/redis', () => ({
+    redis: {
+        zrangebyscore: vi.fn(),
+        zrem: vi.fn(),
+        hgetall: vi.fn(),
+        hset: vi.fn(),
+        pipeline: vi.fn(),
+    },
+}));
+vi.mock('@/lib/job-enqueue', async (importOriginal) => ({
+    ...(await importOriginal<typeof import('@/lib/job-enqueue')>()),
+    enqueueJobs: vi.fn(),
+}));
+
+import { redis } from '@/lib/redis';
+import { enqueueJobs } from '@/lib/job-enqueue';
+import { fireDueSchedules } from '@/lib/job-schedules';
+
+const mocked = redis as unknown as Record<'zrangebyscore' | 'zrem' | 'hgetall' | 'hset' | 'pipeline', ReturnType<typeof vi.fn>>;
+const NOW = new Date('2026-03-04T12:00:00.000Z');
+
+describe('fireDueSchedules', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        mocked.zrangebyscore.mockResolvedValue(['4']);
+        mocked.zrem.mockResolvedValue(1);
+    });
+
+    it('pauses a schedule whose task the queue does not accept instead of enqueuing it', async () => {
+        mocked.hgetall.mockResolvedValue({ id: '4', task: 'scrapy', cron: '*/5 * * * *', paused: 'false' });
+
+        await expect(fireDueSchedules(NOW)).resolves.toEqual([]);
+
+        expect(enqueueJobs).not.toHaveBeenCalled();
+        expect(mocked.hset).toHaveBeenCalledWith('schedule:4', {
+            paused: 'true',
+            last_error: 'Unsupported task: scrapy',
+            updated_at: NOW.toISOString(),
+        });
+    });
+
+    it('enqueues the whole stored request, not just the target and OCR language', async () => {
+        const job = {
+            task: 'ocr',
+            document_id: '12',
+            priority: 'high',
+            max_attempts: 5,
+            mode: 'full',
+            dpi: '400',
+            min_text_chars: '50',
+            ocr_addon: '0',
+        };
+        mocked.hgetall.mockResolvedValue({
+            id: '4',
+            task: 'ocr',
+            document_id: '12',
+            cron: '*/5 * * * *',
+            paused: 'false',
+            job: JSON.stringify(job),
+        });
+        mocked.pipeline.mockReturnValue({ hset: vi.fn(), hincrby: vi.fn(), zadd: vi.fn(), exec: vi.fn() });
+        vi.mocked(enqueueJobs).mockResolvedValue([{ id: '77' }] as Awaited<ReturnType<typeof enqueueJobs>>);
+
+        await expect(fireDueSchedules(NOW)).resolves.toMatchObject([{ schedule_id: '4', job_id: '77' }]);
+        expect(enqueueJobs).toHaveBeenCalledWith(
+            [{ ...job, manual: false, cron_time: '*/5 * * * *', schedule_id: '4' }],
+            { now: NOW },
+        );
+    });
+});
@@ -0,0 +1,45 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const cancelJob = vi.fn();
+
+vi.mock('@/lib/job-cancel', () => ({
+    cancelJob,
+}));
+
+function callCancel(id: string) {
+    return import('@/app/api/pipeline/jobs/[id]/cancel/route').then(({ POST }) => POST(
+        new Request(`http://localhost/api/pipeline/jobs/${id}/cancel`, { method: 'POST' }),
+        { params: Promise.resolve({ id }) },
+    ));
+}
+
+describe('POST /api/pipeline/jobs/[id]/cancel', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    it('returns the cancel outcome for a queued job', async () => {
+        cancelJob.mockResolvedValue({ id: '42', outcome: 'canceled' });
+
+        const response = await callCancel('42');
+        const json = await response.json();
+
+        expect(response.status).toBe(200);
+        expect(json).toEqual({ success: true, id: '42', outcome: 'canceled' });
+        expect(cancelJob).toHaveBeenCalledWith('42');
+    });
+
+    it('returns 404 for an unknown job', async () => {
+        cancelJob.mockResolvedValue({ id: '404', outcome: 'not_found' });
+
+        const response = await callCancel('404');
+        expect(response.status).toBe(404);
+    });
+
+    it('returns 409 for a job that already finished', async () => {
+        cancelJob.mockResolvedValue({ id: '7', outcome: 'already_finished' });
+
+        const response = await callCancel('7');
+        expect(response.status).toBe(409);
+    });
+});
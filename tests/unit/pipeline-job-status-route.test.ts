@@ -0,0 +1,37 @@
+import { describe, expect, it, vi } from 'vitest';
+
+vi.mock('@/lib/redis', () => ({
+    redis: {
+        hgetall: vi.fn(async (key: string) => {
+            const jobs: Record<string, Record<string, string>> = {
+                'job:1': { task: 'ocr', status: 'retrying', attempts: '1' },
+                'job:2': { task: 'ocr', status: 'done' },
+            };
+            return jobs[key] ?? {};
+        }),
+    },
+}));
+
+function statusRequest(jobIds: string[]) {
+    return new Request('http://localhost/api/pipeline/job-status', {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ job_ids: jobIds }),
+    });
+}
+
+describe('POST /api/pipeline/job-status', () => {
+    it('keeps retrying jobs apart from unknown ones', async () => {
+        const { POST } = await import('@/app/api/pipeline/job-status/route');
+        const response = await POST(statusRequest(['1', '2', '3']));
+        const json = await response.json();
+
+        expect(response.status).toBe(200);
+        expect(json.jobs.map((job: { id: string; status: string }) => [job.id, job.status])).toEqual([
+            ['1', 'retrying'],
+            ['2', 'completed'],
+            ['3', 'unknown'],
+        ]);
+        expect(json.totals).toMatchObject({ retrying: 1, completed: 1, unknown: 1 });
+    });
+});
@@ -0,0 +1,79 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const claimIdempotencyKeys = vi.fn();
+const releaseIdempotencyKeys = vi.fn();
+const pipeline = {
+    hgetall: vi.fn(),
+    hset: vi.fn(),
+    rpush: vi.fn(),
+    exec: vi.fn(async (): Promise<unknown[]> => []),
+};
+
+vi.mock('@/lib/redis', () => ({
+    redis: {
+        incrby: vi.fn(async () => 12),
+        pipeline: () => pipeline,
+    },
+}));
+
+vi.mock('@/lib/job-index', () => ({
+    defineJobIndexScripts: vi.fn(),
+    indexNewJob: vi.fn(),
+}));
+
+vi.mock('@/lib/job-idempotency', async (importOriginal) => ({
+    ...(await importOriginal<typeof import('@/lib/job-idempotency')>()),
+    claimIdempotencyKeys,
+    releaseIdempotencyKeys,
+}));
+
+function enqueueRequest(jobs: Array<Record<string, unknown>>) {
+    return new Request('http://localhost/api/pipeline/jobs', {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ jobs }),
+    });
+}
+
+describe('POST /api/pipeline/jobs idempotency', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    it('returns the existing job id instead of queueing a duplicate', async () => {
+        claimIdempotencyKeys.mockResolvedValue(['7', null]);
+        pipeline.exec.mockResolvedValueOnce([[null, { task: 'download', run_id: '5', source_id: '1', source_url_id: '100' }]]);
+
+        const { POST } = await import('@/app/api/pipeline/jobs/route');
+        const response = await POST(enqueueRequest([
+            { task: 'download', run_id: '5', source_id: '1', source_url_id: '100' },
+            { task: 'download', run_id: '5', source_id: '1', source_url_id: '101' },
+        ]));
+        const json = await response.json();
+
+        expect(response.status).toBe(200);
+        expect(json.jobs.map((job: { id: string; deduplicated: boolean }) => [job.id, job.deduplicated])).toEqual([
+            ['7', true],
+            ['12', false],
+        ]);
+        expect(pipeline.rpush).toHaveBeenCalledTimes(1);
+        expect(pipeline.rpush).toHaveBeenCalledWith('queue:download', '12');
+    });
+
+    it('uses client keys as-is and derives run-scoped keys for the rest', async () => {
+        claimIdempotencyKeys.mockResolvedValue([null, null, null]);
+
+        const { POST } = await import('@/app/api/pipeline/jobs/route');
+        await POST(enqueueRequest([
+            { task: 'discover', source_id: '1', idempotency_key: 'click-1' },
+            { task: 'download', run_id: '5', source_id: '1', source_url_id: '100' },
+            { task: 'discover', source_id: '2' },
+        ]));
+
+        expect(claimIdempotencyKeys).toHaveBeenCalledWith([
+            { key: 'click-1', id: '10', activeOnly: false },
+            { key: 'auto:download:5:1:100:', id: '11', activeOnly: true },
+            null,
+        ]);
+    });
+});
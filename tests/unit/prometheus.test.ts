@@ -0,0 +1,75 @@
+import { describe, expect, it, vi } from 'vitest';
+
+vi.mock('@/lib/redis', () => ({ redis: {} }));
+vi.mock('@/lib/supabase', () => ({ supabase: {} }));
+
+import { buildQueueFamilies, formatPrometheus } from '@/lib/prometheus';
+
+describe('formatPrometheus', () => {
+    it('writes HELP/TYPE headers and escapes label values', () => {
+        const text = formatPrometheus([
+            {
+                name: 'hud_example',
+                help: 'Example gauge.',
+                type: 'gauge',
+                samples: [
+                    { value: 3 },
+                    { labels: { name: 'a "quoted"\\path\nnext' }, value: Infinity },
+                ],
+            },
+        ]);
+
+        expect(text).toBe([
+            '# HELP hud_example Example gauge.',
+            '# TYPE hud_example gauge',
+            'hud_example 3',
+            'hud_example{name="a \\"quoted\\"\\\\path\\nnext"} +Inf',
+            '',
+        ].join('\n'));
+    });
+});
+
+describe('buildQueueFamilies', () => {
+    const families = buildQueueFamilies({
+        lanes: [{ key: 'queue:ocr:high', task: 'ocr', priority: 'high', length: 4 }],
+        counts: { 'ocr:processing': '2', 'download:pending': '-1', broken: '5' },
+        durations: { 'ocr:sum_ms': '4500', 'ocr:count': '3' },
+        workerCounts: { 'worker-1:completed': '9' },
+        controls: { ocr: JSON.stringify({ mode: 'draining', since: '2026-01-01T00:00:00Z' }) },
+        delayed: 1,
+        dead: 2,
+        reaped: 5,
+    });
+    const byName = (name: string) => families.find((family) => family.name === name)!;
+
+    it('reports lane depth and job counters by task and status', () => {
+        expect(byName('hud_queue_lane_depth').samples).toEqual([
+            { labels: { lane: 'queue:ocr:high', task: 'ocr', priority: 'high' }, value: 4 },
+        ]);
+        expect(byName('hud_jobs').samples).toEqual([
+            { labels: { task: 'ocr', status: 'processing' }, value: 2 },
+            { labels: { task: 'download', status: 'pending' }, value: 0 },
+        ]);
+        expect(byName('hud_worker_jobs_total').samples).toEqual([
+            { labels: { worker: 'worker-1', outcome: 'completed' }, value: 9 },
+        ]);
+    });
+
+    it('exports job durations as one summary family', () => {
+        const durations = byName('hud_job_duration_seconds');
+        expect(durations.type).toBe('summary');
+        expect(formatPrometheus([durations]).split('\n')).toEqual([
+            '# HELP hud_job_duration_seconds Processing time of completed jobs.',
+            '# TYPE hud_job_duration_seconds summary',
+            'hud_job_duration_seconds_sum{task="ocr"} 4.5',
+            'hud_job_duration_seconds_count{task="ocr"} 3',
+            '',
+        ]);
+    });
+
+    it('encodes the queue control mode per scope', () => {
+        const paused = byName('hud_queue_paused').samples;
+        expect(paused.find((sample) => sample.labels?.scope === 'ocr')?.value).toBe(2);
+        expect(paused.find((sample) => sample.labels?.scope === 'all')?.value).toBe(0);
+    });
+});
@@ -0,0 +1,41 @@
+import { describe, expect, it, vi } from 'vitest';
+
+vi.mock('@/lib/redis', () => ({ redis: {} }));
+
+import { buildQueueControlStatus } from '@/lib/queue-control';
+
+describe('buildQueueControlStatus', () => {
+    const counts = {
+        'ocr:processing': '2',
+        'discover:processing': '1',
+        'discover:pending': '5',
+        'scrapy:processing': '1',
+    };
+
+    it('reports every scope as running when nothing is set', () => {
+        const status = buildQueueControlStatus({}, counts);
+        expect(status.map((row) => row.scope)).toEqual(['all', 'discover', 'download', 'ocr']);
+        expect(status.every((row) => row.mode === 'running' && !row.drained)).toBe(true);
+        expect(status.find((row) => row.scope === 'all')?.processing).toBe(4);
+        expect(status.find((row) => row.scope === 'ocr')?.processing).toBe(2);
+    });
+
+    it('tracks draining scopes until no job is processing', () => {
+        const controls = {
+            ocr: JSON.stringify({ mode: 'draining', since: '2026-01-01T00:00:00.000Z' }),
+            download: JSON.stringify({ mode: 'draining', since: '2026-01-01T00:00:00.000Z' }),
+            discover: JSON.stringify({ mode: 'paused', since: '2026-01-01T00:00:00.000Z' }),
+        };
+        const status = buildQueueControlStatus(controls, counts);
+        const byScope = Object.fromEntries(status.map((row) => [row.scope, row]));
+
+        expect(byScope.ocr).toMatchObject({ mode: 'draining', processing: 2, drained: false });
+        expect(byScope.download).toMatchObject({ mode: 'draining', processing: 0, drained: true });
+        expect(byScope.discover).toMatchObject({ mode: 'paused', drained: false, since: '2026-01-01T00:00:00.000Z' });
+    });
+
+    it('ignores malformed entries', () => {
+        const status = buildQueueControlStatus({ all: 'nope', ocr: JSON.stringify({ mode: 'stopped' }) }, {});
+        expect(status.every((row) => row.mode === 'running')).toBe(true);
+    });
+});
@@ -0,0 +1,36 @@
+import { describe, expect, it, vi } from 'vitest';
+
+vi.mock('@/lib/redis', () => ({ redis: {} }));
+
+import { defaultPriority, laneKey, laneKeyForJob, lanePopOrder } from '@/lib/queue-lanes';
+
+describe('laneKey', () => {
+    it('names lanes per task and priority', () => {
+        expect(laneKey('discover')).toBe('queue:discover');
+        expect(laneKey('ocr', 'high')).toBe('queue:ocr:high');
+        expect(laneKey('download', 'low')).toBe('queue:download:low');
+    });
+
+    it('keeps unknown tasks on the legacy queue', () => {
+        expect(laneKey('scrapy', 'high')).toBe('queue');
+        expect(laneKeyForJob({ task: 'ocr', priority: 'bogus' })).toBe('queue:ocr');
+        expect(laneKeyForJob({})).toBe('queue');
+    });
+});
+
+describe('lanePopOrder', () => {
+    it('orders lanes by priority and ends with the legacy queue', () => {
+        expect(lanePopOrder('ocr')).toEqual(['queue:ocr:high', 'queue:ocr', 'queue:ocr:low', 'queue']);
+        const all = lanePopOrder();
+        expect(all.slice(0, 3)).toEqual(['queue:discover:high', 'queue:download:high', 'queue:ocr:high']);
+        expect(all.at(-1)).toBe('queue');
+    });
+});
+
+describe('defaultPriority', () => {
+    it('lets manual jobs jump ahead and bulk batches yield', () => {
+        expect(defaultPriority({ manual: true })).toBe('high');
+        expect(defaultPriority({ manual: true, bulk: true })).toBe('low');
+        expect(defaultPriority({})).toBe('normal');
+    });
+});
@@ -0,0 +1,53 @@
+import { describe, expect, it, vi } from 'vitest';
+
+vi.mock('@/lib/redis', () => ({ redis: {} }));
+
+import { buildMetricsPoints, LATENCY_BOUNDS_MS, latencyBucket, summarizeLatency } from '@/lib/queue-metrics';
+
+describe('latencyBucket', () => {
+    it('maps a duration to the first bound it fits under', () => {
+        expect(latencyBucket(0)).toBe(0);
+        expect(latencyBucket(250)).toBe(0);
+        expect(latencyBucket(251)).toBe(1);
+        expect(latencyBucket(10 * 60 * 60 * 1000)).toBe(LATENCY_BOUNDS_MS.length);
+    });
+});
+
+describe('summarizeLatency', () => {
+    it('reports bucket upper bounds for each percentile', () => {
+        const histogram = new Array(LATENCY_BOUNDS_MS.length + 1).fill(0);
+        histogram[latencyBucket(400)] = 90;
+        histogram[latencyBucket(8000)] = 9;
+        histogram[latencyBucket(90000)] = 1;
+
+        expect(summarizeLatency(histogram)).toEqual({ count: 100, p50: 500, p95: 10000, p99: 10000 });
+    });
+
+    it('returns null without samples', () => {
+        expect(summarizeLatency(new Array(LATENCY_BOUNDS_MS.length + 1).fill(0))).toBeNull();
+    });
+});
+
+describe('buildMetricsPoints', () => {
+    const buckets: Array<Record<string, string>> = [
+        { 'ocr:enqueued': '3', 'ocr:completed': '2', 'ocr:run:2': '2', 'discover:failed': '1' },
+        { 'ocr:completed': '1', 'ocr:wait:0': '1' },
+        {},
+    ];
+
+    it('groups stored buckets into points', () => {
+        const { points, tasks } = buildMetricsPoints(buckets, 0, 60000, 2, null);
+
+        expect(tasks).toEqual(['discover', 'ocr']);
+        expect(points).toHaveLength(2);
+        expect(points[0]).toMatchObject({ at: '1970-01-01T00:00:00.000Z', enqueued: 3, completed: 3, failed: 1 });
+        expect(points[0].run).toMatchObject({ count: 2, p50: 1000 });
+        expect(points[0].wait).toMatchObject({ count: 1, p50: 250 });
+        expect(points[1]).toMatchObject({ at: '1970-01-01T00:02:00.000Z', enqueued: 0, wait: null, run: null });
+    });
+
+    it('filters by task', () => {
+        const { points } = buildMetricsPoints(buckets, 0, 60000, 1, 'discover');
+        expect(points.map((point) => [point.completed, point.failed])).toEqual([[0, 1], [0, 0], [0, 0]]);
+    });
+});
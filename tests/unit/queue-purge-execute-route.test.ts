@@ -0,0 +1,67 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const consumeQueuePurgePreview = vi.fn();
+const executeQueuePurge = vi.fn();
+
+vi.mock('@/lib/queue-purge-preview-store', () => ({
+    consumeQueuePurgePreview,
+}));
+
+vi.mock('@/lib/queue-purge', () => ({
+    executeQueuePurge,
+}));
+
+function executeRequest(body: Record<string, unknown>) {
+    return new Request('http://localhost/api/queue/purge/execute', {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify(body),
+    });
+}
+
+describe('POST /api/queue/purge/execute', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    it('rejects mismatched confirmation string', async () => {
+        const { POST } = await import('@/app/api/queue/purge/execute/route');
+        const response = await POST(executeRequest({ preview_token: 'preview-token', confirmation: 'WRONG' }));
+        const json = await response.json();
+
+        expect(response.status).toBe(400);
+        expect(json.error).toBe('Confirmation string mismatch');
+        expect(consumeQueuePurgePreview).not.toHaveBeenCalled();
+    });
+
+    it('rejects missing or expired preview token', async () => {
+        consumeQueuePurgePreview.mockReturnValue(null);
+
+        const { POST } = await import('@/app/api/queue/purge/execute/route');
+        const response = await POST(executeRequest({ preview_token: 'expired-token', confirmation: 'PURGE JOBS' }));
+        const json = await response.json();
+
+        expect(response.status).toBe(400);
+        expect(json.error).toBe('Preview token is missing, expired, or already used');
+        expect(executeQueuePurge).not.toHaveBeenCalled();
+    });
+
+    it('purges exactly the previewed job ids', async () => {
+        consumeQueuePurgePreview.mockReturnValue({
+            filter: { statuses: ['failed'], task: 'ocr' },
+            createdAt: '2026-03-04T10:00:00.000Z',
+            expiresAt: '2026-03-04T10:10:00.000Z',
+            jobIds: ['3', '7'],
+            summary: { total: 2, skipped_processing: 0, by_status: { failed: 2 }, by_task: { ocr: 2 }, sample: [] },
+        });
+        executeQueuePurge.mockResolvedValue({ deleted: 2, skipped_processing: 0 });
+
+        const { POST } = await import('@/app/api/queue/purge/execute/route');
+        const response = await POST(executeRequest({ preview_token: 'preview-token', confirmation: 'PURGE JOBS' }));
+        const json = await response.json();
+
+        expect(response.status).toBe(200);
+        expect(executeQueuePurge).toHaveBeenCalledWith(['3', '7']);
+        expect(json).toMatchObject({ success: true, previewed: 2, deleted: 2, skipped_processing: 0 });
+    });
+});
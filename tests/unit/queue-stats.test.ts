@@ -0,0 +1,69 @@
+import { describe, expect, it, vi } from 'vitest';
+
+vi.mock('@/lib/redis', () => ({ redis: {} }));
+
+import { buildJobStats, parseJobListQuery } from '@/lib/queue-stats';
+
+describe('buildJobStats', () => {
+    it('aggregates task:status counters into totals and per-task stats', () => {
+        const stats = buildJobStats(
+            {
+                'discover:pending': '2',
+                'discover:completed': '3',
+                'ocr:processing': '1',
+                'ocr:failed': '1',
+                'ocr:retrying': '2',
+                'download:canceled': '1',
+            },
+            {
+                'discover:sum_ms': '3000',
+                'discover:count': '3',
+            },
+        );
+
+        expect(stats).toMatchObject({
+            total: 10,
+            pending: 2,
+            processing: 1,
+            completed: 3,
+            failed: 1,
+            retrying: 2,
+            canceled: 1,
+            avgCompletionTimeMs: 1000,
+        });
+        expect(stats.byWorker.discover).toEqual({
+            total: 5,
+            pending: 2,
+            processing: 0,
+            completed: 3,
+            failed: 0,
+            avgCompletionTimeMs: 1000,
+        });
+        expect(stats.byWorker.ocr.total).toBe(4);
+        expect(stats.byWorker.ocr.avgCompletionTimeMs).toBeNull();
+    });
+
+    it('ignores zeroed and malformed counters', () => {
+        const stats = buildJobStats({ 'discover:pending': '0', broken: '5', 'ocr:pending': 'x' }, {});
+        expect(stats.total).toBe(0);
+        expect(stats.byWorker).toEqual({});
+        expect(stats.avgCompletionTimeMs).toBeNull();
+    });
+});
+
+describe('parseJobListQuery', () => {
+    it('reads paging and filter params', () => {
+        expect(parseJobListQuery(new URLSearchParams('offset=50&limit=25&status=failed'))).toEqual({
+            offset: 50,
+            limit: 25,
+            status: 'failed',
+            task: undefined,
+        });
+        expect(parseJobListQuery(new URLSearchParams('limit=abc'))).toEqual({
+            offset: undefined,
+            limit: undefined,
+            status: undefined,
+            task: undefined,
+        });
+    });
+});
@@ -0,0 +1,58 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const redis = {
+    set: vi.fn(),
+    defineCommand: vi.fn(),
+    releaseRedisLock: vi.fn(),
+};
+
+vi.mock('@/lib/redis', () => ({ redis }));
+
+function lock<T>(fn: () => Promise<T>) {
+    return import('@/lib/redis-lock').then(({ withRedisLock }) => withRedisLock('test:lock', 1000, fn));
+}
+
+describe('withRedisLock', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    it('runs the callback and releases the lock with its own token', async () => {
+        redis.set.mockResolvedValue('OK');
+        redis.releaseRedisLock.mockResolvedValue(1);
+
+        await expect(lock(async () => 'done')).resolves.toBe('done');
+
+        const token = redis.set.mock.calls[0][1];
+        expect(redis.set).toHaveBeenCalledWith('test:lock', token, 'PX', 1000, 'NX');
+        expect(redis.releaseRedisLock).toHaveBeenCalledWith('test:lock', token);
+    });
+
+    it('returns null without running the callback when the lock is held', async () => {
+        redis.set.mockResolvedValue(null);
+        const fn = vi.fn(async () => 'done');
+
+        await expect(lock(fn)).resolves.toBeNull();
+        expect(fn).not.toHaveBeenCalled();
+        expect(redis.releaseRedisLock).not.toHaveBeenCalled();
+    });
+
+    it('releases the lock when the callback throws', async () => {
+        redis.set.mockResolvedValue('OK');
+
+        await expect(lock(async () => {
+            throw new Error('boom');
+        })).rejects.toThrow('boom');
+        expect(redis.releaseRedisLock).toHaveBeenCalledTimes(1);
+    });
+});
+
+describe('isEnabled', () => {
+    it('parses on/off values and falls back otherwise', async () => {
+        const { isEnabled } = await import('@/lib/env-flags');
+        expect(isEnabled(' YES ', false)).toBe(true);
+        expect(isEnabled('off', true)).toBe(false);
+        expect(isEnabled(undefined, false)).toBe(false);
+        expect(isEnabled('maybe', true)).toBe(true);
+    });
+});
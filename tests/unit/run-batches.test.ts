@@ -0,0 +1,113 @@
+import { describe, expect, it, vi } from 'vitest';
+
+vi.mock('@/lib/redis', () => ({ redis: {} }));
+vi.mock('@/lib/supabase', () => ({ supabase: {} }));
+
+import { supabase } from '@/lib/supabase';
+import { BatchFilterSchema, createBatch, planBatchStarts, summarizeBatchRuns, type BatchRun } from '@/lib/run-batches';
+
+/** Chainable stand-in for a Supabase query builder that resolves to `result`. */
+function query(result: { data?: unknown; error?: { message: string } | null }) {
+    const builder: Record<string, unknown> = {
+        then: (resolve: (value: unknown) => unknown) => resolve({ data: null, error: null, ...result }),
+    };
+    for (const method of ['select', 'insert', 'delete', 'eq', 'in', 'contains', 'order', 'range', 'single']) {
+        builder[method] = vi.fn(() => builder);
+    }
+    return builder;
+}
+
+function run(id: number, batchId: string, status: string, overrides: Partial<BatchRun> = {}): BatchRun {
+    return {
+        id: String(id),
+        batch_id: batchId,
+        source_id: String(id * 10),
+        status,
+        active_stage: 'discovery',
+        started_at: status === 'pending' ? null : '2026-03-04T12:00:00.000Z',
+        finished_at: null,
+        error_message: null,
+        ...overrides,
+    };
+}
+
+describe('summarizeBatchRuns', () => {
+    it('aggregates queued, running per stage and finished runs', () => {
+        const summary = summarizeBatchRuns([
+            run(1, '7', 'pending'),
+            run(2, '7', 'running', { active_stage: 'documents' }),
+            run(3, '7', 'pending', { started_at: '2026-03-04T12:00:00.000Z' }),
+            run(4, '7', 'completed', { active_stage: 'summary' }),
+            run(5, '7', 'failed', { active_stage: 'ocr', error_message: 'Některé OCR joby selhaly' }),
+        ]);
+
+        expect(summary).toEqual({
+            total: 5,
+            queued: 1,
+            running: 2,
+            completed: 1,
+            failed: 1,
+            canceled: 0,
+            stages: { documents: 1, discovery: 1 },
+            progress: 40,
+            finished: false,
+        });
+    });
+
+    it('is finished once no run is queued or running', () => {
+        const summary = summarizeBatchRuns([run(1, '7', 'completed'), run(2, '7', 'canceled')]);
+        expect(summary.finished).toBe(true);
+        expect(summary.progress).toBe(100);
+        expect(summarizeBatchRuns([]).finished).toBe(false);
+    });
+});
+
+describe('planBatchStarts', () => {
+    it('fills each batch up to its limit, oldest queued runs first', () => {
+        const runs = [
+            run(5, '1', 'pending'),
+            run(2, '1', 'running'),
+            run(3, '1', 'pending'),
+            run(4, '1', 'pending'),
+            run(6, '2', 'pending'),
+            run(7, '2', 'pending'),
+        ];
+
+        const starts = planBatchStarts(runs, new Map([['1', 3], ['2', 1]]));
+        expect(starts.map((item) => item.id)).toEqual(['3', '4', '6']);
+    });
+
+    it('starts nothing while a batch is at its limit', () => {
+        const runs = [run(1, '1', 'running'), run(2, '1', 'running'), run(3, '1', 'pending')];
+        expect(planBatchStarts(runs, new Map([['1', 2]]))).toEqual([]);
+    });
+});
+
+describe('BatchFilterSchema', () => {
+    it('requires at least one filter', () => {
+        expect(BatchFilterSchema.safeParse({}).success).toBe(false);
+        expect(BatchFilterSchema.safeParse({ tag: '  ' }).success).toBe(false);
+    });
+
+    it('coerces numeric ids', () => {
+        expect(BatchFilterSchema.parse({ okres_id: 'CZ0201', typ_id: '4' })).toEqual({ okres_id: 'CZ0201', typ_id: 4 });
+    });
+});
+
+describe('createBatch', () => {
+    it('deletes the batch row when its runs cannot be inserted', async () => {
+        const cleanup = query({});
+        const from = vi.fn()
+            .mockReturnValueOnce(query({ data: [{ id: 4, name: 'Obec' }] }))
+            .mockReturnValueOnce(query({ data: [] }))
+            .mockReturnValueOnce(query({ data: { id: 9 } }))
+            .mockReturnValueOnce(query({ error: { message: 'insert failed' } }))
+            .mockReturnValueOnce(cleanup);
+        Object.assign(supabase, { from });
+
+        await expect(createBatch({ filter: { tag: 'obce' }, max_concurrent_runs: 2 })).rejects.toThrow('ingestion_runs insert failed');
+        expect(from).toHaveBeenLastCalledWith('ingestion_batches');
+        expect(cleanup.delete).toHaveBeenCalled();
+        expect(cleanup.eq).toHaveBeenCalledWith('id', '9');
+    });
+});
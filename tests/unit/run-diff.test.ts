@@ -0,0 +1,72 @@
+import { describe, expect, it, vi } from 'vitest';
+
+vi.mock('@/lib/supabase', () => ({ supabase: {} }));
+
+import { diffRunItems, type RunDiffInputItem } from '@/lib/run-diff';
+
+function item(overrides: Partial<RunDiffInputItem> = {}): RunDiffInputItem {
+    return {
+        item_key: 'https://example.cz/a',
+        item_label: null,
+        stage: 'discovery',
+        item_type: 'source_url',
+        status: 'completed',
+        file_checksum: null,
+        source_url_id: '1',
+        document_id: null,
+        error_message: null,
+        last_error_message: null,
+        ...overrides,
+    };
+}
+
+describe('diffRunItems', () => {
+    it('reports new and disappeared source URLs by item_key', () => {
+        const diff = diffRunItems(
+            [item({ item_key: 'a' }), item({ item_key: 'b' })],
+            [item({ item_key: 'b' }), item({ item_key: 'c', item_label: 'Úřední deska' })],
+        );
+
+        expect(diff.new_source_urls).toEqual([{ item_key: 'c', item_label: 'Úřední deska', source_url_id: '1', document_id: null }]);
+        expect(diff.removed_source_urls.map((entry) => entry.item_key)).toEqual(['a']);
+    });
+
+    it('reports documents whose checksum changed, ignoring missing checksums', () => {
+        const doc = (key: string, checksum: string | null) => item({ item_key: key, stage: 'documents', item_type: 'document', file_checksum: checksum, document_id: key });
+        const diff = diffRunItems(
+            [doc('d1', 'aaa'), doc('d2', 'bbb'), doc('d3', null)],
+            [doc('d1', 'aaa'), doc('d2', 'ccc'), doc('d3', 'ddd'), doc('d4', 'eee')],
+        );
+
+        expect(diff.changed_documents).toEqual([
+            { item_key: 'd2', item_label: null, source_url_id: '1', document_id: 'd2', base_checksum: 'bbb', head_checksum: 'ccc' },
+        ]);
+    });
+
+    it('reports items that went from completed to failed in the same stage', () => {
+        const diff = diffRunItems(
+            [
+                item({ item_key: 'x', stage: 'ocr', item_type: 'ocr_job' }),
+                item({ item_key: 'y', stage: 'ocr', item_type: 'ocr_job', status: 'failed' }),
+            ],
+            [
+                item({ item_key: 'x', stage: 'ocr', item_type: 'ocr_job', status: 'failed', error_message: 'old', last_error_message: 'timeout' }),
+                item({ item_key: 'y', stage: 'ocr', item_type: 'ocr_job', status: 'failed' }),
+                item({ item_key: 'x', stage: 'documents', item_type: 'document', status: 'failed' }),
+            ],
+        );
+
+        expect(diff.regressions).toEqual([
+            { item_key: 'x', item_label: null, source_url_id: '1', document_id: null, stage: 'ocr', error_message: 'timeout' },
+        ]);
+    });
+
+    it('uses the last row when a run has several rows for one key', () => {
+        const diff = diffRunItems(
+            [item({ item_key: 'x' })],
+            [item({ item_key: 'x', status: 'failed' }), item({ item_key: 'x', status: 'completed' })],
+        );
+
+        expect(diff.regressions).toEqual([]);
+    });
+});
@@ -0,0 +1,93 @@
+import { describe, expect, it, vi } from 'vitest';
+
+vi.mock('@/lib/redis', () => ({ redis: {} }));
+vi.mock('@/lib/supabase', () => ({ supabase: {} }));
+
+import { classifyRunJob, latestRunJobs, planRunStep, type RunJob, type RunJobState } from '@/lib/run-orchestrator';
+
+let nextId = 1;
+
+function jobs(task: string, ...states: RunJobState[]): RunJob[] {
+    return states.map((state) => {
+        const id = String(nextId++);
+        return { id, task, target: `t${id}`, state };
+    });
+}
+
+describe('classifyRunJob', () => {
+    it('treats a failed job as final only once it is dead-lettered', () => {
+        expect(classifyRunJob({ status: 'failed' })).toBe('active');
+        expect(classifyRunJob({ status: 'failed', dead_at: '2026-03-04T12:00:00.000Z' })).toBe('failed');
+    });
+
+    it('maps finished and pending statuses', () => {
+        expect(classifyRunJob({ status: 'completed' })).toBe('completed');
+        expect(classifyRunJob({ status: 'Done' })).toBe('completed');
+        expect(classifyRunJob({ status: 'canceled' })).toBe('canceled');
+        expect(classifyRunJob({ status: 'retrying' })).toBe('active');
+        expect(classifyRunJob({})).toBe('active');
+    });
+});
+
+describe('planRunStep', () => {
+    it('waits on the latest stage that still has active jobs', () => {
+        expect(planRunStep([])).toEqual({ action: 'wait', stage: 'discovery' });
+        expect(planRunStep(jobs('discover', 'active'))).toEqual({ action: 'wait', stage: 'discovery' });
+        expect(planRunStep([
+            ...jobs('discover', 'completed'),
+            ...jobs('download', 'completed', 'active'),
+        ])).toEqual({ action: 'wait', stage: 'documents' });
+        expect(planRunStep([
+            ...jobs('discover', 'completed'),
+            ...jobs('ocr', 'active'),
+        ])).toEqual({ action: 'wait', stage: 'ocr' });
+    });
+
+    it('moves to the next stage once the current one settled', () => {
+        expect(planRunStep(jobs('discover', 'completed'))).toEqual({ action: 'after_discovery' });
+        expect(planRunStep([
+            ...jobs('discover', 'completed'),
+            ...jobs('download', 'completed', 'canceled'),
+        ])).toEqual({ action: 'after_download' });
+        expect(planRunStep([
+            ...jobs('discover', 'completed'),
+            ...jobs('download', 'completed'),
+            ...jobs('ocr', 'completed', 'completed'),
+        ])).toEqual({ action: 'complete' });
+    });
+
+    it('fails the run when a settled stage has dead-lettered jobs', () => {
+        expect(planRunStep(jobs('discover', 'failed'))).toEqual({
+            action: 'fail',
+            stage: 'discovery',
+            error: 'Discovery job selhal',
+        });
+        expect(planRunStep(jobs('discover', 'canceled'))).toMatchObject({ action: 'fail', stage: 'discovery' });
+        expect(planRunStep([
+            ...jobs('discover', 'completed'),
+            ...jobs('download', 'completed', 'failed'),
+        ])).toMatchObject({ action: 'fail', stage: 'documents' });
+        expect(planRunStep([
+            ...jobs('download', 'completed'),
+            ...jobs('ocr', 'failed', 'active'),
+        ])).toEqual({ action: 'wait', stage: 'ocr' });
+    });
+
+    it('lets a retried job replace the failed job of the same target', () => {
+        const failed: RunJob = { id: '900', task: 'download', target: '11', state: 'failed' };
+        const retried: RunJob = { id: '901', task: 'download', target: '11', state: 'active' };
+        const done = jobs('discover', 'completed');
+
+        expect(latestRunJobs([failed, retried])).toEqual([retried]);
+        expect(planRunStep([...done, failed, retried])).toEqual({ action: 'wait', stage: 'documents' });
+        expect(planRunStep([...done, failed, { ...retried, state: 'completed' }])).toEqual({ action: 'after_download' });
+    });
+
+    it('waits on a retried download even after OCR settled', () => {
+        expect(planRunStep([
+            ...jobs('discover', 'completed'),
+            ...jobs('download', 'active'),
+            ...jobs('ocr', 'completed'),
+        ])).toEqual({ action: 'wait', stage: 'documents' });
+    });
+});
@@ -0,0 +1,92 @@
+import { describe, expect, it, vi } from 'vitest';
+
+vi.mock('@/lib/supabase', () => ({ supabase: {} }));
+
+import {
+    countStages,
+    formatRunReportCsv,
+    summarizeRunItems,
+    type RunReport,
+    type RunReportItem,
+} from '@/lib/run-report';
+
+function item(overrides: Partial<RunReportItem> = {}): RunReportItem {
+    return {
+        id: '1',
+        stage: 'discovery',
+        item_type: 'source_url',
+        status: 'completed',
+        item_key: 'https://example.cz/a',
+        item_label: null,
+        source_url_id: '10',
+        document_id: null,
+        job_id: null,
+        ingest_status: null,
+        ingest_reason: null,
+        filename: null,
+        document_url: null,
+        file_kind: null,
+        file_checksum: null,
+        error_message: null,
+        last_error_message: null,
+        review_reason: null,
+        needs_review: 'false',
+        created_at: null,
+        updated_at: null,
+        ...overrides,
+    };
+}
+
+const items = [
+    item({ id: '1', source_url_id: '10' }),
+    item({ id: '2', source_url_id: '11' }),
+    item({ id: '3', stage: 'documents', item_type: 'document', document_id: '20' }),
+    item({ id: '4', stage: 'documents', item_type: 'document', document_id: '21', status: 'failed' }),
+    item({ id: '5', stage: 'ocr', item_type: 'ocr_job', document_id: '20' }),
+    item({ id: '6', stage: 'ocr', item_type: 'ocr_job', document_id: '21', status: 'failed', error_message: 'Tesseract, "exit 1"' }),
+];
+
+describe('run report', () => {
+    it('summarizes the run like the pipeline summary card', () => {
+        expect(summarizeRunItems(items, new Set(['20']))).toEqual({
+            new_source_urls: 2,
+            changed_documents: 2,
+            blob_ok: 1,
+            ocr_completed: 1,
+            ocr_failed: 1,
+        });
+    });
+
+    it('counts items per stage and status', () => {
+        const stages = countStages([...items, item({ stage: 'documents', status: 'weird' })]);
+        expect(stages.map((stage) => stage.stage)).toEqual(['discovery', 'documents', 'ocr']);
+        expect(stages[1]).toMatchObject({ total: 3, completed: 1, failed: 1, other: 1 });
+    });
+
+    it('writes CSV blocks with quoted cells and neutralized formulas', () => {
+        const report: RunReport = {
+            generated_at: '2026-03-04T12:00:00.000Z',
+            run: {
+                id: '9',
+                source_id: '5',
+                source_name: 'Obec, Horní',
+                status: 'completed',
+                active_stage: 'summary',
+                started_at: null,
+                finished_at: null,
+                error_message: null,
+                created_at: null,
+            },
+            summary: summarizeRunItems(items, new Set()),
+            stages: countStages(items),
+            items: [items[5], item({ id: '7', item_label: '=HYPERLINK("x")' })],
+        };
+
+        const blocks = formatRunReportCsv(report).split('\r\n\r\n');
+        expect(blocks).toHaveLength(3);
+        expect(blocks[0]).toContain('run.source_name,"Obec, Horní"');
+        expect(blocks[1].split('\r\n')[0]).toBe('stage,total,pending,running,completed,failed,canceled,skipped,review_required,other');
+        expect(blocks[2]).toContain('"Tesseract, ""exit 1"""');
+        expect(blocks[2]).toContain(`"'=HYPERLINK(""x"")"`);
+    });
+});
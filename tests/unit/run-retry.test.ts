@@ -0,0 +1,97 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const enqueueJobs = vi.fn();
+const updates: Array<{ table: string; values: Record<string, unknown>; filter: [string, unknown] }> = [];
+let failedItems: Array<Record<string, unknown>> = [];
+
+function query(table: string) {
+    let values: Record<string, unknown> | null = null;
+    let filter: [string, unknown] = ['', null];
+    const builder = {
+        select: () => builder,
+        update: (next: Record<string, unknown>) => {
+            values = next;
+            return builder;
+        },
+        eq: (column: string, value: unknown) => {
+            if (!filter[0]) filter = [column, value];
+            return builder;
+        },
+        in: (column: string, value: unknown) => {
+            filter = [column, value];
+            return builder;
+        },
+        then: (resolve: (result: unknown) => void) => {
+            if (values) {
+                updates.push({ table, values, filter });
+                resolve({ error: null });
+            } else {
+                resolve({ data: failedItems, error: null });
+            }
+        },
+    };
+    return builder;
+}
+
+vi.mock('@/lib/supabase', () => ({ supabase: { from: (table: string) => query(table) } }));
+vi.mock('@/lib/job-enqueue', () => ({ DEFAULT_OCR_OPTIONS: { mode: 'hybrid' }, enqueueJobs }));
+
+function retry(...args: Parameters<typeof import('@/lib/run-retry').retryFailedRunItems>) {
+    return import('@/lib/run-retry').then(({ retryFailedRunItems }) => retryFailedRunItems(...args));
+}
+
+const NOW = new Date('2026-03-04T12:00:00.000Z');
+
+describe('retryFailedRunItems', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        updates.length = 0;
+        enqueueJobs.mockImplementation(async (jobs: unknown[]) => jobs.map((_, i) => ({ id: String(100 + i), deduplicated: false })));
+    });
+
+    it('enqueues one download per failed source URL and resets the items', async () => {
+        failedItems = [
+            { id: 1, source_id: 5, source_url_id: 11, document_id: null },
+            { id: 2, source_id: 5, source_url_id: 11, document_id: null },
+            { id: 3, source_id: 5, source_url_id: 12, document_id: null },
+            { id: 4, source_id: 5, source_url_id: null, document_id: null },
+        ];
+
+        const result = await retry({ id: '9', source_id: '5' }, 'documents', NOW);
+
+        expect(result).toEqual({ run_id: '9', stage: 'documents', items: 4, enqueued: 2, skipped: 1 });
+        expect(enqueueJobs).toHaveBeenCalledWith([
+            { task: 'download', run_id: '9', source_id: '5', source_url_id: '11', manual: true },
+            { task: 'download', run_id: '9', source_id: '5', source_url_id: '12', manual: true },
+        ], { now: NOW });
+        expect(updates.filter((update) => update.table === 'ingestion_items')).toEqual([
+            { table: 'ingestion_items', values: { status: 'pending', job_id: '100', updated_at: NOW.toISOString() }, filter: ['id', ['1', '2']] },
+            { table: 'ingestion_items', values: { status: 'pending', job_id: '101', updated_at: NOW.toISOString() }, filter: ['id', ['3']] },
+        ]);
+        expect(updates.find((update) => update.table === 'ingestion_runs')?.values).toMatchObject({
+            status: 'running',
+            active_stage: 'documents',
+            finished_at: null,
+        });
+    });
+
+    it('enqueues OCR per failed document with the default OCR options', async () => {
+        failedItems = [{ id: 7, source_id: 5, source_url_id: 11, document_id: 31 }];
+
+        await retry({ id: '9', source_id: null }, 'ocr', NOW);
+
+        expect(enqueueJobs).toHaveBeenCalledWith([
+            { task: 'ocr', run_id: '9', source_id: '5', document_id: '31', manual: true, mode: 'hybrid' },
+        ], { now: NOW });
+    });
+
+    it('leaves the run alone when nothing is retryable', async () => {
+        failedItems = [{ id: 4, source_id: 5, source_url_id: 11, document_id: null }];
+
+        const result = await retry({ id: '9', source_id: '5' }, 'ocr', NOW);
+
+        expect(result).toEqual({ run_id: '9', stage: 'ocr', items: 1, enqueued: 0, skipped: 1 });
+        expect(enqueueJobs).not.toHaveBeenCalled();
+        expect(updates).toEqual([]);
+    });
+});
@@ -5,6 +5,8 @@ import {
     buildListSourceConfig,
     buildRssItemIdentityKey,
     buildRssSourceConfig,
+    buildSourceRateLimits,
+    sourceRateLimitKey,
     validateSourcePayload,
 } from '@/lib/source-config';
 
@@ -86,4 +88,20 @@ describe('source-config', () => {
             expect(result.data.crawl_strategy).toBe('list');
         }
     });
+
+    it('builds rate limits from form inputs', () => {
+        expect(buildSourceRateLimits({ scope: 'source', maxConcurrentJobs: '', requestsPerMinute: ' ' })).toBeNull();
+        expect(buildSourceRateLimits({ scope: 'domain', maxConcurrentJobs: '2', requestsPerMinute: '0' })).toEqual({
+            scope: 'domain',
+            max_concurrent_jobs: 2,
+            requests_per_minute: null,
+        });
+    });
+
+    it('keys rate limits per source or per base_url host', () => {
+        const source = { id: 7, base_url: 'https://www.Obec-Example.cz/uredni-deska' };
+        expect(sourceRateLimitKey(source, 'source')).toBe('source:7');
+        expect(sourceRateLimitKey(source, 'domain')).toBe('domain:obec-example.cz');
+        expect(sourceRateLimitKey({ id: 8, base_url: 'not a url' }, 'domain')).toBe('source:8');
+    });
 });
@@ -0,0 +1,33 @@
+import { describe, expect, it, vi } from 'vitest';
+
+vi.mock('@/lib/redis', () => ({ redis: {} }));
+
+import { computeFailureRate, matchWorkerContainer } from '@/lib/worker-registry';
+
+const containers = [
+    { Id: 'a1b2c3d4e5f6a7b8c9d0', Names: ['/scrapy-worker-1'], State: 'running' },
+    { Id: 'ffeeddccbbaa99887766', Names: ['/ocr-worker'], State: 'exited' },
+];
+
+describe('matchWorkerContainer', () => {
+    it('matches by container name equal to the worker id or host', () => {
+        expect(matchWorkerContainer({ id: 'scrapy-worker-1', host: '' }, containers)?.Id).toBe('a1b2c3d4e5f6a7b8c9d0');
+        expect(matchWorkerContainer({ id: 'ocr-1', host: 'ocr-worker' }, containers)?.Id).toBe('ffeeddccbbaa99887766');
+    });
+
+    it('matches by short container id used as the default hostname', () => {
+        expect(matchWorkerContainer({ id: 'w-7', host: 'ffeeddccbbaa' }, containers)?.Id).toBe('ffeeddccbbaa99887766');
+    });
+
+    it('returns null when nothing matches', () => {
+        expect(matchWorkerContainer({ id: 'w-7', host: 'laptop' }, containers)).toBeNull();
+        expect(matchWorkerContainer({ id: 'w-7', host: 'a1b2' }, containers)).toBeNull();
+    });
+});
+
+describe('computeFailureRate', () => {
+    it('divides failures by finished jobs', () => {
+        expect(computeFailureRate(3, 1)).toBe(0.25);
+        expect(computeFailureRate(0, 0)).toBeNull();
+    });
+});